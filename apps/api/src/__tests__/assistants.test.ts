@@ -0,0 +1,150 @@
+import "./setup";
+import { describe, test, expect } from "bun:test";
+import { RuntimeContext } from "@mastra/core/runtime-context";
+import type { Assistant } from "@chatbot/shared/types";
+import { MAX_STARTER_PROMPTS, parseAssistant } from "../lib/assistants";
+import { THREAD_SETTINGS } from "../lib/thread-settings";
+
+// The agent's memory needs an embedding model, which needs a key
+process.env.GOOGLE_GENERATIVE_AI_API_KEY ??= "test-gemini-key";
+
+const { chatAgentTools, createChatAgent } = await import("../mastra/agents/chat-agent");
+
+/**
+ * Custom Assistant Tests
+ *
+ * These tests verify how assistants sent by the client are checked and
+ * how an agent built for an assistant takes on its persona and tools.
+ */
+
+const options = {
+  models: ["google/gemini-2.0-flash", "ollama/llama3.2"],
+  tools: ["googleGmailTool", "googleContactsTool", "googleDriveReadTool"],
+};
+
+const createAssistant = (overrides: Partial<Assistant> = {}): Assistant => ({
+  id: "assistant-1",
+  userId: "user-123",
+  name: "Inbox Helper",
+  instructions: "Triage my inbox and reply in a friendly tone.",
+  tools: ["googleGmailTool", "googleGmailReadTool"],
+  model: null,
+  starterPrompts: ["What needs a reply today?"],
+  createdAt: new Date("2025-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2025-01-01T00:00:00.000Z"),
+  ...overrides,
+});
+
+describe("Custom Assistants", () => {
+  describe("parseAssistant", () => {
+    test("accepts an assistant", () => {
+      expect(
+        parseAssistant(
+          {
+            name: "  Inbox Helper ",
+            instructions: "Triage my inbox.",
+            tools: ["googleGmailTool", "googleGmailTool"],
+            model: "ollama/llama3.2",
+            starterPrompts: [" What needs a reply? ", ""],
+          },
+          options
+        )
+      ).toEqual({
+        assistant: {
+          name: "Inbox Helper",
+          instructions: "Triage my inbox.",
+          tools: ["googleGmailTool"],
+          model: "ollama/llama3.2",
+          starterPrompts: ["What needs a reply?"],
+        },
+      });
+    });
+
+    test("gives every tool and the default model when left out", () => {
+      expect(parseAssistant({ name: "Helper", instructions: "Help." }, options)).toEqual({
+        assistant: {
+          name: "Helper",
+          instructions: "Help.",
+          tools: options.tools,
+          model: null,
+          starterPrompts: [],
+        },
+      });
+    });
+
+    test("rejects invalid assistants", () => {
+      expect(parseAssistant("Helper", options)).toEqual({ error: "Assistant must be an object" });
+      expect(parseAssistant({ name: " ", instructions: "Help." }, options)).toHaveProperty("error");
+      expect(parseAssistant({ name: "Helper" }, options)).toHaveProperty("error");
+      expect(
+        parseAssistant({ name: "Helper", instructions: "Help.", tools: ["rm -rf"] }, options)
+      ).toEqual({ error: "tools must list known tools" });
+      expect(
+        parseAssistant({ name: "Helper", instructions: "Help.", model: "openai/gpt-4o" }, options)
+      ).toEqual({ error: "Unknown model" });
+      expect(
+        parseAssistant(
+          {
+            name: "Helper",
+            instructions: "Help.",
+            starterPrompts: Array(MAX_STARTER_PROMPTS + 1).fill("Hi"),
+          },
+          options
+        )
+      ).toHaveProperty("error");
+    });
+  });
+
+  describe("createChatAgent", () => {
+    test("the default agent has every tool", async () => {
+      const tools = await createChatAgent().getTools({ runtimeContext: new RuntimeContext() });
+
+      expect(Object.keys(tools)).toEqual(Object.keys(chatAgentTools));
+    });
+
+    test("an assistant's agent has only its tools, narrowed by the thread's settings", async () => {
+      const agent = createChatAgent(createAssistant());
+
+      const runtimeContext = new RuntimeContext();
+      expect(Object.keys(await agent.getTools({ runtimeContext }))).toEqual([
+        "googleGmailTool",
+        "googleGmailReadTool",
+      ]);
+
+      runtimeContext.set(THREAD_SETTINGS, { enabledTools: ["googleGmailReadTool", "googleDriveReadTool"] });
+      expect(Object.keys(await agent.getTools({ runtimeContext }))).toEqual(["googleGmailReadTool"]);
+    });
+
+    test("an agent is only told about the tools it has", async () => {
+      const runtimeContext = new RuntimeContext();
+      const agent = createChatAgent(createAssistant());
+      const instructions = async () => String(await agent.getInstructions({ runtimeContext }));
+
+      expect(await instructions()).toContain("googleGmailReadTool");
+      expect(await instructions()).not.toContain("googleGmailSendTool");
+      expect(await instructions()).not.toContain("googleCalendar");
+      expect(String(await createChatAgent().getInstructions({ runtimeContext }))).toContain(
+        "googleCalendarCreateEventTool"
+      );
+
+      runtimeContext.set(THREAD_SETTINGS, { enabledTools: [] });
+      expect(await instructions()).toContain("You have no tools");
+      expect(await instructions()).not.toContain("googleGmail");
+    });
+
+    test("an assistant's agent follows its persona before the thread's prompt", async () => {
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set(THREAD_SETTINGS, { systemPrompt: "Answer in French." });
+
+      const instructions = String(
+        await createChatAgent(createAssistant()).getInstructions({ runtimeContext })
+      );
+
+      expect(instructions).toContain("You are Inbox Helper");
+      expect(instructions).toContain("Triage my inbox and reply in a friendly tone.");
+      expect(instructions.indexOf("Triage my inbox")).toBeLessThan(
+        instructions.indexOf("Answer in French.")
+      );
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import "./setup";
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { MastraMessageV2 } from "@mastra/core/agent";
+import { createLocalBlobStore, type BlobStore } from "../lib/blob-store";
+import {
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_BYTES,
+  checkAttachmentFile,
+  createAttachmentMessage,
+  deleteAttachment,
+  getAttachmentUrlId,
+  getMessageAttachments,
+  hasAttachmentSpace,
+  loadAttachment,
+  parseAttachmentIds,
+  saveAttachment,
+} from "../lib/attachments";
+
+/**
+ * Attachment Tests
+ *
+ * These tests verify which uploads are accepted, how attached files are
+ * stored per user within their quota, and how they are sent to the model
+ * with a message.
+ */
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe("Attachments", () => {
+  let root: string;
+  let store: BlobStore;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), "blobs-"));
+    store = createLocalBlobStore({ root });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe("local blob store", () => {
+    test("keeps data with its content type and metadata", async () => {
+      await store.put("user-123/report", {
+        data: bytes("a,b\n1,2"),
+        contentType: "text/csv",
+        metadata: { name: "report.csv" },
+      });
+
+      expect(await store.get("user-123/report")).toEqual({
+        data: bytes("a,b\n1,2"),
+        contentType: "text/csv",
+        metadata: { name: "report.csv" },
+      });
+      expect(await store.get("user-123/missing")).toBeNull();
+
+      await store.delete("user-123/report");
+      expect(await store.get("user-123/report")).toBeNull();
+    });
+
+    test("lists the files under a prefix with their sizes", async () => {
+      await store.put("user-123/a1", { data: bytes("abc"), contentType: "text/plain" });
+      await store.put("user-123/a2", { data: bytes("hello"), contentType: "text/plain" });
+      await store.put("user-456/b1", { data: bytes("x"), contentType: "text/plain" });
+
+      const listed = await store.list("user-123");
+      expect(listed.sort((a, b) => a.key.localeCompare(b.key))).toEqual([
+        { key: "user-123/a1", size: 3 },
+        { key: "user-123/a2", size: 5 },
+      ]);
+      expect(await store.list("user-789")).toEqual([]);
+    });
+
+    test("rejects keys that could leave its directory", async () => {
+      for (const key of ["../escape", "user-123/../../escape", "/etc/passwd", ""]) {
+        await expect(store.get(key)).rejects.toThrow("Invalid blob key");
+      }
+    });
+  });
+
+  describe("checkAttachmentFile", () => {
+    test("accepts supported types, falling back to the extension", () => {
+      expect(checkAttachmentFile({ name: "scan.pdf", type: "application/pdf", size: 10 })).toEqual({
+        name: "scan.pdf",
+        contentType: "application/pdf",
+      });
+      expect(
+        checkAttachmentFile({ name: "notes.txt", type: "text/plain;charset=utf-8", size: 10 })
+      ).toEqual({ name: "notes.txt", contentType: "text/plain" });
+      expect(checkAttachmentFile({ name: "README.MD", type: "", size: 10 })).toEqual({
+        name: "README.MD",
+        contentType: "text/markdown",
+      });
+      expect(
+        checkAttachmentFile({ name: "data.csv", type: "application/vnd.ms-excel", size: 10 })
+      ).toEqual({ name: "data.csv", contentType: "text/csv" });
+    });
+
+    test("rejects unsupported types and empty or oversized files", () => {
+      const typeError = { error: "Only PDFs, images, CSV and text files can be attached" };
+      expect(
+        checkAttachmentFile({ name: "app.exe", type: "application/octet-stream", size: 10 })
+      ).toEqual(typeError);
+      expect(checkAttachmentFile({ name: "page.html", type: "text/html", size: 10 })).toEqual(
+        typeError
+      );
+
+      const sizeError = { error: "Attachments must be between 1 byte and 10 MB" };
+      expect(checkAttachmentFile({ name: "empty.txt", type: "text/plain", size: 0 })).toEqual(
+        sizeError
+      );
+      expect(
+        checkAttachmentFile({ name: "big.png", type: "image/png", size: MAX_ATTACHMENT_BYTES + 1 })
+      ).toEqual(sizeError);
+    });
+  });
+
+  describe("parseAttachmentIds", () => {
+    test("accepts a short list of IDs, attaching each once", () => {
+      expect(parseAttachmentIds(["a1", "b2", "a1"])).toEqual({ ids: ["a1", "b2"] });
+      expect(parseAttachmentIds(undefined)).toEqual({ ids: [] });
+    });
+
+    test("rejects anything else", () => {
+      const error = {
+        error: `attachments must be a list of at most ${MAX_ATTACHMENTS} attachment IDs`,
+      };
+      expect(parseAttachmentIds("a1")).toEqual(error);
+      expect(parseAttachmentIds([42])).toEqual(error);
+      expect(parseAttachmentIds(["../other-user/file"])).toEqual(error);
+      expect(
+        parseAttachmentIds(Array.from({ length: MAX_ATTACHMENTS + 1 }, (_, i) => `id-${i}`))
+      ).toEqual(error);
+    });
+  });
+
+  test("only the user who uploaded a file can load it", async () => {
+    const attachment = await saveAttachment(store, "user-123", {
+      name: "photo.png",
+      contentType: "image/png",
+      data: bytes("png"),
+    });
+
+    expect(attachment).toEqual({
+      id: expect.any(String),
+      name: "photo.png",
+      contentType: "image/png",
+      size: 3,
+    });
+    expect(await loadAttachment(store, "user-123", attachment.id)).toEqual({
+      attachment,
+      data: bytes("png"),
+    });
+    expect(await loadAttachment(store, "user-456", attachment.id)).toBeNull();
+    expect(await loadAttachment(store, "user-123", "../user-123")).toBeNull();
+  });
+
+  test("a user's attachments must fit in their storage quota", async () => {
+    const attachment = await saveAttachment(store, "user-123", {
+      name: "notes.txt",
+      contentType: "text/plain",
+      data: bytes("1234567"),
+    });
+
+    expect(await hasAttachmentSpace(store, "user-123", 3, 10)).toBe(true);
+    expect(await hasAttachmentSpace(store, "user-123", 4, 10)).toBe(false);
+    // Other users' files don't count
+    expect(await hasAttachmentSpace(store, "user-456", 10, 10)).toBe(true);
+
+    await deleteAttachment(store, "user-456", attachment.id);
+    expect(await loadAttachment(store, "user-123", attachment.id)).not.toBeNull();
+    await deleteAttachment(store, "user-123", attachment.id);
+    expect(await loadAttachment(store, "user-123", attachment.id)).toBeNull();
+    expect(await hasAttachmentSpace(store, "user-123", 10, 10)).toBe(true);
+  });
+
+  test("createAttachmentMessage links files as file parts and lists them in metadata", () => {
+    const pdf = { id: "a1", name: "scan.pdf", contentType: "application/pdf", size: 3 };
+    const notes = { id: "b2", name: "notes.md", contentType: "text/markdown", size: 2 };
+
+    const message = createAttachmentMessage("Summarize these", [pdf, notes]);
+
+    expect(message.role).toBe("user");
+    expect(message.content.parts).toEqual([
+      { type: "text", text: "Summarize these" },
+      { type: "file", mimeType: "application/pdf", data: "attachment:a1" },
+      { type: "file", mimeType: "text/plain", data: "attachment:b2" },
+    ]);
+    expect(getMessageAttachments(message)).toEqual([pdf, notes]);
+  });
+
+  test("getAttachmentUrlId reads the ID from attachment links only", () => {
+    expect(getAttachmentUrlId("attachment:a1")).toBe("a1");
+    expect(getAttachmentUrlId(new URL("attachment:b2"))).toBe("b2");
+    expect(getAttachmentUrlId("attachment:../a1")).toBeNull();
+    expect(getAttachmentUrlId("https://example.com/a1")).toBeNull();
+    expect(getAttachmentUrlId(bytes("attachment:a1"))).toBeNull();
+  });
+
+  test("getMessageAttachments ignores malformed metadata", () => {
+    const withMetadata = (metadata: Record<string, unknown> | undefined) =>
+      ({
+        id: "m1",
+        role: "user",
+        createdAt: new Date(),
+        content: { format: 2, parts: [], metadata },
+      }) as unknown as MastraMessageV2;
+
+    expect(getMessageAttachments(withMetadata(undefined))).toEqual([]);
+    expect(getMessageAttachments(withMetadata({ attachments: "a1" }))).toEqual([]);
+    const notes = { id: "b2", name: "notes.txt", contentType: "text/plain", size: 1 };
+    expect(
+      getMessageAttachments(withMetadata({ attachments: [null, { id: "a1" }, notes] }))
+    ).toEqual([notes]);
+  });
+});
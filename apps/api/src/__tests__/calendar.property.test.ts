@@ -0,0 +1,445 @@
+import "./setup";
+import { describe, test, expect, mock, beforeAll, afterAll, beforeEach } from "bun:test";
+import * as fc from "fast-check";
+import { RuntimeContext } from "@mastra/core/di";
+import {
+  googleCalendarCreateEventTool,
+  googleCalendarFreeBusyTool,
+  googleCalendarListEventsTool,
+} from "../mastra/tools/google-calendar";
+import {
+  formatInTimeZone,
+  minuteOfDay,
+  toInstant,
+} from "../mastra/tools/calendar-time";
+import {
+  CALENDAR_EVENTS_SCOPE,
+  CALENDAR_READ_SCOPE,
+  GOOGLE_SCOPES,
+  USER_TIME_ZONE,
+} from "../mastra/tools/google-api";
+import { startMockCalendarServer } from "./mock-calendar-server";
+
+/**
+ * Google Calendar Tools Property Tests
+ *
+ * These tests run the calendar tools against a local mock Calendar server
+ * and check time zone handling, event listing, free slot search and
+ * event creation for generated inputs.
+ */
+
+const originalFetch = globalThis.fetch;
+
+const createMockFetch = (handler: (url: string, init?: RequestInit) => Promise<Response>) => {
+  const mockFn = mock(handler) as any;
+  mockFn.preconnect = () => {};
+  return mockFn as typeof fetch;
+};
+
+const MINUTE_MS = 60 * 1000;
+
+const TIME_ZONES = [
+  "UTC",
+  "America/New_York",
+  "America/Los_Angeles",
+  "Europe/Paris",
+  "Asia/Kolkata",
+  "Australia/Adelaide",
+  "Pacific/Chatham",
+];
+
+// Instants across 2024, including both DST transitions of most zones
+const instantArb = fc
+  .integer({ min: Date.UTC(2024, 0, 1), max: Date.UTC(2024, 11, 31) })
+  .map((ms) => new Date(Math.floor(ms / MINUTE_MS) * MINUTE_MS));
+
+const timeZoneArb = fc.constantFrom(...TIME_ZONES);
+
+// Wall-clock time in a zone without an offset, as the agent passes it
+const localTime = (date: Date, timeZone: string) =>
+  formatInTimeZone(date, timeZone).slice(0, 19);
+
+const createRuntimeContext = (scopes?: string[]) => {
+  const runtimeContext = new RuntimeContext();
+  runtimeContext.set("googleAccessToken", "valid-token");
+  if (scopes) runtimeContext.set(GOOGLE_SCOPES, scopes);
+  return runtimeContext;
+};
+
+describe("Google Calendar Tools Property Tests", () => {
+  const calendar = startMockCalendarServer();
+
+  beforeAll(() => {
+    // Calendar requests go to the mock server instead of Google
+    globalThis.fetch = createMockFetch((url, init) =>
+      originalFetch(url.replace("https://www.googleapis.com", calendar.url.origin), init)
+    );
+  });
+
+  beforeEach(() => calendar.reset());
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+    calendar.stop();
+  });
+
+  /**
+   * *For any* instant and time zone, the offset-qualified time resolves to
+   * the same instant, and a wall-clock time resolves to an instant showing
+   * that wall-clock time in the zone.
+   */
+  describe("Property: time zone conversion round-trips", () => {
+    test("formatInTimeZone and toInstant agree", () => {
+      fc.assert(
+        fc.property(instantArb, timeZoneArb, (instant, timeZone) => {
+          const formatted = formatInTimeZone(instant, timeZone);
+          expect(toInstant(formatted, timeZone).getTime()).toBe(instant.getTime());
+
+          const wallClock = localTime(instant, timeZone);
+          expect(localTime(toInstant(wallClock, timeZone), timeZone)).toBe(wallClock);
+        }),
+        { numRuns: 200 }
+      );
+    });
+
+    test("reads wall-clock times in the given zone", () => {
+      expect(toInstant("2024-07-01T09:00", "Europe/Paris").toISOString()).toBe(
+        "2024-07-01T07:00:00.000Z"
+      );
+      expect(toInstant("2024-01-15T09:00", "America/New_York").toISOString()).toBe(
+        "2024-01-15T14:00:00.000Z"
+      );
+      // 02:30 doesn't exist on the spring-forward day and moves to 03:30
+      expect(formatInTimeZone(toInstant("2024-03-10T02:30", "America/New_York"), "America/New_York")).toBe(
+        "2024-03-10T03:30:00-04:00"
+      );
+    });
+
+    test("rejects unknown time zones and malformed times", () => {
+      const base = { timeMin: "2024-05-01T00:00", timeMax: "2024-05-02T00:00" };
+      expect(
+        googleCalendarListEventsTool.inputSchema!.safeParse({ ...base, timeZone: "Mars/Olympus_Mons" }).success
+      ).toBe(false);
+      expect(
+        googleCalendarListEventsTool.inputSchema!.safeParse({ ...base, timeMin: "next tuesday" }).success
+      ).toBe(false);
+      expect(
+        googleCalendarListEventsTool.inputSchema!.safeParse({ ...base, timeZone: "Asia/Kolkata" }).success
+      ).toBe(true);
+    });
+  });
+
+  /**
+   * *For any* events on the calendar and any time window in any zone, the
+   * list tool returns exactly the events overlapping the window, in order.
+   */
+  describe("Property: list events returns the events in the window", () => {
+    const eventArb = fc.record({
+      offsetMinutes: fc.integer({ min: 0, max: 3 * 24 * 60 }),
+      durationMinutes: fc.integer({ min: 15, max: 240 }),
+      summary: fc.string({ minLength: 1, maxLength: 20 }),
+    });
+
+    test("matches the events overlapping the requested range", async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.array(eventArb, { maxLength: 15 }),
+          timeZoneArb,
+          fc.integer({ min: 0, max: 2 * 24 * 60 }),
+          fc.integer({ min: 30, max: 24 * 60 }),
+          async (events, timeZone, windowOffset, windowMinutes) => {
+            calendar.reset();
+            const origin = Date.UTC(2024, 4, 6);
+            calendar.state.events = events.map((event, i) => ({
+              id: `event-${i}`,
+              summary: event.summary,
+              start: new Date(origin + event.offsetMinutes * MINUTE_MS),
+              end: new Date(origin + (event.offsetMinutes + event.durationMinutes) * MINUTE_MS),
+            }));
+
+            const timeMin = localTime(new Date(origin + windowOffset * MINUTE_MS), timeZone);
+            const timeMax = localTime(
+              new Date(origin + (windowOffset + windowMinutes) * MINUTE_MS),
+              timeZone
+            );
+
+            const result = await googleCalendarListEventsTool.execute({
+              context: { timeMin, timeMax, timeZone, maxResults: 250, calendarId: "primary" },
+              runtimeContext: createRuntimeContext(),
+            });
+
+            const from = toInstant(timeMin, timeZone);
+            const to = toInstant(timeMax, timeZone);
+            const expected = calendar.state.events
+              .filter((event) => event.end > from && event.start < to)
+              .sort((a, b) => a.start.getTime() - b.start.getTime())
+              .map((event) => event.id);
+
+            expect(result.status).toBe("ok");
+            expect(result.timeZone).toBe(timeZone);
+            expect(result.events!.map((event) => event.id)).toEqual(expected);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    test("uses the user's browser time zone when none is given", async () => {
+      const runtimeContext = createRuntimeContext();
+      runtimeContext.set(USER_TIME_ZONE, "Asia/Kolkata");
+
+      const result = await googleCalendarListEventsTool.execute({
+        context: {
+          timeMin: "2024-05-06T00:00",
+          timeMax: "2024-05-07T00:00",
+          maxResults: 25,
+          calendarId: "primary",
+        },
+        runtimeContext,
+      });
+
+      expect(result.timeZone).toBe("Asia/Kolkata");
+      const request = calendar.state.requests[0];
+      expect(request.searchParams.get("timeMin")).toBe("2024-05-05T18:30:00.000Z");
+      expect(request.searchParams.get("timeZone")).toBe("Asia/Kolkata");
+    });
+  });
+
+  /**
+   * *For any* busy calendars, every free slot returned is long enough, lies
+   * inside the window and working hours on a weekday, and overlaps nobody's
+   * busy time.
+   */
+  describe("Property: free slots avoid everyone's busy time", () => {
+    const busyArb = fc.array(
+      fc.record({
+        offsetMinutes: fc.integer({ min: 0, max: 5 * 24 * 60 }),
+        durationMinutes: fc.integer({ min: 5, max: 8 * 60 }),
+      }),
+      { maxLength: 10 }
+    );
+
+    test("slots are valid for every attendee", async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.dictionary(
+            fc.constantFrom("primary", "jane@example.com", "bob@example.com"),
+            busyArb
+          ),
+          timeZoneArb,
+          fc.integer({ min: 15, max: 120 }),
+          fc.constantFrom(["08:00", "16:00"], ["09:00", "17:00"], ["10:30", "18:45"]),
+          async (busyByCalendar, timeZone, durationMinutes, [workdayStart, workdayEnd]) => {
+            calendar.reset();
+            // Monday 6 May 2024
+            const origin = Date.UTC(2024, 4, 6);
+            calendar.state.busy = {
+              primary: [],
+              "jane@example.com": [],
+              "bob@example.com": [],
+            };
+            for (const [id, intervals] of Object.entries(busyByCalendar)) {
+              calendar.state.busy[id] = intervals.map((busy) => ({
+                start: new Date(origin + busy.offsetMinutes * MINUTE_MS),
+                end: new Date(origin + (busy.offsetMinutes + busy.durationMinutes) * MINUTE_MS),
+              }));
+            }
+
+            const timeMin = localTime(new Date(origin), timeZone);
+            const timeMax = localTime(new Date(origin + 5 * 24 * 60 * MINUTE_MS), timeZone);
+
+            const result = await googleCalendarFreeBusyTool.execute({
+              context: {
+                attendees: ["jane@example.com", "bob@example.com"],
+                timeMin,
+                timeMax,
+                timeZone,
+                durationMinutes,
+                workdayStart,
+                workdayEnd,
+                includeWeekends: false,
+              },
+              runtimeContext: createRuntimeContext(),
+            });
+
+            expect(result.status).toBe("ok");
+            const allBusy = Object.values(calendar.state.busy).flat();
+            const [startH, startM] = workdayStart.split(":").map(Number);
+            const [endH, endM] = workdayEnd.split(":").map(Number);
+
+            for (const slot of result.freeSlots!) {
+              const start = new Date(slot.start);
+              const end = new Date(slot.end);
+
+              expect(end.getTime() - start.getTime()).toBeGreaterThanOrEqual(durationMinutes * MINUTE_MS);
+              expect(start.getTime()).toBeGreaterThanOrEqual(toInstant(timeMin, timeZone).getTime());
+              expect(end.getTime()).toBeLessThanOrEqual(toInstant(timeMax, timeZone).getTime());
+              expect(allBusy.some((busy) => busy.start < end && busy.end > start)).toBe(false);
+
+              // Inside working hours on a weekday, in the requested zone
+              expect(minuteOfDay(start, timeZone)).toBeGreaterThanOrEqual(startH * 60 + startM);
+              expect(minuteOfDay(end, timeZone)).toBeLessThanOrEqual(endH * 60 + endM);
+              expect(slot.start.slice(0, 10)).toBe(slot.end.slice(0, 10));
+              const weekday = new Date(`${slot.start.slice(0, 10)}T12:00:00Z`).getUTCDay();
+              expect([0, 6]).not.toContain(weekday);
+            }
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    test("finds the whole working day when everyone is free", async () => {
+      calendar.state.busy = { primary: [], "jane@example.com": [] };
+
+      const result = await googleCalendarFreeBusyTool.execute({
+        context: {
+          attendees: ["jane@example.com"],
+          timeMin: "2024-05-06T00:00",
+          timeMax: "2024-05-07T00:00",
+          timeZone: "Europe/Paris",
+          durationMinutes: 30,
+          workdayStart: "09:00",
+          workdayEnd: "17:00",
+          includeWeekends: false,
+        },
+        runtimeContext: createRuntimeContext(),
+      });
+
+      expect(result.freeSlots).toEqual([
+        { start: "2024-05-06T09:00:00+02:00", end: "2024-05-06T17:00:00+02:00" },
+      ]);
+    });
+
+    test("reports calendars Google can't share", async () => {
+      calendar.state.busy = { primary: [] };
+
+      const result = await googleCalendarFreeBusyTool.execute({
+        context: {
+          attendees: ["outside@other.example"],
+          timeMin: "2024-05-06T00:00",
+          timeMax: "2024-05-07T00:00",
+          timeZone: "UTC",
+          durationMinutes: 30,
+          workdayStart: "09:00",
+          workdayEnd: "17:00",
+          includeWeekends: false,
+        },
+        runtimeContext: createRuntimeContext(),
+      });
+
+      expect(result.unavailable).toEqual(["outside@other.example"]);
+    });
+  });
+
+  /**
+   * *For any* time zone and local start time, the created event starts at
+   * that wall-clock time in that zone.
+   */
+  describe("Property: created events keep the requested time zone", () => {
+    test("sends the start and end in the given zone", async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          instantArb,
+          timeZoneArb,
+          fc.integer({ min: 15, max: 180 }),
+          async (startInstant, timeZone, durationMinutes) => {
+            calendar.reset();
+            const start = localTime(startInstant, timeZone);
+            const end = localTime(
+              new Date(startInstant.getTime() + durationMinutes * MINUTE_MS),
+              timeZone
+            );
+
+            const result = await googleCalendarCreateEventTool.execute({
+              context: {
+                summary: "Planning",
+                start,
+                end,
+                timeZone,
+                attendees: ["jane@example.com"],
+                sendInvitations: true,
+              },
+              runtimeContext: createRuntimeContext(),
+            });
+
+            expect(result.status).toBe("created");
+            const [created] = calendar.state.created;
+            expect(created.start.timeZone).toBe(timeZone);
+            expect(new Date(created.start.dateTime).getTime()).toBe(
+              toInstant(start, timeZone).getTime()
+            );
+            expect(new Date(created.end.dateTime).getTime()).toBe(
+              toInstant(end, timeZone).getTime()
+            );
+            expect(created.attendees).toEqual([{ email: "jane@example.com" }]);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    test("asks for approval before creating", () => {
+      expect(googleCalendarCreateEventTool.requireApproval).toBe(true);
+      expect(googleCalendarListEventsTool.requireApproval).toBeFalsy();
+      expect(googleCalendarFreeBusyTool.requireApproval).toBeFalsy();
+    });
+  });
+
+  /**
+   * *For any* calendar tool run without the calendar scopes, the tool asks
+   * for consent instead of calling Google.
+   */
+  describe("Property: calendar tools ask for missing scopes", () => {
+    test("returns consent_required without calling the API", async () => {
+      const readOnlyGmail = ["https://www.googleapis.com/auth/gmail.readonly"];
+      const range = { timeMin: "2024-05-06T00:00", timeMax: "2024-05-07T00:00", timeZone: "UTC" };
+
+      expect(
+        await googleCalendarListEventsTool.execute({
+          context: { ...range, maxResults: 25, calendarId: "primary" },
+          runtimeContext: createRuntimeContext(readOnlyGmail),
+        })
+      ).toEqual({ status: "consent_required", scope: CALENDAR_READ_SCOPE });
+
+      expect(
+        await googleCalendarCreateEventTool.execute({
+          context: {
+            summary: "Planning",
+            start: "2024-05-06T10:00",
+            end: "2024-05-06T11:00",
+            sendInvitations: true,
+          },
+          runtimeContext: createRuntimeContext([CALENDAR_READ_SCOPE]),
+        })
+      ).toEqual({ status: "consent_required", scope: CALENDAR_EVENTS_SCOPE });
+
+      expect(calendar.state.requests).toEqual([]);
+    });
+
+    test("every calendar tool requires an access token", async () => {
+      const context = {
+        timeMin: "2024-05-06T00:00",
+        timeMax: "2024-05-07T00:00",
+        start: "2024-05-06T10:00",
+        end: "2024-05-06T11:00",
+        summary: "Planning",
+        attendees: [],
+      } as any;
+
+      await fc.assert(
+        fc.asyncProperty(
+          fc.constantFrom(
+            () => googleCalendarListEventsTool.execute({ context, runtimeContext: undefined as any }),
+            () => googleCalendarFreeBusyTool.execute({ context, runtimeContext: undefined as any }),
+            () => googleCalendarCreateEventTool.execute({ context, runtimeContext: undefined as any })
+          ),
+          async (execute) => {
+            await expect(execute()).rejects.toThrow("Google access token not available");
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+  });
+});
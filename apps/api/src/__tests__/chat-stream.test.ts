@@ -0,0 +1,540 @@
+import "./setup";
+import { describe, test, expect } from "bun:test";
+import * as fc from "fast-check";
+import type { ChunkType } from "@mastra/core/stream";
+import {
+  createChatStreamParser,
+  encodeChatStreamEvent,
+  readChatStream,
+  type ChatStreamEvent,
+} from "@chatbot/shared/stream";
+import { createChatEventStream, stopChatStream, toChatStreamEvents } from "../lib/chat-stream";
+
+/**
+ * Chat Stream Protocol Tests
+ *
+ * These tests verify the mapping from Mastra agent chunks to chat stream
+ * events and that the shared parser reads back what the server encodes.
+ */
+
+// Build a Mastra chunk without spelling out every base field
+const chunk = (type: string, payload: Record<string, unknown>) =>
+  ({ type, payload, runId: "run-1", from: "AGENT" }) as unknown as ChunkType;
+
+async function* fromArray<T>(items: T[]) {
+  yield* items;
+}
+
+const collect = async (body: ReadableStream<Uint8Array>) => {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of readChatStream(body)) events.push(event);
+  return events;
+};
+
+const chatStreamEventArb: fc.Arbitrary<ChatStreamEvent> = fc.oneof(
+  fc.record({ type: fc.constant("start" as const), streamId: fc.uuid() }),
+  fc.record({ type: fc.constant("text-delta" as const), text: fc.string() }),
+  fc.record({ type: fc.constant("reasoning-delta" as const), text: fc.string() }),
+  fc.record({
+    type: fc.constant("tool-call" as const),
+    toolCallId: fc.string(),
+    toolName: fc.string(),
+    args: fc.dictionary(fc.string(), fc.string()),
+  }),
+  fc.record({
+    type: fc.constant("tool-result" as const),
+    toolCallId: fc.string(),
+    toolName: fc.string(),
+    result: fc.jsonValue(),
+    isError: fc.boolean(),
+  }),
+  fc.record({
+    type: fc.constant("usage" as const),
+    usage: fc.record({
+      inputTokens: fc.nat(),
+      outputTokens: fc.nat(),
+      totalTokens: fc.nat(),
+    }),
+  }),
+  fc.record({
+    type: fc.constant("tool-approval" as const),
+    runId: fc.string(),
+    toolCallId: fc.string(),
+    toolName: fc.string(),
+    args: fc.dictionary(fc.string(), fc.string()),
+  }),
+  fc.record({
+    type: fc.constant("consent-required" as const),
+    toolName: fc.string(),
+    scope: fc.string(),
+  }),
+  fc.record({
+    type: fc.constant("error" as const),
+    code: fc.constantFrom("model_error" as const, "stream_error" as const),
+    message: fc.string(),
+  }),
+  fc.record({ type: fc.constant("interrupted" as const) }),
+  fc.record({
+    type: fc.constant("finish" as const),
+    finishReason: fc.constantFrom("stop", "length", "tool-calls"),
+    traceId: fc.hexaString({ minLength: 32, maxLength: 32 }),
+  })
+);
+
+describe("Chat Stream Protocol", () => {
+  describe("toChatStreamEvents", () => {
+    test("maps text and reasoning deltas", () => {
+      expect(toChatStreamEvents(chunk("text-delta", { id: "1", text: "Hi" }))).toEqual([
+        { type: "text-delta", text: "Hi" },
+      ]);
+      expect(
+        toChatStreamEvents(chunk("reasoning-delta", { id: "1", text: "Thinking" }))
+      ).toEqual([{ type: "reasoning-delta", text: "Thinking" }]);
+    });
+
+    test("maps tool calls without Mastra's internal metadata", () => {
+      const events = toChatStreamEvents(
+        chunk("tool-call", {
+          toolCallId: "call-1",
+          toolName: "googleGmailTool",
+          args: { maxResults: 5, __mastraMetadata: { internal: true } },
+        })
+      );
+
+      expect(events).toEqual([
+        {
+          type: "tool-call",
+          toolCallId: "call-1",
+          toolName: "googleGmailTool",
+          args: { maxResults: 5 },
+        },
+      ]);
+    });
+
+    test("maps tool results and tool errors", () => {
+      expect(
+        toChatStreamEvents(
+          chunk("tool-result", {
+            toolCallId: "call-1",
+            toolName: "googleGmailTool",
+            result: { emails: [] },
+          })
+        )
+      ).toEqual([
+        {
+          type: "tool-result",
+          toolCallId: "call-1",
+          toolName: "googleGmailTool",
+          result: { emails: [] },
+          isError: undefined,
+        },
+      ]);
+
+      expect(
+        toChatStreamEvents(
+          chunk("tool-error", {
+            toolCallId: "call-2",
+            toolName: "googleContactsTool",
+            error: new Error("Failed to fetch contacts: 403"),
+          })
+        )
+      ).toEqual([
+        {
+          type: "tool-result",
+          toolCallId: "call-2",
+          toolName: "googleContactsTool",
+          result: "Failed to fetch contacts: 403",
+          isError: true,
+        },
+      ]);
+    });
+
+    test("reports model errors without their details", () => {
+      const events = toChatStreamEvents(
+        chunk("error", {
+          error: new Error("401 Unauthorized: https://api.example.com/v1?key=sk-secret"),
+        })
+      );
+
+      expect(events).toEqual([
+        {
+          type: "error",
+          code: "model_error",
+          message: "The model couldn't generate a response",
+        },
+      ]);
+    });
+
+    test("maps tool calls waiting for approval with the run to resume", () => {
+      const events = toChatStreamEvents(
+        chunk("tool-call-approval", {
+          toolCallId: "call-3",
+          toolName: "googleGmailSendTool",
+          args: { to: ["jane@example.com"], __mastraMetadata: { internal: true } },
+        })
+      );
+
+      expect(events).toEqual([
+        {
+          type: "tool-approval",
+          runId: "run-1",
+          toolCallId: "call-3",
+          toolName: "googleGmailSendTool",
+          args: { to: ["jane@example.com"] },
+        },
+      ]);
+    });
+
+    test("follows a consent_required tool result with a consent-required event", () => {
+      const result = {
+        status: "consent_required",
+        scope: "https://www.googleapis.com/auth/gmail.compose",
+      };
+      const events = toChatStreamEvents(
+        chunk("tool-result", { toolCallId: "call-4", toolName: "googleGmailSendTool", result })
+      );
+
+      expect(events).toEqual([
+        {
+          type: "tool-result",
+          toolCallId: "call-4",
+          toolName: "googleGmailSendTool",
+          result,
+          isError: undefined,
+        },
+        {
+          type: "consent-required",
+          toolName: "googleGmailSendTool",
+          scope: "https://www.googleapis.com/auth/gmail.compose",
+        },
+      ]);
+    });
+
+    test("maps finish to usage followed by finish with the traceId", () => {
+      const events = toChatStreamEvents(
+        chunk("finish", {
+          stepResult: { reason: "stop" },
+          output: { usage: { inputTokens: 12, outputTokens: 34, totalTokens: 46 } },
+        }),
+        { traceId: "a".repeat(32) }
+      );
+
+      expect(events).toEqual([
+        {
+          type: "usage",
+          usage: {
+            inputTokens: 12,
+            outputTokens: 34,
+            totalTokens: 46,
+            reasoningTokens: undefined,
+          },
+        },
+        { type: "finish", finishReason: "stop", traceId: "a".repeat(32) },
+      ]);
+    });
+
+    test("drops chunks the client doesn't need", () => {
+      expect(toChatStreamEvents(chunk("step-start", { request: {} }))).toEqual([]);
+      expect(toChatStreamEvents(chunk("text-start", { id: "1" }))).toEqual([]);
+    });
+  });
+
+  describe("createChatEventStream", () => {
+    test("streams mapped events as SSE", async () => {
+      const body = createChatEventStream(
+        fromArray([
+          chunk("tool-call", { toolCallId: "c1", toolName: "googleGmailTool", args: {} }),
+          chunk("tool-result", { toolCallId: "c1", toolName: "googleGmailTool", result: {} }),
+          chunk("text-delta", { id: "1", text: "You have " }),
+          chunk("text-delta", { id: "1", text: "2 emails." }),
+        ])
+      );
+
+      const events = await collect(body);
+
+      expect(events.map((e) => e.type)).toEqual([
+        "tool-call",
+        "tool-result",
+        "text-delta",
+        "text-delta",
+      ]);
+    });
+
+    test("reports a failing agent stream as an error event", async () => {
+      async function* failing() {
+        yield chunk("text-delta", { id: "1", text: "Partial" });
+        throw new Error("Model unavailable");
+      }
+
+      const events = await collect(createChatEventStream(failing()));
+
+      expect(events).toEqual([
+        { type: "text-delta", text: "Partial" },
+        { type: "error", code: "stream_error", message: "The response failed" },
+      ]);
+    });
+
+    test("reports tool calls left waiting for approval once the stream ends", async () => {
+      let approvals: unknown;
+      const body = createChatEventStream(
+        fromArray([
+          chunk("text-delta", { id: "1", text: "I'll send that." }),
+          chunk("tool-call-approval", {
+            toolCallId: "c1",
+            toolName: "googleGmailSendTool",
+            args: { subject: "Hello" },
+          }),
+        ]),
+        {
+          onToolApprovals: (pending) => {
+            approvals = pending;
+          },
+        }
+      );
+
+      await collect(body);
+
+      expect(approvals).toEqual([
+        {
+          runId: "run-1",
+          toolCallId: "c1",
+          toolName: "googleGmailSendTool",
+          args: { subject: "Hello" },
+        },
+      ]);
+    });
+
+    test("reports the response's token usage once the stream ends", async () => {
+      let usage: unknown;
+      const body = createChatEventStream(
+        fromArray([
+          chunk("text-delta", { id: "1", text: "Hello" }),
+          chunk("finish", {
+            stepResult: { reason: "stop" },
+            output: { usage: { inputTokens: 12, outputTokens: 34, totalTokens: 46 } },
+          }),
+        ]),
+        {
+          onUsage: (reported) => {
+            usage = reported;
+          },
+        }
+      );
+
+      await collect(body);
+
+      expect(usage).toEqual({
+        inputTokens: 12,
+        outputTokens: 34,
+        totalTokens: 46,
+        reasoningTokens: undefined,
+      });
+    });
+
+    test("reports finished steps and an estimate for the rest when the stream fails", async () => {
+      let usage: unknown;
+      async function* failing() {
+        yield chunk("step-start", { request: { body: "x".repeat(800) } });
+        yield chunk("step-finish", {
+          stepResult: { reason: "tool-calls" },
+          output: { usage: { inputTokens: 200, outputTokens: 10, totalTokens: 210 } },
+          metadata: {},
+        });
+        // A tool's result in base64 doesn't count toward the estimate
+        yield chunk("step-start", { request: { body: "word ".repeat(240) + "QUJD".repeat(1000) } });
+        yield chunk("text-delta", { id: "1", text: "a".repeat(40) });
+        throw new Error("Model unavailable");
+      }
+
+      await collect(
+        createChatEventStream(failing(), {
+          onUsage: (reported) => {
+            usage = reported;
+          },
+        })
+      );
+
+      expect(usage).toEqual({
+        inputTokens: 500,
+        outputTokens: 20,
+        totalTokens: 520,
+        reasoningTokens: 0,
+      });
+    });
+  });
+
+  describe("cancellation", () => {
+    // Agent stream that yields text until its abort signal fires, like
+    // Mastra does when the abortSignal passed to agent.stream is aborted
+    const abortableAgent = (signal: AbortSignal) =>
+      (async function* () {
+        for (const text of ["You have ", "three ", "unread ", "emails"]) {
+          if (signal.aborted) return;
+          yield chunk("text-delta", { id: "1", text });
+          await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+      })();
+
+    test("cancelling the body aborts the agent and reports the partial text", async () => {
+      const abortController = new AbortController();
+      let interrupted: string | undefined;
+      let resolveInterrupted: () => void;
+      const interruptedSaved = new Promise<void>((r) => (resolveInterrupted = r));
+
+      const body = createChatEventStream(abortableAgent(abortController.signal), {
+        abortController,
+        onInterrupted: (text) => {
+          interrupted = text;
+          resolveInterrupted();
+        },
+      });
+
+      const reader = body.getReader();
+      await reader.read();
+      await reader.cancel();
+      await interruptedSaved;
+
+      expect(abortController.signal.aborted).toBe(true);
+      expect(interrupted).toBeDefined();
+      expect("You have three unread emails".startsWith(interrupted!)).toBe(true);
+      expect(interrupted!.length).toBeLessThan("You have three unread emails".length);
+    });
+
+    test("a stopped response still reports the tokens it used", async () => {
+      const abortController = new AbortController();
+      let interrupted = "";
+      let usage: unknown;
+      let resolveUsage: () => void;
+      const usageRecorded = new Promise<void>((r) => (resolveUsage = r));
+
+      async function* agent() {
+        yield chunk("step-start", { request: {} });
+        yield* abortableAgent(abortController.signal);
+      }
+
+      const body = createChatEventStream(agent(), {
+        abortController,
+        onInterrupted: (text) => {
+          interrupted = text;
+        },
+        onUsage: (reported) => {
+          usage = reported;
+          resolveUsage();
+        },
+      });
+
+      const reader = body.getReader();
+      await reader.read();
+      await reader.cancel();
+      await usageRecorded;
+
+      const outputTokens = Math.ceil(interrupted.length / 4);
+      expect(outputTokens).toBeGreaterThan(0);
+      expect(usage).toEqual({
+        inputTokens: 0,
+        outputTokens,
+        totalTokens: outputTokens,
+        reasoningTokens: 0,
+      });
+    });
+
+    test("a stopped stream stays open until the partial response is saved", async () => {
+      const abortController = new AbortController();
+      const saved: string[] = [];
+
+      const body = createChatEventStream(abortableAgent(abortController.signal), {
+        abortController,
+        userId: "user-123",
+        onInterrupted: async (text) => {
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          saved.push(text);
+        },
+      });
+      const events = readChatStream(body);
+
+      const start = (await events.next()).value;
+      if (start?.type !== "start") throw new Error("Expected a start event");
+      expect(stopChatStream("user-456", start.streamId)).toBe(false);
+      expect(stopChatStream("user-123", start.streamId)).toBe(true);
+
+      const rest: ChatStreamEvent[] = [];
+      for await (const event of events) rest.push(event);
+
+      expect(rest[rest.length - 1]).toEqual({ type: "interrupted" });
+      expect(saved).toHaveLength(1);
+      // Ended streams can't be stopped
+      expect(stopChatStream("user-123", start.streamId)).toBe(false);
+    });
+
+    test("doesn't report an interruption when the agent finishes", async () => {
+      const abortController = new AbortController();
+      let interrupted = false;
+
+      const body = createChatEventStream(abortableAgent(abortController.signal), {
+        abortController,
+        onInterrupted: () => {
+          interrupted = true;
+        },
+      });
+      const events = await collect(body);
+
+      expect(events.length).toBe(4);
+      expect(interrupted).toBe(false);
+    });
+
+    test("an aborted agent doesn't produce an error event", async () => {
+      const abortController = new AbortController();
+      async function* aborted() {
+        yield chunk("text-delta", { id: "1", text: "Partial" });
+        abortController.abort();
+        throw new DOMException("The operation was aborted", "AbortError");
+      }
+
+      const events = await collect(createChatEventStream(aborted(), { abortController }));
+
+      expect(events).toEqual([{ type: "text-delta", text: "Partial" }, { type: "interrupted" }]);
+    });
+  });
+
+  /**
+   * *For any* sequence of chat stream events, split into chunks at any byte
+   * position, the parser should return exactly the events that were encoded.
+   */
+  describe("Property: encoded events survive arbitrary chunking", () => {
+    test("parser returns the encoded events in order", () => {
+      fc.assert(
+        fc.property(
+          fc.array(chatStreamEventArb, { maxLength: 20 }),
+          fc.array(fc.nat(), { maxLength: 10 }),
+          (events, cuts) => {
+            const encoded = events.map(encodeChatStreamEvent).join("");
+            const positions = [...new Set(cuts.map((c) => c % (encoded.length + 1)))].sort(
+              (a, b) => a - b
+            );
+
+            const parser = createChatStreamParser();
+            const parsed: ChatStreamEvent[] = [];
+            let start = 0;
+            for (const end of [...positions, encoded.length]) {
+              parsed.push(...parser.push(encoded.slice(start, end)));
+              start = end;
+            }
+
+            expect(parsed).toEqual(JSON.parse(JSON.stringify(events)));
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    test("ignores messages that aren't chat stream events", () => {
+      const parser = createChatStreamParser();
+      const events = parser.push(
+        'event: ping\ndata: {"type":"ping"}\n\ndata: [DONE]\n\n' +
+          encodeChatStreamEvent({ type: "text-delta", text: "ok" })
+      );
+
+      expect(events).toEqual([{ type: "text-delta", text: "ok" }]);
+    });
+  });
+});
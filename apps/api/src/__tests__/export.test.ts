@@ -0,0 +1,246 @@
+import "./setup";
+import { describe, test, expect } from "bun:test";
+import * as fc from "fast-check";
+import { inflateRawSync } from "node:zlib";
+import type { MastraMessageV2 } from "@mastra/core/agent";
+import type { StorageThreadType } from "@mastra/core/memory";
+import {
+  exportFileName,
+  renderConversation,
+  summarizeToolCall,
+  toExportedConversation,
+} from "../lib/export";
+import { renderPdf, wrapText } from "../lib/pdf";
+import { crc32, createZip } from "../lib/zip";
+
+/**
+ * Conversation Export Tests
+ *
+ * These tests verify how conversations are turned into Markdown, JSON,
+ * HTML and PDF files, and how several are bundled into a zip archive.
+ */
+
+const thread: StorageThreadType = {
+  id: "thread-0123456789",
+  resourceId: "user-123",
+  title: "Plan <the> trip",
+  createdAt: new Date("2025-01-06T09:00:00.000Z"),
+  updatedAt: new Date("2025-01-06T09:05:00.000Z"),
+};
+
+const message = (
+  id: string,
+  role: MastraMessageV2["role"],
+  createdAt: string,
+  parts: MastraMessageV2["content"]["parts"],
+  metadata?: Record<string, unknown>
+): MastraMessageV2 => ({
+  id,
+  role,
+  createdAt: new Date(createdAt),
+  threadId: thread.id,
+  resourceId: thread.resourceId,
+  content: { format: 2, parts, ...(metadata && { metadata }) },
+});
+
+const messages = [
+  message("m2", "assistant", "2025-01-06T09:01:00.000Z", [
+    {
+      type: "tool-invocation",
+      toolInvocation: {
+        state: "result",
+        toolCallId: "call-1",
+        toolName: "searchEmails",
+        args: { query: "flights" },
+        result: [],
+      },
+    },
+    { type: "text", text: "No flight emails yet." },
+  ]),
+  message("m1", "user", "2025-01-06T09:00:30.000Z", [{ type: "text", text: "Any flights?" }]),
+  message("m3", "assistant", "2025-01-06T09:02:00.000Z", [{ type: "text", text: "Partial" }], {
+    interrupted: true,
+  }),
+];
+
+// Read back every file in a zip archive from its local headers
+function readZip(zip: Uint8Array) {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const files: { name: string; data: string; crc: number }[] = [];
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const crc = view.getUint32(offset + 14, true);
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const start = offset + 30 + nameLength;
+    files.push({
+      name: new TextDecoder().decode(zip.subarray(offset + 30, start)),
+      data: new TextDecoder().decode(inflateRawSync(zip.subarray(start, start + size))),
+      crc,
+    });
+    offset = start + size;
+  }
+  return files;
+}
+
+describe("Conversation Export", () => {
+  describe("toExportedConversation", () => {
+    test("keeps messages oldest first with their text and tool calls", () => {
+      const conversation = toExportedConversation(thread, messages);
+
+      expect(conversation).toMatchObject({
+        id: "thread-0123456789",
+        title: "Plan <the> trip",
+        createdAt: "2025-01-06T09:00:00.000Z",
+      });
+      expect(conversation.messages).toEqual([
+        {
+          id: "m1",
+          role: "user",
+          createdAt: "2025-01-06T09:00:30.000Z",
+          text: "Any flights?",
+          toolCalls: [],
+          interrupted: false,
+        },
+        {
+          id: "m2",
+          role: "assistant",
+          createdAt: "2025-01-06T09:01:00.000Z",
+          text: "No flight emails yet.",
+          toolCalls: [{ toolName: "searchEmails", args: { query: "flights" }, completed: true }],
+          interrupted: false,
+        },
+        expect.objectContaining({ id: "m3", interrupted: true }),
+      ]);
+    });
+
+    test("summarizes tool calls on one line", () => {
+      expect(
+        summarizeToolCall({ toolName: "searchEmails", args: { query: "flights" }, completed: false })
+      ).toBe('searchEmails({"query":"flights"}) – not completed');
+      expect(
+        summarizeToolCall({ toolName: "readFile", args: { text: "x".repeat(500) }, completed: true })
+      ).toHaveLength("readFile()".length + 120);
+    });
+  });
+
+  describe("renderConversation", () => {
+    const conversation = toExportedConversation(thread, messages);
+
+    test("renders Markdown with the title, times in the time zone and tool calls", () => {
+      const { body, contentType } = renderConversation(conversation, "md", "America/New_York");
+
+      expect(contentType).toBe("text/markdown; charset=utf-8");
+      expect(body).toContain("# Plan <the> trip");
+      expect(body).toMatch(/### You · Jan 6, 2025, 4:00\sAM/);
+      expect(body).toContain('> Tool: `searchEmails({"query":"flights"})`');
+      expect(body).toContain("_Stopped before it finished_");
+    });
+
+    test("escapes text in HTML", () => {
+      const { body } = renderConversation(conversation, "html");
+
+      expect(body).toContain("<title>Plan &lt;the&gt; trip</title>");
+      expect(body).toContain('<time datetime="2025-01-06T09:00:30.000Z">');
+      expect(body).not.toContain("<the>");
+    });
+
+    test("renders JSON that parses back to the conversation", () => {
+      const { body } = renderConversation(conversation, "json");
+      expect(JSON.parse(body as string)).toEqual(conversation);
+    });
+
+    test("renders a PDF", () => {
+      const { body, contentType } = renderConversation(conversation, "pdf");
+      const pdf = new TextDecoder("latin1").decode(body as Uint8Array);
+
+      expect(contentType).toBe("application/pdf");
+      expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+      expect(pdf).toContain("(Any flights?) Tj");
+      expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+    });
+
+    test("warns at the top of a PDF whose text it can't show", () => {
+      const decode = (body: string | Uint8Array) => new TextDecoder("latin1").decode(body as Uint8Array);
+      const warning = "Some characters in this conversation can't be shown in a PDF";
+
+      const russian = toExportedConversation(thread, [
+        message("m1", "user", "2025-01-06T09:00:30.000Z", [{ type: "text", text: "Привет, мир 👋" }]),
+      ]);
+      const pdf = decode(renderConversation(russian, "pdf").body);
+
+      expect(pdf).toContain(warning);
+      expect(pdf.indexOf(warning)).toBeLessThan(pdf.indexOf("(??????, ??? ?) Tj"));
+      expect(decode(renderConversation(conversation, "pdf").body)).not.toContain(warning);
+    });
+
+    test("names files after the title", () => {
+      expect(exportFileName(conversation, "md")).toBe("plan-the-trip.md");
+      expect(exportFileName(conversation, "pdf", true)).toBe("plan-the-trip-23456789.pdf");
+      expect(exportFileName({ id: "t", title: "¿?" }, "json")).toBe("conversation.json");
+    });
+  });
+
+  describe("renderPdf", () => {
+    test("points the cross-reference table at every object", () => {
+      const paragraphs = Array.from({ length: 120 }, (_, i) => ({ text: `Line (${i}) \\ é ✓` }));
+      const pdf = new TextDecoder("latin1").decode(renderPdf(paragraphs, "Title"));
+
+      const xref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+      expect(pdf.slice(xref, xref + 4)).toBe("xref");
+      const offsets = [...pdf.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+      offsets.forEach((offset, i) => expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+
+      // Long documents spill onto more pages
+      expect(pdf).toMatch(/\/Count [2-9]/);
+      expect(pdf).toContain("(Line \\(0\\) \\\\ \xe9 ?) Tj");
+    });
+
+    /**
+     * *For any* text, wrapped lines fit the width and keep every
+     * non-space character in order.
+     */
+    test("wraps text without losing any of it", () => {
+      fc.assert(
+        fc.property(fc.string({ maxLength: 300 }), fc.integer({ min: 5, max: 80 }), (text, width) => {
+          const lines = wrapText(text, width);
+          for (const line of lines) expect(line.length).toBeLessThanOrEqual(width);
+          const strip = (value: string) => value.replace(/\s/g, "");
+          expect(strip(lines.join(""))).toBe(strip(text));
+        }),
+        { numRuns: 200 }
+      );
+    });
+  });
+
+  describe("createZip", () => {
+    test("computes standard CRC-32 checksums", () => {
+      expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+    });
+
+    /**
+     * *For any* files, the archive holds each one with its name, contents
+     * and checksum.
+     */
+    test("stores every file so it can be read back", () => {
+      const entries = fc.array(
+        fc.record({ name: fc.string({ minLength: 1, maxLength: 20 }), data: fc.string() }),
+        { maxLength: 10 }
+      );
+
+      fc.assert(
+        fc.property(entries, (files) => {
+          const zip = createZip(files);
+          const read = readZip(zip);
+
+          expect(read.map(({ name, data }) => ({ name, data }))).toEqual(files);
+          read.forEach(({ data, crc }) => expect(crc).toBe(crc32(new TextEncoder().encode(data))));
+          // The end of central directory record counts the files
+          const view = new DataView(zip.buffer);
+          expect(view.getUint16(zip.length - 22 + 10, true)).toBe(files.length);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
@@ -0,0 +1,335 @@
+import "./setup";
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { RuntimeContext } from "@mastra/core/di";
+import {
+  createGoogleTokenService,
+  GoogleTokenError,
+  type GoogleAccountRecord,
+  type GoogleAccountStore,
+  type GoogleTokenUpdate,
+} from "../lib/google-token";
+import {
+  CHAT_ABORT_SIGNAL,
+  googleFetch,
+  REFRESH_GOOGLE_ACCESS_TOKEN,
+} from "../mastra/tools/google-api";
+
+/**
+ * Google Token Service Tests
+ *
+ * These tests run the token service against a local stand-in for Google's
+ * OAuth token endpoint and an in-memory account store.
+ */
+
+type TokenRequest = Record<string, string>;
+
+// Stand-in token endpoint state
+let tokenRequests: TokenRequest[] = [];
+let tokenResponse: { status: number; body: Record<string, unknown> } = {
+  status: 200,
+  body: {},
+};
+
+// Stand-in Google API state: only the current token is accepted
+let validApiToken = "fresh-token";
+let apiRequests: string[] = [];
+
+let server: ReturnType<typeof Bun.serve>;
+let baseUrl: string;
+
+// In-memory account store
+const createMemoryStore = (record: GoogleAccountRecord | null) => {
+  const saved: GoogleTokenUpdate[] = [];
+  const store: GoogleAccountStore = {
+    findByUserId: async () => (record ? { ...record } : null),
+    saveTokens: async (accountId, update) => {
+      saved.push(update);
+      if (record && record.id === accountId) {
+        record.accessToken = update.accessToken;
+        record.accessTokenExpiresAt = update.accessTokenExpiresAt;
+      }
+    },
+  };
+  return { store, saved };
+};
+
+const createService = (store: GoogleAccountStore) =>
+  createGoogleTokenService({
+    tokenEndpoint: `${baseUrl}/token`,
+    clientId: "test-client-id",
+    clientSecret: "test-client-secret",
+    store,
+  });
+
+const hoursFromNow = (hours: number) =>
+  new Date(Date.now() + hours * 60 * 60 * 1000);
+
+describe("Google Token Service", () => {
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const url = new URL(req.url);
+
+        if (url.pathname === "/token") {
+          const form = new URLSearchParams(await req.text());
+          tokenRequests.push(Object.fromEntries(form));
+          return Response.json(tokenResponse.body, {
+            status: tokenResponse.status,
+          });
+        }
+
+        if (url.pathname === "/api") {
+          const auth = req.headers.get("Authorization");
+          apiRequests.push(auth || "");
+          if (auth !== `Bearer ${validApiToken}`) {
+            return new Response("Unauthorized", { status: 401 });
+          }
+          return Response.json({ ok: true });
+        }
+
+        return new Response("Not Found", { status: 404 });
+      },
+    });
+    baseUrl = `http://localhost:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  beforeEach(() => {
+    tokenRequests = [];
+    apiRequests = [];
+    validApiToken = "fresh-token";
+    tokenResponse = {
+      status: 200,
+      body: { access_token: "fresh-token", expires_in: 3600, token_type: "Bearer" },
+    };
+  });
+
+  describe("getAccessToken", () => {
+    test("returns the stored token while it is still valid", async () => {
+      const { store, saved } = createMemoryStore({
+        id: "account-1",
+        accessToken: "stored-token",
+        refreshToken: "refresh-token",
+        accessTokenExpiresAt: hoursFromNow(1),
+      });
+
+      const token = await createService(store).getAccessToken("user-1");
+
+      expect(token).toBe("stored-token");
+      expect(tokenRequests.length).toBe(0);
+      expect(saved.length).toBe(0);
+    });
+
+    test("refreshes an expired token and saves it to the account", async () => {
+      const { store, saved } = createMemoryStore({
+        id: "account-1",
+        accessToken: "expired-token",
+        refreshToken: "refresh-token",
+        accessTokenExpiresAt: hoursFromNow(-1),
+      });
+
+      const before = Date.now();
+      const token = await createService(store).getAccessToken("user-1");
+
+      expect(token).toBe("fresh-token");
+      expect(tokenRequests).toEqual([
+        {
+          client_id: "test-client-id",
+          client_secret: "test-client-secret",
+          grant_type: "refresh_token",
+          refresh_token: "refresh-token",
+        },
+      ]);
+      expect(saved.length).toBe(1);
+      expect(saved[0].accessToken).toBe("fresh-token");
+      expect(saved[0].accessTokenExpiresAt!.getTime()).toBeGreaterThanOrEqual(
+        before + 3600 * 1000
+      );
+    });
+
+    test("refreshes a token that is about to expire", async () => {
+      const { store } = createMemoryStore({
+        id: "account-1",
+        accessToken: "expiring-token",
+        refreshToken: "refresh-token",
+        accessTokenExpiresAt: new Date(Date.now() + 10 * 1000),
+      });
+
+      const token = await createService(store).getAccessToken("user-1");
+
+      expect(token).toBe("fresh-token");
+      expect(tokenRequests.length).toBe(1);
+    });
+
+    test("refreshes a valid token when forced", async () => {
+      const { store } = createMemoryStore({
+        id: "account-1",
+        accessToken: "stored-token",
+        refreshToken: "refresh-token",
+        accessTokenExpiresAt: hoursFromNow(1),
+      });
+
+      const token = await createService(store).getAccessToken("user-1", {
+        forceRefresh: true,
+      });
+
+      expect(token).toBe("fresh-token");
+      expect(tokenRequests.length).toBe(1);
+    });
+
+    test("saves a rotated refresh token", async () => {
+      tokenResponse.body = {
+        access_token: "fresh-token",
+        expires_in: 3600,
+        refresh_token: "rotated-refresh-token",
+      };
+      const { store, saved } = createMemoryStore({
+        id: "account-1",
+        accessToken: "expired-token",
+        refreshToken: "refresh-token",
+        accessTokenExpiresAt: hoursFromNow(-1),
+      });
+
+      await createService(store).getAccessToken("user-1");
+
+      expect(saved[0].refreshToken).toBe("rotated-refresh-token");
+    });
+
+    test("shares one refresh between concurrent callers", async () => {
+      const { store } = createMemoryStore({
+        id: "account-1",
+        accessToken: "expired-token",
+        refreshToken: "refresh-token",
+        accessTokenExpiresAt: hoursFromNow(-1),
+      });
+      const service = createService(store);
+
+      const tokens = await Promise.all([
+        service.getAccessToken("user-1"),
+        service.getAccessToken("user-1"),
+        service.getAccessToken("user-1"),
+      ]);
+
+      expect(tokens).toEqual(["fresh-token", "fresh-token", "fresh-token"]);
+      expect(tokenRequests.length).toBe(1);
+    });
+
+    test("returns null when the user has no Google account", async () => {
+      const { store } = createMemoryStore(null);
+
+      const token = await createService(store).getAccessToken("user-1");
+
+      expect(token).toBeNull();
+      expect(tokenRequests.length).toBe(0);
+    });
+
+    test("throws when the token endpoint rejects the refresh token", async () => {
+      tokenResponse = { status: 400, body: { error: "invalid_grant" } };
+      const { store, saved } = createMemoryStore({
+        id: "account-1",
+        accessToken: "expired-token",
+        refreshToken: "revoked-refresh-token",
+        accessTokenExpiresAt: hoursFromNow(-1),
+      });
+
+      const error = await createService(store)
+        .getAccessToken("user-1")
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(GoogleTokenError);
+      expect(error.status).toBe(400);
+      expect(error.message).toContain("invalid_grant");
+      expect(saved.length).toBe(0);
+    });
+
+    test("throws when an expired token has no refresh token", async () => {
+      const { store } = createMemoryStore({
+        id: "account-1",
+        accessToken: "expired-token",
+        refreshToken: null,
+        accessTokenExpiresAt: hoursFromNow(-1),
+      });
+
+      await expect(createService(store).getAccessToken("user-1")).rejects.toThrow(
+        "Google refresh token not available"
+      );
+      expect(tokenRequests.length).toBe(0);
+    });
+  });
+
+  describe("googleFetch", () => {
+    test("retries once with a refreshed token after a 401", async () => {
+      const { store } = createMemoryStore({
+        id: "account-1",
+        accessToken: "revoked-token",
+        refreshToken: "refresh-token",
+        accessTokenExpiresAt: hoursFromNow(1),
+      });
+      const service = createService(store);
+
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set("googleAccessToken", "revoked-token");
+      runtimeContext.set(REFRESH_GOOGLE_ACCESS_TOKEN, () =>
+        service.getAccessToken("user-1", { forceRefresh: true })
+      );
+
+      const response = await googleFetch(runtimeContext, `${baseUrl}/api`);
+
+      expect(response.status).toBe(200);
+      expect(apiRequests).toEqual(["Bearer revoked-token", "Bearer fresh-token"]);
+      expect(runtimeContext.get("googleAccessToken") as string).toBe("fresh-token");
+    });
+
+    test("does not retry more than once", async () => {
+      validApiToken = "never-issued";
+
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set("googleAccessToken", "revoked-token");
+      runtimeContext.set(REFRESH_GOOGLE_ACCESS_TOKEN, async () => "fresh-token");
+
+      const response = await googleFetch(runtimeContext, `${baseUrl}/api`);
+
+      expect(response.status).toBe(401);
+      expect(apiRequests.length).toBe(2);
+    });
+
+    test("returns the 401 when no refresh callback is available", async () => {
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set("googleAccessToken", "revoked-token");
+
+      const response = await googleFetch(runtimeContext, `${baseUrl}/api`);
+
+      expect(response.status).toBe(401);
+      expect(apiRequests.length).toBe(1);
+    });
+
+    test("returns the 401 when the refresh fails", async () => {
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set("googleAccessToken", "revoked-token");
+      runtimeContext.set(REFRESH_GOOGLE_ACCESS_TOKEN, async () => {
+        throw new GoogleTokenError("Failed to refresh Google access token", 400);
+      });
+
+      const response = await googleFetch(runtimeContext, `${baseUrl}/api`);
+
+      expect(response.status).toBe(401);
+      expect(apiRequests.length).toBe(1);
+    });
+
+    test("does not call Google once the chat request is aborted", async () => {
+      const abortController = new AbortController();
+      abortController.abort();
+
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set("googleAccessToken", "fresh-token");
+      runtimeContext.set(CHAT_ABORT_SIGNAL, abortController.signal);
+
+      await expect(googleFetch(runtimeContext, `${baseUrl}/api`)).rejects.toThrow();
+      expect(apiRequests.length).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import "./setup";
+import { describe, test, expect } from "bun:test";
+import type { MastraMessageV2 } from "@mastra/core/agent";
+import type { MastraMemory, StorageThreadType } from "@mastra/core/memory";
+import chatGptExport from "./fixtures/import/chatgpt-conversations.json";
+import claudeExport from "./fixtures/import/claude-conversations.json";
+import {
+  getImportProgress,
+  importConversation,
+  importedId,
+  parseChatExport,
+  startImport,
+  type ImportedConversation,
+} from "../lib/import";
+
+/**
+ * Conversation Import Tests
+ *
+ * These tests verify how ChatGPT, Claude and this app's own exports are
+ * read, and that importing the same conversations again skips them.
+ */
+
+// Memory holding threads and messages in maps
+function createFakeMemory({ failSaving = false } = {}) {
+  const threads = new Map<string, StorageThreadType>();
+  const messages = new Map<string, MastraMessageV2>();
+
+  const memory = {
+    async getThreadById({ threadId }: { threadId: string }) {
+      return threads.get(threadId) ?? null;
+    },
+    async saveThread({ thread }: { thread: StorageThreadType }) {
+      threads.set(thread.id, thread);
+      return thread;
+    },
+    async saveMessages({ messages: saved }: { messages: MastraMessageV2[] }) {
+      if (failSaving) throw new Error("Embedding failed");
+      for (const message of saved) messages.set(message.id, message);
+      return saved;
+    },
+    async deleteThread(threadId: string) {
+      threads.delete(threadId);
+    },
+  };
+
+  return { memory: memory as unknown as MastraMemory, threads, messages };
+}
+
+const parse = (data: unknown) => {
+  const parsed = parseChatExport(data);
+  if ("error" in parsed) throw new Error(parsed.error);
+  return parsed.conversations;
+};
+
+const waitForImport = async (importId: string, userId: string) => {
+  while (getImportProgress(importId, userId)?.status === "running") {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+  }
+  return getImportProgress(importId, userId);
+};
+
+describe("Conversation Import", () => {
+  describe("parseChatExport", () => {
+    test("reads the branch of a ChatGPT conversation the user last saw", () => {
+      const [conversation, ...rest] = parse(chatGptExport);
+
+      // The conversation without messages is left out
+      expect(rest).toHaveLength(0);
+      expect(conversation).toMatchObject({
+        source: "chatgpt",
+        sourceId: "6779a1c0-0000-8000-a000-000000000001",
+        title: "Trip to Lisbon",
+        createdAt: new Date(1736154000500),
+      });
+      expect(conversation!.messages).toEqual([
+        {
+          sourceId: "node-user",
+          role: "user",
+          text: "What should I see in Lisbon?",
+          createdAt: new Date(1736154010000),
+        },
+        {
+          sourceId: "node-assistant-2",
+          role: "assistant",
+          text: "Belém Tower, Alfama and \nthe LX Factory.",
+          createdAt: new Date(1736154030000),
+        },
+      ]);
+    });
+
+    test("reads Claude conversations", () => {
+      const [conversation] = parse(claudeExport);
+
+      expect(conversation).toMatchObject({
+        source: "claude",
+        sourceId: "b6f3c1d2-0000-4000-8000-000000000001",
+        title: "Sourdough starter",
+        updatedAt: new Date("2025-01-06T09:10:00.000Z"),
+      });
+      expect(conversation!.messages.map(({ role, text }) => [role, text])).toEqual([
+        ["user", "How often should I feed my starter?"],
+        ["assistant", "Once a day at room temperature."],
+      ]);
+    });
+
+    test("reads conversations exported as JSON from this app", () => {
+      const [conversation] = parse({
+        id: "thread-1",
+        title: "Exported",
+        createdAt: "2025-01-06T09:00:00.000Z",
+        updatedAt: "2025-01-06T09:05:00.000Z",
+        messages: [
+          { id: "m1", role: "user", createdAt: "2025-01-06T09:00:30.000Z", text: "Hi", toolCalls: [] },
+          { id: "m2", role: "assistant", createdAt: "2025-01-06T09:01:00.000Z", text: "", toolCalls: [] },
+        ],
+      });
+
+      expect(conversation).toMatchObject({ source: "chatbot", sourceId: "thread-1" });
+      expect(conversation!.messages).toHaveLength(1);
+    });
+
+    test("rejects files in other formats", () => {
+      expect(parseChatExport([{ foo: "bar" }])).toEqual({ error: "Unrecognized export format" });
+      expect(parseChatExport([])).toEqual({ conversations: [] });
+    });
+  });
+
+  describe("importConversation", () => {
+    const [conversation] = parse(claudeExport) as [ImportedConversation];
+
+    test("saves the conversation as a thread with its original dates", async () => {
+      const { memory, threads, messages } = createFakeMemory();
+
+      expect(await importConversation(memory, "user-123", conversation)).toBe("imported");
+
+      const threadId = importedId("user-123", "claude", conversation.sourceId);
+      expect(threads.get(threadId)).toMatchObject({
+        resourceId: "user-123",
+        title: "Sourdough starter",
+        createdAt: conversation.createdAt,
+        metadata: { importedFrom: "claude" },
+      });
+      expect([...messages.values()].map((message) => message.threadId)).toEqual([threadId, threadId]);
+    });
+
+    test("skips conversations imported before", async () => {
+      const { memory, messages } = createFakeMemory();
+
+      await importConversation(memory, "user-123", conversation);
+      expect(await importConversation(memory, "user-123", conversation)).toBe("skipped");
+      expect(messages.size).toBe(2);
+
+      // Other users get their own copy
+      expect(await importConversation(memory, "user-456", conversation)).toBe("imported");
+    });
+
+    test("removes the thread when its messages can't be saved", async () => {
+      const { memory, threads } = createFakeMemory({ failSaving: true });
+
+      await expect(importConversation(memory, "user-123", conversation)).rejects.toThrow();
+      expect(threads.size).toBe(0);
+    });
+  });
+
+  describe("startImport", () => {
+    test("reports progress to the user who started the import", async () => {
+      const { memory } = createFakeMemory();
+      const conversations = [...parse(chatGptExport), ...parse(claudeExport)];
+      await importConversation(memory, "user-123", conversations[1]!);
+
+      const { id } = startImport(memory, "user-123", conversations);
+
+      expect(getImportProgress(id, "user-456")).toBeNull();
+      expect(await waitForImport(id, "user-123")).toEqual({
+        id,
+        status: "done",
+        total: 2,
+        imported: 1,
+        skipped: 1,
+        failed: 0,
+      });
+    });
+  });
+});
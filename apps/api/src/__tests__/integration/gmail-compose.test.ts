@@ -0,0 +1,248 @@
+import "../setup";
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { RuntimeContext } from "@mastra/core/di";
+import {
+  buildRawEmail,
+  googleGmailCreateDraftTool,
+  googleGmailReplyTool,
+  googleGmailSendTool,
+} from "../../mastra/tools/google-gmail-compose";
+import { GMAIL_COMPOSE_SCOPE, GOOGLE_SCOPES } from "../../mastra/tools/google-api";
+
+/**
+ * Gmail Compose Tools Integration Tests
+ *
+ * These tests verify the draft, reply and send tools against a mocked
+ * Gmail API: the raw MIME they send, reply threading headers, and the
+ * consent-required result when the compose scope hasn't been granted.
+ */
+
+const originalFetch = globalThis.fetch;
+
+const createMockFetch = (handler: (url: string, init?: RequestInit) => Promise<Response>) => {
+  const mockFn = mock(handler) as any;
+  mockFn.preconnect = () => {};
+  return mockFn as typeof fetch;
+};
+
+// Decode a raw email back into its headers and body
+const decodeRaw = (raw: string) => {
+  const email = Buffer.from(raw, "base64url").toString("utf8");
+  const [head, body] = email.split("\r\n\r\n");
+  const headers = Object.fromEntries(
+    head.split("\r\n").map((line) => {
+      const index = line.indexOf(": ");
+      return [line.slice(0, index), line.slice(index + 2)];
+    })
+  );
+  return {
+    headers,
+    body: Buffer.from(body.replace(/\r\n/g, ""), "base64").toString("utf8"),
+  };
+};
+
+const createRuntimeContext = (scopes?: string[]) => {
+  const runtimeContext = new RuntimeContext();
+  runtimeContext.set("googleAccessToken", "valid-access-token");
+  if (scopes) runtimeContext.set(GOOGLE_SCOPES, scopes);
+  return runtimeContext;
+};
+
+const originalMessage = {
+  id: "msg-1",
+  threadId: "thread-1",
+  payload: {
+    headers: [
+      { name: "Subject", value: "Lunch on Friday?" },
+      { name: "From", value: "Jane Smith <jane@example.com>" },
+      { name: "To", value: "me@example.com, bob@example.com" },
+      { name: "Message-ID", value: "<abc@mail.example.com>" },
+      { name: "References", value: "<root@mail.example.com>" },
+    ],
+  },
+};
+
+describe("Gmail Compose Tools", () => {
+  let requests: Array<{ url: string; init?: RequestInit }>;
+
+  beforeEach(() => {
+    requests = [];
+    globalThis.fetch = createMockFetch((url, init) => {
+      requests.push({ url, init });
+      if (url.includes("/messages/msg-1")) {
+        return Promise.resolve(Response.json(originalMessage));
+      }
+      if (url.endsWith("/profile")) {
+        return Promise.resolve(Response.json({ emailAddress: "me@example.com" }));
+      }
+      if (url.endsWith("/messages/send")) {
+        return Promise.resolve(Response.json({ id: "sent-1", threadId: "thread-1" }));
+      }
+      if (url.endsWith("/drafts")) {
+        return Promise.resolve(
+          Response.json({ id: "draft-1", message: { id: "m-2", threadId: "thread-9" } })
+        );
+      }
+      return Promise.resolve(new Response("Not Found", { status: 404 }));
+    });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const sentPayload = (path: string) => {
+    const request = requests.find((r) => r.url.endsWith(path));
+    return JSON.parse(request!.init!.body as string);
+  };
+
+  describe("buildRawEmail", () => {
+    test("encodes non-ASCII subjects and UTF-8 bodies", () => {
+      const { headers, body } = decodeRaw(
+        buildRawEmail({ to: ["jane@example.com"], subject: "Café ☕", body: "Merci — à bientôt" })
+      );
+
+      expect(headers.To).toBe("jane@example.com");
+      expect(headers.Subject).toBe(
+        `=?UTF-8?B?${Buffer.from("Café ☕").toString("base64")}?=`
+      );
+      expect(headers["Content-Type"]).toBe('text/plain; charset="UTF-8"');
+      expect(body).toBe("Merci — à bientôt");
+    });
+
+    test("line breaks in header values can't add headers", () => {
+      const { headers } = decodeRaw(
+        buildRawEmail({
+          to: ["jane@example.com"],
+          subject: "Hello\r\nBcc: attacker@example.com",
+          body: "Hi",
+        })
+      );
+
+      expect(headers.Bcc).toBeUndefined();
+      expect(headers.Subject).toBe("Hello Bcc: attacker@example.com");
+    });
+  });
+
+  test("send posts the raw email", async () => {
+    const result = await googleGmailSendTool.execute({
+      context: {
+        to: ["jane@example.com"],
+        cc: ["bob@example.com"],
+        subject: "Hello",
+        body: "See you soon",
+      },
+      runtimeContext: createRuntimeContext([GMAIL_COMPOSE_SCOPE]),
+    });
+
+    expect(result).toEqual({ status: "sent", id: "sent-1", threadId: "thread-1" });
+    const { headers, body } = decodeRaw(sentPayload("/messages/send").raw);
+    expect(headers.To).toBe("jane@example.com");
+    expect(headers.Cc).toBe("bob@example.com");
+    expect(headers.Subject).toBe("Hello");
+    expect(body).toBe("See you soon");
+  });
+
+  test("send and reply tools require approval, drafts don't", () => {
+    expect(googleGmailSendTool.requireApproval).toBe(true);
+    expect(googleGmailReplyTool.requireApproval).toBe(true);
+    expect(googleGmailCreateDraftTool.requireApproval).toBeFalsy();
+  });
+
+  test("reply threads the email under the original", async () => {
+    const result = await googleGmailReplyTool.execute({
+      context: { messageId: "msg-1", body: "Friday works", replyAll: false },
+      runtimeContext: createRuntimeContext([GMAIL_COMPOSE_SCOPE]),
+    });
+
+    expect(result.status).toBe("sent");
+    const payload = sentPayload("/messages/send");
+    expect(payload.threadId).toBe("thread-1");
+
+    const { headers } = decodeRaw(payload.raw);
+    expect(headers.To).toBe("Jane Smith <jane@example.com>");
+    expect(headers.Cc).toBeUndefined();
+    expect(headers.Subject).toBe("Re: Lunch on Friday?");
+    expect(headers["In-Reply-To"]).toBe("<abc@mail.example.com>");
+    expect(headers.References).toBe("<root@mail.example.com> <abc@mail.example.com>");
+  });
+
+  test("reply all copies the other recipients but not the user", async () => {
+    await googleGmailReplyTool.execute({
+      context: { messageId: "msg-1", body: "Friday works", replyAll: true },
+      runtimeContext: createRuntimeContext([GMAIL_COMPOSE_SCOPE]),
+    });
+
+    const { headers } = decodeRaw(sentPayload("/messages/send").raw);
+    expect(headers.Cc).toBe("bob@example.com");
+  });
+
+  test("draft replies are saved in the original thread", async () => {
+    const result = await googleGmailCreateDraftTool.execute({
+      context: { body: "Maybe Saturday?", replyToMessageId: "msg-1" },
+      runtimeContext: createRuntimeContext([GMAIL_COMPOSE_SCOPE]),
+    });
+
+    expect(result).toEqual({ status: "drafted", id: "draft-1", threadId: "thread-9" });
+    const { message } = sentPayload("/drafts");
+    expect(message.threadId).toBe("thread-1");
+    expect(decodeRaw(message.raw).headers.Subject).toBe("Re: Lunch on Friday?");
+    expect(requests.some((r) => r.url.endsWith("/messages/send"))).toBe(false);
+  });
+
+  test("a new draft needs recipients and a subject", async () => {
+    await expect(
+      googleGmailCreateDraftTool.execute({
+        context: { body: "No one to send this to" },
+        runtimeContext: createRuntimeContext([GMAIL_COMPOSE_SCOPE]),
+      })
+    ).rejects.toThrow("A draft needs recipients and a subject");
+  });
+
+  describe("consent", () => {
+    test("asks for the compose scope when the user only granted read access", async () => {
+      const result = await googleGmailSendTool.execute({
+        context: { to: ["jane@example.com"], subject: "Hello", body: "Hi" },
+        runtimeContext: createRuntimeContext([
+          "https://www.googleapis.com/auth/gmail.readonly",
+        ]),
+      });
+
+      expect(result).toEqual({ status: "consent_required", scope: GMAIL_COMPOSE_SCOPE });
+      expect(requests.length).toBe(0);
+    });
+
+    test("treats Google's insufficient scope error as consent required", async () => {
+      globalThis.fetch = createMockFetch(() =>
+        Promise.resolve(
+          new Response(
+            JSON.stringify({
+              error: { code: 403, message: "Request had insufficient authentication scopes." },
+            }),
+            { status: 403 }
+          )
+        )
+      );
+
+      const result = await googleGmailSendTool.execute({
+        context: { to: ["jane@example.com"], subject: "Hello", body: "Hi" },
+        runtimeContext: createRuntimeContext(),
+      });
+
+      expect(result).toEqual({ status: "consent_required", scope: GMAIL_COMPOSE_SCOPE });
+    });
+
+    test("other Google errors still fail the tool", async () => {
+      globalThis.fetch = createMockFetch(() =>
+        Promise.resolve(new Response("Invalid To header", { status: 400 }))
+      );
+
+      await expect(
+        googleGmailSendTool.execute({
+          context: { to: ["not-an-address"], subject: "Hello", body: "Hi" },
+          runtimeContext: createRuntimeContext(),
+        })
+      ).rejects.toThrow("Failed to send email: 400");
+    });
+  });
+});
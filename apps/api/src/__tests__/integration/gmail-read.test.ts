@@ -0,0 +1,173 @@
+import "../setup";
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { RuntimeContext } from "@mastra/core/di";
+import { googleGmailReadTool, truncateText } from "../../mastra/tools/google-gmail-read";
+import { decodeQuotedPrintable, htmlToText } from "../../mastra/tools/gmail-mime";
+import plainMessage from "../fixtures/gmail/message-plain.json";
+import multipartMessage from "../fixtures/gmail/message-multipart.json";
+import quotedPrintableMessage from "../fixtures/gmail/message-html-quoted-printable.json";
+import thread from "../fixtures/gmail/thread.json";
+
+/**
+ * Gmail Read Tool Integration Tests
+ *
+ * These tests run the full-body reader against recorded Gmail API
+ * responses (format=full) and verify MIME decoding, attachment listing
+ * and the token budget.
+ */
+
+const originalFetch = globalThis.fetch;
+
+const createMockFetch = (handler: (url: string, init?: RequestInit) => Promise<Response>) => {
+  const mockFn = mock(handler) as any;
+  mockFn.preconnect = () => {};
+  return mockFn as typeof fetch;
+};
+
+const fixtures: Record<string, unknown> = {
+  [`messages/${plainMessage.id}`]: plainMessage,
+  [`messages/${multipartMessage.id}`]: multipartMessage,
+  [`messages/${quotedPrintableMessage.id}`]: quotedPrintableMessage,
+  [`threads/${thread.id}`]: thread,
+  ...Object.fromEntries(thread.messages.map((message) => [`messages/${message.id}`, message])),
+};
+
+const createRuntimeContext = () => {
+  const runtimeContext = new RuntimeContext();
+  runtimeContext.set("googleAccessToken", "valid-access-token");
+  return runtimeContext;
+};
+
+const read = (context: { messageIds?: string[]; threadIds?: string[]; maxTokens?: number }) =>
+  googleGmailReadTool.execute({
+    context: { maxTokens: 4000, ...context },
+    runtimeContext: createRuntimeContext(),
+  });
+
+describe("Gmail Read Tool", () => {
+  let requestedUrls: string[];
+
+  beforeEach(() => {
+    requestedUrls = [];
+    globalThis.fetch = createMockFetch((url) => {
+      requestedUrls.push(url);
+      const { pathname } = new URL(url);
+      const fixture = fixtures[pathname.replace("/gmail/v1/users/me/", "")];
+      return Promise.resolve(
+        fixture ? Response.json(fixture) : new Response("Not Found", { status: 404 })
+      );
+    });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("fetches the full payload and decodes a plain text body", async () => {
+    const result = await read({ messageIds: [plainMessage.id] });
+
+    expect(new URL(requestedUrls[0]).searchParams.get("format")).toBe("full");
+    expect(result.messages).toHaveLength(1);
+
+    const [message] = result.messages;
+    expect(message.subject).toBe("Quarterly review moved");
+    expect(message.from).toBe("Jane Smith <jane@example.com>");
+    expect(message.body).toContain("moved to Thursday at 3pm in Room 4B");
+    expect(message.body).toContain("— especially the café expansion figures");
+    expect(message.body).not.toContain("\r");
+    expect(message.truncated).toBe(false);
+    expect(message.attachments).toEqual([]);
+  });
+
+  test("prefers the plain text alternative and lists attachments", async () => {
+    const result = await read({ messageIds: [multipartMessage.id] });
+    const [message] = result.messages;
+
+    expect(message.body).toBe(
+      "Your order #4821 has shipped.\n\nTrack it: https://shop.example.com/track/4821"
+    );
+    expect(message.attachments).toEqual([
+      { filename: "invoice-4821.pdf", mimeType: "application/pdf", size: 48213 },
+      { filename: "logo.png", mimeType: "image/png", size: 5120 },
+    ]);
+  });
+
+  test("decodes quoted-printable HTML in its declared charset", async () => {
+    const result = await read({ messageIds: [quotedPrintableMessage.id] });
+    const [message] = result.messages;
+
+    expect(message.body).toBe(
+      "Bonjour,\nLe café ouvre à 8h. Le menu du jour est très bon.\n\n- Crêpes\n- Tartines & confiture\n\nÀ bientôt,\nRenée"
+    );
+  });
+
+  test("reads every message in a thread", async () => {
+    const result = await read({ threadIds: [thread.id] });
+
+    expect(result.messages.map((m) => m.subject)).toEqual([
+      "1:1 this week",
+      "Re: 1:1 this week",
+    ]);
+    expect(result.messages[1].body).toContain("Friday works. 10am?");
+  });
+
+  test("returns a message once when it is also in a requested thread", async () => {
+    const result = await read({
+      messageIds: [thread.messages[0].id],
+      threadIds: [thread.id],
+    });
+
+    expect(result.messages.map((m) => m.id)).toEqual(thread.messages.map((m) => m.id));
+  });
+
+  test("shares the token budget across messages", async () => {
+    const result = await read({
+      messageIds: [plainMessage.id, multipartMessage.id],
+      maxTokens: 20,
+    });
+
+    const [first, second] = result.messages;
+    expect(first.truncated).toBe(true);
+    expect(second.truncated).toBe(true);
+    expect(first.body.length + second.body.length).toBeLessThanOrEqual(80);
+    // Attachments are listed even when the body was cut
+    expect(second.attachments).toHaveLength(2);
+  });
+
+  test("requires a message or thread ID", async () => {
+    await expect(read({})).rejects.toThrow("Give at least one message or thread ID");
+  });
+
+  test("reports Gmail errors", async () => {
+    await expect(read({ messageIds: ["missing"] })).rejects.toThrow(
+      "Failed to fetch email: 404"
+    );
+  });
+
+  describe("decoding helpers", () => {
+    test("decodeQuotedPrintable joins soft line breaks and multi-byte escapes", () => {
+      const bytes = decodeQuotedPrintable("Caf=C3=A9 au l=\r\nait =3D 3=E2=82=AC");
+      expect(new TextDecoder().decode(bytes)).toBe("Café au lait = 3€");
+    });
+
+    test("htmlToText drops styles, keeps link targets and decodes entities", () => {
+      const text = htmlToText(
+        '<style>p { color: red }</style><p>Read the <a href="https://example.com/doc">doc</a>&nbsp;&lt;now&gt; &#8212; &#x2713;</p>'
+      );
+      expect(text).toBe("Read the doc (https://example.com/doc) <now> — ✓");
+    });
+
+    test("truncateText ends at a nearby word break when it can", () => {
+      expect(truncateText("The quick brown fox jumps", 22)).toEqual({
+        text: "The quick brown fox",
+        truncated: true,
+      });
+      // A break far back would waste the budget, so the word is cut
+      expect(truncateText("one two three four", 12)).toEqual({
+        text: "one two thre",
+        truncated: true,
+      });
+      expect(truncateText("short", 12)).toEqual({ text: "short", truncated: false });
+    });
+  });
+});
@@ -0,0 +1,263 @@
+import "../setup";
+import { describe, test, expect, mock, beforeEach, afterEach } from "bun:test";
+import { RuntimeContext } from "@mastra/core/di";
+import {
+  driveQueryString,
+  googleDriveReadTool,
+  googleDriveSearchTool,
+  readBodyWithBudget,
+} from "../../mastra/tools/google-drive";
+import { DRIVE_READ_SCOPE, GOOGLE_SCOPES } from "../../mastra/tools/google-api";
+
+/**
+ * Google Drive Tools Integration Tests
+ *
+ * These tests run the Drive search and read tools against a mocked Drive
+ * API and verify the search query, the export formats and the byte budget.
+ */
+
+const originalFetch = globalThis.fetch;
+
+const createMockFetch = (handler: (url: string, init?: RequestInit) => Promise<Response>) => {
+  const mockFn = mock(handler) as any;
+  mockFn.preconnect = () => {};
+  return mockFn as typeof fetch;
+};
+
+const createRuntimeContext = (scopes?: string[]) => {
+  const runtimeContext = new RuntimeContext();
+  runtimeContext.set("googleAccessToken", "valid-access-token");
+  if (scopes) runtimeContext.set(GOOGLE_SCOPES, scopes);
+  return runtimeContext;
+};
+
+const files: Record<string, { mimeType: string; name: string; content?: string }> = {
+  doc1: {
+    name: "Q3 planning",
+    mimeType: "application/vnd.google-apps.document",
+    content: "Q3 goals\n\nShip the café expansion by September.",
+  },
+  sheet1: {
+    name: "Budget",
+    mimeType: "application/vnd.google-apps.spreadsheet",
+    content: "Item,Cost\nRent,1200\nCoffee,300\n",
+  },
+  notes1: { name: "notes.md", mimeType: "text/markdown", content: "# Notes\n- one\n- two" },
+  pdf1: { name: "contract.pdf", mimeType: "application/pdf" },
+};
+
+// A response whose body arrives in several chunks, like a large download
+const streamedResponse = (text: string, chunkSize: number) => {
+  const bytes = new TextEncoder().encode(text);
+  let offset = 0;
+  return new Response(
+    new ReadableStream({
+      pull(controller) {
+        if (offset >= bytes.length) return controller.close();
+        controller.enqueue(bytes.slice(offset, offset + chunkSize));
+        offset += chunkSize;
+      },
+    })
+  );
+};
+
+describe("Google Drive Tools", () => {
+  let requestedUrls: URL[];
+
+  beforeEach(() => {
+    requestedUrls = [];
+    globalThis.fetch = createMockFetch((url) => {
+      const parsed = new URL(url);
+      requestedUrls.push(parsed);
+
+      if (parsed.pathname === "/drive/v3/files") {
+        return Promise.resolve(
+          Response.json({
+            files: [
+              {
+                id: "doc1",
+                name: "Q3 planning",
+                mimeType: files.doc1.mimeType,
+                owners: [{ displayName: "Alice Chen", emailAddress: "alice@example.com" }],
+                modifiedTime: "2024-05-01T10:00:00.000Z",
+                webViewLink: "https://docs.google.com/document/d/doc1/edit",
+              },
+              { id: "untitled1", owners: [{ emailAddress: "bob@example.com" }] },
+            ],
+            nextPageToken: "page-2",
+          })
+        );
+      }
+
+      const match = /^\/drive\/v3\/files\/([\w-]+)(\/export)?$/.exec(parsed.pathname);
+      const file = match && files[match[1]];
+      if (!file) {
+        return Promise.resolve(new Response("Not Found", { status: 404 }));
+      }
+      if (match[2] || parsed.searchParams.get("alt") === "media") {
+        return Promise.resolve(streamedResponse(file.content ?? "", 8));
+      }
+      return Promise.resolve(
+        Response.json({ id: match[1], name: file.name, mimeType: file.mimeType })
+      );
+    });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  describe("googleDriveSearchTool", () => {
+    test("searches by text, owner and type and skips trashed files", async () => {
+      const result = await googleDriveSearchTool.execute({
+        context: { query: "Q3 plan", owner: "alice@example.com", type: "document", maxResults: 5 },
+        runtimeContext: createRuntimeContext(),
+      });
+
+      const params = requestedUrls[0].searchParams;
+      expect(params.get("q")).toBe(
+        "trashed = false and fullText contains 'Q3 plan' and 'alice@example.com' in owners" +
+          " and mimeType = 'application/vnd.google-apps.document'"
+      );
+      expect(params.get("pageSize")).toBe("5");
+      expect(params.get("orderBy")).toBeNull();
+
+      expect(result.status).toBe("ok");
+      expect(result.nextPageToken).toBe("page-2");
+      expect(result.files![0]).toEqual({
+        id: "doc1",
+        name: "Q3 planning",
+        mimeType: "application/vnd.google-apps.document",
+        owners: ["Alice Chen <alice@example.com>"],
+        modifiedTime: "2024-05-01T10:00:00.000Z",
+        webViewLink: "https://docs.google.com/document/d/doc1/edit",
+      });
+      expect(result.files![1]).toMatchObject({ name: "Untitled", owners: ["bob@example.com"] });
+    });
+
+    test("lists recent files when there is no query", async () => {
+      await googleDriveSearchTool.execute({
+        context: { maxResults: 10, pageToken: "page-2" },
+        runtimeContext: createRuntimeContext(),
+      });
+
+      const params = requestedUrls[0].searchParams;
+      expect(params.get("q")).toBe("trashed = false");
+      expect(params.get("orderBy")).toBe("modifiedTime desc");
+      expect(params.get("pageToken")).toBe("page-2");
+    });
+
+    test("escapes quotes in search values", () => {
+      expect(driveQueryString("Alice's notes")).toBe("'Alice\\'s notes'");
+      expect(driveQueryString("C:\\temp")).toBe("'C:\\\\temp'");
+    });
+  });
+
+  describe("googleDriveReadTool", () => {
+    const read = (fileId: string, maxBytes = 20_000, scopes?: string[]) =>
+      googleDriveReadTool.execute({
+        context: { fileId, maxBytes },
+        runtimeContext: createRuntimeContext(scopes),
+      });
+
+    test("exports Google Docs as plain text", async () => {
+      const result = await read("doc1");
+
+      expect(requestedUrls[1].pathname).toBe("/drive/v3/files/doc1/export");
+      expect(requestedUrls[1].searchParams.get("mimeType")).toBe("text/plain");
+      expect(result).toMatchObject({
+        status: "ok",
+        name: "Q3 planning",
+        format: "text/plain",
+        content: files.doc1.content,
+        truncated: false,
+      });
+    });
+
+    test("exports Google Sheets as CSV", async () => {
+      const result = await read("sheet1");
+
+      expect(requestedUrls[1].searchParams.get("mimeType")).toBe("text/csv");
+      expect(result.format).toBe("text/csv");
+      expect(result.content).toBe(files.sheet1.content);
+    });
+
+    test("downloads uploaded text files as they are", async () => {
+      const result = await read("notes1");
+
+      expect(requestedUrls[1].pathname).toBe("/drive/v3/files/notes1");
+      expect(requestedUrls[1].searchParams.get("alt")).toBe("media");
+      expect(result.content).toBe(files.notes1.content);
+    });
+
+    test("doesn't download files it can't read as text", async () => {
+      const result = await read("pdf1");
+
+      expect(result).toMatchObject({ status: "unsupported", mimeType: "application/pdf" });
+      expect(requestedUrls).toHaveLength(1);
+    });
+
+    test("cuts content to the byte budget", async () => {
+      const result = await read("doc1", 20);
+
+      expect(result.truncated).toBe(true);
+      expect(new TextEncoder().encode(result.content!).length).toBeLessThanOrEqual(20);
+      expect(files.doc1.content!.startsWith(result.content!)).toBe(true);
+    });
+
+    test("rejects budgets above the hard cap", () => {
+      const parsed = googleDriveReadTool.inputSchema!.safeParse({ fileId: "doc1", maxBytes: 10_000_000 });
+      expect(parsed.success).toBe(false);
+    });
+
+    test("rejects file IDs that aren't IDs", async () => {
+      await expect(read("../../about")).rejects.toThrow("Invalid Drive file ID");
+      expect(requestedUrls).toHaveLength(0);
+    });
+
+    test("asks for the Drive scope when it wasn't granted", async () => {
+      const result = await read("doc1", 20_000, ["https://www.googleapis.com/auth/gmail.readonly"]);
+
+      expect(result).toEqual({ status: "consent_required", scope: DRIVE_READ_SCOPE });
+      expect(requestedUrls).toHaveLength(0);
+    });
+
+    test("asks for the Drive scope when Google rejects the token", async () => {
+      globalThis.fetch = createMockFetch(() =>
+        Promise.resolve(
+          new Response(
+            JSON.stringify({ error: { code: 403, status: "PERMISSION_DENIED", message: "Request had insufficient authentication scopes." } }),
+            { status: 403 }
+          )
+        )
+      );
+
+      expect(await read("doc1")).toEqual({ status: "consent_required", scope: DRIVE_READ_SCOPE });
+    });
+
+    test("requires an access token", async () => {
+      await expect(
+        googleDriveReadTool.execute({ context: { fileId: "doc1", maxBytes: 100 }, runtimeContext: undefined as any })
+      ).rejects.toThrow("Google access token not available");
+    });
+  });
+
+  describe("readBodyWithBudget", () => {
+    test("never splits a multi-byte character", async () => {
+      // "é" is two bytes and "€" three, so most cuts land inside one
+      const text = "aé€".repeat(20);
+      for (let maxBytes = 1; maxBytes < 40; maxBytes++) {
+        const result = await readBodyWithBudget(streamedResponse(text, 5), maxBytes);
+        expect(result.truncated).toBe(true);
+        expect(result.text).not.toContain("\uFFFD");
+        expect(text.startsWith(result.text)).toBe(true);
+        expect(maxBytes - result.bytes).toBeLessThan(3);
+      }
+    });
+
+    test("returns short bodies whole", async () => {
+      const result = await readBodyWithBudget(streamedResponse("hello", 2), 5);
+      expect(result).toEqual({ text: "hello", bytes: 5, truncated: false });
+    });
+  });
+});
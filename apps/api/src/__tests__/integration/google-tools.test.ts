@@ -211,6 +211,147 @@ describe("Google Tools Integration Tests", () => {
     });
   });
 
+  describe("Contacts search, paging and details", () => {
+    const jane = {
+      resourceName: "people/c1001",
+      names: [{ displayName: "Jane Smith" }],
+      emailAddresses: [
+        { value: "jane@example.com", type: "work" },
+        { value: "jane.smith@home.example", type: "home" },
+      ],
+      phoneNumbers: [{ value: "+1 555 0100", type: "mobile" }],
+      organizations: [{ name: "Acme", title: "CTO" }],
+      birthdays: [{ date: { month: 4, day: 9 } }, { text: "April 9" }],
+    };
+
+    test("routes a query to searchContacts and returns every field", async () => {
+      const { googleContactsTool } = await import("../../mastra/tools/google-contacts");
+
+      let capturedUrl = "";
+      globalThis.fetch = createMockFetch((url) => {
+        capturedUrl = url;
+        return Promise.resolve(Response.json({ results: [{ person: jane }] }));
+      });
+
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set("googleAccessToken", "valid-access-token");
+
+      const result = await googleContactsTool.execute({
+        context: { query: "jane", maxResults: 50 },
+        runtimeContext,
+      });
+
+      const url = new URL(capturedUrl);
+      expect(url.pathname).toBe("/v1/people:searchContacts");
+      expect(url.searchParams.get("query")).toBe("jane");
+      // searchContacts caps page size at 30
+      expect(url.searchParams.get("pageSize")).toBe("30");
+      expect(url.searchParams.get("readMask")).toContain("birthdays");
+
+      expect(result.contacts).toEqual([
+        {
+          resourceName: "people/c1001",
+          name: "Jane Smith",
+          email: "jane@example.com",
+          phone: "+1 555 0100",
+          emails: [
+            { value: "jane@example.com", type: "work" },
+            { value: "jane.smith@home.example", type: "home" },
+          ],
+          phones: [{ value: "+1 555 0100", type: "mobile" }],
+          organizations: [{ name: "Acme", title: "CTO", department: undefined }],
+          birthday: "--04-09",
+        },
+      ]);
+      expect(result.nextPageToken).toBeUndefined();
+    });
+
+    test("lists connections page by page", async () => {
+      const { googleContactsTool } = await import("../../mastra/tools/google-contacts");
+
+      const capturedUrls: string[] = [];
+      globalThis.fetch = createMockFetch((url) => {
+        capturedUrls.push(url);
+        const pageToken = new URL(url).searchParams.get("pageToken");
+        return Promise.resolve(
+          Response.json(
+            pageToken === "page-2"
+              ? { connections: [{ resourceName: "people/c2", names: [{ displayName: "Bob" }] }] }
+              : { connections: [jane], nextPageToken: "page-2" }
+          )
+        );
+      });
+
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set("googleAccessToken", "valid-access-token");
+
+      const first = await googleContactsTool.execute({
+        context: { maxResults: 1 },
+        runtimeContext,
+      });
+      expect(first.contacts.map((c) => c.name)).toEqual(["Jane Smith"]);
+      expect(first.nextPageToken).toBe("page-2");
+
+      const second = await googleContactsTool.execute({
+        context: { maxResults: 1, pageToken: first.nextPageToken },
+        runtimeContext,
+      });
+      expect(second.contacts.map((c) => c.name)).toEqual(["Bob"]);
+      expect(second.nextPageToken).toBeUndefined();
+      expect(new URL(capturedUrls[1]).pathname).toBe("/v1/people/me/connections");
+    });
+
+    test("fetches a single contact's full details", async () => {
+      const { googleContactDetailsTool } = await import("../../mastra/tools/google-contacts");
+
+      let capturedUrl = "";
+      globalThis.fetch = createMockFetch((url) => {
+        capturedUrl = url;
+        return Promise.resolve(
+          Response.json({
+            ...jane,
+            birthdays: [{ date: { year: 1985, month: 4, day: 9 } }],
+            nicknames: [{ value: "JJ" }],
+            addresses: [{ formattedValue: "1 Main St, Springfield", type: "home" }],
+            urls: [{ value: "https://jane.example.com" }],
+            biographies: [{ value: "Met at the 2023 offsite" }],
+            relations: [{ person: "Sam Smith", type: "spouse" }],
+          })
+        );
+      });
+
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set("googleAccessToken", "valid-access-token");
+
+      const { contact } = await googleContactDetailsTool.execute({
+        context: { resourceName: "people/c1001" },
+        runtimeContext,
+      });
+
+      expect(new URL(capturedUrl).pathname).toBe("/v1/people/c1001");
+      expect(contact.birthday).toBe("1985-04-09");
+      expect(contact.nicknames).toEqual(["JJ"]);
+      expect(contact.addresses).toEqual([{ value: "1 Main St, Springfield", type: "home" }]);
+      expect(contact.urls).toEqual([{ value: "https://jane.example.com", type: undefined }]);
+      expect(contact.notes).toBe("Met at the 2023 offsite");
+      expect(contact.relations).toEqual([{ value: "Sam Smith", type: "spouse" }]);
+    });
+
+    test("rejects resource names outside people/", async () => {
+      const { googleContactDetailsTool } = await import("../../mastra/tools/google-contacts");
+
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set("googleAccessToken", "valid-access-token");
+
+      await expect(
+        googleContactDetailsTool.execute({
+          context: { resourceName: "people/../otherContacts" },
+          runtimeContext,
+        })
+      ).rejects.toThrow("Invalid contact resourceName");
+    });
+  });
+
   describe("Google Gmail Tool (Requirement 6.1)", () => {
     test("fetches emails when asked about emails", async () => {
       const { googleGmailTool } = await import("../../mastra/tools/google-gmail");
@@ -0,0 +1,263 @@
+import "../setup";
+import { describe, test, expect, mock, beforeAll } from "bun:test";
+import { Hono } from "hono";
+
+/**
+ * Traces Authorization Integration Tests
+ *
+ * These tests mount the real traces router and verify that a user can only
+ * read traces and conversations that belong to them:
+ * - Trace lists only include the caller's traces
+ * - Foreign trace and thread IDs return 404
+ */
+
+type SpanRow = {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  name: string;
+  spanType: string;
+  input: unknown;
+  output: unknown;
+  metadata: Record<string, string> | null;
+  attributes: Record<string, unknown> | null;
+  error: unknown;
+  startedAt: string;
+  endedAt: string;
+};
+
+const span = (
+  traceId: string,
+  spanId: string,
+  overrides: Partial<SpanRow> = {}
+): SpanRow => ({
+  traceId,
+  spanId,
+  parentSpanId: null,
+  name: "agent run: 'chat-agent'",
+  spanType: "agent_run",
+  input: null,
+  output: null,
+  metadata: null,
+  attributes: null,
+  error: null,
+  startedAt: "2025-01-01T10:00:00.000Z",
+  endedAt: "2025-01-01T10:00:05.000Z",
+  ...overrides,
+});
+
+// Each user has one conversation with one trace. Only root spans carry the
+// resourceId and threadId, as in Mastra's AI tracing.
+const spanRows: SpanRow[] = [
+  span("trace-alice", "span-alice-root", {
+    input: "Summarize my latest email",
+    metadata: { resourceId: "user-alice", threadId: "thread-alice" },
+  }),
+  span("trace-alice", "span-alice-tool", {
+    parentSpanId: "span-alice-root",
+    name: "tool: 'google-gmail'",
+    spanType: "tool_call",
+    output: { snippet: "Alice's private email" },
+  }),
+  span("trace-bob", "span-bob-root", {
+    input: "Who are my contacts?",
+    metadata: { resourceId: "user-bob", threadId: "thread-bob" },
+  }),
+  span("trace-bob", "span-bob-tool", {
+    parentSpanId: "span-bob-root",
+    name: "tool: 'google-contacts'",
+    spanType: "tool_call",
+    output: { contacts: ["Bob's private contact"] },
+  }),
+];
+
+const threads = [
+  { id: "thread-alice", resourceId: "user-alice", title: "Alice's chat", metadata: {} },
+  { id: "thread-bob", resourceId: "user-bob", title: "Bob's chat", metadata: {} },
+  {
+    id: "thread-bob-trashed",
+    resourceId: "user-bob",
+    title: "Bob's deleted chat",
+    metadata: { deletedAt: "2025-01-02T00:00:00.000Z" },
+  },
+];
+
+// Stand-in for the pg-promise client behind PostgresStore. It understands the
+// predicates used by the traces router and ignores everything else, so a
+// query without an ownership filter returns every user's rows, as it would
+// against Postgres.
+const runQuery = (query: string, params: unknown[] = []) => {
+  let rows = [...spanRows];
+
+  if (query.includes("metadata->>'resourceId' = $1")) {
+    if (query.includes('"traceId" IN (')) {
+      const ownedTraceIds = new Set(
+        spanRows
+          .filter((r) => !r.parentSpanId && r.metadata?.resourceId === params[0])
+          .map((r) => r.traceId)
+      );
+      rows = rows.filter((r) => ownedTraceIds.has(r.traceId));
+    } else {
+      rows = rows.filter((r) => r.metadata?.resourceId === params[0]);
+    }
+  }
+  if (query.includes('"traceId" = $2')) {
+    rows = rows.filter((r) => r.traceId === params[1]);
+  }
+  if (query.includes("metadata->>'threadId' = $2")) {
+    rows = rows.filter((r) => r.metadata?.threadId === params[1]);
+  }
+
+  return rows;
+};
+
+const fakeDb = {
+  any: async (query: string, params?: unknown[]) => runQuery(query, params),
+  one: async (query: string, params?: unknown[]) => ({
+    count: String(new Set(runQuery(query, params).map((r) => r.traceId)).size),
+  }),
+};
+
+const fakeMemory = {
+  getThreadsByResourceId: async ({ resourceId }: { resourceId: string }) =>
+    threads.filter((t) => t.resourceId === resourceId),
+  getThreadById: async ({ threadId }: { threadId: string }) =>
+    threads.find((t) => t.id === threadId) || null,
+};
+
+mock.module("../../mastra", () => ({
+  storage: { db: fakeDb },
+  mastra: { getAgent: () => ({ getMemory: async () => fakeMemory }) },
+}));
+
+// Sessions are picked by a test header instead of a cookie
+mock.module("../../lib/auth", () => ({
+  auth: {
+    api: {
+      getSession: async ({ headers }: { headers: Headers }) => {
+        const userId = headers.get("x-test-user");
+        if (!userId) return null;
+        return {
+          user: { id: userId, name: userId, email: `${userId}@example.com` },
+          session: { id: `session-${userId}`, userId, expiresAt: new Date(Date.now() + 86400000) },
+        };
+      },
+    },
+  },
+}));
+
+describe("Traces Authorization Integration Tests", () => {
+  let app: Hono;
+
+  const request = (path: string, userId?: string) =>
+    app.request(path, {
+      headers: userId ? { "x-test-user": userId } : {},
+    });
+
+  beforeAll(async () => {
+    const { default: traces } = await import("../../routes/traces");
+    app = new Hono();
+    app.route("/traces", traces);
+  });
+
+  test("requires authentication", async () => {
+    const res = await request("/traces?groupBy=trace");
+    expect(res.status).toBe(401);
+  });
+
+  describe("GET /traces?groupBy=trace", () => {
+    test("lists only the caller's traces", async () => {
+      const res = await request("/traces?groupBy=trace", "user-alice");
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.traces.map((t: any) => t.traceId)).toEqual(["trace-alice"]);
+      expect(body.pagination.total).toBe(1);
+    });
+
+    test("includes child spans of the caller's traces", async () => {
+      const res = await request("/traces?groupBy=trace", "user-alice");
+      const body = await res.json();
+
+      const spanIds = body.traces[0].spans.map((s: any) => s.spanId);
+      expect(spanIds).toContain("span-alice-tool");
+      expect(JSON.stringify(body)).not.toContain("Bob's private contact");
+    });
+
+    test("returns nothing for a user without traces", async () => {
+      const res = await request("/traces?groupBy=trace", "user-mallory");
+      const body = await res.json();
+
+      expect(body.traces).toEqual([]);
+      expect(body.pagination.total).toBe(0);
+    });
+  });
+
+  describe("GET /traces?groupBy=conversation", () => {
+    test("lists only the caller's conversations and traces", async () => {
+      const res = await request("/traces?groupBy=conversation", "user-bob");
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.conversations.map((c: any) => c.threadId)).toEqual(["thread-bob"]);
+      expect(body.conversations[0].traces.map((t: any) => t.traceId)).toEqual([
+        "trace-bob",
+      ]);
+    });
+  });
+
+  describe("GET /traces/:traceId", () => {
+    test("returns the caller's trace with all spans", async () => {
+      const res = await request("/traces/trace-alice", "user-alice");
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.trace.spans.length).toBe(2);
+      expect(body.trace.spans[1].output.snippet).toBe("Alice's private email");
+    });
+
+    test("returns 404 for another user's trace", async () => {
+      const res = await request("/traces/trace-alice", "user-bob");
+      expect(res.status).toBe(404);
+
+      const body = await res.json();
+      expect(body.error).toBe("Trace not found");
+      expect(JSON.stringify(body)).not.toContain("Alice's private email");
+    });
+
+    test("returns 404 for an unknown trace", async () => {
+      const res = await request("/traces/trace-unknown", "user-alice");
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("GET /traces/conversation/:threadId", () => {
+    test("returns the caller's conversation traces", async () => {
+      const res = await request("/traces/conversation/thread-bob", "user-bob");
+      expect(res.status).toBe(200);
+
+      const body = await res.json();
+      expect(body.title).toBe("Bob's chat");
+      expect(body.traces.map((t: any) => t.traceId)).toEqual(["trace-bob"]);
+    });
+
+    test("returns 404 for another user's conversation", async () => {
+      const res = await request("/traces/conversation/thread-bob", "user-alice");
+      expect(res.status).toBe(404);
+
+      const body = await res.json();
+      expect(body.error).toBe("Conversation not found");
+      expect(body.traces).toBeUndefined();
+    });
+
+    test("returns 404 for a conversation in the trash", async () => {
+      const res = await request("/traces/conversation/thread-bob-trashed", "user-bob");
+      expect(res.status).toBe(404);
+    });
+
+    test("returns 404 for an unknown conversation", async () => {
+      const res = await request("/traces/conversation/thread-unknown", "user-alice");
+      expect(res.status).toBe(404);
+    });
+  });
+});
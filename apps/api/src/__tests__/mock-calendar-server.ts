@@ -0,0 +1,123 @@
+/**
+ * In-process stand-in for the parts of the Google Calendar API the
+ * calendar tools use: events.list, freeBusy.query and events.insert.
+ * Tests seed it through `state` and point fetch at `url`.
+ */
+
+export interface MockCalendarEvent {
+  id: string;
+  summary: string;
+  start: Date;
+  end: Date;
+  attendees?: string[];
+}
+
+export interface MockCalendarState {
+  events: MockCalendarEvent[];
+  // Busy intervals per calendar ID; calendars missing here report notFound
+  busy: Record<string, Array<{ start: Date; end: Date }>>;
+  // Bodies of events created through the API
+  created: Array<Record<string, any>>;
+  requests: URL[];
+}
+
+const overlaps = (
+  interval: { start: Date; end: Date },
+  timeMin: Date,
+  timeMax: Date
+) => interval.end > timeMin && interval.start < timeMax;
+
+export function startMockCalendarServer() {
+  const state: MockCalendarState = { events: [], busy: {}, created: [], requests: [] };
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      state.requests.push(url);
+
+      const eventsPath = /^\/calendar\/v3\/calendars\/([^/]+)\/events$/.exec(url.pathname);
+
+      if (eventsPath && request.method === "GET") {
+        const timeMin = new Date(url.searchParams.get("timeMin")!);
+        const timeMax = new Date(url.searchParams.get("timeMax")!);
+        const maxResults = Number(url.searchParams.get("maxResults") ?? 250);
+        const query = url.searchParams.get("q")?.toLowerCase();
+
+        const items = state.events
+          .filter((event) => overlaps(event, timeMin, timeMax))
+          .filter((event) => !query || event.summary.toLowerCase().includes(query))
+          .sort((a, b) => a.start.getTime() - b.start.getTime())
+          .slice(0, maxResults)
+          .map((event) => ({
+            id: event.id,
+            status: "confirmed",
+            summary: event.summary,
+            start: { dateTime: event.start.toISOString() },
+            end: { dateTime: event.end.toISOString() },
+            attendees: event.attendees?.map((email) => ({
+              email,
+              responseStatus: "needsAction",
+            })),
+            htmlLink: `https://calendar.google.com/event?eid=${event.id}`,
+          }));
+
+        return Response.json({ kind: "calendar#events", items });
+      }
+
+      if (eventsPath && request.method === "POST") {
+        const body = await request.json();
+        state.created.push(body);
+        const id = `created-${state.created.length}`;
+        return Response.json({
+          ...body,
+          id,
+          status: "confirmed",
+          htmlLink: `https://calendar.google.com/event?eid=${id}`,
+        });
+      }
+
+      if (url.pathname === "/calendar/v3/freeBusy" && request.method === "POST") {
+        const body = await request.json();
+        const timeMin = new Date(body.timeMin);
+        const timeMax = new Date(body.timeMax);
+
+        const calendars = Object.fromEntries(
+          body.items.map(({ id }: { id: string }) => {
+            const busy = state.busy[id];
+            if (!busy) {
+              return [id, { errors: [{ domain: "global", reason: "notFound" }], busy: [] }];
+            }
+            return [
+              id,
+              {
+                busy: busy
+                  .filter((interval) => overlaps(interval, timeMin, timeMax))
+                  .map((interval) => ({
+                    start: new Date(Math.max(interval.start.getTime(), timeMin.getTime())).toISOString(),
+                    end: new Date(Math.min(interval.end.getTime(), timeMax.getTime())).toISOString(),
+                  })),
+              },
+            ];
+          })
+        );
+
+        return Response.json({ kind: "calendar#freeBusy", calendars });
+      }
+
+      return new Response("Not Found", { status: 404 });
+    },
+  });
+
+  return {
+    url: server.url,
+    state,
+    reset() {
+      state.events = [];
+      state.busy = {};
+      state.created = [];
+      state.requests = [];
+    },
+    stop: () => server.stop(true),
+  };
+}
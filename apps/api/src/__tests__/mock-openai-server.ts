@@ -0,0 +1,94 @@
+/**
+ * In-process stand-in for an OpenAI-compatible chat completions endpoint,
+ * like the ones vLLM, LM Studio or Ollama serve. It answers every request
+ * with `reply`, streamed or not, or fails with `state.status` when set.
+ */
+
+export interface MockOpenAIState {
+  reply: string;
+  // HTTP status to fail requests with, such as 429
+  status?: number;
+  // Model IDs of the requests received
+  requests: string[];
+  // Messages of the requests received
+  messages: unknown[][];
+}
+
+export function startMockOpenAIServer(reply = "Hello from the stub") {
+  const state: MockOpenAIState = { reply, requests: [], messages: [] };
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      if (url.pathname !== "/v1/chat/completions" || request.method !== "POST") {
+        return new Response("Not Found", { status: 404 });
+      }
+
+      const body = await request.json();
+      state.requests.push(body.model);
+      state.messages.push(body.messages);
+
+      if (state.status) {
+        return Response.json(
+          { error: { message: `Stub failure ${state.status}`, type: "stub_error" } },
+          { status: state.status }
+        );
+      }
+
+      const created = Math.floor(Date.now() / 1000);
+      const usage = { prompt_tokens: 5, completion_tokens: 4, total_tokens: 9 };
+
+      if (!body.stream) {
+        return Response.json({
+          id: "chatcmpl-stub",
+          object: "chat.completion",
+          created,
+          model: body.model,
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: state.reply },
+              finish_reason: "stop",
+            },
+          ],
+          usage,
+        });
+      }
+
+      // Stream the reply a word at a time
+      const words = state.reply.split(/(?= )/);
+      const chunk = (delta: object, finishReason: string | null, extra = {}) =>
+        `data: ${JSON.stringify({
+          id: "chatcmpl-stub",
+          object: "chat.completion.chunk",
+          created,
+          model: body.model,
+          choices: [{ index: 0, delta, finish_reason: finishReason }],
+          ...extra,
+        })}\n\n`;
+
+      const events = [
+        chunk({ role: "assistant", content: "" }, null),
+        ...words.map((word) => chunk({ content: word }, null)),
+        chunk({}, "stop", { usage }),
+        "data: [DONE]\n\n",
+      ];
+
+      return new Response(events.join(""), {
+        headers: { "Content-Type": "text/event-stream" },
+      });
+    },
+  });
+
+  return {
+    url: `${server.url.origin}/v1`,
+    state,
+    reset() {
+      state.status = undefined;
+      state.requests = [];
+      state.messages = [];
+    },
+    stop: () => server.stop(true),
+  };
+}
@@ -0,0 +1,307 @@
+import "./setup";
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { Agent } from "@mastra/core/agent";
+import { RuntimeContext } from "@mastra/core/runtime-context";
+import { createAttachmentMessage, type AttachmentFile } from "../lib/attachments";
+import {
+  CHAT_MODEL,
+  createModelRegistry,
+  shouldFallBack,
+  withAttachments,
+  type ModelRegistry,
+  type ModelRegistryConfig,
+} from "../mastra/model-registry";
+import { startMockOpenAIServer } from "./mock-openai-server";
+
+/**
+ * Model Registry Tests
+ *
+ * These tests resolve models from a registry and run an agent on them
+ * against local OpenAI-compatible stub servers, checking model selection,
+ * the fallback chain and how attached files are read into the prompt.
+ */
+
+const originalConsoleError = console.error;
+
+describe("Model Registry", () => {
+  const primary = startMockOpenAIServer("Hello from the primary");
+  const backup = startMockOpenAIServer("Hello from the backup");
+
+  const config = (overrides: Partial<ModelRegistryConfig> = {}): ModelRegistryConfig => ({
+    defaultModel: "openai-compatible/stub-large",
+    fallbacks: [],
+    gemini: { models: ["gemini-2.0-flash"] },
+    openAICompatible: { url: primary.url, models: ["stub-large", "stub-small"] },
+    ollama: { url: backup.url, models: ["llama3.2"] },
+    ...overrides,
+  });
+
+  // Run an agent on the registry's model for the given ID and collect the
+  // text, with the IDs of the models that answered
+  const chat = async (registry: ModelRegistry, model?: string) => {
+    const answeredBy: string[] = [];
+    const agent = new Agent({
+      name: "test-agent",
+      instructions: "You are a test agent.",
+      model: ({ runtimeContext }) =>
+        registry.resolve(runtimeContext.get(CHAT_MODEL) as string | undefined, {
+          onModel: (modelId) => answeredBy.push(modelId),
+        }),
+    });
+
+    const runtimeContext = new RuntimeContext();
+    if (model) runtimeContext.set(CHAT_MODEL, model);
+
+    const stream = await agent.stream("Hi", { runtimeContext });
+    let text = "";
+    let error: unknown;
+    for await (const chunk of stream.fullStream) {
+      if (chunk.type === "text-delta") text += chunk.payload.text;
+      if (chunk.type === "error") error = chunk.payload.error;
+    }
+    return { text, error, answeredBy };
+  };
+
+  // Generate a response without streaming, as titles are
+  const generate = async (registry: ModelRegistry, model?: string) => {
+    const answeredBy: string[] = [];
+    const agent = new Agent({
+      name: "test-agent",
+      instructions: "You are a test agent.",
+      model: registry.resolve(model, { onModel: (modelId) => answeredBy.push(modelId) }),
+    });
+    const { text } = await agent.generate("Hi");
+    return { text, answeredBy };
+  };
+
+  beforeAll(() => {
+    // Keep the expected fallback errors out of the test output
+    console.error = () => {};
+  });
+
+  beforeEach(() => {
+    primary.reset();
+    backup.reset();
+  });
+
+  afterAll(() => {
+    console.error = originalConsoleError;
+    primary.stop();
+    backup.stop();
+  });
+
+  describe("Configuration", () => {
+    test("lists the configured models by provider", () => {
+      const registry = createModelRegistry(config());
+
+      expect(registry.models).toEqual([
+        { id: "google/gemini-2.0-flash", provider: "google" },
+        { id: "openai-compatible/stub-large", provider: "openai-compatible" },
+        { id: "openai-compatible/stub-small", provider: "openai-compatible" },
+        { id: "ollama/llama3.2", provider: "ollama" },
+      ]);
+      expect(registry.defaultModel).toBe("openai-compatible/stub-large");
+      expect(registry.has("ollama/llama3.2")).toBe(true);
+      expect(registry.has("ollama/mistral")).toBe(false);
+    });
+
+    test("leaves out providers without an endpoint", () => {
+      const registry = createModelRegistry(
+        config({ defaultModel: "google/gemini-2.0-flash", openAICompatible: undefined, ollama: undefined })
+      );
+
+      expect(registry.models.map((model) => model.id)).toEqual(["google/gemini-2.0-flash"]);
+    });
+
+    test("rejects a default or fallback model that isn't configured", () => {
+      expect(() => createModelRegistry(config({ defaultModel: "openai/gpt-4o" }))).toThrow(
+        "Default chat model openai/gpt-4o is not configured"
+      );
+      expect(() => createModelRegistry(config({ fallbacks: ["ollama/mistral"] }))).toThrow(
+        "Fallback models are not configured: ollama/mistral"
+      );
+    });
+  });
+
+  describe("Model selection", () => {
+    test("uses the default model when none is picked", async () => {
+      const { text } = await chat(createModelRegistry(config()));
+
+      expect(text).toBe("Hello from the primary");
+      expect(primary.state.requests).toEqual(["stub-large"]);
+    });
+
+    test("uses the model picked through the runtime context", async () => {
+      const registry = createModelRegistry(config());
+
+      expect((await chat(registry, "openai-compatible/stub-small")).text).toBe("Hello from the primary");
+      expect((await chat(registry, "ollama/llama3.2")).text).toBe("Hello from the backup");
+      expect(primary.state.requests).toEqual(["stub-small"]);
+      expect(backup.state.requests).toEqual(["llama3.2"]);
+    });
+
+    test("uses the default model for unknown IDs", async () => {
+      await chat(createModelRegistry(config()), "openai/gpt-4o");
+
+      expect(primary.state.requests).toEqual(["stub-large"]);
+    });
+  });
+
+  describe("Fallback chain", () => {
+    test("falls back when the primary is rate limited", async () => {
+      primary.state.status = 429;
+
+      const { text, error, answeredBy } = await chat(
+        createModelRegistry(config({ fallbacks: ["ollama/llama3.2"] }))
+      );
+
+      expect(error).toBeUndefined();
+      expect(text).toBe("Hello from the backup");
+      expect(answeredBy).toEqual(["ollama/llama3.2"]);
+      expect(primary.state.requests).toEqual(["stub-large"]);
+      expect(backup.state.requests).toEqual(["llama3.2"]);
+    });
+
+    test("reports the picked model when it answers", async () => {
+      const { answeredBy } = await chat(
+        createModelRegistry(config({ fallbacks: ["ollama/llama3.2"] })),
+        "openai-compatible/stub-small"
+      );
+
+      expect(answeredBy).toEqual(["openai-compatible/stub-small"]);
+    });
+
+    test("falls back from a picked model to the default, then the fallbacks", async () => {
+      primary.state.status = 503;
+
+      const { text } = await chat(
+        createModelRegistry(config({ fallbacks: ["ollama/llama3.2"] })),
+        "openai-compatible/stub-small"
+      );
+
+      expect(text).toBe("Hello from the backup");
+      expect(primary.state.requests).toEqual(["stub-small", "stub-large"]);
+    });
+
+    test("falls back when the endpoint can't be reached", async () => {
+      const offline = startMockOpenAIServer();
+      offline.stop();
+
+      const { text } = await chat(
+        createModelRegistry(
+          config({
+            openAICompatible: { url: offline.url, models: ["stub-large"] },
+            fallbacks: ["ollama/llama3.2"],
+          })
+        )
+      );
+
+      expect(text).toBe("Hello from the backup");
+    });
+
+    test("generates with the picked model when it has fallbacks", async () => {
+      const { text, answeredBy } = await generate(
+        createModelRegistry(config({ fallbacks: ["ollama/llama3.2"] })),
+        "openai-compatible/stub-small"
+      );
+
+      expect(text).toBe("Hello from the primary");
+      expect(answeredBy).toEqual(["openai-compatible/stub-small"]);
+      expect(backup.state.requests).toEqual([]);
+    });
+
+    test("falls back when generating fails", async () => {
+      primary.state.status = 503;
+
+      const { text, answeredBy } = await generate(
+        createModelRegistry(config({ fallbacks: ["ollama/llama3.2"] }))
+      );
+
+      expect(text).toBe("Hello from the backup");
+      expect(answeredBy).toEqual(["ollama/llama3.2"]);
+    });
+
+    test("doesn't fall back from a bad request", async () => {
+      primary.state.status = 400;
+
+      const { text, error } = await chat(
+        createModelRegistry(config({ fallbacks: ["ollama/llama3.2"] }))
+      );
+
+      expect(text).toBe("");
+      expect(error).toBeDefined();
+      expect(backup.state.requests).toEqual([]);
+    });
+
+    test("reports the last error when every model fails", async () => {
+      primary.state.status = 429;
+      backup.state.status = 500;
+
+      const { text, error } = await chat(
+        createModelRegistry(config({ fallbacks: ["ollama/llama3.2"] }))
+      );
+
+      expect(text).toBe("");
+      expect(error).toBeDefined();
+      // The whole chain may be retried, but each pass reaches the last model
+      expect(backup.state.requests.length).toBeGreaterThan(0);
+      expect(backup.state.requests.length).toBe(primary.state.requests.length);
+    });
+  });
+
+  describe("Attachments", () => {
+    test("reads linked files into the prompt once, noting any that are gone", async () => {
+      const png = {
+        attachment: { id: "a1", name: "chart.png", contentType: "image/png", size: 3 },
+        data: new TextEncoder().encode("png"),
+      };
+      const loaded: string[] = [];
+      const load = async (attachmentId: string): Promise<AttachmentFile | null> => {
+        loaded.push(attachmentId);
+        return attachmentId === "a1" ? png : null;
+      };
+      const registry = createModelRegistry(config());
+      const agent = new Agent({
+        name: "test-agent",
+        instructions: "You are a test agent.",
+        model: withAttachments(registry.resolve(undefined), load),
+      });
+      const gone = { ...png.attachment, id: "b2" };
+
+      const stream = await agent.stream(
+        [
+          createAttachmentMessage("First", [png.attachment]),
+          createAttachmentMessage("Again", [png.attachment, gone]),
+        ],
+        {}
+      );
+      await stream.consumeStream();
+
+      expect(loaded).toEqual(["a1", "b2"]);
+      const user = (primary.state.messages[0] as { role: string; content: unknown }[]).filter(
+        (message) => message.role === "user"
+      );
+      expect(user.flatMap((message) => message.content as unknown[])).toEqual([
+        { type: "text", text: "First" },
+        { type: "image_url", image_url: { url: "data:image/png;base64,cG5n" } },
+        { type: "text", text: "Again" },
+        { type: "image_url", image_url: { url: "data:image/png;base64,cG5n" } },
+        { type: "text", text: "[An attached file is no longer available]" },
+      ]);
+    });
+  });
+
+  describe("shouldFallBack", () => {
+    test("falls back on rate limits, server errors and network failures", () => {
+      expect(shouldFallBack({ statusCode: 429 })).toBe(true);
+      expect(shouldFallBack({ statusCode: 502 })).toBe(true);
+      expect(shouldFallBack(new TypeError("fetch failed"))).toBe(true);
+    });
+
+    test("stops on client errors and cancellation", () => {
+      expect(shouldFallBack({ statusCode: 400 })).toBe(false);
+      expect(shouldFallBack({ statusCode: 401 })).toBe(false);
+      expect(shouldFallBack(new DOMException("The operation was aborted", "AbortError"))).toBe(false);
+    });
+  });
+});
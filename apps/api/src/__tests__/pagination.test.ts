@@ -0,0 +1,60 @@
+import "./setup";
+import { describe, test, expect } from "bun:test";
+import * as fc from "fast-check";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  decodeCursor,
+  encodeCursor,
+  parsePageSize,
+} from "../lib/pagination";
+
+/**
+ * Pagination Tests
+ *
+ * These tests verify page sizes and that cursors survive the round trip
+ * through a URL while anything else is rejected.
+ */
+
+describe("Pagination", () => {
+  test("parsePageSize defaults and accepts whole numbers up to the maximum", () => {
+    expect(parsePageSize(undefined)).toBe(DEFAULT_PAGE_SIZE);
+    expect(parsePageSize("")).toBe(DEFAULT_PAGE_SIZE);
+    expect(parsePageSize("1")).toBe(1);
+    expect(parsePageSize(String(MAX_PAGE_SIZE))).toBe(MAX_PAGE_SIZE);
+    for (const limit of ["0", "-5", "2.5", String(MAX_PAGE_SIZE + 1), "ten"]) {
+      expect(parsePageSize(limit)).toBeNull();
+    }
+  });
+
+  test("cursors round-trip and are URL safe", () => {
+    fc.assert(
+      fc.property(
+        fc.date({ min: new Date(0), max: new Date("2100-01-01T00:00:00.000Z") }),
+        fc.string({ minLength: 1 }),
+        (at, id) => {
+          const cursor = encodeCursor({ at, id });
+          expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+          expect(decodeCursor(cursor)).toEqual({ at, id });
+        }
+      )
+    );
+  });
+
+  test("rejects cursors that weren't issued", () => {
+    const encode = (position: unknown) =>
+      Buffer.from(JSON.stringify(position)).toString("base64url");
+
+    for (const cursor of [
+      "",
+      "%%%",
+      "not-a-cursor",
+      encode({ page: 1 }),
+      encode({ at: "yesterday", id: "m1" }),
+      encode({ at: "2025-01-06T09:00:00.123Z" }),
+      encode({ at: "2025-01-06T09:00:00.123Z", id: "" }),
+    ]) {
+      expect(decodeCursor(cursor)).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,224 @@
+import "./setup";
+import { describe, test, expect } from "bun:test";
+import * as fc from "fast-check";
+import { Hono, type MiddlewareHandler } from "hono";
+import {
+  createMemoryRateLimitStore,
+  createRateLimit,
+  createTokenQuota,
+  parseDailyTokenQuotas,
+  parseTrustProxy,
+} from "../middleware/rate-limit";
+
+/**
+ * Rate Limiting Tests
+ *
+ * These tests verify the token buckets that limit how often users and IPs
+ * can run the agent, and the daily token quotas per plan.
+ */
+
+const bucket = { capacity: 3, refillPerSecond: 1 };
+
+// App with a signed in user in front of the middleware being tested
+function createApp(middleware: MiddlewareHandler, plan?: string) {
+  const app = new Hono();
+  app.use("*", async (c, next) => {
+    const session = {
+      user: { id: c.req.header("x-user") ?? "user-123", plan },
+      session: { id: "session-1", userId: "user-123", expiresAt: new Date() },
+    };
+    c.set("session" as never, session as never);
+    await next();
+  });
+  app.post("/stream", middleware, (c) => c.text("ok"));
+  return app;
+}
+
+describe("Rate Limiting", () => {
+  describe("memory store", () => {
+    test("allows a burst, then refills over time", async () => {
+      let time = 0;
+      const store = createMemoryRateLimitStore({ now: () => time });
+
+      for (let i = 0; i < 3; i++) expect(await store.take("user:1", bucket)).toBe(0);
+      expect(await store.take("user:1", bucket)).toBe(1000);
+
+      time = 500;
+      expect(await store.take("user:1", bucket)).toBe(500);
+      // Other keys have their own bucket
+      expect(await store.take("user:2", bucket)).toBe(0);
+
+      time = 1000;
+      expect(await store.take("user:1", bucket)).toBe(0);
+      expect(await store.take("user:1", bucket)).toBeGreaterThan(0);
+    });
+
+    test("forgets the least recently used buckets", async () => {
+      const store = createMemoryRateLimitStore({ now: () => 0, maxKeys: 2 });
+      const single = { capacity: 1, refillPerSecond: 1 };
+
+      await store.take("a", single);
+      await store.take("b", single);
+      await store.take("c", single);
+
+      expect(await store.take("a", single)).toBe(0);
+      expect(await store.take("c", single)).toBeGreaterThan(0);
+    });
+
+    /**
+     * *For any* request times, a bucket never allows more than its burst
+     * plus what it refilled in that time.
+     */
+    test("never allows more than the burst plus the refill", async () => {
+      await fc.assert(
+        fc.asyncProperty(fc.array(fc.nat(60_000), { maxLength: 200 }), async (offsets) => {
+          const times = [...offsets].sort((a, b) => a - b);
+          let time = 0;
+          const store = createMemoryRateLimitStore({ now: () => time });
+
+          let allowed = 0;
+          for (const t of times) {
+            time = t;
+            if ((await store.take("user:1", bucket)) === 0) allowed++;
+          }
+
+          const elapsed = times.length ? times[times.length - 1]! / 1000 : 0;
+          expect(allowed).toBeLessThanOrEqual(bucket.capacity + elapsed * bucket.refillPerSecond);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe("createRateLimit", () => {
+    test("responds 429 with Retry-After once a user's bucket is empty", async () => {
+      const app = createApp(
+        createRateLimit({
+          store: createMemoryRateLimitStore({ now: () => 0 }),
+          user: { capacity: 1, refillPerSecond: 0.1 },
+          ip: { capacity: 10, refillPerSecond: 1 },
+        })
+      );
+
+      expect((await app.request("/stream", { method: "POST" })).status).toBe(200);
+      const res = await app.request("/stream", { method: "POST" });
+
+      expect(res.status).toBe(429);
+      expect(res.headers.get("Retry-After")).toBe("10");
+      expect(await res.json()).toEqual({ error: "Too many requests", retryAfter: 10 });
+    });
+
+    test("limits each forwarded IP across users when the proxies are trusted", async () => {
+      const app = createApp(
+        createRateLimit({
+          store: createMemoryRateLimitStore({ now: () => 0 }),
+          user: { capacity: 10, refillPerSecond: 1 },
+          ip: { capacity: 2, refillPerSecond: 1 },
+          trustedProxies: 2,
+        })
+      );
+      const post = (user: string, ip: string) =>
+        app.request("/stream", {
+          method: "POST",
+          headers: { "x-user": user, "x-forwarded-for": `${ip}, 10.0.0.1` },
+        });
+
+      expect((await post("a", "1.1.1.1")).status).toBe(200);
+      expect((await post("b", "1.1.1.1")).status).toBe(200);
+      expect((await post("c", "1.1.1.1")).status).toBe(429);
+      expect((await post("c", "2.2.2.2")).status).toBe(200);
+    });
+
+    test("ignores the forwarded addresses clients add themselves", async () => {
+      const app = createApp(
+        createRateLimit({
+          store: createMemoryRateLimitStore({ now: () => 0 }),
+          user: { capacity: 10, refillPerSecond: 1 },
+          ip: { capacity: 1, refillPerSecond: 0.1 },
+          trustedProxies: 1,
+        })
+      );
+      const post = (spoofed: string) =>
+        app.request("/stream", {
+          method: "POST",
+          headers: { "x-forwarded-for": `${spoofed}, 1.1.1.1` },
+        });
+
+      expect((await post("5.5.5.5")).status).toBe(200);
+      expect((await post("6.6.6.6")).status).toBe(429);
+    });
+
+    test("parses how many proxies to trust", () => {
+      expect(parseTrustProxy("false")).toBe(0);
+      expect(parseTrustProxy("true")).toBe(1);
+      expect(parseTrustProxy("2")).toBe(2);
+      expect(() => parseTrustProxy("yes")).toThrow();
+    });
+
+    test("requests refused for their IP don't use up the user's bucket", async () => {
+      const app = createApp(
+        createRateLimit({
+          store: createMemoryRateLimitStore({ now: () => 0 }),
+          user: { capacity: 2, refillPerSecond: 0.1 },
+          ip: { capacity: 1, refillPerSecond: 0.1 },
+          trustedProxies: 1,
+        })
+      );
+      const post = (ip: string) =>
+        app.request("/stream", { method: "POST", headers: { "x-forwarded-for": ip } });
+
+      expect((await post("1.1.1.1")).status).toBe(200);
+      expect((await post("1.1.1.1")).status).toBe(429);
+      expect((await post("1.1.1.1")).status).toBe(429);
+      expect((await post("2.2.2.2")).status).toBe(200);
+      expect((await post("3.3.3.3")).status).toBe(429);
+    });
+  });
+
+  describe("daily token quotas", () => {
+    test("parses quotas per plan", () => {
+      expect(parseDailyTokenQuotas('{"free": 1000, "pro": 50000}')).toEqual({
+        free: 1000,
+        pro: 50000,
+      });
+      expect(parseDailyTokenQuotas("")).toEqual({});
+      expect(() => parseDailyTokenQuotas("[]")).toThrow();
+      expect(() => parseDailyTokenQuotas('{"free": 1.5}')).toThrow(
+        "DAILY_TOKEN_QUOTAS has an invalid quota for free"
+      );
+    });
+
+    test("stops a user at their plan's quota until the next UTC day", async () => {
+      const since: Date[] = [];
+      const quota = createTokenQuota({
+        quotas: { free: 1000, pro: 5000 },
+        usage: {
+          async tokensSince(_userId, date) {
+            since.push(date);
+            return 1000;
+          },
+        },
+        now: () => Date.parse("2025-01-06T23:00:00.000Z"),
+      });
+
+      const res = await createApp(quota).request("/stream", { method: "POST" });
+      expect(res.status).toBe(429);
+      expect(res.headers.get("Retry-After")).toBe("3600");
+      expect(await res.json()).toEqual({ error: "Daily token quota reached", retryAfter: 3600 });
+      expect(since[0]?.toISOString()).toBe("2025-01-06T00:00:00.000Z");
+
+      const pro = await createApp(quota, "pro").request("/stream", { method: "POST" });
+      expect(pro.status).toBe(200);
+    });
+
+    test("plans without a quota aren't limited", async () => {
+      const quota = createTokenQuota({
+        quotas: { free: 0 },
+        usage: { tokensSince: async () => Infinity },
+      });
+
+      const res = await createApp(quota, "enterprise").request("/stream", { method: "POST" });
+      expect(res.status).toBe(200);
+    });
+  });
+});
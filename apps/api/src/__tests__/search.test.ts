@@ -0,0 +1,203 @@
+import "./setup";
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import type { MastraMemory } from "@mastra/core/memory";
+import type { SearchHit } from "../lib/search";
+
+/**
+ * Conversation Search Tests
+ *
+ * These tests verify query validation, snippet highlighting, how
+ * full-text and semantic matches are merged, and what the search reads.
+ */
+
+let rows: Record<string, unknown>[] = [];
+const queries: { sql: string; params: unknown[] }[] = [];
+
+mock.module("../mastra", () => ({
+  storage: {
+    db: {
+      any: async (sql: string, params: unknown[]) => {
+        queries.push({ sql, params });
+        return rows;
+      },
+      none: async (sql: string) => {
+        queries.push({ sql, params: [] });
+      },
+    },
+    init: async () => {},
+  },
+  mastra: { getAgent: () => ({ getMemory: async () => null }) },
+}));
+
+const {
+  MATCHES_PER_THREAD,
+  MAX_SEARCH_QUERY_LENGTH,
+  ensureSearchIndex,
+  parseHeadline,
+  parseSearchQuery,
+  rankSearchResults,
+  searchConversations,
+} = await import("../lib/search");
+
+const hit = (messageId: string, threadId: string): SearchHit => ({
+  messageId,
+  threadId,
+  title: `Thread ${threadId}`,
+  role: "user",
+  createdAt: "2025-01-06T08:00:00.000Z",
+  snippet: [{ text: messageId, highlight: false }],
+});
+
+const row = (id: string, threadId: string, rank: number | null, headline = id) => ({
+  id,
+  thread_id: threadId,
+  role: "assistant",
+  createdAt: new Date("2025-01-06T08:00:00.000Z"),
+  title: `Thread ${threadId}`,
+  rank,
+  headline,
+});
+
+// Memory whose vector store returns the given message IDs with scores
+const semanticMemory = (matches: [string, number][]) => {
+  const vectorQueries: unknown[] = [];
+  const memory = {
+    embedder: { doEmbed: async () => ({ embeddings: [[0.1, 0.2, 0.3]] }) },
+    vector: {
+      listIndexes: async () => ["memory_messages_3", "memory_messages_768", "other_index"],
+      describeIndex: async ({ indexName }: { indexName: string }) => ({
+        dimension: Number(indexName.split("_").pop()),
+      }),
+      query: async (params: unknown) => {
+        vectorQueries.push(params);
+        return matches.map(([id, score]) => ({ id: `v-${id}`, score, metadata: { message_id: id } }));
+      },
+    },
+  };
+  return { memory: memory as unknown as MastraMemory, vectorQueries };
+};
+
+describe("Conversation Search", () => {
+  beforeEach(() => {
+    rows = [];
+    queries.length = 0;
+  });
+
+  test("parseSearchQuery trims the query and requires one", () => {
+    expect(parseSearchQuery("  budget review ")).toEqual({ query: "budget review" });
+    expect(parseSearchQuery(undefined)).toEqual({ error: "q is required" });
+    expect(parseSearchQuery("   ")).toEqual({ error: "q is required" });
+    expect(parseSearchQuery("x".repeat(MAX_SEARCH_QUERY_LENGTH + 1))).toEqual({
+      error: `q must be at most ${MAX_SEARCH_QUERY_LENGTH} characters`,
+    });
+  });
+
+  test("parseHeadline splits snippets into highlighted parts", () => {
+    expect(parseHeadline("the \u0002budget\u0003 for \u0002Q3\u0003")).toEqual([
+      { text: "the ", highlight: false },
+      { text: "budget", highlight: true },
+      { text: " for ", highlight: false },
+      { text: "Q3", highlight: true },
+    ]);
+    expect(parseHeadline("no match here")).toEqual([{ text: "no match here", highlight: false }]);
+    expect(parseHeadline("")).toEqual([]);
+  });
+
+  describe("rankSearchResults", () => {
+    test("ranks messages found by both searches first, grouped by thread", () => {
+      const results = rankSearchResults(
+        [hit("a1", "a"), hit("b1", "b"), hit("a2", "a")],
+        [hit("b1", "b"), hit("c1", "c")]
+      );
+
+      expect(results.map((result) => result.threadId)).toEqual(["b", "a", "c"]);
+      expect(results[1]!.matches.map((match) => match.messageId)).toEqual(["a1", "a2"]);
+      expect(results[0]).toEqual({
+        threadId: "b",
+        title: "Thread b",
+        matches: [
+          {
+            messageId: "b1",
+            role: "user",
+            createdAt: "2025-01-06T08:00:00.000Z",
+            snippet: [{ text: "b1", highlight: false }],
+          },
+        ],
+      });
+    });
+
+    test("limits the threads and the matches per thread", () => {
+      const many = Array.from({ length: 10 }, (_, i) => hit(`m${i}`, i < 5 ? "a" : `t${i}`));
+      const results = rankSearchResults(many, [], 3);
+
+      expect(results).toHaveLength(3);
+      expect(results[0]!.matches).toHaveLength(MATCHES_PER_THREAD);
+    });
+  });
+
+  describe("searchConversations", () => {
+    test("merges full-text matches with semantic ones above the score cutoff", async () => {
+      const { memory, vectorQueries } = semanticMemory([
+        ["m3", 0.9],
+        ["m1", 0.8],
+        ["m9", 0.2],
+      ]);
+      rows = [
+        row("m1", "t1", 0.5, "the \u0002budget\u0003"),
+        row("m2", "t2", 0.9),
+        row("m3", "t3", null),
+      ];
+
+      const results = await searchConversations(memory, "user-123", "budget");
+
+      // Only the index matching the embedding size is queried, for this user
+      expect(vectorQueries).toEqual([
+        expect.objectContaining({
+          indexName: "memory_messages_3",
+          filter: { resource_id: "user-123" },
+        }),
+      ]);
+      expect(queries).toHaveLength(1);
+      expect(queries[0]!.params.slice(0, 3)).toEqual(["user-123", "budget", ["m3", "m1"]]);
+      expect(queries[0]!.sql).toContain("deletedAt");
+      expect(queries[0]!.sql).toContain("branchOf");
+      // Messages are matched on the expression the full-text index covers
+      expect(queries[0]!.sql).toContain(
+        "to_tsvector('english', chat_message_text(m.content)) @@ query"
+      );
+
+      expect(results.map((result) => result.threadId)).toEqual(["t1", "t2", "t3"]);
+      expect(results[0]!.matches[0]!.snippet).toEqual([
+        { text: "the ", highlight: false },
+        { text: "budget", highlight: true },
+      ]);
+    });
+
+    test("falls back to full-text search when embedding fails", async () => {
+      const { memory } = semanticMemory([]);
+      (memory.embedder as unknown as { doEmbed: () => Promise<never> }).doEmbed = async () => {
+        throw new Error("Embedding provider unavailable");
+      };
+      const consoleError = console.error;
+      console.error = () => {};
+      rows = [row("m1", "t1", 0.5)];
+
+      try {
+        const results = await searchConversations(memory, "user-123", "budget");
+        expect(queries[0]!.params[2]).toEqual([]);
+        expect(results.map((result) => result.threadId)).toEqual(["t1"]);
+      } finally {
+        console.error = consoleError;
+      }
+    });
+  });
+
+  test("ensureSearchIndex indexes message text parsed without failing on plain text", async () => {
+    await ensureSearchIndex();
+
+    const [textFunction, index] = queries.map((query) => query.sql);
+    expect(textFunction).toContain("CREATE OR REPLACE FUNCTION chat_message_text");
+    expect(textFunction).toContain("EXCEPTION WHEN invalid_text_representation");
+    expect(index).toContain("USING gin (to_tsvector('english', chat_message_text(content)))");
+  });
+});
@@ -0,0 +1,182 @@
+import "./setup";
+import { describe, test, expect, mock, spyOn, afterEach } from "bun:test";
+import type { SharedConversation } from "@chatbot/shared/types";
+import type { ExportedConversation } from "../lib/export";
+
+/**
+ * Shared Conversation Tests
+ *
+ * These tests verify share link options, what a snapshot keeps of a
+ * conversation, and when the public route serves it.
+ */
+
+const threads = new Map<string, { id: string; metadata?: Record<string, unknown> }>();
+
+mock.module("../mastra", () => ({
+  storage: { db: { none: async () => {} } },
+  mastra: {
+    getAgent: () => ({
+      getMemory: async () => ({
+        getThreadById: async ({ threadId }: { threadId: string }) => threads.get(threadId) ?? null,
+      }),
+    }),
+  },
+}));
+
+const {
+  MAX_SHARED_TOOL_OUTPUT,
+  createShareId,
+  isShareActive,
+  parseShareOptions,
+  shareTableStore,
+  toSharedMessages,
+} = await import("../lib/shares");
+const { default: shareRoutes } = await import("../routes/share");
+
+const now = new Date("2025-01-06T09:00:00.000Z");
+
+const conversation: ExportedConversation = {
+  id: "thread-1",
+  title: "Inbox summary",
+  createdAt: "2025-01-06T08:00:00.000Z",
+  updatedAt: "2025-01-06T08:05:00.000Z",
+  messages: [
+    {
+      id: "m1",
+      role: "assistant",
+      createdAt: "2025-01-06T08:01:00.000Z",
+      text: "You have two new emails.",
+      toolCalls: [
+        {
+          toolName: "googleGmailTool",
+          args: { query: "is:unread" },
+          completed: true,
+          result: { snippets: ["Your invoice is ready"] },
+        },
+        { toolName: "googleGmailReadTool", args: {}, completed: false },
+      ],
+      interrupted: false,
+    },
+  ],
+};
+
+const share = (overrides: Partial<SharedConversation> = {}): SharedConversation => ({
+  id: "share-1",
+  userId: "user-123",
+  threadId: "thread-1",
+  title: "Inbox summary",
+  messages: toSharedMessages(conversation, { redactToolOutputs: true }),
+  redactToolOutputs: true,
+  expiresAt: null,
+  revokedAt: null,
+  createdAt: now,
+  ...overrides,
+});
+
+describe("Shared Conversations", () => {
+  afterEach(() => {
+    mock.restore();
+    threads.clear();
+  });
+
+  describe("parseShareOptions", () => {
+    test("redacts tool outputs and never expires by default", () => {
+      expect(parseShareOptions({}, now)).toEqual({
+        options: { redactToolOutputs: true, expiresAt: null },
+      });
+      expect(
+        parseShareOptions({ redactToolOutputs: false, expiresAt: "2025-01-13T09:00:00.000Z" }, now)
+      ).toEqual({
+        options: { redactToolOutputs: false, expiresAt: new Date("2025-01-13T09:00:00.000Z") },
+      });
+    });
+
+    test("rejects invalid options", () => {
+      expect(parseShareOptions({ redactToolOutputs: "no" }, now)).toEqual({
+        error: "redactToolOutputs must be a boolean",
+      });
+      for (const expiresAt of ["2025-01-01T00:00:00.000Z", "soon", 12]) {
+        expect(parseShareOptions({ expiresAt }, now)).toEqual({
+          error: "expiresAt must be a future date",
+        });
+      }
+    });
+  });
+
+  describe("toSharedMessages", () => {
+    test("leaves out tool arguments, and outputs when redacted", () => {
+      const [message] = toSharedMessages(conversation, { redactToolOutputs: true });
+
+      expect(message).toEqual({
+        id: "m1",
+        role: "assistant",
+        text: "You have two new emails.",
+        createdAt: "2025-01-06T08:01:00.000Z",
+        toolCalls: [
+          { toolName: "googleGmailTool", completed: true },
+          { toolName: "googleGmailReadTool", completed: false },
+        ],
+        interrupted: false,
+      });
+    });
+
+    test("keeps tool outputs as text when not redacted, up to a limit", () => {
+      const [message] = toSharedMessages(conversation, { redactToolOutputs: false });
+      expect(message!.toolCalls[0]!.output).toContain("Your invoice is ready");
+      expect(message!.toolCalls[1]).not.toHaveProperty("output");
+
+      const long = structuredClone(conversation);
+      long.messages[0]!.toolCalls[0]!.result = "x".repeat(MAX_SHARED_TOOL_OUTPUT * 2);
+      const [truncated] = toSharedMessages(long, { redactToolOutputs: false });
+      expect(truncated!.toolCalls[0]!.output).toHaveLength(MAX_SHARED_TOOL_OUTPUT);
+    });
+  });
+
+  test("share IDs are unguessable and URL safe", () => {
+    const ids = new Set(Array.from({ length: 100 }, createShareId));
+    expect(ids.size).toBe(100);
+    for (const id of ids) expect(id).toMatch(/^[A-Za-z0-9_-]{22}$/);
+  });
+
+  test("revoked and expired shares are inactive", () => {
+    expect(isShareActive(share(), now)).toBe(true);
+    expect(isShareActive(share({ expiresAt: new Date("2025-01-07T00:00:00.000Z") }), now)).toBe(true);
+    expect(isShareActive(share({ expiresAt: new Date("2025-01-05T00:00:00.000Z") }), now)).toBe(false);
+    expect(isShareActive(share({ revokedAt: now }), now)).toBe(false);
+  });
+
+  describe("GET /share/:shareId", () => {
+    test("serves the snapshot without a session or owner details", async () => {
+      threads.set("thread-1", { id: "thread-1" });
+      spyOn(shareTableStore, "get").mockResolvedValue(share());
+
+      const res = await shareRoutes.request("/share-1");
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Cache-Control")).toBe("no-store");
+      expect(body.share).toMatchObject({ id: "share-1", title: "Inbox summary" });
+      expect(body.share.messages).toHaveLength(1);
+      expect(JSON.stringify(body)).not.toContain("user-123");
+      expect(JSON.stringify(body)).not.toContain("thread-1");
+    });
+
+    test("stops serving revoked, expired and trashed conversations", async () => {
+      threads.set("thread-1", { id: "thread-1" });
+      const get = spyOn(shareTableStore, "get");
+
+      get.mockResolvedValue(share({ revokedAt: now }));
+      expect((await shareRoutes.request("/share-1")).status).toBe(404);
+
+      get.mockResolvedValue(share({ expiresAt: new Date("2020-01-01T00:00:00.000Z") }));
+      expect((await shareRoutes.request("/share-1")).status).toBe(410);
+
+      get.mockResolvedValue(share());
+      threads.set("thread-1", { id: "thread-1", metadata: { deletedAt: now.toISOString() } });
+      expect((await shareRoutes.request("/share-1")).status).toBe(404);
+
+      get.mockResolvedValue(null);
+      expect((await shareRoutes.request("/unknown")).status).toBe(404);
+    });
+  });
+});
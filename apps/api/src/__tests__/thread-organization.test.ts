@@ -0,0 +1,66 @@
+import "./setup";
+import { describe, test, expect } from "bun:test";
+import {
+  MAX_FOLDER_LENGTH,
+  MAX_TAGS,
+  MAX_TITLE_LENGTH,
+  parseThreadPatch,
+} from "../lib/thread-organization";
+
+/**
+ * Thread Organization Tests
+ *
+ * These tests verify how renames, pins, archiving, folders and tags sent
+ * by the client are checked.
+ */
+
+describe("Thread Organization", () => {
+  describe("parseThreadPatch", () => {
+    test("accepts every field, trimmed", () => {
+      expect(
+        parseThreadPatch({
+          title: "  Budget review ",
+          pinned: true,
+          archived: false,
+          folder: " Work ",
+          tags: ["q3", " finance", "q3"],
+        })
+      ).toEqual({
+        patch: {
+          title: "Budget review",
+          pinned: true,
+          archived: false,
+          folder: "Work",
+          tags: ["q3", "finance"],
+        },
+      });
+    });
+
+    test("leaves out missing fields and clears blank folders", () => {
+      expect(parseThreadPatch({ pinned: false })).toEqual({ patch: { pinned: false } });
+      expect(parseThreadPatch({ folder: null })).toEqual({ patch: { folder: null } });
+      expect(parseThreadPatch({ folder: "  " })).toEqual({ patch: { folder: null } });
+      expect(parseThreadPatch({ tags: [] })).toEqual({ patch: { tags: [] } });
+    });
+
+    test("rejects invalid patches", () => {
+      const cases: [unknown, string][] = [
+        [null, "Patch must be an object"],
+        [[], "Patch must be an object"],
+        [{}, "Nothing to update"],
+        [{ title: "   " }, `title must be a non-empty string of at most ${MAX_TITLE_LENGTH} characters`],
+        [{ title: "x".repeat(MAX_TITLE_LENGTH + 1) }, `title must be a non-empty string of at most ${MAX_TITLE_LENGTH} characters`],
+        [{ pinned: "yes" }, "pinned must be a boolean"],
+        [{ archived: 1 }, "archived must be a boolean"],
+        [{ folder: 12 }, `folder must be a string of at most ${MAX_FOLDER_LENGTH} characters`],
+        [{ folder: "x".repeat(MAX_FOLDER_LENGTH + 1) }, `folder must be a string of at most ${MAX_FOLDER_LENGTH} characters`],
+        [{ tags: "q3" }, "tags must be non-empty strings of at most 30 characters"],
+        [{ tags: ["ok", ""] }, "tags must be non-empty strings of at most 30 characters"],
+        [{ tags: Array.from({ length: MAX_TAGS + 1 }, (_, i) => `tag-${i}`) }, `A thread can have at most ${MAX_TAGS} tags`],
+      ];
+      for (const [input, error] of cases) {
+        expect(parseThreadPatch(input)).toEqual({ error });
+      }
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import "./setup";
+import { describe, test, expect } from "bun:test";
+import * as fc from "fast-check";
+import {
+  MAX_SYSTEM_PROMPT_LENGTH,
+  filterEnabledTools,
+  getThreadMemoryOptions,
+  parseThreadSettings,
+} from "../lib/thread-settings";
+
+/**
+ * Thread Settings Tests
+ *
+ * These tests verify how settings sent by the client are checked, how
+ * a thread's enabled tools narrow the agent's tools and how turning off
+ * cross-thread recall changes the memory options.
+ */
+
+const options = {
+  models: ["google/gemini-2.0-flash", "ollama/llama3.2"],
+  tools: ["googleGmailTool", "googleContactsTool", "googleDriveReadTool"],
+};
+
+describe("Thread Settings", () => {
+  describe("parseThreadSettings", () => {
+    test("accepts every setting", () => {
+      expect(
+        parseThreadSettings(
+          {
+            model: "ollama/llama3.2",
+            temperature: 0.3,
+            systemPrompt: "  Answer in French.  ",
+            enabledTools: ["googleGmailTool", "googleGmailTool"],
+          },
+          options
+        )
+      ).toEqual({
+        settings: {
+          model: "ollama/llama3.2",
+          temperature: 0.3,
+          systemPrompt: "Answer in French.",
+          enabledTools: ["googleGmailTool"],
+        },
+      });
+    });
+
+    test("null, missing and blank fields go back to the defaults", () => {
+      expect(
+        parseThreadSettings({ model: null, temperature: null, systemPrompt: "   " }, options)
+      ).toEqual({ settings: {} });
+      expect(parseThreadSettings({}, options)).toEqual({ settings: {} });
+    });
+
+    test("an empty tool list turns every tool off", () => {
+      expect(parseThreadSettings({ enabledTools: [] }, options)).toEqual({
+        settings: { enabledTools: [] },
+      });
+    });
+
+    test("keeps cross-thread recall only when it is turned off", () => {
+      expect(parseThreadSettings({ crossThreadRecall: false }, options)).toEqual({
+        settings: { crossThreadRecall: false },
+      });
+      expect(parseThreadSettings({ crossThreadRecall: true }, options)).toEqual({ settings: {} });
+      expect(parseThreadSettings({ crossThreadRecall: "no" }, options)).toEqual({
+        error: "crossThreadRecall must be a boolean",
+      });
+    });
+
+    test("rejects invalid settings", () => {
+      expect(parseThreadSettings(null, options)).toEqual({ error: "Settings must be an object" });
+      expect(parseThreadSettings(["model"], options)).toEqual({ error: "Settings must be an object" });
+      expect(parseThreadSettings({ model: "openai/gpt-4o" }, options)).toEqual({
+        error: "Unknown model",
+      });
+      expect(parseThreadSettings({ enabledTools: ["rm -rf"] }, options)).toEqual({
+        error: "enabledTools must list known tools",
+      });
+      expect(parseThreadSettings({ enabledTools: "googleGmailTool" }, options)).toEqual({
+        error: "enabledTools must list known tools",
+      });
+      expect(
+        parseThreadSettings({ systemPrompt: "x".repeat(MAX_SYSTEM_PROMPT_LENGTH + 1) }, options)
+      ).toHaveProperty("error");
+    });
+
+    /**
+     * *For any* temperature, it is accepted exactly when it is between 0
+     * and 2.
+     */
+    test("accepts temperatures from 0 to 2 only", () => {
+      fc.assert(
+        fc.property(fc.oneof(fc.double(), fc.string(), fc.boolean()), (temperature) => {
+          const result = parseThreadSettings({ temperature }, options);
+          const valid = typeof temperature === "number" && temperature >= 0 && temperature <= 2;
+          expect("settings" in result).toBe(valid);
+        }),
+        { numRuns: 200 }
+      );
+    });
+  });
+
+  describe("filterEnabledTools", () => {
+    const tools = { googleGmailTool: 1, googleContactsTool: 2, googleDriveReadTool: 3 };
+
+    test("keeps every tool when none are chosen", () => {
+      expect(filterEnabledTools(tools, {})).toBe(tools);
+      expect(filterEnabledTools(tools, undefined)).toBe(tools);
+    });
+
+    test("keeps only the enabled tools", () => {
+      expect(filterEnabledTools(tools, { enabledTools: ["googleDriveReadTool"] })).toEqual({
+        googleDriveReadTool: 3,
+      });
+      expect(filterEnabledTools(tools, { enabledTools: [] })).toEqual({});
+    });
+  });
+
+  describe("getThreadMemoryOptions", () => {
+    test("uses the agent's memory options by default", () => {
+      expect(getThreadMemoryOptions({})).toBeUndefined();
+      expect(getThreadMemoryOptions({ model: "ollama/llama3.2" })).toBeUndefined();
+    });
+
+    test("turns off recall and the user's profile when cross-thread recall is off", () => {
+      expect(getThreadMemoryOptions({ crossThreadRecall: false })).toEqual({
+        semanticRecall: false,
+        workingMemory: { enabled: false },
+      });
+    });
+  });
+});
@@ -0,0 +1,818 @@
+import "./setup";
+import { describe, test, expect, mock, beforeEach } from "bun:test";
+import type { MastraMessageV2 } from "@mastra/core/agent";
+import type { MastraMemory, StorageThreadType } from "@mastra/core/memory";
+import type { BlobStore } from "../lib/blob-store";
+
+/**
+ * Thread Trash Tests
+ *
+ * These tests verify soft deletion, restore, the purge cascade, saving
+ * interrupted responses and branching using an in-memory stand-in for
+ * Mastra memory, its vector store and the spans table.
+ */
+
+const executedQueries: { query: string; params: unknown[] }[] = [];
+let threadRows: { id: string; metadata: string | null; [column: string]: unknown }[] = [];
+// Rows for the next queries, in order, before falling back to threadRows
+let queryResults: Record<string, unknown>[][] = [];
+
+mock.module("../mastra", () => ({
+  storage: {
+    db: {
+      none: async (query: string, params: unknown[]) => {
+        executedQueries.push({ query, params });
+      },
+      any: async (query: string, params: unknown[]) => {
+        executedQueries.push({ query, params });
+        return queryResults.shift() ?? threadRows;
+      },
+    },
+  },
+  mastra: { getAgent: () => ({ getMemory: async () => memoryState.memory }) },
+}));
+
+const {
+  TRASH_RETENTION_DAYS,
+  branchFromMessage,
+  getPurgeDate,
+  getThreadBranches,
+  getThreadMessagesPage,
+  getThreadOrganization,
+  getThreadSettings,
+  isBranchThread,
+  isTrashed,
+  listThreadBranches,
+  listThreads,
+  moveThreadToTrash,
+  organizeThread,
+  purgeExpiredThreads,
+  purgeThread,
+  restoreThreadFromTrash,
+  saveInterruptedResponse,
+  setThreadSettings,
+  switchThreadBranch,
+  updateThreadMetadata,
+} = await import("../lib/threads");
+
+const createThread = (overrides: Partial<StorageThreadType> = {}): StorageThreadType => ({
+  id: "thread-1",
+  resourceId: "user-123",
+  title: "My chat",
+  createdAt: new Date("2025-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2025-01-02T00:00:00.000Z"),
+  metadata: { pinned: true },
+  ...overrides,
+});
+
+// Memory stand-in recording what was saved and deleted, with the given
+// messages per thread
+const createMemory = (threadMessages: Record<string, MastraMessageV2[]> = {}) => {
+  const saved: StorageThreadType[] = [];
+  const deletedThreads: string[] = [];
+  const deletedVectors: { indexName: string; filter: unknown }[] = [];
+
+  const memory = {
+    getThreadById: async ({ threadId }: { threadId: string }) =>
+      createThread({
+        id: threadId,
+        metadata: threadId === "thread-branched" ? { branches: [{ id: "branch-1" }] } : {},
+      }),
+    saveThread: async ({ thread }: { thread: StorageThreadType }) => {
+      saved.push(thread);
+      return thread;
+    },
+    deleteThread: async (threadId: string) => {
+      deletedThreads.push(threadId);
+    },
+    vector: {
+      listIndexes: async () => ["memory_messages_768", "other_index"],
+      deleteVectors: async (params: { indexName: string; filter: unknown }) => {
+        deletedVectors.push(params);
+      },
+    },
+    storage: {
+      getMessagesPaginated: async ({ threadId }: { threadId: string }) => ({
+        messages: threadMessages[threadId] ?? [],
+        hasMore: false,
+      }),
+    },
+  } as unknown as MastraMemory;
+
+  return { memory, saved, deletedThreads, deletedVectors };
+};
+
+const memoryState: { memory: MastraMemory | null } = { memory: null };
+
+describe("Thread Trash", () => {
+  beforeEach(() => {
+    executedQueries.length = 0;
+    threadRows = [];
+    queryResults = [];
+  });
+
+  describe("updateThreadMetadata", () => {
+    test("merges the patch and removes undefined keys", async () => {
+      const { memory, saved } = createMemory();
+      const thread = createThread({ metadata: { pinned: true, folder: "Work" } });
+
+      await updateThreadMetadata(memory, thread, { folder: undefined, archived: true });
+
+      expect(saved[0].metadata).toEqual({ pinned: true, archived: true });
+    });
+
+    test("keeps updatedAt so the thread list order is unchanged", async () => {
+      const { memory, saved } = createMemory();
+      const thread = createThread();
+
+      await updateThreadMetadata(memory, thread, { archived: true });
+
+      expect(saved[0].updatedAt).toEqual(thread.updatedAt);
+    });
+  });
+
+  describe("thread settings", () => {
+    test("are stored in the thread's metadata", async () => {
+      const { memory, saved } = createMemory();
+      const settings = { model: "ollama/llama3.2", temperature: 0.2 };
+
+      await setThreadSettings(memory, createThread(), settings);
+
+      expect(saved[0].metadata).toEqual({ pinned: true, settings });
+      expect(getThreadSettings(saved[0])).toEqual(settings);
+    });
+
+    test("default settings are removed from the metadata", async () => {
+      const { memory, saved } = createMemory();
+      const thread = createThread({ metadata: { pinned: true, settings: { temperature: 1 } } });
+
+      await setThreadSettings(memory, thread, {});
+
+      expect(saved[0].metadata).toEqual({ pinned: true });
+      expect(getThreadSettings(saved[0])).toEqual({});
+    });
+  });
+
+  describe("thread organization", () => {
+    const now = new Date("2025-01-06T09:00:00.000Z");
+
+    test("renames, pins, archives and files a thread", async () => {
+      const { memory, saved } = createMemory();
+
+      await organizeThread(
+        memory,
+        createThread({ metadata: {} }),
+        { title: "Budget", pinned: true, archived: true, folder: "Work", tags: ["q3"] },
+        now
+      );
+
+      expect(saved[0].title).toBe("Budget");
+      expect(saved[0].updatedAt).toEqual(createThread().updatedAt);
+      expect(getThreadOrganization(saved[0])).toEqual({
+        pinnedAt: now.toISOString(),
+        archivedAt: now.toISOString(),
+        folder: "Work",
+        tags: ["q3"],
+      });
+    });
+
+    test("keeps the first pin date and leaves other fields alone", async () => {
+      const { memory, saved } = createMemory();
+      const thread = createThread({
+        metadata: { pinnedAt: "2025-01-01T00:00:00.000Z", folder: "Work", settings: { temperature: 1 } },
+      });
+
+      await organizeThread(memory, thread, { pinned: true }, now);
+
+      expect(saved[0].title).toBe("My chat");
+      expect(saved[0].metadata).toEqual(thread.metadata);
+    });
+
+    test("unpinning, unarchiving and clearing remove the metadata", async () => {
+      const { memory, saved } = createMemory();
+      const thread = createThread({
+        metadata: {
+          pinnedAt: "2025-01-01T00:00:00.000Z",
+          archivedAt: "2025-01-02T00:00:00.000Z",
+          folder: "Work",
+          tags: ["q3"],
+        },
+      });
+
+      await organizeThread(memory, thread, { pinned: false, archived: false, folder: null, tags: [] }, now);
+
+      expect(saved[0].metadata).toEqual({});
+      expect(getThreadOrganization(saved[0])).toEqual({
+        pinnedAt: null,
+        archivedAt: null,
+        folder: null,
+        tags: [],
+      });
+    });
+  });
+
+  describe("listThreads", () => {
+    const updatedAt = new Date("2025-01-06T08:00:00.000Z");
+
+    test("reads the first page in the query, without trashed or branch threads", async () => {
+      threadRows = ["thread-3", "thread-4", "thread-5"].map((id) => ({
+        id,
+        resourceId: "user-123",
+        metadata: JSON.stringify({ folder: "Work" }),
+        updatedAt,
+      }));
+
+      const { threads, nextBefore } = await listThreads("user-123", { perPage: 2 });
+
+      expect(threads.map((thread) => thread.id)).toEqual(["thread-3", "thread-4"]);
+      expect(threads[0].metadata).toEqual({ folder: "Work" });
+      expect(nextBefore).toEqual({ at: updatedAt, id: "thread-4" });
+
+      const [{ query, params }] = executedQueries;
+      expect(query).toContain("'deletedAt' IS NULL");
+      expect(query).toContain("'branchOf' IS NULL");
+      expect(query).toContain(`ORDER BY "updatedAt" DESC, id DESC`);
+      expect(params).toEqual(["user-123", 3]);
+    });
+
+    test("continues strictly after the last thread, even one sharing its date", async () => {
+      threadRows = [{ id: "thread-2", resourceId: "user-123", metadata: null, updatedAt }];
+
+      const { threads, nextBefore } = await listThreads("user-123", {
+        perPage: 2,
+        before: { at: updatedAt, id: "thread-4" },
+      });
+
+      expect(threads.map((thread) => thread.id)).toEqual(["thread-2"]);
+      expect(nextBefore).toBeNull();
+      const [{ query, params }] = executedQueries;
+      expect(query).toContain(`("updatedAt", id) < ($3, $4)`);
+      expect(params).toEqual(["user-123", 3, updatedAt, "thread-4"]);
+    });
+  });
+
+  describe("getThreadMessagesPage", () => {
+    // Three messages sent in the same millisecond, as imported ones can be
+    const at = new Date("2025-01-06T08:00:00.000Z");
+    const row = (id: string) => ({ id, createdAt: at });
+
+    const pageMemory = () => {
+      const requested: string[][] = [];
+      const memory = {
+        storage: {
+          getMessagesById: async ({ messageIds }: { messageIds: string[] }) => {
+            requested.push(messageIds);
+            return [...messageIds].reverse().map((id) => ({ id, createdAt: at }));
+          },
+        },
+      } as unknown as MastraMemory;
+      return { memory, requested };
+    };
+
+    test("reads the latest messages and points at the page before them", async () => {
+      const { memory } = pageMemory();
+      queryResults = [[row("m3"), row("m2"), row("m1")]];
+
+      const page = await getThreadMessagesPage(memory, "thread-1", { limit: 2 });
+
+      expect(page.messages.map((message) => message.id)).toEqual(["m2", "m3"]);
+      expect(page.nextBefore).toEqual({ at, id: "m2" });
+      const [{ query, params }] = executedQueries;
+      expect(query).toContain(`ORDER BY "createdAt" DESC, id DESC`);
+      expect(params).toEqual(["thread-1", 3]);
+    });
+
+    test("reads strictly before the cursor's date and ID and stops at the first page", async () => {
+      const { memory } = pageMemory();
+      queryResults = [[row("m1")]];
+
+      const page = await getThreadMessagesPage(memory, "thread-1", {
+        limit: 2,
+        before: { at, id: "m2" },
+        messageId: "m9",
+      });
+
+      expect(page.messages.map((message) => message.id)).toEqual(["m1"]);
+      expect(page.nextBefore).toBeNull();
+      // A cursor takes over from the message the history was opened at
+      expect(executedQueries).toHaveLength(1);
+      const [{ query, params }] = executedQueries;
+      expect(query).toContain(`("createdAt", id) < ($3, $4)`);
+      expect(params).toEqual(["thread-1", 3, at, "m2"]);
+    });
+
+    test("opened at a message, reads from it onward and the page before it", async () => {
+      const { memory, requested } = pageMemory();
+      queryResults = [[row("m5")], [row("m4"), row("m3"), row("m2")], [row("m5"), row("m6")]];
+
+      const page = await getThreadMessagesPage(memory, "thread-1", { limit: 2, messageId: "m5" });
+
+      expect(requested[0]).toEqual(["m3", "m4", "m5", "m6"]);
+      expect(page.messages.map((message) => message.id)).toEqual(["m3", "m4", "m5", "m6"]);
+      expect(page.nextBefore).toEqual({ at, id: "m3" });
+      expect(executedQueries[0].params).toEqual(["m5", "thread-1"]);
+      expect(executedQueries[1].params).toEqual(["thread-1", 3, at, "m5"]);
+      expect(executedQueries[2].params).toEqual(["thread-1", at, "m5", 1000]);
+    });
+  });
+
+  describe("trash and restore", () => {
+    test("moving a thread to the trash records when it was deleted", async () => {
+      const { memory } = createMemory();
+
+      const trashed = await moveThreadToTrash(memory, createThread());
+
+      expect(isTrashed(trashed)).toBe(true);
+      expect(trashed.metadata?.pinned).toBe(true);
+      expect(trashed.metadata?.purgeTraces).toBeUndefined();
+    });
+
+    test("remembers that traces should be purged", async () => {
+      const { memory } = createMemory();
+
+      const trashed = await moveThreadToTrash(memory, createThread(), {
+        includeTraces: true,
+      });
+
+      expect(trashed.metadata?.purgeTraces).toBe(true);
+    });
+
+    test("purge date is the retention period after deletion", () => {
+      const thread = createThread({
+        metadata: { deletedAt: "2025-03-01T00:00:00.000Z" },
+      });
+
+      expect(getPurgeDate(thread)?.toISOString()).toBe(
+        new Date(
+          Date.parse("2025-03-01T00:00:00.000Z") +
+            TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+        ).toISOString()
+      );
+      expect(getPurgeDate(createThread())).toBeNull();
+    });
+
+    test("restoring a thread clears the trash metadata", async () => {
+      const { memory } = createMemory();
+      const thread = createThread({
+        metadata: { pinned: true, deletedAt: new Date().toISOString(), purgeTraces: true },
+      });
+
+      const restored = await restoreThreadFromTrash(memory, thread);
+
+      expect(isTrashed(restored)).toBe(false);
+      expect(restored.metadata).toEqual({ pinned: true });
+    });
+  });
+
+  describe("purgeThread", () => {
+    test("deletes embeddings, messages and the thread", async () => {
+      const { memory, deletedThreads, deletedVectors } = createMemory();
+
+      await purgeThread(memory, "thread-1");
+
+      expect(deletedVectors).toEqual([
+        { indexName: "memory_messages_768", filter: { thread_id: "thread-1" } },
+      ]);
+      expect(deletedThreads).toEqual(["thread-1"]);
+      // Only the thread's shared snapshots, not its spans
+      expect(executedQueries.length).toBe(1);
+      expect(executedQueries[0].query).toContain("DELETE FROM shared_conversations");
+      expect(executedQueries[0].params).toEqual(["thread-1"]);
+    });
+
+    test("deletes the thread's spans when asked to", async () => {
+      const { memory } = createMemory();
+
+      await purgeThread(memory, "thread-1", { includeTraces: true });
+
+      expect(executedQueries.length).toBe(2);
+      expect(executedQueries[1].query).toContain("DELETE FROM mastra_ai_spans");
+      expect(executedQueries[1].params).toEqual([["thread-1"]]);
+    });
+
+    test("deletes the spans of the thread's branches with its own", async () => {
+      const { memory } = createMemory();
+
+      await purgeThread(memory, "thread-branched", { includeTraces: true });
+
+      const spans = executedQueries.filter(({ query }) => query.includes("mastra_ai_spans"));
+      expect(spans).toHaveLength(1);
+      expect(spans[0].params).toEqual([["thread-branched", "branch-1"]]);
+    });
+
+    test("deletes the files attached in the thread and its branches", async () => {
+      const withAttachments = (id: string, attachmentIds: string[]) =>
+        ({
+          id,
+          role: "user",
+          createdAt: new Date(),
+          content: {
+            format: 2,
+            parts: [],
+            metadata: {
+              attachments: attachmentIds.map((attachmentId) => ({
+                id: attachmentId,
+                name: `${attachmentId}.pdf`,
+                contentType: "application/pdf",
+                size: 3,
+              })),
+            },
+          },
+        }) as MastraMessageV2;
+      const { memory } = createMemory({
+        "thread-branched": [withAttachments("m1", ["a1"]), withAttachments("m2", [])],
+        // Branches copy the messages before the edit, files and all
+        "branch-1": [withAttachments("m1-copy", ["a1"]), withAttachments("m3", ["a2"])],
+      });
+      const deletedBlobs: string[] = [];
+      const blobs = {
+        delete: async (key: string) => {
+          deletedBlobs.push(key);
+        },
+      } as unknown as BlobStore;
+
+      await purgeThread(memory, "thread-branched", { blobs });
+
+      expect(deletedBlobs).toEqual(["user-123/a1", "user-123/a2"]);
+    });
+  });
+
+  describe("purgeExpiredThreads", () => {
+    test("purges threads past the retention period", async () => {
+      const { memory, deletedThreads } = createMemory();
+      memoryState.memory = memory;
+      threadRows = [
+        { id: "thread-old", metadata: JSON.stringify({ deletedAt: "2025-01-01T00:00:00.000Z", purgeTraces: true }) },
+        { id: "thread-older", metadata: JSON.stringify({ deletedAt: "2024-12-01T00:00:00.000Z" }) },
+      ];
+
+      const now = new Date("2025-03-01T00:00:00.000Z");
+      const purged = await purgeExpiredThreads(now);
+
+      expect(purged).toBe(2);
+      expect(deletedThreads).toEqual(["thread-old", "thread-older"]);
+
+      // Cutoff is the retention period before now
+      const [select, sharesDelete, spansDelete] = executedQueries;
+      expect(select.params).toEqual([
+        new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      ]);
+      expect(sharesDelete.params).toEqual(["thread-old"]);
+      expect(spansDelete.params).toEqual([["thread-old"]]);
+      // The other thread's shares go too, but not its spans
+      expect(executedQueries.length).toBe(4);
+    });
+  });
+
+  describe("saveInterruptedResponse", () => {
+    const startedAt = new Date("2025-01-03T10:00:00.000Z");
+
+    // Memory stand-in holding a single thread's messages
+    const createMessageMemory = (
+      existing: MastraMessageV2[] = [],
+      thread: StorageThreadType | null = createThread()
+    ) => {
+      const messages = [...existing];
+      const createdThreads: unknown[] = [];
+
+      const memory = {
+        getThreadById: async () => thread,
+        createThread: async (params: unknown) => {
+          createdThreads.push(params);
+          return params;
+        },
+        query: async () => ({ messagesV2: messages.slice(-5) }),
+        saveMessages: async ({ messages: saved }: { messages: MastraMessageV2[] }) => {
+          messages.push(...saved);
+          return saved;
+        },
+      } as unknown as MastraMemory;
+
+      return { memory, messages, createdThreads };
+    };
+
+    const textOf = (message: MastraMessageV2) =>
+      message.content.parts.map((part) => (part.type === "text" ? part.text : "")).join("");
+
+    test("saves the user message and the partial response as interrupted", async () => {
+      const { memory, messages } = createMessageMemory();
+
+      await saveInterruptedResponse(memory, {
+        threadId: "thread-1",
+        resourceId: "user-123",
+        message: "Summarize my inbox",
+        text: "You have three unread",
+        startedAt,
+      });
+
+      expect(messages.map((m) => [m.role, textOf(m)])).toEqual([
+        ["user", "Summarize my inbox"],
+        ["assistant", "You have three unread"],
+      ]);
+      expect(messages[0].content.metadata).toBeUndefined();
+      expect(messages[1].content.metadata).toEqual({ interrupted: true });
+      expect(messages[1].threadId).toBe("thread-1");
+      expect(messages[1].resourceId).toBe("user-123");
+    });
+
+    test("doesn't save the user message twice", async () => {
+      const { memory, messages } = createMessageMemory([
+        {
+          id: "msg-1",
+          role: "user",
+          createdAt: new Date(startedAt.getTime() + 10),
+          threadId: "thread-1",
+          resourceId: "user-123",
+          content: { format: 2, parts: [{ type: "text", text: "Summarize my inbox" }] },
+        },
+      ]);
+
+      await saveInterruptedResponse(memory, {
+        threadId: "thread-1",
+        resourceId: "user-123",
+        message: "Summarize my inbox",
+        text: "",
+        startedAt,
+      });
+
+      expect(messages.map((m) => m.role)).toEqual(["user", "assistant"]);
+      expect(messages[1].content.metadata).toEqual({ interrupted: true });
+    });
+
+    test("saves only the response for a run resumed after an approval", async () => {
+      const { memory, messages } = createMessageMemory();
+
+      await saveInterruptedResponse(memory, {
+        threadId: "thread-1",
+        resourceId: "user-123",
+        text: "Sending your",
+        startedAt,
+      });
+
+      expect(messages.map((m) => [m.role, textOf(m)])).toEqual([
+        ["assistant", "Sending your"],
+      ]);
+    });
+
+    test("creates the thread if the agent never did", async () => {
+      const { memory, createdThreads } = createMessageMemory([], null);
+
+      await saveInterruptedResponse(memory, {
+        threadId: "thread-user-123",
+        resourceId: "user-123",
+        message: "Hi",
+        text: "Hel",
+        startedAt,
+      });
+
+      expect(createdThreads).toEqual([
+        { threadId: "thread-user-123", resourceId: "user-123" },
+      ]);
+    });
+  });
+
+  describe("branches", () => {
+    // Memory stand-in holding threads and their messages
+    const createConversationMemory = (texts: string[]) => {
+      const threads = new Map<string, StorageThreadType>();
+      const messages: MastraMessageV2[] = [];
+      let nextThread = 1;
+
+      threads.set("thread-1", createThread({ metadata: {} }));
+      texts.forEach((text, i) => {
+        messages.push({
+          id: `msg-${i + 1}`,
+          role: i % 2 === 0 ? "user" : "assistant",
+          createdAt: new Date(Date.UTC(2025, 0, 1, 10, i)),
+          threadId: "thread-1",
+          resourceId: "user-123",
+          content: { format: 2, parts: [{ type: "text", text }] },
+        });
+      });
+
+      const memory = {
+        getThreadById: async ({ threadId }: { threadId: string }) =>
+          threads.get(threadId) ?? null,
+        createThread: async (params: { resourceId: string; title?: string; metadata?: Record<string, unknown> }) => {
+          const thread = createThread({
+            id: `branch-${nextThread++}`,
+            resourceId: params.resourceId,
+            title: params.title,
+            metadata: params.metadata,
+          });
+          threads.set(thread.id, thread);
+          return thread;
+        },
+        saveThread: async ({ thread }: { thread: StorageThreadType }) => {
+          threads.set(thread.id, thread);
+          return thread;
+        },
+        deleteThread: async (threadId: string) => {
+          threads.delete(threadId);
+        },
+        vector: {
+          listIndexes: async () => ["memory_messages_768", "other_index"],
+        },
+        storage: {
+          // Pages run from the latest, each in chronological order
+          getMessagesPaginated: async ({
+            threadId,
+            selectBy,
+          }: {
+            threadId: string;
+            selectBy: { pagination: { page: number; perPage: number } };
+          }) => {
+            const { page, perPage } = selectBy.pagination;
+            const inThread = messages
+              .filter((m) => m.threadId === threadId)
+              .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+            return {
+              messages: inThread.slice(page * perPage, (page + 1) * perPage).reverse(),
+              hasMore: inThread.length > (page + 1) * perPage,
+            };
+          },
+          updateMessages: async ({ messages: updates }: { messages: { id: string; threadId: string }[] }) => {
+            for (const update of updates) {
+              const message = messages.find((m) => m.id === update.id);
+              if (message) message.threadId = update.threadId;
+            }
+            return [];
+          },
+        },
+      } as unknown as MastraMemory;
+
+      const conversation = () =>
+        messages
+          .filter((m) => m.threadId === "thread-1")
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+          .map((m) => m.id);
+      const thread = () => threads.get("thread-1")!;
+
+      // What the agent saves when the cut message is sent again
+      const reply = (...replyTexts: string[]) => {
+        for (const text of replyTexts) {
+          const i = messages.length;
+          messages.push({
+            id: `msg-${i + 1}`,
+            role: i % 2 === 0 ? "user" : "assistant",
+            createdAt: new Date(Date.UTC(2025, 0, 1, 11, i)),
+            threadId: "thread-1",
+            resourceId: "user-123",
+            content: { format: 2, parts: [{ type: "text", text }] },
+          });
+        }
+      };
+
+      return { memory, threads, conversation, thread, reply };
+    };
+
+    test("reads every message of a long conversation", async () => {
+      const texts = Array.from({ length: 2500 }, (_, i) => `Message ${i + 1}`);
+      const { memory, conversation, thread } = createConversationMemory(texts);
+
+      const cut = await branchFromMessage(memory, thread(), "msg-1");
+
+      expect(cut?.message).toBe("Message 1");
+      expect(cut?.branch.messageCount).toBe(2500);
+      expect(conversation()).toEqual([]);
+    });
+
+    test("branched messages are taken out of semantic recall and put back when switched to", async () => {
+      const { memory, thread, reply } = createConversationMemory([
+        "Hi",
+        "Hello!",
+        "Find emails from Ana",
+        "Ana sent two emails",
+      ]);
+
+      const cut = await branchFromMessage(memory, thread(), "msg-3");
+
+      const moves = executedQueries.filter(({ query }) => query.includes("UPDATE"));
+      expect(moves.map(({ params }) => params)).toEqual([
+        ["memory_messages_768", JSON.stringify({ thread_id: cut!.branch.id }), ["msg-3", "msg-4"]],
+      ]);
+
+      executedQueries.length = 0;
+      reply("Find emails from Ana this week", "Ana sent one email");
+      await switchThreadBranch(memory, thread(), cut!.branch.id);
+
+      const [replaced] = getThreadBranches(thread());
+      expect(executedQueries.map(({ params }) => params)).toEqual([
+        ["memory_messages_768", JSON.stringify({ thread_id: replaced.id }), ["msg-5", "msg-6"]],
+        [
+          "memory_messages_768",
+          JSON.stringify({ thread_id: "thread-1", resource_id: "user-123" }),
+          ["msg-3", "msg-4"],
+        ],
+      ]);
+    });
+
+    test("editing a user message moves it and what follows into a branch", async () => {
+      const { memory, threads, conversation, thread } = createConversationMemory([
+        "Hi",
+        "Hello!",
+        "Find emails from Ana",
+        "Ana sent two emails",
+      ]);
+
+      const cut = await branchFromMessage(memory, thread(), "msg-3");
+
+      expect(cut?.message).toBe("Find emails from Ana");
+      expect(conversation()).toEqual(["msg-1", "msg-2"]);
+
+      const [branch] = getThreadBranches(thread());
+      expect(branch).toEqual({
+        id: cut!.branch.id,
+        forkAfter: "msg-2",
+        preview: "Find emails from Ana",
+        messageCount: 2,
+        createdAt: "2025-01-01T10:02:00.000Z",
+      });
+      expect(isBranchThread(threads.get(branch.id)!)).toBe(true);
+    });
+
+    test("regenerating a reply cuts at the user message it answered", async () => {
+      const { memory, conversation, thread } = createConversationMemory(["Hi", "Hello!"]);
+
+      const cut = await branchFromMessage(memory, thread(), "msg-2");
+
+      expect(cut?.message).toBe("Hi");
+      expect(cut?.branch.forkAfter).toBeNull();
+      expect(conversation()).toEqual([]);
+    });
+
+    test("returns null for a message that isn't in the thread", async () => {
+      const { memory, thread } = createConversationMemory(["Hi", "Hello!"]);
+
+      expect(await branchFromMessage(memory, thread(), "msg-unknown")).toBeNull();
+      expect(getThreadBranches(thread())).toEqual([]);
+    });
+
+    test("switching swaps the branch with the current conversation", async () => {
+      const { memory, threads, conversation, thread, reply } = createConversationMemory([
+        "Hi",
+        "Hello!",
+        "Find emails from Ana",
+        "Ana sent two emails",
+      ]);
+      const cut = await branchFromMessage(memory, thread(), "msg-3");
+      reply("Find emails from Ana this week", "Ana sent one email");
+
+      await switchThreadBranch(memory, thread(), cut!.branch.id);
+
+      expect(conversation()).toEqual(["msg-1", "msg-2", "msg-3", "msg-4"]);
+      expect(threads.has(cut!.branch.id)).toBe(false);
+
+      // The edited version is kept as a branch at the same fork point
+      const branches = getThreadBranches(thread());
+      expect(branches.map((b) => [b.forkAfter, b.preview, b.messageCount])).toEqual([
+        ["msg-2", "Find emails from Ana this week", 2],
+      ]);
+
+      await switchThreadBranch(memory, thread(), branches[0].id);
+
+      expect(conversation()).toEqual(["msg-1", "msg-2", "msg-5", "msg-6"]);
+    });
+
+    test("only branches forking from the current conversation are listed", async () => {
+      const { memory, conversation, thread } = createConversationMemory([
+        "Hi",
+        "Hello!",
+        "Find emails from Ana",
+        "Ana sent two emails",
+      ]);
+      const first = await branchFromMessage(memory, thread(), "msg-4");
+      const second = await branchFromMessage(memory, thread(), "msg-2");
+
+      // The first branch forks after msg-2, which is now in the second one
+      expect((await listThreadBranches(memory, thread())).map((b) => b.id)).toEqual([
+        second!.branch.id,
+      ]);
+
+      await switchThreadBranch(memory, thread(), second!.branch.id);
+
+      expect(conversation()).toEqual(["msg-1", "msg-2"]);
+      expect((await listThreadBranches(memory, thread())).map((b) => b.id)).toEqual([
+        first!.branch.id,
+      ]);
+    });
+
+    test("returns null for an unknown branch", async () => {
+      const { memory, thread } = createConversationMemory(["Hi", "Hello!"]);
+
+      expect(await switchThreadBranch(memory, thread(), "branch-unknown")).toBeNull();
+    });
+
+    test("purging a thread deletes its branches and their embeddings", async () => {
+      const { memory, deletedThreads, deletedVectors } = createMemory();
+
+      await purgeThread(memory, "thread-branched");
+
+      expect(deletedThreads).toEqual(["branch-1", "thread-branched"]);
+      expect(deletedVectors.map(({ filter }) => filter)).toEqual([
+        { thread_id: "thread-branched" },
+        { thread_id: "branch-1" },
+      ]);
+    });
+  });
+});
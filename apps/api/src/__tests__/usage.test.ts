@@ -0,0 +1,172 @@
+import "./setup";
+import { describe, test, expect } from "bun:test";
+import * as fc from "fast-check";
+import {
+  countEmbeddingTokens,
+  createEmbeddingMeter,
+  parseModelPrices,
+  summarizeUsage,
+  toUsageEvent,
+} from "../lib/usage";
+
+/**
+ * Usage Accounting Tests
+ *
+ * These tests verify how responses are priced, how usage is added up per
+ * day, week and model, and how embedding tokens are counted per request.
+ */
+
+const prices = {
+  "google/gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "google/text-embedding-004": { input: 0.02, output: 0 },
+};
+
+const row = (model: string, createdAt: string, costUsd = 0.001) => ({
+  model,
+  inputTokens: 100,
+  outputTokens: 50,
+  embeddingTokens: 10,
+  costUsd,
+  createdAt: new Date(createdAt),
+});
+
+describe("Usage Accounting", () => {
+  describe("parseModelPrices", () => {
+    test("reads prices per million tokens", () => {
+      expect(parseModelPrices('{"ollama/llama3.2": {"input": 0, "output": 0}}')).toEqual({
+        "ollama/llama3.2": { input: 0, output: 0 },
+      });
+      expect(parseModelPrices("")).toEqual({});
+    });
+
+    test("rejects invalid prices", () => {
+      expect(() => parseModelPrices("[]")).toThrow();
+      expect(() => parseModelPrices('{"ollama/llama3.2": {"input": -1, "output": 0}}')).toThrow(
+        "MODEL_PRICES has an invalid price for ollama/llama3.2"
+      );
+      expect(() => parseModelPrices('{"ollama/llama3.2": 0}')).toThrow();
+    });
+  });
+
+  describe("toUsageEvent", () => {
+    test("prices prompt, completion, reasoning and embedding tokens", () => {
+      const event = toUsageEvent(
+        {
+          userId: "user-123",
+          threadId: "thread-1",
+          traceId: "trace-1",
+          model: "google/gemini-2.0-flash",
+          usage: { inputTokens: 1_000_000, outputTokens: 400_000, reasoningTokens: 100_000 },
+          embeddingTokens: 500_000,
+        },
+        prices,
+        "google/text-embedding-004"
+      );
+
+      expect(event).toMatchObject({
+        userId: "user-123",
+        threadId: "thread-1",
+        traceId: "trace-1",
+        model: "google/gemini-2.0-flash",
+        inputTokens: 1_000_000,
+        outputTokens: 500_000,
+        embeddingTokens: 500_000,
+      });
+      // 0.1 for input, 0.2 for output and 0.01 for embeddings
+      expect(event.costUsd).toBeCloseTo(0.31, 10);
+    });
+
+    test("models without a price are free", () => {
+      const event = toUsageEvent(
+        {
+          userId: "user-123",
+          threadId: "thread-1",
+          model: "ollama/llama3.2",
+          usage: { inputTokens: 500, outputTokens: 200 },
+        },
+        prices,
+        "ollama/nomic-embed-text"
+      );
+
+      expect(event.costUsd).toBe(0);
+      expect(event.traceId).toBeNull();
+    });
+  });
+
+  describe("summarizeUsage", () => {
+    test("adds up usage per UTC day, per week from Monday and per model", () => {
+      const summary = summarizeUsage([
+        // Sunday, then Monday and Tuesday of the next week
+        row("google/gemini-2.0-flash", "2025-01-05T23:30:00.000Z"),
+        row("google/gemini-2.0-flash", "2025-01-06T08:00:00.000Z"),
+        row("ollama/llama3.2", "2025-01-06T09:00:00.000Z", 0),
+        row("google/gemini-2.0-flash", "2025-01-07T10:00:00.000Z"),
+      ]);
+
+      expect(summary.totals).toMatchObject({ responses: 4, inputTokens: 400, outputTokens: 200 });
+      expect(summary.daily.map(({ date, responses }) => [date, responses])).toEqual([
+        ["2025-01-05", 1],
+        ["2025-01-06", 2],
+        ["2025-01-07", 1],
+      ]);
+      expect(summary.weekly.map(({ weekStart, responses }) => [weekStart, responses])).toEqual([
+        ["2024-12-30", 1],
+        ["2025-01-06", 3],
+      ]);
+      expect(summary.byModel.map(({ model, responses }) => [model, responses])).toEqual([
+        ["google/gemini-2.0-flash", 3],
+        ["ollama/llama3.2", 1],
+      ]);
+    });
+
+    /**
+     * *For any* usage events, the days, weeks and models each add up to
+     * the totals.
+     */
+    test("every breakdown adds up to the totals", () => {
+      const events = fc.array(
+        fc.record({
+          model: fc.constantFrom("google/gemini-2.0-flash", "ollama/llama3.2"),
+          inputTokens: fc.nat(10_000),
+          outputTokens: fc.nat(10_000),
+          embeddingTokens: fc.nat(1_000),
+          costUsd: fc.nat(1_000).map((cents) => cents / 100),
+          createdAt: fc.date({ min: new Date("2024-01-01"), max: new Date("2026-01-01") }),
+        })
+      );
+
+      fc.assert(
+        fc.property(events, (rows) => {
+          const summary = summarizeUsage(rows);
+          for (const breakdown of [summary.daily, summary.weekly, summary.byModel]) {
+            const sum = (key: "responses" | "inputTokens" | "costUsd") =>
+              breakdown.reduce((total, entry) => total + entry[key], 0);
+            expect(sum("responses")).toBe(rows.length);
+            expect(sum("inputTokens")).toBe(summary.totals.inputTokens);
+            expect(sum("costUsd")).toBeCloseTo(summary.totals.costUsd, 6);
+          }
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe("embedding meter", () => {
+    test("counts tokens used by what it runs, including later async work", async () => {
+      const meter = createEmbeddingMeter();
+      const other = createEmbeddingMeter();
+
+      await meter.run(async () => {
+        countEmbeddingTokens(12);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        countEmbeddingTokens(30);
+      });
+      await other.run(async () => countEmbeddingTokens(5));
+      // Calls outside any meter aren't counted
+      countEmbeddingTokens(100);
+
+      expect(meter.tokens).toBe(42);
+      expect(other.tokens).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import "./setup";
+import { describe, test, expect } from "bun:test";
+import type { MastraMemory } from "@mastra/core/memory";
+import {
+  MAX_PROFILE_ITEMS,
+  MAX_PROFILE_TEXT_LENGTH,
+  getUserProfile,
+  parseUserProfile,
+  readUserProfile,
+  setUserProfile,
+} from "../lib/user-memory";
+
+/**
+ * User Memory Tests
+ *
+ * These tests verify how profiles sent by the client are checked, how
+ * the profile the agent wrote is read back, and where it is stored.
+ */
+
+// Memory whose storage keeps working memory per resource
+const createMemory = (stored: Record<string, string> = {}) =>
+  ({
+    storage: {
+      getResourceById: async ({ resourceId }: { resourceId: string }) =>
+        resourceId in stored ? { id: resourceId, workingMemory: stored[resourceId] } : null,
+      updateResource: async ({
+        resourceId,
+        workingMemory,
+      }: {
+        resourceId: string;
+        workingMemory: string;
+      }) => {
+        stored[resourceId] = workingMemory;
+      },
+    },
+  }) as unknown as MastraMemory;
+
+describe("User Memory", () => {
+  describe("parseUserProfile", () => {
+    test("trims text and drops blank and repeated items", () => {
+      expect(
+        parseUserProfile({
+          name: "  Sam ",
+          location: "   ",
+          occupation: null,
+          interests: ["hiking", " hiking ", ""],
+          facts: [],
+        })
+      ).toEqual({ profile: { name: "Sam", interests: ["hiking"] } });
+      expect(parseUserProfile({})).toEqual({ profile: {} });
+    });
+
+    test("rejects invalid profiles", () => {
+      expect(parseUserProfile(null)).toEqual({ error: "Profile must be an object" });
+      expect(parseUserProfile(["Sam"])).toEqual({ error: "Profile must be an object" });
+      expect(parseUserProfile({ name: 42 })).toEqual({
+        error: `name must be a string of at most ${MAX_PROFILE_TEXT_LENGTH} characters`,
+      });
+      expect(parseUserProfile({ facts: "Has a dog" })).toEqual({
+        error: `facts must be strings of at most ${MAX_PROFILE_TEXT_LENGTH} characters`,
+      });
+      expect(parseUserProfile({ facts: ["x".repeat(MAX_PROFILE_TEXT_LENGTH + 1)] })).toHaveProperty(
+        "error"
+      );
+      expect(
+        parseUserProfile({
+          preferences: Array.from({ length: MAX_PROFILE_ITEMS + 1 }, (_, i) => `item ${i}`),
+        })
+      ).toEqual({ error: `preferences can have at most ${MAX_PROFILE_ITEMS} items` });
+    });
+  });
+
+  test("readUserProfile keeps only well-formed fields", () => {
+    expect(
+      readUserProfile(
+        JSON.stringify({ name: "Sam", location: 3, facts: ["Has a dog", 7, " "], mood: "happy" })
+      )
+    ).toEqual({ name: "Sam", facts: ["Has a dog"] });
+    expect(readUserProfile("# Markdown notes")).toEqual({});
+    expect(readUserProfile("[]")).toEqual({});
+    expect(readUserProfile(null)).toEqual({});
+  });
+
+  test("stores the profile as the user's working memory", async () => {
+    const stored: Record<string, string> = {};
+    const memory = createMemory(stored);
+
+    expect(await getUserProfile(memory, "user-123")).toEqual({});
+
+    await setUserProfile(memory, "user-123", { name: "Sam", facts: ["Has a dog"] });
+    expect(JSON.parse(stored["user-123"]!)).toEqual({ name: "Sam", facts: ["Has a dog"] });
+    expect(await getUserProfile(memory, "user-123")).toEqual({ name: "Sam", facts: ["Has a dog"] });
+    expect(await getUserProfile(memory, "user-456")).toEqual({});
+
+    // Forgetting everything leaves nothing for the agent to read
+    await setUserProfile(memory, "user-123", {});
+    expect(stored["user-123"]).toBe("");
+    expect(await getUserProfile(memory, "user-123")).toEqual({});
+  });
+});
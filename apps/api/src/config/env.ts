@@ -13,6 +13,7 @@ export const env = {
   // Google OAuth
   GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID || "",
   GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET || "",
+  GOOGLE_TOKEN_URL: process.env.GOOGLE_TOKEN_URL || "https://oauth2.googleapis.com/token",
   
   // Better Auth
   BETTER_AUTH_SECRET: process.env.BETTER_AUTH_SECRET || "",
@@ -20,6 +21,54 @@ export const env = {
   
   // Google AI (for Mastra agent)
   GOOGLE_GENERATIVE_AI_API_KEY: process.env.GOOGLE_GENERATIVE_AI_API_KEY || "",
+
+  // Chat models, as provider/model IDs. Threads use CHAT_MODEL unless they
+  // pick another, and MODEL_FALLBACKS are tried in order when it fails
+  CHAT_MODEL: process.env.CHAT_MODEL || "google/gemini-2.0-flash",
+  MODEL_FALLBACKS: process.env.MODEL_FALLBACKS || "",
+  GEMINI_MODELS: process.env.GEMINI_MODELS || "gemini-2.0-flash",
+
+  // Any OpenAI-compatible chat completions endpoint
+  OPENAI_COMPATIBLE_URL: process.env.OPENAI_COMPATIBLE_URL || "",
+  OPENAI_COMPATIBLE_API_KEY: process.env.OPENAI_COMPATIBLE_API_KEY || "",
+  OPENAI_COMPATIBLE_MODELS: process.env.OPENAI_COMPATIBLE_MODELS || "",
+
+  // Local Ollama, through its OpenAI-compatible API (http://localhost:11434/v1)
+  OLLAMA_URL: process.env.OLLAMA_URL || "",
+  OLLAMA_MODELS: process.env.OLLAMA_MODELS || "",
+
+  // Embeddings for semantic recall. Changing the model changes the vector
+  // size, so existing memory has to be re-embedded
+  EMBEDDING_MODEL: process.env.EMBEDDING_MODEL || "google/text-embedding-004",
+  // Set to embed through an OpenAI-compatible endpoint such as Ollama
+  EMBEDDING_URL: process.env.EMBEDDING_URL || "",
+  EMBEDDING_API_KEY: process.env.EMBEDDING_API_KEY || "",
+
+  // Prices in USD per million tokens as JSON, like
+  // {"ollama/llama3.2": {"input": 0, "output": 0}}, added to the built-in ones
+  MODEL_PRICES: process.env.MODEL_PRICES || "",
+
+  // Token buckets for the chat endpoints, per user and per client IP.
+  // "postgres" shares the buckets between API instances
+  RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE || "memory",
+  RATE_LIMIT_USER_BURST: process.env.RATE_LIMIT_USER_BURST || "10",
+  RATE_LIMIT_USER_PER_MINUTE: process.env.RATE_LIMIT_USER_PER_MINUTE || "20",
+  RATE_LIMIT_IP_BURST: process.env.RATE_LIMIT_IP_BURST || "30",
+  RATE_LIMIT_IP_PER_MINUTE: process.env.RATE_LIMIT_IP_PER_MINUTE || "60",
+  // Read the client IP from X-Forwarded-For when behind a proxy: "true"
+  // for one proxy, or how many proxies add to the header
+  TRUST_PROXY: process.env.TRUST_PROXY || "false",
+
+  // Prompt and completion tokens a user may use per UTC day, per plan tier,
+  // as JSON. Plans left out are unlimited
+  DAILY_TOKEN_QUOTAS: process.env.DAILY_TOKEN_QUOTAS || '{"free": 200000, "pro": 2000000}',
+
+  // Where files attached to chat messages are kept. "local" keeps them on
+  // disk under BLOB_STORE_DIR
+  BLOB_STORE: process.env.BLOB_STORE || "local",
+  BLOB_STORE_DIR: process.env.BLOB_STORE_DIR || "./data/blobs",
+  // Most space in MB each user's attached files can take up
+  ATTACHMENT_STORAGE_QUOTA_MB: process.env.ATTACHMENT_STORAGE_QUOTA_MB || "500",
 } as const;
 
 export function validateEnv() {
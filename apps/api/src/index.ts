@@ -3,8 +3,14 @@ import { cors } from "hono/cors";
 import { logger } from "hono/logger";
 import { env, validateEnv } from "./config/env";
 import { auth } from "./lib/auth";
+import { ensureSearchIndex } from "./lib/search";
+import { startTrashPurgeJob } from "./lib/threads";
+import assistants from "./routes/assistants";
 import chat from "./routes/chat";
+import memoryRoutes from "./routes/memory";
+import share from "./routes/share";
 import traces from "./routes/traces";
+import usage from "./routes/usage";
 
 // Validate environment in production
 validateEnv();
@@ -32,9 +38,27 @@ app.all("/api/auth/*", (c) => auth.handler(c.req.raw));
 // Chat routes
 app.route("/chat", chat);
 
+// Public read-only links to shared conversations
+app.route("/share", share);
+
+// Custom assistant routes
+app.route("/assistants", assistants);
+
+// What the assistant remembers about the user
+app.route("/memory", memoryRoutes);
+
 // Traces routes (AI Tracing observability)
 app.route("/traces", traces);
 
+// Token usage and cost routes
+app.route("/usage", usage);
+
+// Permanently delete threads that have been in the trash too long
+startTrashPurgeJob();
+
+// Full-text index over message text for conversation search
+ensureSearchIndex().catch((error) => console.error("Search index error:", error));
+
 const port = parseInt(env.PORT);
 console.log(`Server running on port ${port}`);
 
@@ -0,0 +1,134 @@
+import { db, assistant, eq, and, desc } from "@chatbot/shared/db";
+import type { Assistant } from "@chatbot/shared/types";
+
+export const MAX_ASSISTANT_NAME_LENGTH = 80;
+export const MAX_ASSISTANT_INSTRUCTIONS_LENGTH = 4000;
+export const MAX_STARTER_PROMPTS = 4;
+export const MAX_STARTER_PROMPT_LENGTH = 200;
+
+/**
+ * The fields of an assistant a user can set.
+ */
+export type AssistantInput = Pick<
+  Assistant,
+  "name" | "instructions" | "tools" | "model" | "starterPrompts"
+>;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+/**
+ * Check an assistant sent by the client. Every field but the name and
+ * instructions may be left out. Returns an error message for the first
+ * invalid field.
+ */
+export function parseAssistant(
+  input: unknown,
+  { models, tools }: { models: string[]; tools: string[] }
+): { assistant: AssistantInput } | { error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Assistant must be an object" };
+  }
+
+  const fields = input as Record<string, unknown>;
+  const name = typeof fields.name === "string" ? fields.name.trim() : "";
+  const instructions =
+    typeof fields.instructions === "string" ? fields.instructions.trim() : "";
+
+  if (!name || name.length > MAX_ASSISTANT_NAME_LENGTH) {
+    return { error: `name must be 1 to ${MAX_ASSISTANT_NAME_LENGTH} characters` };
+  }
+  if (!instructions || instructions.length > MAX_ASSISTANT_INSTRUCTIONS_LENGTH) {
+    return {
+      error: `instructions must be 1 to ${MAX_ASSISTANT_INSTRUCTIONS_LENGTH} characters`,
+    };
+  }
+
+  // Assistants get every tool unless they pick some
+  const chosenTools = fields.tools ?? tools;
+  if (!isStringList(chosenTools) || !chosenTools.every((tool) => tools.includes(tool))) {
+    return { error: "tools must list known tools" };
+  }
+
+  const model = fields.model ?? null;
+  if (model !== null && (typeof model !== "string" || !models.includes(model))) {
+    return { error: "Unknown model" };
+  }
+
+  const starterPrompts = fields.starterPrompts ?? [];
+  if (
+    !isStringList(starterPrompts) ||
+    starterPrompts.length > MAX_STARTER_PROMPTS ||
+    starterPrompts.some((prompt) => prompt.length > MAX_STARTER_PROMPT_LENGTH)
+  ) {
+    return {
+      error: `starterPrompts must list at most ${MAX_STARTER_PROMPTS} prompts of at most ${MAX_STARTER_PROMPT_LENGTH} characters`,
+    };
+  }
+
+  return {
+    assistant: {
+      name,
+      instructions,
+      tools: [...new Set(chosenTools)],
+      model,
+      starterPrompts: starterPrompts.map((prompt) => prompt.trim()).filter(Boolean),
+    },
+  };
+}
+
+/**
+ * Where a user's assistants are kept. Every call is scoped to the owner,
+ * so another user's assistant reads as missing.
+ */
+export interface AssistantStore {
+  list(userId: string): Promise<Assistant[]>;
+  get(userId: string, id: string): Promise<Assistant | null>;
+  create(userId: string, input: AssistantInput): Promise<Assistant>;
+  update(userId: string, id: string, input: AssistantInput): Promise<Assistant | null>;
+  delete(userId: string, id: string): Promise<boolean>;
+}
+
+const owned = (userId: string, id: string) =>
+  and(eq(assistant.id, id), eq(assistant.userId, userId));
+
+// Assistant store backed by the assistant table
+export const assistantTableStore: AssistantStore = {
+  list(userId) {
+    return db
+      .select()
+      .from(assistant)
+      .where(eq(assistant.userId, userId))
+      .orderBy(desc(assistant.updatedAt));
+  },
+
+  async get(userId, id) {
+    const [row] = await db.select().from(assistant).where(owned(userId, id)).limit(1);
+    return row ?? null;
+  },
+
+  async create(userId, input) {
+    const [row] = await db
+      .insert(assistant)
+      .values({ id: crypto.randomUUID(), userId, ...input })
+      .returning();
+    return row;
+  },
+
+  async update(userId, id, input) {
+    const [row] = await db
+      .update(assistant)
+      .set({ ...input, updatedAt: new Date() })
+      .where(owned(userId, id))
+      .returning();
+    return row ?? null;
+  },
+
+  async delete(userId, id) {
+    const rows = await db
+      .delete(assistant)
+      .where(owned(userId, id))
+      .returning({ id: assistant.id });
+    return rows.length > 0;
+  },
+};
@@ -0,0 +1,231 @@
+import type { MastraMessageV2 } from "@mastra/core/agent";
+import { env } from "../config/env";
+import type { BlobStore } from "./blob-store";
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Most space each user's attached files can take up together
+export const ATTACHMENT_STORAGE_QUOTA_BYTES =
+  Number(env.ATTACHMENT_STORAGE_QUOTA_MB) * 1024 * 1024;
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_NAME_LENGTH = 255;
+
+// The file types the model can read, with the extensions they are
+// recognised by when the browser sends no type
+export const ATTACHMENT_TYPES: Record<string, string[]> = {
+  "application/pdf": [".pdf"],
+  "image/png": [".png"],
+  "image/jpeg": [".jpg", ".jpeg"],
+  "image/webp": [".webp"],
+  "image/gif": [".gif"],
+  "text/csv": [".csv"],
+  "text/plain": [".txt"],
+  "text/markdown": [".md", ".markdown"],
+};
+
+const ATTACHMENT_ID = /^[\w-]{1,64}$/;
+
+// Runtime context key for a function that reads one of the user's
+// attachments by ID, for the files linked from the prompt
+export const LOAD_ATTACHMENT = "loadAttachment";
+
+// How stored messages link to an attached file, in place of its contents
+export const ATTACHMENT_URL = /^attachment:([\w-]{1,64})$/;
+const attachmentUrl = (attachmentId: string) => `attachment:${attachmentId}`;
+
+/**
+ * A file attached to a chat message, as kept in the message's metadata.
+ * The file itself is in the blob store.
+ */
+export interface Attachment {
+  id: string;
+  name: string;
+  contentType: string;
+  size: number;
+}
+
+export interface AttachmentFile {
+  attachment: Attachment;
+  data: Uint8Array;
+}
+
+const attachmentKey = (userId: string, attachmentId: string) => `${userId}/${attachmentId}`;
+
+/**
+ * The supported content type of an uploaded file, from the type the
+ * browser sent or else from its extension. Returns null for files the
+ * model can't read.
+ */
+export function getAttachmentType(name: string, type: string) {
+  const contentType = type.split(";")[0].trim().toLowerCase();
+  if (contentType in ATTACHMENT_TYPES) return contentType;
+
+  const extension = name.slice(name.lastIndexOf(".")).toLowerCase();
+  const match = Object.entries(ATTACHMENT_TYPES).find(([, extensions]) =>
+    extensions.includes(extension)
+  );
+  return match ? match[0] : null;
+}
+
+/**
+ * Check an uploaded file before it is stored.
+ */
+export function checkAttachmentFile({
+  name,
+  type,
+  size,
+}: {
+  name: string;
+  type: string;
+  size: number;
+}): { name: string; contentType: string } | { error: string } {
+  const contentType = getAttachmentType(name, type);
+  if (!contentType) {
+    return { error: "Only PDFs, images, CSV and text files can be attached" };
+  }
+
+  if (size === 0 || size > MAX_ATTACHMENT_BYTES) {
+    return {
+      error: `Attachments must be between 1 byte and ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`,
+    };
+  }
+
+  return { name: name.trim().slice(0, MAX_ATTACHMENT_NAME_LENGTH) || "file", contentType };
+}
+
+/**
+ * Check the attachment IDs sent with a message. Missing IDs mean no
+ * attachments; repeated IDs are attached once.
+ */
+export function parseAttachmentIds(input: unknown): { ids: string[] } | { error: string } {
+  if (input === undefined || input === null) return { ids: [] };
+
+  if (
+    !Array.isArray(input) ||
+    input.length > MAX_ATTACHMENTS ||
+    !input.every((id) => typeof id === "string" && ATTACHMENT_ID.test(id))
+  ) {
+    return { error: `attachments must be a list of at most ${MAX_ATTACHMENTS} attachment IDs` };
+  }
+
+  return { ids: [...new Set(input as string[])] };
+}
+
+/**
+ * Whether a user's attachments leave room for another `size` bytes
+ * within their storage quota.
+ */
+export async function hasAttachmentSpace(
+  store: BlobStore,
+  userId: string,
+  size: number,
+  quota = ATTACHMENT_STORAGE_QUOTA_BYTES
+) {
+  const blobs = await store.list(userId);
+  const used = blobs.reduce((total, blob) => total + blob.size, 0);
+  return used + size <= quota;
+}
+
+/**
+ * Store an uploaded file for a user.
+ */
+export async function saveAttachment(
+  store: BlobStore,
+  userId: string,
+  { name, contentType, data }: { name: string; contentType: string; data: Uint8Array }
+): Promise<Attachment> {
+  const id = crypto.randomUUID();
+  await store.put(attachmentKey(userId, id), { data, contentType, metadata: { name } });
+  return { id, name, contentType, size: data.byteLength };
+}
+
+/**
+ * Read one of a user's attachments. Returns null if it doesn't exist or
+ * belongs to someone else.
+ */
+export async function loadAttachment(
+  store: BlobStore,
+  userId: string,
+  attachmentId: string
+): Promise<AttachmentFile | null> {
+  if (!ATTACHMENT_ID.test(attachmentId)) return null;
+
+  const blob = await store.get(attachmentKey(userId, attachmentId));
+  if (!blob) return null;
+
+  return {
+    attachment: {
+      id: attachmentId,
+      name: blob.metadata?.name ?? attachmentId,
+      contentType: blob.contentType,
+      size: blob.data.byteLength,
+    },
+    data: blob.data,
+  };
+}
+
+/**
+ * Delete one of a user's attachments. IDs that don't exist are ignored.
+ */
+export async function deleteAttachment(store: BlobStore, userId: string, attachmentId: string) {
+  if (!ATTACHMENT_ID.test(attachmentId)) return;
+  await store.delete(attachmentKey(userId, attachmentId));
+}
+
+/**
+ * The attachments recorded on a stored message, if any.
+ */
+export function getMessageAttachments(message: MastraMessageV2): Attachment[] {
+  const attachments = message.content.metadata?.attachments;
+  if (!Array.isArray(attachments)) return [];
+
+  return attachments.filter(
+    (attachment): attachment is Attachment =>
+      attachment &&
+      typeof attachment.id === "string" &&
+      typeof attachment.name === "string" &&
+      typeof attachment.contentType === "string" &&
+      typeof attachment.size === "number"
+  );
+}
+
+/**
+ * The ID of the attachment a file part's data links to, if it does.
+ */
+export function getAttachmentUrlId(data: unknown) {
+  const url = data instanceof URL ? data.href : typeof data === "string" ? data : null;
+  return url?.match(ATTACHMENT_URL)?.[1] ?? null;
+}
+
+/**
+ * A user message with files attached. Each file is a file part linking to
+ * the attachment, read from the blob store when the prompt is sent, and
+ * the message's metadata lists the attachments for the client. Saved to
+ * memory, the files stay part of the conversation, so later messages can
+ * ask about them.
+ */
+export function createAttachmentMessage(
+  text: string,
+  attachments: Attachment[]
+): MastraMessageV2 {
+  return {
+    id: crypto.randomUUID(),
+    role: "user",
+    createdAt: new Date(),
+    content: {
+      format: 2,
+      parts: [
+        { type: "text", text },
+        ...attachments.map((attachment) => ({
+          type: "file" as const,
+          // Gemini reads Markdown as plain text
+          mimeType:
+            attachment.contentType === "text/markdown" ? "text/plain" : attachment.contentType,
+          data: attachmentUrl(attachment.id),
+        })),
+      ],
+      content: text,
+      metadata: { attachments },
+    },
+  };
+}
@@ -19,10 +19,22 @@ export const auth = betterAuth({
         "profile",
         "https://www.googleapis.com/auth/contacts.readonly",
         "https://www.googleapis.com/auth/gmail.readonly",
+        // Scopes below were added after launch. Users who signed in before
+        // grant them later through linkSocial
+        "https://www.googleapis.com/auth/gmail.compose",
+        "https://www.googleapis.com/auth/calendar.readonly",
+        "https://www.googleapis.com/auth/calendar.events",
+        "https://www.googleapis.com/auth/drive.readonly",
       ],
       accessType: "offline",
     },
   },
+  user: {
+    additionalFields: {
+      // Set by an administrator, never by the user
+      plan: { type: "string", defaultValue: "free", input: false },
+    },
+  },
   session: {
     expiresIn: 60 * 60 * 24 * 7, // 7 days
     updateAge: 60 * 60 * 24, // 1 day
@@ -0,0 +1,109 @@
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { env } from "../config/env";
+
+/**
+ * A stored file with its content type and any short string metadata,
+ * such as the name it was uploaded with.
+ */
+export interface StoredBlob {
+  data: Uint8Array;
+  contentType: string;
+  metadata?: Record<string, string>;
+}
+
+// A stored file's key and size in bytes
+export interface BlobInfo {
+  key: string;
+  size: number;
+}
+
+/**
+ * Where uploaded files are kept, by key. Keys are paths made of
+ * letters, digits, dashes and underscores separated by "/".
+ * get() resolves to null for a key with nothing stored, and list() to
+ * the files whose keys start with `prefix` followed by "/".
+ */
+export interface BlobStore {
+  put(key: string, blob: StoredBlob): Promise<void>;
+  get(key: string): Promise<StoredBlob | null>;
+  delete(key: string): Promise<void>;
+  list(prefix: string): Promise<BlobInfo[]>;
+}
+
+const BLOB_KEY = /^[\w-]+(\/[\w-]+)*$/;
+
+/**
+ * Files kept under `root` on the local disk, each with a JSON file beside
+ * it holding its content type and metadata.
+ */
+export function createLocalBlobStore({ root }: { root: string }): BlobStore {
+  const pathFor = (key: string) => {
+    if (!BLOB_KEY.test(key)) throw new Error(`Invalid blob key: ${key}`);
+    return path.join(root, key);
+  };
+
+  return {
+    async put(key, { data, contentType, metadata }) {
+      const file = pathFor(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+      await writeFile(`${file}.json`, JSON.stringify({ contentType, metadata }));
+    },
+
+    async get(key) {
+      const file = pathFor(key);
+      try {
+        const [data, info] = await Promise.all([
+          readFile(file),
+          readFile(`${file}.json`, "utf8"),
+        ]);
+        const { contentType, metadata } = JSON.parse(info);
+        return { data: new Uint8Array(data), contentType, metadata };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      const file = pathFor(key);
+      await Promise.all([rm(file, { force: true }), rm(`${file}.json`, { force: true })]);
+    },
+
+    async list(prefix) {
+      const dir = pathFor(prefix);
+      let names: string[];
+      try {
+        names = await readdir(dir, { recursive: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw error;
+      }
+
+      const blobs: BlobInfo[] = [];
+      for (const name of names) {
+        if (name.endsWith(".json")) continue;
+        const info = await stat(path.join(dir, name));
+        if (info.isFile()) {
+          blobs.push({ key: `${prefix}/${name.split(path.sep).join("/")}`, size: info.size });
+        }
+      }
+      return blobs;
+    },
+  };
+}
+
+/**
+ * The blob store for a driver name from BLOB_STORE.
+ */
+export function createBlobStore(driver: string): BlobStore {
+  switch (driver) {
+    case "local":
+      return createLocalBlobStore({ root: env.BLOB_STORE_DIR });
+    default:
+      throw new Error(`Unknown blob store: ${driver}`);
+  }
+}
+
+export const blobStore = createBlobStore(env.BLOB_STORE);
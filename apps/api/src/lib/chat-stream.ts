@@ -0,0 +1,291 @@
+import type { ChunkType } from "@mastra/core/stream";
+import {
+  encodeChatStreamEvent,
+  type ChatStreamErrorCode,
+  type ChatStreamEvent,
+  type ChatUsage,
+  type ToolApprovalRequest,
+} from "@chatbot/shared/stream";
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error ?? "Unknown error");
+
+const ERROR_MESSAGES: Record<ChatStreamErrorCode, string> = {
+  model_error: "The model couldn't generate a response",
+  stream_error: "The response failed",
+};
+
+// Errors can carry provider URLs or request details, so the browser only gets
+// a code and a generic message; the error itself is logged
+const errorEvent = (code: ChatStreamErrorCode): ChatStreamEvent => ({
+  type: "error",
+  code,
+  message: ERROR_MESSAGES[code],
+});
+
+// Mastra tucks internal bookkeeping into the tool arguments
+const withoutMetadata = (args: Record<string, unknown> | undefined) => {
+  const { __mastraMetadata, ...toolArgs } = args ?? {};
+  return toolArgs;
+};
+
+// Scope a tool asked for when it returned a consent_required status
+const requiredScope = (result: unknown) =>
+  result &&
+  typeof result === "object" &&
+  "status" in result &&
+  result.status === "consent_required" &&
+  "scope" in result &&
+  typeof result.scope === "string"
+    ? result.scope
+    : undefined;
+
+// Rough token count for text the model read or wrote, at about four
+// characters per token. Long base64 runs, like attached files, are left
+// out since providers don't bill them by length.
+const estimateTokens = (text: string) =>
+  Math.ceil(text.replace(/[A-Za-z0-9+/=]{1000,}/g, "").length / 4);
+
+const addUsage = (total: ChatUsage, usage: ChatUsage): ChatUsage => ({
+  inputTokens: (total.inputTokens ?? 0) + (usage.inputTokens ?? 0),
+  outputTokens: (total.outputTokens ?? 0) + (usage.outputTokens ?? 0),
+  totalTokens: (total.totalTokens ?? 0) + (usage.totalTokens ?? 0),
+  reasoningTokens: (total.reasoningTokens ?? 0) + (usage.reasoningTokens ?? 0),
+});
+
+/**
+ * Map a Mastra agent stream chunk to chat stream events.
+ * Chunks the client has no use for map to an empty list.
+ */
+export function toChatStreamEvents(
+  chunk: ChunkType,
+  { traceId }: { traceId?: string } = {}
+): ChatStreamEvent[] {
+  switch (chunk.type) {
+    case "text-delta":
+      return [{ type: "text-delta", text: chunk.payload.text }];
+
+    case "reasoning-delta":
+      return [{ type: "reasoning-delta", text: chunk.payload.text }];
+
+    case "tool-call": {
+      const { toolCallId, toolName, args } = chunk.payload;
+      return [{ type: "tool-call", toolCallId, toolName, args: withoutMetadata(args) }];
+    }
+
+    // The run is suspended until the user approves or declines the call
+    case "tool-call-approval": {
+      const { toolCallId, toolName, args } = chunk.payload;
+      return [
+        {
+          type: "tool-approval",
+          runId: chunk.runId,
+          toolCallId,
+          toolName,
+          args: withoutMetadata(args),
+        },
+      ];
+    }
+
+    case "tool-result": {
+      const { toolCallId, toolName, result, isError } = chunk.payload;
+      const scope = requiredScope(result);
+      return [
+        { type: "tool-result", toolCallId, toolName, result, isError },
+        ...(scope ? [{ type: "consent-required" as const, toolName, scope }] : []),
+      ];
+    }
+
+    case "tool-error": {
+      const { toolCallId, toolName, error } = chunk.payload;
+      return [
+        {
+          type: "tool-result",
+          toolCallId,
+          toolName,
+          result: errorMessage(error),
+          isError: true,
+        },
+      ];
+    }
+
+    case "error":
+      console.error("Model error:", chunk.payload.error);
+      return [errorEvent("model_error")];
+
+    case "finish": {
+      const { usage } = chunk.payload.output;
+      return [
+        {
+          type: "usage",
+          usage: {
+            inputTokens: usage.inputTokens,
+            outputTokens: usage.outputTokens,
+            totalTokens: usage.totalTokens,
+            reasoningTokens: usage.reasoningTokens,
+          },
+        },
+        { type: "finish", finishReason: chunk.payload.stepResult.reason, traceId },
+      ];
+    }
+
+    default:
+      return [];
+  }
+}
+
+// Responses streaming from this API instance, by stream ID, so the user
+// can stop one while still reading it to the end
+const activeStreams = new Map<string, { userId: string; abortController: AbortController }>();
+
+/**
+ * Stop one of a user's responses. Its stream saves what was generated,
+ * sends an interrupted event and ends. Returns false for streams that
+ * aren't running here or belong to someone else.
+ */
+export function stopChatStream(userId: string, streamId: string) {
+  const active = activeStreams.get(streamId);
+  if (!active || active.userId !== userId) return false;
+  active.abortController.abort();
+  return true;
+}
+
+export interface ChatEventStreamOptions {
+  traceId?: string;
+  // Aborted when the client goes away, which stops the agent
+  abortController?: AbortController;
+  // The user who can stop the stream with stopChatStream, by the ID its
+  // start event gives. Needs the abortController.
+  userId?: string;
+  // Called with the text generated so far when the stream was aborted
+  onInterrupted?: (text: string) => Promise<void> | void;
+  // Called when the stream ends with tool calls waiting for approval
+  onToolApprovals?: (approvals: ToolApprovalRequest[]) => Promise<void> | void;
+  // Called once the stream ends with the tokens the response used. A
+  // stopped or failed response reports the steps it finished plus an
+  // estimate for the one it was in.
+  onUsage?: (usage: ChatUsage) => Promise<void> | void;
+}
+
+/**
+ * Turn an agent's full stream into an SSE body of chat stream events.
+ * Failures while streaming are reported as an error event instead of
+ * tearing down the connection.
+ */
+export function createChatEventStream(
+  chunks: AsyncIterable<ChunkType>,
+  {
+    traceId,
+    abortController,
+    userId,
+    onInterrupted,
+    onToolApprovals,
+    onUsage,
+  }: ChatEventStreamOptions = {}
+) {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  let text = "";
+  let usage: ChatUsage | undefined;
+  // Usage of the steps finished so far, and what the current step has
+  // read and written, for when the stream ends without a finish chunk
+  let stepsUsage: ChatUsage | undefined;
+  let stepInput: number | undefined;
+  let stepOutput = "";
+  const approvals: ToolApprovalRequest[] = [];
+
+  const send = (
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    event: ChatStreamEvent
+  ) => {
+    if (event.type === "text-delta") text += event.text;
+    if (event.type === "text-delta" || event.type === "reasoning-delta") stepOutput += event.text;
+    if (event.type === "usage") usage = event.usage;
+    if (event.type === "tool-approval") {
+      const { type, ...approval } = event;
+      approvals.push(approval);
+    }
+    if (!cancelled) {
+      controller.enqueue(encoder.encode(encodeChatStreamEvent(event)));
+    }
+  };
+
+  const trackStep = (chunk: ChunkType) => {
+    if (chunk.type === "step-start") {
+      const { body } = chunk.payload.request;
+      // Later steps resend the conversation, so read about as much again
+      stepInput = body ? estimateTokens(body) : stepsUsage?.inputTokens;
+      stepOutput = "";
+    }
+    if (chunk.type === "step-finish") {
+      stepsUsage = addUsage(stepsUsage ?? {}, chunk.payload.output.usage);
+      stepInput = undefined;
+      stepOutput = "";
+    }
+  };
+
+  // The usage of a response that ended without finishing
+  const partialUsage = (): ChatUsage | undefined => {
+    if (stepInput === undefined && !stepOutput) return stepsUsage;
+    const inputTokens = stepInput ?? 0;
+    const outputTokens = estimateTokens(stepOutput);
+    return addUsage(stepsUsage ?? {}, {
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+    });
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const streamId = crypto.randomUUID();
+      if (userId && abortController) {
+        activeStreams.set(streamId, { userId, abortController });
+        send(controller, { type: "start", streamId });
+      }
+
+      try {
+        for await (const chunk of chunks) {
+          trackStep(chunk);
+          for (const event of toChatStreamEvents(chunk, { traceId })) {
+            send(controller, event);
+          }
+        }
+      } catch (error) {
+        if (!abortController?.signal.aborted) {
+          console.error("Stream error:", error);
+          send(controller, errorEvent("stream_error"));
+        }
+      }
+
+      if (abortController?.signal.aborted) {
+        try {
+          await onInterrupted?.(text);
+        } catch (error) {
+          console.error("Failed to save interrupted response:", error);
+        }
+        send(controller, { type: "interrupted" });
+      } else if (approvals.length > 0) {
+        try {
+          await onToolApprovals?.(approvals);
+        } catch (error) {
+          console.error("Failed to save pending tool approvals:", error);
+        }
+      }
+      usage ??= partialUsage();
+      if (usage) {
+        try {
+          await onUsage?.(usage);
+        } catch (error) {
+          console.error("Failed to record usage:", error);
+        }
+      }
+      activeStreams.delete(streamId);
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+      abortController?.abort();
+    },
+  });
+}
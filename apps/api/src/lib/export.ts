@@ -0,0 +1,250 @@
+import type { MastraMessageV2 } from "@mastra/core/agent";
+import type { StorageThreadType } from "@mastra/core/memory";
+import { canRenderPdfText, renderPdf, type PdfParagraph } from "./pdf";
+
+export const EXPORT_FORMATS = ["md", "json", "html", "pdf"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const isExportFormat = (format: string): format is ExportFormat =>
+  (EXPORT_FORMATS as readonly string[]).includes(format);
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  pdf: "application/pdf",
+};
+
+// Longest tool arguments shown in a tool call's summary
+const MAX_TOOL_ARGS_LENGTH = 120;
+
+export interface ExportedToolCall {
+  toolName: string;
+  args: unknown;
+  // False when the call never returned, or was declined
+  completed: boolean;
+  // What the tool returned, when asked for
+  result?: unknown;
+}
+
+export interface ExportedMessage {
+  id: string;
+  role: "user" | "assistant";
+  createdAt: string;
+  text: string;
+  toolCalls: ExportedToolCall[];
+  // The response was stopped before it finished
+  interrupted: boolean;
+}
+
+export interface ExportedConversation {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ExportedMessage[];
+}
+
+/**
+ * A conversation as it is exported: its user and assistant messages
+ * oldest first, with their text and tool calls. Tool results are only
+ * kept with `toolResults`.
+ */
+export function toExportedConversation(
+  thread: StorageThreadType,
+  messages: MastraMessageV2[],
+  { toolResults = false }: { toolResults?: boolean } = {}
+): ExportedConversation {
+  const exported = messages
+    .filter((message) => message.role === "user" || message.role === "assistant")
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    .map((message) => {
+      const toolCalls: ExportedToolCall[] = [];
+      let text = "";
+      for (const part of message.content.parts) {
+        if (part.type === "text") text += part.text;
+        if (part.type === "tool-invocation") {
+          toolCalls.push({
+            toolName: part.toolInvocation.toolName,
+            args: part.toolInvocation.args,
+            completed: part.toolInvocation.state === "result",
+            ...(toolResults &&
+              part.toolInvocation.state === "result" && { result: part.toolInvocation.result }),
+          });
+        }
+      }
+      return {
+        id: message.id,
+        role: message.role as ExportedMessage["role"],
+        createdAt: new Date(message.createdAt).toISOString(),
+        text,
+        toolCalls,
+        interrupted: message.content.metadata?.interrupted === true,
+      };
+    })
+    // Messages that only carried tool results have nothing to show
+    .filter((message) => message.text || message.toolCalls.length > 0);
+
+  return {
+    id: thread.id,
+    title: thread.title || "Untitled conversation",
+    createdAt: new Date(thread.createdAt).toISOString(),
+    updatedAt: new Date(thread.updatedAt).toISOString(),
+    messages: exported,
+  };
+}
+
+// One line saying which tool was called with what
+export function summarizeToolCall({ toolName, args, completed }: ExportedToolCall) {
+  let json = JSON.stringify(args ?? {});
+  if (json.length > MAX_TOOL_ARGS_LENGTH) json = `${json.slice(0, MAX_TOOL_ARGS_LENGTH - 1)}…`;
+  return `${toolName}(${json})${completed ? "" : " – not completed"}`;
+}
+
+const speaker = (message: ExportedMessage) => (message.role === "user" ? "You" : "Assistant");
+
+function formatTimestamp(iso: string, timeZone: string) {
+  return new Intl.DateTimeFormat("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone,
+  }).format(new Date(iso));
+}
+
+function renderMarkdown(conversation: ExportedConversation, timeZone: string) {
+  const lines = [
+    `# ${conversation.title}`,
+    "",
+    `_Started ${formatTimestamp(conversation.createdAt, timeZone)}_`,
+  ];
+  for (const message of conversation.messages) {
+    lines.push("", "---", "", `### ${speaker(message)} · ${formatTimestamp(message.createdAt, timeZone)}`);
+    for (const call of message.toolCalls) {
+      lines.push("", `> Tool: \`${summarizeToolCall(call).replace(/`/g, "'")}\``);
+    }
+    if (message.text) lines.push("", message.text);
+    if (message.interrupted) lines.push("", "_Stopped before it finished_");
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+function renderHtml(conversation: ExportedConversation, timeZone: string) {
+  const messages = conversation.messages
+    .map(
+      (message) => `  <article class="${message.role}">
+    <header><strong>${speaker(message)}</strong> <time datetime="${message.createdAt}">${escapeHtml(
+        formatTimestamp(message.createdAt, timeZone)
+      )}</time></header>
+${message.toolCalls
+  .map((call) => `    <p class="tool">Tool: <code>${escapeHtml(summarizeToolCall(call))}</code></p>\n`)
+  .join("")}${message.text ? `    <div class="text">${escapeHtml(message.text)}</div>\n` : ""}${
+        message.interrupted ? `    <p class="note">Stopped before it finished</p>\n` : ""
+      }  </article>`
+    )
+    .join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(conversation.title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+    article { border-top: 1px solid #e5e7eb; padding: 1rem 0; }
+    article.user header strong { color: #2563eb; }
+    time, .note { color: #6b7280; font-size: 0.875rem; }
+    .tool { color: #6b7280; font-size: 0.875rem; margin: 0.5rem 0; }
+    .text { white-space: pre-wrap; line-height: 1.5; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(conversation.title)}</h1>
+  <p class="note">Started ${escapeHtml(formatTimestamp(conversation.createdAt, timeZone))}</p>
+${messages}
+</body>
+</html>
+`;
+}
+
+function renderPdfExport(conversation: ExportedConversation, timeZone: string) {
+  const paragraphs: PdfParagraph[] = [
+    { text: conversation.title, style: "bold", size: 18 },
+    {
+      text: `Started ${formatTimestamp(conversation.createdAt, timeZone)}`,
+      style: "italic",
+      size: 9,
+      spaceBefore: 4,
+    },
+  ];
+  for (const message of conversation.messages) {
+    paragraphs.push({
+      text: `${speaker(message)} · ${formatTimestamp(message.createdAt, timeZone)}`,
+      style: "bold",
+      spaceBefore: 16,
+    });
+    for (const call of message.toolCalls) {
+      paragraphs.push({ text: `Tool: ${summarizeToolCall(call)}`, style: "italic", size: 9, spaceBefore: 4 });
+    }
+    if (message.text) paragraphs.push({ text: message.text, spaceBefore: 4 });
+    if (message.interrupted) {
+      paragraphs.push({ text: "Stopped before it finished", style: "italic", size: 9, spaceBefore: 4 });
+    }
+  }
+
+  // The PDF's fonts only have Western European characters, so text in
+  // other scripts, or emoji, can't be shown. Say so at the top.
+  if (!paragraphs.every((paragraph) => canRenderPdfText(paragraph.text))) {
+    paragraphs.splice(2, 0, {
+      text: 'Some characters in this conversation can\'t be shown in a PDF and appear as "?". Export it as Markdown or HTML to keep all of its text.',
+      style: "bold",
+      size: 9,
+      spaceBefore: 8,
+    });
+  }
+  return renderPdf(paragraphs, conversation.title);
+}
+
+/**
+ * Render a conversation in an export format, with times shown in
+ * `timeZone`. JSON keeps ISO timestamps.
+ */
+export function renderConversation(
+  conversation: ExportedConversation,
+  format: ExportFormat,
+  timeZone = "UTC"
+): { body: string | Uint8Array<ArrayBuffer>; contentType: string } {
+  const renderers: Record<ExportFormat, () => string | Uint8Array<ArrayBuffer>> = {
+    md: () => renderMarkdown(conversation, timeZone),
+    json: () => JSON.stringify(conversation, null, 2),
+    html: () => renderHtml(conversation, timeZone),
+    pdf: () => renderPdfExport(conversation, timeZone),
+  };
+  return { body: renderers[format](), contentType: CONTENT_TYPES[format] };
+}
+
+/**
+ * File name for an exported conversation, from its title. `unique` adds
+ * the end of the thread ID so names in a bulk export don't clash.
+ */
+export function exportFileName(
+  conversation: Pick<ExportedConversation, "id" | "title">,
+  format: ExportFormat,
+  unique = false
+) {
+  const slug =
+    conversation.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60)
+      .replace(/-+$/, "") || "conversation";
+  return `${slug}${unique ? `-${conversation.id.slice(-8)}` : ""}.${format}`;
+}
@@ -0,0 +1,157 @@
+import { db, account, eq } from "@chatbot/shared/db";
+import type { Account } from "@chatbot/shared/types";
+import { env } from "../config/env";
+import { getGoogleAccount } from "../middleware/auth";
+
+export type GoogleAccountRecord = Pick<
+  Account,
+  "id" | "accessToken" | "refreshToken" | "accessTokenExpiresAt"
+>;
+
+export type GoogleTokenUpdate = {
+  accessToken: string;
+  accessTokenExpiresAt: Date | null;
+  refreshToken?: string;
+  scope?: string;
+};
+
+/**
+ * Where Google accounts are loaded from and refreshed tokens are written to.
+ */
+export interface GoogleAccountStore {
+  findByUserId(userId: string): Promise<GoogleAccountRecord | null>;
+  saveTokens(accountId: string, update: GoogleTokenUpdate): Promise<void>;
+}
+
+export interface GoogleTokenServiceOptions {
+  tokenEndpoint: string;
+  clientId: string;
+  clientSecret: string;
+  store: GoogleAccountStore;
+  // Refresh this long before the recorded expiry to absorb clock skew
+  expirySkewMs?: number;
+  now?: () => Date;
+}
+
+export class GoogleTokenError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "GoogleTokenError";
+  }
+}
+
+/**
+ * Create a service that hands out usable Google access tokens.
+ * Expired tokens are exchanged for new ones using the stored refresh token,
+ * and the result is saved back to the account.
+ */
+export function createGoogleTokenService({
+  tokenEndpoint,
+  clientId,
+  clientSecret,
+  store,
+  expirySkewMs = 60 * 1000,
+  now = () => new Date(),
+}: GoogleTokenServiceOptions) {
+  // Concurrent callers for the same user share a single refresh request
+  const pendingRefreshes = new Map<string, Promise<string>>();
+
+  const isExpired = (record: GoogleAccountRecord) =>
+    !!record.accessTokenExpiresAt &&
+    record.accessTokenExpiresAt.getTime() - expirySkewMs <= now().getTime();
+
+  async function refresh(record: GoogleAccountRecord): Promise<string> {
+    if (!record.refreshToken) {
+      throw new GoogleTokenError("Google refresh token not available");
+    }
+
+    const response = await fetch(tokenEndpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        client_id: clientId,
+        client_secret: clientSecret,
+        grant_type: "refresh_token",
+        refresh_token: record.refreshToken,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new GoogleTokenError(
+        `Failed to refresh Google access token: ${response.status} ${errorText}`,
+        response.status
+      );
+    }
+
+    const data = await response.json();
+    if (!data.access_token) {
+      throw new GoogleTokenError("Token endpoint returned no access token");
+    }
+
+    await store.saveTokens(record.id, {
+      accessToken: data.access_token,
+      accessTokenExpiresAt:
+        typeof data.expires_in === "number"
+          ? new Date(now().getTime() + data.expires_in * 1000)
+          : null,
+      // Google only returns a refresh token when it rotates it
+      refreshToken: data.refresh_token,
+      scope: data.scope,
+    });
+
+    return data.access_token;
+  }
+
+  /**
+   * Get an access token for the user's Google account.
+   * Returns null when the user has no linked Google account.
+   */
+  async function getAccessToken(
+    userId: string,
+    { forceRefresh = false }: { forceRefresh?: boolean } = {}
+  ): Promise<string | null> {
+    const record = await store.findByUserId(userId);
+    if (!record) return null;
+
+    if (record.accessToken && !forceRefresh && !isExpired(record)) {
+      return record.accessToken;
+    }
+
+    let pending = pendingRefreshes.get(userId);
+    if (!pending) {
+      pending = refresh(record).finally(() => pendingRefreshes.delete(userId));
+      pendingRefreshes.set(userId, pending);
+    }
+
+    return pending;
+  }
+
+  return { getAccessToken };
+}
+
+export type GoogleTokenService = ReturnType<typeof createGoogleTokenService>;
+
+// Account store backed by the Better-Auth account table
+export const accountTableStore: GoogleAccountStore = {
+  findByUserId: getGoogleAccount,
+  async saveTokens(accountId, update) {
+    await db
+      .update(account)
+      .set({
+        accessToken: update.accessToken,
+        accessTokenExpiresAt: update.accessTokenExpiresAt,
+        ...(update.refreshToken && { refreshToken: update.refreshToken }),
+        ...(update.scope && { scope: update.scope }),
+        updatedAt: new Date(),
+      })
+      .where(eq(account.id, accountId));
+  },
+};
+
+export const googleTokens = createGoogleTokenService({
+  tokenEndpoint: env.GOOGLE_TOKEN_URL,
+  clientId: env.GOOGLE_CLIENT_ID,
+  clientSecret: env.GOOGLE_CLIENT_SECRET,
+  store: accountTableStore,
+});
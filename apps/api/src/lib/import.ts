@@ -0,0 +1,293 @@
+import { createHash } from "node:crypto";
+import type { MastraMessageV2 } from "@mastra/core/agent";
+import type { MastraMemory } from "@mastra/core/memory";
+
+export type ImportSource = "chatgpt" | "claude" | "chatbot";
+
+export interface ImportedMessage {
+  // ID in the export, so the same message always gets the same ID here
+  sourceId: string;
+  role: "user" | "assistant";
+  text: string;
+  createdAt: Date;
+}
+
+export interface ImportedConversation {
+  source: ImportSource;
+  sourceId: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: ImportedMessage[];
+}
+
+// Longest chain of messages followed in a ChatGPT conversation
+const MAX_CHATGPT_DEPTH = 10_000;
+
+// Finished imports are kept this long so their progress can be read
+const FINISHED_IMPORT_TTL_MS = 60 * 60 * 1000;
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const toDate = (value: unknown, fallback: Date) => {
+  const date =
+    typeof value === "number"
+      ? new Date(value * 1000) // ChatGPT uses seconds since the epoch
+      : typeof value === "string"
+        ? new Date(value)
+        : null;
+  return date && !Number.isNaN(date.getTime()) ? date : fallback;
+};
+
+const text = (value: unknown) => (typeof value === "string" ? value : "");
+
+/**
+ * A conversation from ChatGPT's conversations.json. Messages form a tree
+ * where edits and regenerations branch off; the branch ending at
+ * current_node is the one the user last saw.
+ */
+function parseChatGptConversation(raw: Json): ImportedConversation {
+  const mapping = isObject(raw.mapping) ? raw.mapping : {};
+  const createdAt = toDate(raw.create_time, new Date());
+
+  const path: Json[] = [];
+  let nodeId = text(raw.current_node);
+  while (nodeId && isObject(mapping[nodeId]) && path.length < MAX_CHATGPT_DEPTH) {
+    const node = mapping[nodeId] as Json;
+    path.unshift(node);
+    nodeId = text(node.parent);
+  }
+
+  const messages: ImportedMessage[] = [];
+  for (const node of path) {
+    const message = node.message;
+    if (!isObject(message) || !isObject(message.author) || !isObject(message.content)) continue;
+    const role = message.author.role;
+    if (role !== "user" && role !== "assistant") continue;
+    if (isObject(message.metadata) && message.metadata.is_visually_hidden_from_conversation) continue;
+
+    const parts = Array.isArray(message.content.parts) ? message.content.parts : [];
+    const content = parts.filter((part) => typeof part === "string").join("\n").trim();
+    if (!content) continue;
+
+    messages.push({
+      sourceId: text(message.id) || text(node.id),
+      role,
+      text: content,
+      createdAt: toDate(message.create_time, createdAt),
+    });
+  }
+
+  return {
+    source: "chatgpt",
+    sourceId: text(raw.conversation_id) || text(raw.id),
+    title: text(raw.title),
+    createdAt,
+    updatedAt: toDate(raw.update_time, createdAt),
+    messages,
+  };
+}
+
+// A conversation from Claude's conversations.json
+function parseClaudeConversation(raw: Json): ImportedConversation {
+  const createdAt = toDate(raw.created_at, new Date());
+  const messages: ImportedMessage[] = [];
+
+  for (const message of Array.isArray(raw.chat_messages) ? raw.chat_messages : []) {
+    if (!isObject(message)) continue;
+    const content =
+      text(message.text) ||
+      (Array.isArray(message.content) ? message.content : [])
+        .filter((part): part is Json => isObject(part) && part.type === "text")
+        .map((part) => text(part.text))
+        .join("\n");
+    if (!content.trim()) continue;
+
+    messages.push({
+      sourceId: text(message.uuid),
+      role: message.sender === "human" ? "user" : "assistant",
+      text: content.trim(),
+      createdAt: toDate(message.created_at, createdAt),
+    });
+  }
+
+  return {
+    source: "claude",
+    sourceId: text(raw.uuid),
+    title: text(raw.name),
+    createdAt,
+    updatedAt: toDate(raw.updated_at, createdAt),
+    messages,
+  };
+}
+
+// A conversation exported as JSON from this app
+function parseChatbotConversation(raw: Json): ImportedConversation {
+  const createdAt = toDate(raw.createdAt, new Date());
+  const messages: ImportedMessage[] = [];
+
+  for (const message of raw.messages as unknown[]) {
+    if (!isObject(message)) continue;
+    if (message.role !== "user" && message.role !== "assistant") continue;
+    if (!text(message.text).trim()) continue;
+
+    messages.push({
+      sourceId: text(message.id),
+      role: message.role,
+      text: text(message.text),
+      createdAt: toDate(message.createdAt, createdAt),
+    });
+  }
+
+  return {
+    source: "chatbot",
+    sourceId: text(raw.id),
+    title: text(raw.title),
+    createdAt,
+    updatedAt: toDate(raw.updatedAt, createdAt),
+    messages,
+  };
+}
+
+/**
+ * Read the conversations in a chat export: ChatGPT's or Claude's
+ * conversations.json, or one or more conversations exported as JSON from
+ * this app. Conversations without an ID or messages are left out.
+ */
+export function parseChatExport(
+  data: unknown
+): { conversations: ImportedConversation[] } | { error: string } {
+  const items = Array.isArray(data) ? data : [data];
+
+  const conversations: ImportedConversation[] = [];
+  for (const item of items) {
+    if (!isObject(item)) continue;
+    const conversation = isObject(item.mapping)
+      ? parseChatGptConversation(item)
+      : Array.isArray(item.chat_messages)
+        ? parseClaudeConversation(item)
+        : Array.isArray(item.messages)
+          ? parseChatbotConversation(item)
+          : null;
+
+    if (!conversation) {
+      return { error: "Unrecognized export format" };
+    }
+    conversation.messages = conversation.messages.filter((message) => message.sourceId);
+    if (conversation.sourceId && conversation.messages.length > 0) {
+      conversations.push(conversation);
+    }
+  }
+
+  return { conversations };
+}
+
+// Stable ID for something imported by a user, so importing the same file
+// again finds what the first import saved
+export const importedId = (userId: string, ...parts: string[]) =>
+  `import-${createHash("sha256").update([userId, ...parts].join("\n")).digest("hex").slice(0, 32)}`;
+
+/**
+ * Save a conversation as a thread of the user's. Saving its messages
+ * embeds them, so semantic recall covers imported history. Conversations
+ * imported before are skipped.
+ */
+export async function importConversation(
+  memory: MastraMemory,
+  userId: string,
+  conversation: ImportedConversation
+): Promise<"imported" | "skipped"> {
+  const threadId = importedId(userId, conversation.source, conversation.sourceId);
+  if (await memory.getThreadById({ threadId })) {
+    return "skipped";
+  }
+
+  await memory.saveThread({
+    thread: {
+      id: threadId,
+      resourceId: userId,
+      title: conversation.title || "Imported conversation",
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+      metadata: { importedFrom: conversation.source },
+    },
+  });
+
+  const messages: MastraMessageV2[] = conversation.messages.map((message) => ({
+    id: importedId(userId, conversation.source, conversation.sourceId, message.sourceId),
+    role: message.role,
+    createdAt: message.createdAt,
+    threadId,
+    resourceId: userId,
+    content: {
+      format: 2,
+      parts: [{ type: "text", text: message.text }],
+      content: message.text,
+    },
+  }));
+
+  try {
+    await memory.saveMessages({ messages, format: "v2" });
+  } catch (error) {
+    // Leave nothing behind, so importing again retries the conversation
+    await memory.deleteThread(threadId);
+    throw error;
+  }
+  return "imported";
+}
+
+export interface ImportProgress {
+  id: string;
+  status: "running" | "done";
+  total: number;
+  imported: number;
+  skipped: number;
+  failed: number;
+}
+
+// Imports running in this process, and recently finished ones
+const imports = new Map<string, { userId: string; progress: ImportProgress }>();
+
+/**
+ * Import conversations in the background, one at a time. Progress can be
+ * read with getImportProgress until an hour after the import finishes.
+ */
+export function startImport(
+  memory: MastraMemory,
+  userId: string,
+  conversations: ImportedConversation[]
+): ImportProgress {
+  const progress: ImportProgress = {
+    id: crypto.randomUUID(),
+    status: "running",
+    total: conversations.length,
+    imported: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  imports.set(progress.id, { userId, progress });
+
+  void (async () => {
+    for (const conversation of conversations) {
+      try {
+        progress[await importConversation(memory, userId, conversation)] += 1;
+      } catch (error) {
+        console.error(`Failed to import ${conversation.source} conversation:`, error);
+        progress.failed += 1;
+      }
+    }
+    progress.status = "done";
+    setTimeout(() => imports.delete(progress.id), FINISHED_IMPORT_TTL_MS).unref();
+  })();
+
+  return progress;
+}
+
+// Progress of one of the user's imports, or null
+export function getImportProgress(importId: string, userId: string) {
+  const entry = imports.get(importId);
+  return entry && entry.userId === userId ? entry.progress : null;
+}
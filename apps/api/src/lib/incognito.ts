@@ -0,0 +1,81 @@
+import type { AISpanProcessor } from "@mastra/core/ai-tracing";
+
+// Runtime context key marking a run that must not be remembered
+export const INCOGNITO = "incognito";
+
+// Thread ID usage is recorded under for incognito runs, which have none
+export const INCOGNITO_THREAD_ID = "incognito";
+
+export const MAX_INCOGNITO_HISTORY = 50;
+export const MAX_INCOGNITO_MESSAGE_LENGTH = 20000;
+
+/**
+ * An earlier turn of an incognito conversation. Nothing is saved on the
+ * server, so the client sends these back with every message.
+ */
+export type IncognitoMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string };
+
+/**
+ * Check the earlier turns sent with an incognito message. Missing history
+ * starts a new conversation.
+ */
+export function parseIncognitoHistory(
+  input: unknown
+): { history: IncognitoMessage[] } | { error: string } {
+  if (input === undefined || input === null) return { history: [] };
+
+  if (!Array.isArray(input) || input.length > MAX_INCOGNITO_HISTORY) {
+    return { error: `history must be a list of at most ${MAX_INCOGNITO_HISTORY} messages` };
+  }
+
+  const valid = input.every(
+    (message) =>
+      message &&
+      typeof message === "object" &&
+      (message.role === "user" || message.role === "assistant") &&
+      typeof message.content === "string" &&
+      message.content.length <= MAX_INCOGNITO_MESSAGE_LENGTH
+  );
+  if (!valid) {
+    return {
+      error: `history messages need a user or assistant role and text of at most ${MAX_INCOGNITO_MESSAGE_LENGTH} characters`,
+    };
+  }
+
+  return {
+    history: (input as IncognitoMessage[]).map(
+      ({ role, content }) => ({ role, content }) as IncognitoMessage
+    ),
+  };
+}
+
+/**
+ * Names of the tools that run without asking the user first. A call
+ * waiting for approval is kept on the thread, which incognito runs don't
+ * have, so these are the only tools they get.
+ */
+export function toolsWithoutApproval(tools: Record<string, unknown>) {
+  return Object.entries(tools)
+    .filter(
+      ([, tool]) => !(tool && typeof tool === "object" && "requireApproval" in tool && tool.requireApproval)
+    )
+    .map(([name]) => name);
+}
+
+/**
+ * Trace processor for incognito runs. Spans keep their timing, model and
+ * token usage, but not what was said or what tools returned.
+ */
+export const incognitoSpanFilter: AISpanProcessor = {
+  name: "incognito-span-filter",
+  process: (span) => {
+    if (span) {
+      span.input = undefined;
+      span.output = undefined;
+    }
+    return span;
+  },
+  shutdown: async () => {},
+};
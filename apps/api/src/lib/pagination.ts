@@ -0,0 +1,47 @@
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Read ?limit, using the default page size when it is missing. Returns
+ * null unless it is a whole number from 1 to MAX_PAGE_SIZE.
+ */
+export function parsePageSize(limit: string | undefined): number | null {
+  if (limit === undefined || limit === "") return DEFAULT_PAGE_SIZE;
+  const size = Number(limit);
+  return Number.isInteger(size) && size >= 1 && size <= MAX_PAGE_SIZE ? size : null;
+}
+
+/**
+ * Where a page ends: the date the list is sorted on and the ID of its
+ * last row. The next page starts strictly after both, so rows sharing a
+ * date are neither skipped nor repeated.
+ */
+export interface PagePosition {
+  at: Date;
+  id: string;
+}
+
+/**
+ * Where the next page starts, as an opaque string clients pass back
+ * unchanged.
+ */
+export function encodeCursor({ at, id }: PagePosition) {
+  return Buffer.from(JSON.stringify({ at: at.toISOString(), id })).toString("base64url");
+}
+
+// The position a cursor from encodeCursor points to, or null
+export function decodeCursor(cursor: string): PagePosition | null {
+  let position: unknown;
+  try {
+    position = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+  if (!position || typeof position !== "object") return null;
+
+  const { at, id } = position as Record<string, unknown>;
+  const date = typeof at === "string" ? new Date(at) : null;
+  return date && !Number.isNaN(date.getTime()) && typeof id === "string" && id
+    ? { at: date, id }
+    : null;
+}
@@ -0,0 +1,143 @@
+/**
+ * A minimal PDF writer for documents made of paragraphs of text. It uses
+ * the standard Helvetica fonts, which every PDF reader has, so nothing is
+ * embedded. Characters outside Windows-1252 are written as "?"; check
+ * text with canRenderPdfText first to warn about them.
+ */
+
+export interface PdfParagraph {
+  text: string;
+  style?: "regular" | "bold" | "italic";
+  // Font size in points, 11 by default
+  size?: number;
+  // Extra space above the paragraph in points
+  spaceBefore?: number;
+}
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const LINE_HEIGHT = 1.35;
+// Helvetica's widest common glyphs are about this wide, in ems, so lines
+// wrapped at this average never run past the margin
+const AVERAGE_CHAR_WIDTH = 0.52;
+
+const FONTS = { regular: "F1", bold: "F2", italic: "F3" } as const;
+
+// Windows-1252 codes for the characters it has outside Latin-1
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "•": 0x95, "–": 0x96, "—": 0x97,
+  "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "™": 0x99,
+};
+
+// Dates from Intl put narrow spaces before AM and PM
+const withPlainSpaces = (text: string) => text.replace(/[\u2000-\u200a\u202f]/g, " ");
+
+// A character's Windows-1252 code, or null when it has none
+function winAnsiByte(char: string) {
+  const code = char.codePointAt(0)!;
+  return WIN_ANSI[char] ?? (code < 0x80 || (code >= 0xa0 && code <= 0xff) ? code : null);
+}
+
+/**
+ * Whether every character of `text` shows in the PDF as it is.
+ */
+export function canRenderPdfText(text: string) {
+  return [...withPlainSpaces(text)].every((char) => winAnsiByte(char) !== null);
+}
+
+// Text as a PDF string literal, one character per byte
+function pdfString(text: string) {
+  let result = "";
+  for (const char of withPlainSpaces(text)) {
+    const escaped = String.fromCharCode(winAnsiByte(char) ?? 0x3f);
+    result += escaped === "\\" || escaped === "(" || escaped === ")" ? `\\${escaped}` : escaped;
+  }
+  return `(${result})`;
+}
+
+// Break text into lines of at most `width` characters, at spaces when possible
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.replace(/\t/g, "  ").split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(" ")) {
+      let rest = word;
+      while (rest.length > width) {
+        if (line) lines.push(line);
+        line = "";
+        lines.push(rest.slice(0, width));
+        rest = rest.slice(width);
+      }
+      if (!line) line = rest;
+      else if (line.length + 1 + rest.length <= width) line += ` ${rest}`;
+      else {
+        lines.push(line);
+        line = rest;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Lay out paragraphs on as many A4 pages as they need.
+ */
+export function renderPdf(paragraphs: PdfParagraph[], title = ""): Uint8Array<ArrayBuffer> {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const { text, style = "regular", size = 11, spaceBefore = 0 } of paragraphs) {
+    const lineHeight = size * LINE_HEIGHT;
+    const width = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (size * AVERAGE_CHAR_WIDTH));
+    y -= spaceBefore;
+
+    for (const line of wrapText(text, width)) {
+      if (y - lineHeight < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= lineHeight;
+      if (line) {
+        pages[pages.length - 1]!.push(
+          `BT /${FONTS[style]} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td ${pdfString(line)} Tj ET`
+        );
+      }
+    }
+  }
+
+  // Objects 1-5 are fixed; each page adds a page and a content stream
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${6 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Oblique /Encoding /WinAnsiEncoding >>",
+  ];
+  pages.forEach((commands, i) => {
+    const content = commands.join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${7 + i * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+  objects.push(`<< /Title ${pdfString(title)} /Producer (Chatbot) >>`);
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n`;
+  pdf += `startxref\n${xref}\n%%EOF\n`;
+
+  // Every character is a single byte
+  return Uint8Array.from(pdf, (char) => char.charCodeAt(0));
+}
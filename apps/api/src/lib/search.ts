@@ -0,0 +1,280 @@
+import type { MastraMemory } from "@mastra/core/memory";
+import { storage } from "../mastra";
+
+// Conversations returned for one search
+export const SEARCH_RESULT_LIMIT = 20;
+
+// Matching messages shown under each conversation
+export const MATCHES_PER_THREAD = 3;
+
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+// Messages taken from each of the full-text and semantic searches before
+// they are merged
+const CANDIDATE_LIMIT = 50;
+
+// Below this cosine similarity a message isn't considered related
+const MIN_SEMANTIC_SCORE = 0.6;
+
+// Reciprocal rank fusion constant; higher values flatten the ranking
+const RRF_K = 60;
+
+// Marks the matched words in snippets from ts_headline. Control characters
+// are all but absent from chat text, so they aren't mistaken for it.
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MinWords=12, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// A piece of a snippet, highlighted where it matched the query
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface MessageMatch {
+  messageId: string;
+  role: "user" | "assistant";
+  createdAt: string;
+  snippet: SnippetPart[];
+}
+
+export interface ThreadSearchResult {
+  threadId: string;
+  title: string;
+  matches: MessageMatch[];
+}
+
+// A message found by either search, with its thread
+export interface SearchHit extends MessageMatch {
+  threadId: string;
+  title: string;
+}
+
+/**
+ * Validate a search query: surrounding whitespace is dropped and it must
+ * have something left.
+ */
+export function parseSearchQuery(
+  q: string | undefined
+): { query: string } | { error: string } {
+  const query = q?.trim() ?? "";
+  if (!query) {
+    return { error: "q is required" };
+  }
+  if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+    return { error: `q must be at most ${MAX_SEARCH_QUERY_LENGTH} characters` };
+  }
+  return { query };
+}
+
+/**
+ * Split a snippet from ts_headline into plain and highlighted parts.
+ */
+export function parseHeadline(headline: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let highlight = false;
+  for (const text of headline.split(new RegExp(`[${HIGHLIGHT_START}${HIGHLIGHT_END}]`))) {
+    if (text) parts.push({ text, highlight });
+    highlight = !highlight;
+  }
+  return parts;
+}
+
+/**
+ * Merge the full-text and semantic results, each in ranked order, with
+ * reciprocal rank fusion and group them by conversation. A conversation
+ * ranks by its best message, and a message found by both searches ranks
+ * above one found by either.
+ */
+export function rankSearchResults(
+  fullText: SearchHit[],
+  semantic: SearchHit[],
+  limit = SEARCH_RESULT_LIMIT
+): ThreadSearchResult[] {
+  const scored = new Map<string, { hit: SearchHit; score: number }>();
+  for (const ranking of [fullText, semantic]) {
+    ranking.forEach((hit, rank) => {
+      const entry = scored.get(hit.messageId) ?? { hit, score: 0 };
+      entry.score += 1 / (RRF_K + rank + 1);
+      scored.set(hit.messageId, entry);
+    });
+  }
+
+  const threads = new Map<string, ThreadSearchResult>();
+  for (const { hit } of [...scored.values()].sort((a, b) => b.score - a.score)) {
+    let thread = threads.get(hit.threadId);
+    if (!thread) {
+      thread = { threadId: hit.threadId, title: hit.title, matches: [] };
+      threads.set(hit.threadId, thread);
+    }
+    if (thread.matches.length < MATCHES_PER_THREAD) {
+      const { messageId, role, createdAt, snippet } = hit;
+      thread.matches.push({ messageId, role, createdAt, snippet });
+    }
+  }
+
+  // Maps keep insertion order, which is already best thread first
+  return [...threads.values()].slice(0, limit);
+}
+
+/**
+ * Messages similar in meaning to the query, most similar first, using the
+ * embeddings semantic recall already keeps. Returns no IDs when memory has
+ * no vector store or embedder.
+ */
+async function semanticSearch(memory: MastraMemory, userId: string, query: string) {
+  const { vector, embedder } = memory;
+  if (!vector || !embedder) return [];
+
+  const {
+    embeddings: [queryVector],
+  } = await embedder.doEmbed({ values: [query] });
+  if (!queryVector) return [];
+
+  // Memory keeps one index per embedding size; only the current one fits
+  const indexes = (await vector.listIndexes()).filter((indexName) =>
+    indexName.startsWith("memory_messages")
+  );
+  const results = [];
+  for (const indexName of indexes) {
+    const { dimension } = await vector.describeIndex({ indexName });
+    if (dimension !== queryVector.length) continue;
+    results.push(
+      ...(await vector.query({
+        indexName,
+        queryVector,
+        topK: CANDIDATE_LIMIT,
+        filter: { resource_id: userId },
+      }))
+    );
+  }
+
+  const ids = results
+    .filter((result) => result.score >= MIN_SEMANTIC_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .map((result) => result.metadata?.message_id)
+    .filter((id): id is string => typeof id === "string");
+  // A long message is embedded in chunks, each of which can match
+  return [...new Set(ids)];
+}
+
+// The text parts of a stored message. Messages are stored as JSON with
+// their parts, older ones as plain text; text that merely looks like JSON
+// is searched as it is.
+const MESSAGE_TEXT_FUNCTION = `
+  CREATE OR REPLACE FUNCTION chat_message_text(content text) RETURNS text
+  LANGUAGE plpgsql IMMUTABLE PARALLEL SAFE AS $fn$
+  DECLARE
+    parsed jsonb;
+  BEGIN
+    IF content NOT LIKE '{%' THEN
+      RETURN content;
+    END IF;
+    BEGIN
+      parsed := content::jsonb;
+    EXCEPTION WHEN invalid_text_representation THEN
+      RETURN content;
+    END;
+    IF jsonb_typeof(parsed->'parts') IS DISTINCT FROM 'array' THEN
+      RETURN content;
+    END IF;
+    RETURN COALESCE((
+      SELECT string_agg(part->>'text', ' ')
+      FROM jsonb_array_elements(parsed->'parts') part
+      WHERE part->>'type' = 'text'
+    ), '');
+  END
+  $fn$`;
+
+const MESSAGE_TEXT = "chat_message_text(m.content)";
+
+// Written exactly as the index below so the search can use it
+const MESSAGE_VECTOR = `to_tsvector('english', ${MESSAGE_TEXT})`;
+
+const MESSAGE_SEARCH_INDEX = `
+  CREATE INDEX IF NOT EXISTS mastra_messages_search_idx ON mastra_messages
+  USING gin (to_tsvector('english', chat_message_text(content)))`;
+
+// Messages of the user's conversations outside the trash and branches
+const SEARCHABLE_MESSAGES = `
+  t."resourceId" = $1
+  AND m.role IN ('user', 'assistant')
+  AND (t.metadata IS NULL OR (
+    t.metadata::jsonb->>'deletedAt' IS NULL
+    AND t.metadata::jsonb->>'branchOf' IS NULL
+  ))`;
+
+/**
+ * Create the function that reads a message's text and the full-text
+ * index over it, once Mastra has created its tables.
+ */
+export async function ensureSearchIndex() {
+  await storage.init();
+  await storage.db.none(MESSAGE_TEXT_FUNCTION);
+  await storage.db.none(MESSAGE_SEARCH_INDEX);
+}
+
+/**
+ * Search every conversation of a user outside the trash, by the words in
+ * their messages and by meaning, ranked by conversation. If the semantic
+ * search fails the full-text results are still returned.
+ */
+export async function searchConversations(
+  memory: MastraMemory,
+  userId: string,
+  query: string
+): Promise<ThreadSearchResult[]> {
+  const semanticIds = await semanticSearch(memory, userId, query).catch((error) => {
+    console.error("Semantic search error:", error);
+    return [] as string[];
+  });
+
+  // Full-text matches, plus the semantic ones so they get snippets and
+  // are checked against the same ownership and trash rules
+  const rows = await storage.db.any(
+    `WITH matches AS (
+       SELECT m.id, m.thread_id, m.role, m."createdAt", t.title, ${MESSAGE_TEXT} AS text,
+         ts_rank(${MESSAGE_VECTOR}, query) AS rank
+       FROM mastra_messages m
+       JOIN mastra_threads t ON t.id = m.thread_id,
+       websearch_to_tsquery('english', $2) query
+       WHERE ${SEARCHABLE_MESSAGES}
+       AND ${MESSAGE_VECTOR} @@ query
+       ORDER BY rank DESC
+       LIMIT $4
+     )
+     SELECT id, thread_id, role, "createdAt", title, rank,
+       ts_headline('english', text, websearch_to_tsquery('english', $2), $5) AS headline
+     FROM (
+       SELECT * FROM matches
+       UNION ALL
+       SELECT m.id, m.thread_id, m.role, m."createdAt", t.title, ${MESSAGE_TEXT}, NULL
+       FROM mastra_messages m
+       JOIN mastra_threads t ON t.id = m.thread_id
+       WHERE ${SEARCHABLE_MESSAGES}
+       AND m.id = ANY($3) AND m.id NOT IN (SELECT id FROM matches)
+     ) candidates`,
+    [userId, query, semanticIds, CANDIDATE_LIMIT, HEADLINE_OPTIONS]
+  );
+
+  const hits = new Map<string, SearchHit & { rank: number | null }>();
+  for (const row of rows) {
+    hits.set(row.id, {
+      messageId: row.id,
+      threadId: row.thread_id,
+      title: row.title,
+      role: row.role,
+      createdAt: new Date(row.createdAt).toISOString(),
+      snippet: parseHeadline(row.headline ?? ""),
+      rank: row.rank === null ? null : Number(row.rank),
+    });
+  }
+
+  const fullText = [...hits.values()]
+    .filter((hit) => hit.rank !== null)
+    .sort((a, b) => b.rank! - a.rank!);
+  // Semantic matches in trashed or other users' threads have no row
+  const semantic = semanticIds.flatMap((id) => hits.get(id) ?? []);
+
+  return rankSearchResults(fullText, semantic);
+}
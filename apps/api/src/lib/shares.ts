@@ -0,0 +1,148 @@
+import { randomBytes } from "node:crypto";
+import { db, sharedConversation, eq, and, desc } from "@chatbot/shared/db";
+import type {
+  NewSharedConversation,
+  SharedConversation,
+  SharedMessage,
+} from "@chatbot/shared/types";
+import type { ExportedConversation } from "./export";
+
+// Longest tool output kept in a snapshot, in characters
+export const MAX_SHARED_TOOL_OUTPUT = 2000;
+
+export interface ShareOptions {
+  // Leave out what tools returned, such as email snippets
+  redactToolOutputs: boolean;
+  expiresAt: Date | null;
+}
+
+/**
+ * Validate the options for a new share link. Tool outputs are redacted
+ * unless turned off, and links don't expire unless given a future date.
+ */
+export function parseShareOptions(
+  input: unknown,
+  now = new Date()
+): { options: ShareOptions } | { error: string } {
+  const body = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+
+  if (body.redactToolOutputs !== undefined && typeof body.redactToolOutputs !== "boolean") {
+    return { error: "redactToolOutputs must be a boolean" };
+  }
+
+  let expiresAt: Date | null = null;
+  if (body.expiresAt !== undefined && body.expiresAt !== null) {
+    expiresAt = typeof body.expiresAt === "string" ? new Date(body.expiresAt) : null;
+    if (!expiresAt || Number.isNaN(expiresAt.getTime()) || expiresAt <= now) {
+      return { error: "expiresAt must be a future date" };
+    }
+  }
+
+  return {
+    options: { redactToolOutputs: body.redactToolOutputs ?? true, expiresAt },
+  };
+}
+
+const toOutput = (result: unknown) => {
+  const output = typeof result === "string" ? result : JSON.stringify(result, null, 2) ?? "";
+  return output.length > MAX_SHARED_TOOL_OUTPUT
+    ? `${output.slice(0, MAX_SHARED_TOOL_OUTPUT - 1)}…`
+    : output;
+};
+
+/**
+ * The messages of a conversation as they are published. Tool arguments
+ * are never included; tool outputs only when they aren't redacted.
+ */
+export function toSharedMessages(
+  conversation: ExportedConversation,
+  { redactToolOutputs }: Pick<ShareOptions, "redactToolOutputs">
+): SharedMessage[] {
+  return conversation.messages.map((message) => ({
+    id: message.id,
+    role: message.role,
+    text: message.text,
+    createdAt: message.createdAt,
+    toolCalls: message.toolCalls.map((call) => ({
+      toolName: call.toolName,
+      completed: call.completed,
+      ...(!redactToolOutputs && call.result !== undefined && { output: toOutput(call.result) }),
+    })),
+    interrupted: message.interrupted,
+  }));
+}
+
+// Revoked links and links past their expiry date are no longer served
+export function isShareActive(share: SharedConversation, now = new Date()) {
+  return !share.revokedAt && (!share.expiresAt || share.expiresAt > now);
+}
+
+// Unguessable ID for the public URL
+export const createShareId = () => randomBytes(16).toString("base64url");
+
+// What the owner sees of a share link; the snapshot itself is left out
+export function toShareSummary(share: SharedConversation, now = new Date()) {
+  return {
+    id: share.id,
+    threadId: share.threadId,
+    title: share.title,
+    redactToolOutputs: share.redactToolOutputs,
+    expiresAt: share.expiresAt,
+    revokedAt: share.revokedAt,
+    createdAt: share.createdAt,
+    active: isShareActive(share, now),
+  };
+}
+
+/**
+ * Where share links and their snapshots are kept. Apart from get(), which
+ * serves the public route, every method is scoped to the owner.
+ */
+export interface ShareStore {
+  create(share: NewSharedConversation): Promise<SharedConversation>;
+  get(shareId: string): Promise<SharedConversation | null>;
+  listForThread(userId: string, threadId: string): Promise<SharedConversation[]>;
+  // Returns false when the user has no share with that ID for the thread
+  revoke(userId: string, threadId: string, shareId: string, now?: Date): Promise<boolean>;
+}
+
+// Share store backed by the shared_conversations table
+export const shareTableStore: ShareStore = {
+  async create(share) {
+    const [created] = await db.insert(sharedConversation).values(share).returning();
+    return created!;
+  },
+
+  async get(shareId) {
+    const [share] = await db
+      .select()
+      .from(sharedConversation)
+      .where(eq(sharedConversation.id, shareId));
+    return share ?? null;
+  },
+
+  listForThread(userId, threadId) {
+    return db
+      .select()
+      .from(sharedConversation)
+      .where(
+        and(eq(sharedConversation.userId, userId), eq(sharedConversation.threadId, threadId))
+      )
+      .orderBy(desc(sharedConversation.createdAt));
+  },
+
+  async revoke(userId, threadId, shareId, now = new Date()) {
+    const revoked = await db
+      .update(sharedConversation)
+      .set({ revokedAt: now })
+      .where(
+        and(
+          eq(sharedConversation.id, shareId),
+          eq(sharedConversation.userId, userId),
+          eq(sharedConversation.threadId, threadId)
+        )
+      )
+      .returning({ id: sharedConversation.id });
+    return revoked.length > 0;
+  },
+};
@@ -0,0 +1,88 @@
+export const MAX_TITLE_LENGTH = 200;
+export const MAX_FOLDER_LENGTH = 50;
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+/**
+ * How a user has organized a thread in the sidebar, stored in the thread's
+ * metadata. Pinned and archived threads keep when that happened so they
+ * can be listed in that order.
+ */
+export interface ThreadOrganization {
+  pinnedAt: string | null;
+  archivedAt: string | null;
+  folder: string | null;
+  tags: string[];
+}
+
+/**
+ * A change to a thread's title or organization. Missing fields are left
+ * as they are; a null folder takes the thread out of its folder.
+ */
+export interface ThreadPatch {
+  title?: string;
+  pinned?: boolean;
+  archived?: boolean;
+  folder?: string | null;
+  tags?: string[];
+}
+
+/**
+ * Check a thread patch sent by the client. Text is trimmed, and tags are
+ * deduplicated. Returns an error message for the first invalid field.
+ */
+export function parseThreadPatch(input: unknown): { patch: ThreadPatch } | { error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Patch must be an object" };
+  }
+
+  const { title, pinned, archived, folder, tags } = input as Record<string, unknown>;
+  const patch: ThreadPatch = {};
+
+  if (title !== undefined) {
+    if (typeof title !== "string" || !title.trim() || title.trim().length > MAX_TITLE_LENGTH) {
+      return { error: `title must be a non-empty string of at most ${MAX_TITLE_LENGTH} characters` };
+    }
+    patch.title = title.trim();
+  }
+
+  if (pinned !== undefined) {
+    if (typeof pinned !== "boolean") return { error: "pinned must be a boolean" };
+    patch.pinned = pinned;
+  }
+
+  if (archived !== undefined) {
+    if (typeof archived !== "boolean") return { error: "archived must be a boolean" };
+    patch.archived = archived;
+  }
+
+  if (folder !== undefined) {
+    if (folder !== null && (typeof folder !== "string" || folder.trim().length > MAX_FOLDER_LENGTH)) {
+      return { error: `folder must be a string of at most ${MAX_FOLDER_LENGTH} characters` };
+    }
+    // An empty name takes the thread out of its folder too
+    patch.folder = folder?.trim() || null;
+  }
+
+  if (tags !== undefined) {
+    if (
+      !Array.isArray(tags) ||
+      !tags.every(
+        (tag) => typeof tag === "string" && tag.trim() && tag.trim().length <= MAX_TAG_LENGTH
+      )
+    ) {
+      return { error: `tags must be non-empty strings of at most ${MAX_TAG_LENGTH} characters` };
+    }
+    const unique = [...new Set((tags as string[]).map((tag) => tag.trim()))];
+    if (unique.length > MAX_TAGS) {
+      return { error: `A thread can have at most ${MAX_TAGS} tags` };
+    }
+    patch.tags = unique;
+  }
+
+  if (Object.keys(patch).length === 0) {
+    return { error: "Nothing to update" };
+  }
+
+  return { patch };
+}
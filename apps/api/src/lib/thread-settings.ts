@@ -0,0 +1,110 @@
+import type { MemoryConfig } from "@mastra/core/memory";
+
+// Runtime context key for the settings of the thread being answered
+export const THREAD_SETTINGS = "threadSettings";
+
+export const MAX_SYSTEM_PROMPT_LENGTH = 4000;
+
+/**
+ * How the agent answers in one thread, stored in the thread's metadata.
+ * Unset fields use the agent's defaults.
+ */
+export interface ThreadSettings {
+  // Model registry ID, like "ollama/llama3.2"
+  model?: string;
+  temperature?: number;
+  // Added to the agent's instructions for this thread
+  systemPrompt?: string;
+  // Names of the tools the agent may use; all of them when unset
+  enabledTools?: string[];
+  // False keeps what the assistant knows from other conversations out of
+  // this one, and this one out of them
+  crossThreadRecall?: boolean;
+}
+
+/**
+ * Check settings sent by the client. Null or missing fields reset to the
+ * default. Returns an error message for the first invalid field.
+ */
+export function parseThreadSettings(
+  input: unknown,
+  { models, tools }: { models: string[]; tools: string[] }
+): { settings: ThreadSettings } | { error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Settings must be an object" };
+  }
+
+  const { model, temperature, systemPrompt, enabledTools, crossThreadRecall } = input as Record<
+    string,
+    unknown
+  >;
+  const settings: ThreadSettings = {};
+
+  if (model != null) {
+    if (typeof model !== "string" || !models.includes(model)) {
+      return { error: "Unknown model" };
+    }
+    settings.model = model;
+  }
+
+  if (temperature != null) {
+    if (typeof temperature !== "number" || !(temperature >= 0 && temperature <= 2)) {
+      return { error: "temperature must be a number from 0 to 2" };
+    }
+    settings.temperature = temperature;
+  }
+
+  if (systemPrompt != null) {
+    if (typeof systemPrompt !== "string" || systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+      return {
+        error: `systemPrompt must be a string of at most ${MAX_SYSTEM_PROMPT_LENGTH} characters`,
+      };
+    }
+    if (systemPrompt.trim()) settings.systemPrompt = systemPrompt.trim();
+  }
+
+  if (enabledTools != null) {
+    if (
+      !Array.isArray(enabledTools) ||
+      !enabledTools.every((tool) => typeof tool === "string" && tools.includes(tool))
+    ) {
+      return { error: "enabledTools must list known tools" };
+    }
+    settings.enabledTools = [...new Set(enabledTools as string[])];
+  }
+
+  if (crossThreadRecall != null) {
+    if (typeof crossThreadRecall !== "boolean") {
+      return { error: "crossThreadRecall must be a boolean" };
+    }
+    // Recall is on by default, so only turning it off is kept
+    if (!crossThreadRecall) settings.crossThreadRecall = false;
+  }
+
+  return { settings };
+}
+
+/**
+ * Keep only the tools enabled in the thread's settings.
+ */
+export function filterEnabledTools<T extends Record<string, unknown>>(
+  tools: T,
+  settings: ThreadSettings | undefined
+): Partial<T> {
+  const enabled = settings?.enabledTools;
+  if (!enabled) return tools;
+  return Object.fromEntries(
+    Object.entries(tools).filter(([name]) => enabled.includes(name))
+  ) as Partial<T>;
+}
+
+/**
+ * Memory options for answering in a thread. With cross-thread recall off
+ * the agent neither reads nor updates the user's profile, and the thread's
+ * messages aren't embedded, so other threads can't recall them either.
+ */
+export function getThreadMemoryOptions(settings: ThreadSettings): MemoryConfig | undefined {
+  return settings.crossThreadRecall === false
+    ? { semanticRecall: false, workingMemory: { enabled: false } }
+    : undefined;
+}
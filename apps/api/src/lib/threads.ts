@@ -0,0 +1,700 @@
+import type { MastraMessageV2 } from "@mastra/core/agent";
+import type { MastraMemory, StorageThreadType } from "@mastra/core/memory";
+import type { ToolApprovalRequest } from "@chatbot/shared/stream";
+import { mastra, storage } from "../mastra";
+import type { ThreadSettings } from "./thread-settings";
+import type { ThreadOrganization, ThreadPatch } from "./thread-organization";
+import {
+  createAttachmentMessage,
+  deleteAttachment,
+  getMessageAttachments,
+  type Attachment,
+} from "./attachments";
+import { blobStore, type BlobStore } from "./blob-store";
+import type { PagePosition } from "./pagination";
+
+// Days a deleted thread stays in the trash before it is purged
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Messages read per query when a whole thread is read
+const THREAD_MESSAGE_PAGE_SIZE = 1000;
+
+// Most messages read after a message history is opened at
+const MAX_LINKED_HISTORY = 1000;
+
+/**
+ * An earlier version of a conversation, kept when a message is edited or
+ * a reply regenerated. Its messages live in a hidden thread of their own.
+ */
+export interface ThreadBranch {
+  // ID of the hidden thread holding the branch's messages
+  id: string;
+  // Last message shared with the conversation, null if the branch starts it
+  forkAfter: string | null;
+  // Text of the branch's first user message
+  preview: string;
+  messageCount: number;
+  // When the branch's first message was sent, so alternatives keep their order
+  createdAt: string;
+}
+
+/**
+ * Get a thread if it belongs to the given user.
+ * Returns null for unknown threads and threads owned by someone else.
+ */
+export async function getOwnedThread(
+  memory: MastraMemory,
+  threadId: string,
+  userId: string
+) {
+  const thread = await memory.getThreadById({ threadId });
+  if (!thread || thread.resourceId !== userId) {
+    return null;
+  }
+  return thread;
+}
+
+/**
+ * Merge a patch into a thread's metadata.
+ * Keys set to undefined are removed. updatedAt is left unchanged so
+ * metadata edits don't reorder the thread list.
+ */
+export async function updateThreadMetadata(
+  memory: MastraMemory,
+  thread: StorageThreadType,
+  patch: Record<string, unknown>
+) {
+  const metadata = Object.fromEntries(
+    Object.entries({ ...thread.metadata, ...patch }).filter(
+      ([, value]) => value !== undefined
+    )
+  );
+  return memory.saveThread({ thread: { ...thread, metadata } });
+}
+
+export function isTrashed(thread: StorageThreadType) {
+  return typeof thread.metadata?.deletedAt === "string";
+}
+
+export function isBranchThread(thread: StorageThreadType) {
+  return typeof thread.metadata?.branchOf === "string";
+}
+
+export function getThreadBranches(thread: StorageThreadType): ThreadBranch[] {
+  return (thread.metadata?.branches as ThreadBranch[] | undefined) ?? [];
+}
+
+// Tool calls the agent suspended on, waiting for the user to approve them
+export function getPendingToolApprovals(thread: StorageThreadType): ToolApprovalRequest[] {
+  return (thread.metadata?.pendingToolApprovals as ToolApprovalRequest[] | undefined) ?? [];
+}
+
+export function setPendingToolApprovals(
+  memory: MastraMemory,
+  thread: StorageThreadType,
+  approvals: ToolApprovalRequest[]
+) {
+  return updateThreadMetadata(memory, thread, {
+    pendingToolApprovals: approvals.length > 0 ? approvals : undefined,
+  });
+}
+
+export function getThreadSettings(thread: StorageThreadType): ThreadSettings {
+  return (thread.metadata?.settings as ThreadSettings | undefined) ?? {};
+}
+
+export function setThreadSettings(
+  memory: MastraMemory,
+  thread: StorageThreadType,
+  settings: ThreadSettings
+) {
+  // Threads left on the defaults keep no settings at all
+  return updateThreadMetadata(memory, thread, {
+    settings: Object.keys(settings).length > 0 ? settings : undefined,
+  });
+}
+
+// Threads in a user's thread list: outside the trash, and not the hidden
+// threads holding branches
+const LISTED_THREADS = `
+  "resourceId" = $1
+  AND (metadata IS NULL OR (
+    metadata::jsonb->>'deletedAt' IS NULL
+    AND metadata::jsonb->>'branchOf' IS NULL
+  ))`;
+
+const THREAD_COLUMNS = `id, "resourceId", title, metadata, "createdAt", "updatedAt"`;
+
+const toThread = (row: Record<string, unknown>) =>
+  ({
+    ...row,
+    metadata: typeof row.metadata === "string" ? JSON.parse(row.metadata) : row.metadata,
+  }) as StorageThreadType;
+
+/**
+ * A page of a user's thread list, most recently updated first: the
+ * `perPage` threads after `before`, or from the top. `nextBefore` is
+ * where the next page starts, null on the last.
+ */
+export async function listThreads(
+  userId: string,
+  { perPage, before }: { perPage: number; before?: PagePosition }
+) {
+  // One extra row tells whether there is another page
+  const rows = await storage.db.any(
+    `SELECT ${THREAD_COLUMNS} FROM mastra_threads
+     WHERE ${LISTED_THREADS}
+     ${before ? `AND ("updatedAt", id) < ($3, $4)` : ""}
+     ORDER BY "updatedAt" DESC, id DESC
+     LIMIT $2`,
+    [userId, perPage + 1, ...(before ? [before.at, before.id] : [])]
+  );
+  const threads = rows.slice(0, perPage).map(toThread);
+  const last = threads[threads.length - 1];
+  return {
+    threads,
+    nextBefore:
+      rows.length > perPage && last ? { at: new Date(last.updatedAt), id: last.id } : null,
+  };
+}
+
+/**
+ * Every pinned thread in a user's thread list, most recently pinned first,
+ * and the names of all their folders. The list shows these above its
+ * pages, so they can't wait for the page a thread is on to load.
+ */
+export async function getThreadListSections(userId: string) {
+  const pinned = await storage.db.any(
+    `SELECT ${THREAD_COLUMNS} FROM mastra_threads
+     WHERE ${LISTED_THREADS}
+     AND metadata::jsonb->>'pinnedAt' IS NOT NULL
+     ORDER BY metadata::jsonb->>'pinnedAt' DESC`,
+    [userId]
+  );
+  const folders = await storage.db.any(
+    `SELECT DISTINCT metadata::jsonb->>'folder' AS folder FROM mastra_threads
+     WHERE ${LISTED_THREADS}
+     AND metadata::jsonb->>'folder' IS NOT NULL
+     ORDER BY folder`,
+    [userId]
+  );
+  return {
+    pinned: pinned.map(toThread),
+    folders: folders.map((row) => row.folder as string),
+  };
+}
+
+export function getThreadOrganization(thread: StorageThreadType): ThreadOrganization {
+  const { pinnedAt, archivedAt, folder, tags } = thread.metadata ?? {};
+  return {
+    pinnedAt: typeof pinnedAt === "string" ? pinnedAt : null,
+    archivedAt: typeof archivedAt === "string" ? archivedAt : null,
+    folder: typeof folder === "string" ? folder : null,
+    tags: Array.isArray(tags) ? (tags as string[]) : [],
+  };
+}
+
+/**
+ * Rename a thread or change how it is organized. Pinning or archiving a
+ * thread again keeps the date it was first pinned or archived.
+ */
+export function organizeThread(
+  memory: MastraMemory,
+  thread: StorageThreadType,
+  patch: ThreadPatch,
+  now = new Date()
+) {
+  const current = getThreadOrganization(thread);
+  const metadata: Record<string, unknown> = {};
+  if (patch.pinned !== undefined) {
+    metadata.pinnedAt = patch.pinned ? (current.pinnedAt ?? now.toISOString()) : undefined;
+  }
+  if (patch.archived !== undefined) {
+    metadata.archivedAt = patch.archived ? (current.archivedAt ?? now.toISOString()) : undefined;
+  }
+  if (patch.folder !== undefined) {
+    metadata.folder = patch.folder ?? undefined;
+  }
+  if (patch.tags !== undefined) {
+    metadata.tags = patch.tags.length > 0 ? patch.tags : undefined;
+  }
+
+  return updateThreadMetadata(
+    memory,
+    patch.title ? { ...thread, title: patch.title } : thread,
+    metadata
+  );
+}
+
+// The custom assistant a thread was started with, if any
+export function getThreadAssistantId(thread: StorageThreadType): string | undefined {
+  const assistantId = thread.metadata?.assistantId;
+  return typeof assistantId === "string" ? assistantId : undefined;
+}
+
+/**
+ * When a trashed thread will be purged, or null if it isn't in the trash.
+ */
+export function getPurgeDate(thread: StorageThreadType) {
+  if (!isTrashed(thread)) return null;
+  const deletedAt = new Date(thread.metadata!.deletedAt as string);
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+export function moveThreadToTrash(
+  memory: MastraMemory,
+  thread: StorageThreadType,
+  { includeTraces = false }: { includeTraces?: boolean } = {}
+) {
+  return updateThreadMetadata(memory, thread, {
+    deletedAt: new Date().toISOString(),
+    // Remembered so the purge job can delete traces too
+    purgeTraces: includeTraces || undefined,
+  });
+}
+
+export function restoreThreadFromTrash(
+  memory: MastraMemory,
+  thread: StorageThreadType
+) {
+  return updateThreadMetadata(memory, thread, {
+    deletedAt: undefined,
+    purgeTraces: undefined,
+  });
+}
+
+/**
+ * Save a generation that was stopped before it finished. Mastra only
+ * persists a turn when the agent finishes, so the user's message is saved
+ * here too unless it is already in the thread. Resumed runs have no new
+ * user message. The partial response is marked as interrupted in its
+ * metadata. Files attached to the user's message are saved with it.
+ */
+export async function saveInterruptedResponse(
+  memory: MastraMemory,
+  {
+    threadId,
+    resourceId,
+    message,
+    attachments,
+    text,
+    startedAt,
+  }: {
+    threadId: string;
+    resourceId: string;
+    message?: string;
+    attachments?: Attachment[];
+    text: string;
+    startedAt: Date;
+  }
+) {
+  const thread = await memory.getThreadById({ threadId });
+  if (!thread) {
+    await memory.createThread({ threadId, resourceId });
+  }
+
+  const { messagesV2 } = await memory.query({
+    threadId,
+    resourceId,
+    selectBy: { last: 5 },
+  });
+  const userMessageSaved = messagesV2.some(
+    (msg) =>
+      msg.role === "user" &&
+      new Date(msg.createdAt) >= startedAt &&
+      msg.content.parts.some((part) => part.type === "text" && part.text === message)
+  );
+
+  const textMessage = (
+    role: "user" | "assistant",
+    content: string,
+    createdAt: Date,
+    metadata?: Record<string, unknown>
+  ): MastraMessageV2 => ({
+    id: crypto.randomUUID(),
+    role,
+    createdAt,
+    threadId,
+    resourceId,
+    content: {
+      format: 2,
+      parts: [{ type: "text", text: content }],
+      content,
+      ...(metadata && { metadata }),
+    },
+  });
+
+  const messages = [
+    ...(message === undefined || userMessageSaved
+      ? []
+      : attachments?.length
+        ? [{ ...createAttachmentMessage(message, attachments), threadId, resourceId, createdAt: startedAt }]
+        : [textMessage("user", message, startedAt)]),
+    textMessage("assistant", text, new Date(), { interrupted: true }),
+  ];
+
+  return memory.saveMessages({ messages, format: "v2" });
+}
+
+const messageText = (message: MastraMessageV2) =>
+  message.content.parts
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("");
+
+/**
+ * Read all of a thread's messages in chronological order, a page of
+ * THREAD_MESSAGE_PAGE_SIZE at a time from the latest.
+ */
+export async function getThreadMessages(
+  memory: MastraMemory,
+  threadId: string,
+  resourceId: string
+) {
+  const pages: MastraMessageV2[][] = [];
+  for (let page = 0; ; page++) {
+    const { messages, hasMore } = await memory.storage.getMessagesPaginated({
+      threadId,
+      resourceId,
+      format: "v2",
+      selectBy: { pagination: { page, perPage: THREAD_MESSAGE_PAGE_SIZE } },
+    });
+    pages.unshift(messages as MastraMessageV2[]);
+    if (!hasMore) break;
+  }
+  return pages.flat();
+}
+
+// Semantic recall indexes, one per embedding dimension
+const isMessageIndex = (indexName: string) => indexName.startsWith("memory_messages");
+
+/**
+ * Point the embeddings of moved messages at the thread they are now in.
+ * Messages kept in a hidden branch thread lose their resource ID, so
+ * semantic recall, which searches by resource, doesn't bring them back.
+ */
+async function moveMessageEmbeddings(
+  memory: MastraMemory,
+  messageIds: string[],
+  { threadId, resourceId }: { threadId: string; resourceId?: string }
+) {
+  const vector = memory.vector;
+  if (!vector || messageIds.length === 0) return;
+
+  const metadata = JSON.stringify({ thread_id: threadId, resource_id: resourceId });
+  const indexes = await vector.listIndexes();
+  for (const indexName of indexes.filter(isMessageIndex)) {
+    await storage.db.none(
+      `UPDATE $1:name
+       SET metadata = (metadata - 'resource_id') || $2::jsonb
+       WHERE metadata->>'message_id' = ANY($3)`,
+      [indexName, metadata, messageIds]
+    );
+  }
+}
+
+/**
+ * One page of a thread's history, in chronological order: the latest
+ * `limit` messages before `before`, or before now. Opened at a message,
+ * such as one found by search, the page runs from that message onward
+ * and adds `limit` messages before it.
+ * `nextBefore` is where the page before this one ends, null at the start.
+ */
+export async function getThreadMessagesPage(
+  memory: MastraMemory,
+  threadId: string,
+  { limit, before, messageId }: { limit: number; before?: PagePosition; messageId?: string }
+) {
+  const [anchor] =
+    messageId && !before
+      ? await storage.db.any(
+          `SELECT id, "createdAt" FROM mastra_messages WHERE id = $1 AND thread_id = $2`,
+          [messageId, threadId]
+        )
+      : [];
+  const end: PagePosition | undefined = anchor
+    ? { at: anchor.createdAt, id: anchor.id }
+    : before;
+
+  // Newest first, with one extra row telling whether there are more
+  const earlier = await storage.db.any(
+    `SELECT id, "createdAt" FROM mastra_messages
+     WHERE thread_id = $1
+     ${end ? `AND ("createdAt", id) < ($3, $4)` : ""}
+     ORDER BY "createdAt" DESC, id DESC
+     LIMIT $2`,
+    [threadId, limit + 1, ...(end ? [end.at, end.id] : [])]
+  );
+  const later = anchor
+    ? await storage.db.any(
+        `SELECT id FROM mastra_messages
+         WHERE thread_id = $1 AND ("createdAt", id) >= ($2, $3)
+         ORDER BY "createdAt", id
+         LIMIT $4`,
+        [threadId, anchor.createdAt, anchor.id, MAX_LINKED_HISTORY]
+      )
+    : [];
+
+  const page = earlier.slice(0, limit).reverse();
+  const ids: string[] = [...page, ...later].map((row) => row.id);
+  const messages = (await memory.storage.getMessagesById({ messageIds: ids, format: "v2" })).sort(
+    (a, b) => ids.indexOf(a.id) - ids.indexOf(b.id)
+  );
+
+  const oldest = page[0];
+  return {
+    messages,
+    nextBefore:
+      earlier.length > limit && oldest ? { at: new Date(oldest.createdAt), id: oldest.id } : null,
+  };
+}
+
+/**
+ * Move the messages from a fork point onward into a new hidden branch
+ * thread and record the branch on the conversation.
+ */
+async function archiveTail(
+  memory: MastraMemory,
+  thread: StorageThreadType,
+  tail: MastraMessageV2[],
+  forkAfter: string | null
+) {
+  const archive = await memory.createThread({
+    resourceId: thread.resourceId,
+    title: thread.title,
+    metadata: { branchOf: thread.id },
+  });
+  await memory.storage.updateMessages({
+    messages: tail.map((message) => ({ id: message.id, threadId: archive.id })),
+  });
+  await moveMessageEmbeddings(
+    memory,
+    tail.map((message) => message.id),
+    { threadId: archive.id }
+  );
+
+  const firstUserMessage = tail.find((message) => message.role === "user");
+  const branch: ThreadBranch = {
+    id: archive.id,
+    forkAfter,
+    preview: firstUserMessage ? messageText(firstUserMessage) : "",
+    messageCount: tail.length,
+    createdAt: new Date(tail[0].createdAt).toISOString(),
+  };
+  return branch;
+}
+
+/**
+ * Cut a conversation at a user message so it can be sent again, keeping
+ * that message and everything after it as a branch. For an assistant
+ * message the cut is at the user message it replied to.
+ * Returns the text of the user message and the files attached to it, or
+ * null if the message isn't in the thread.
+ */
+export async function branchFromMessage(
+  memory: MastraMemory,
+  thread: StorageThreadType,
+  messageId: string
+) {
+  const messages = await getThreadMessages(memory, thread.id, thread.resourceId);
+
+  let forkIndex = messages.findIndex((message) => message.id === messageId);
+  while (forkIndex >= 0 && messages[forkIndex].role !== "user") {
+    forkIndex--;
+  }
+  if (forkIndex < 0) return null;
+
+  const forkAfter = messages[forkIndex - 1]?.id ?? null;
+  const branch = await archiveTail(
+    memory,
+    thread,
+    messages.slice(forkIndex),
+    forkAfter
+  );
+  await updateThreadMetadata(memory, thread, {
+    branches: [...getThreadBranches(thread), branch],
+  });
+
+  return {
+    message: messageText(messages[forkIndex]),
+    attachments: getMessageAttachments(messages[forkIndex]),
+    branch,
+  };
+}
+
+/**
+ * Branches that can be switched to from the conversation as it stands.
+ * Branches that fork inside another branch show up once that branch is
+ * switched to.
+ */
+export async function listThreadBranches(
+  memory: MastraMemory,
+  thread: StorageThreadType
+) {
+  const branches = getThreadBranches(thread);
+  if (branches.length === 0) return [];
+
+  const messages = await getThreadMessages(memory, thread.id, thread.resourceId);
+  const messageIds = new Set(messages.map((message) => message.id));
+
+  return branches.filter(
+    (branch) => branch.forkAfter === null || messageIds.has(branch.forkAfter)
+  );
+}
+
+/**
+ * Make a branch the current conversation. What currently follows the
+ * branch's fork point is kept as a branch in its place.
+ * Returns null if the branch can't be reached from the conversation.
+ */
+export async function switchThreadBranch(
+  memory: MastraMemory,
+  thread: StorageThreadType,
+  branchId: string
+) {
+  const branches = getThreadBranches(thread);
+  const branch = branches.find((b) => b.id === branchId);
+  if (!branch) return null;
+
+  const messages = await getThreadMessages(memory, thread.id, thread.resourceId);
+  const forkIndex =
+    branch.forkAfter === null
+      ? 0
+      : messages.findIndex((message) => message.id === branch.forkAfter) + 1;
+  if (forkIndex === 0 && branch.forkAfter !== null) return null;
+
+  const tail = messages.slice(forkIndex);
+  const replaced = tail.length
+    ? [await archiveTail(memory, thread, tail, branch.forkAfter)]
+    : [];
+
+  const branchMessages = await getThreadMessages(memory, branch.id, thread.resourceId);
+  await memory.storage.updateMessages({
+    messages: branchMessages.map((message) => ({ id: message.id, threadId: thread.id })),
+  });
+  await moveMessageEmbeddings(
+    memory,
+    branchMessages.map((message) => message.id),
+    { threadId: thread.id, resourceId: thread.resourceId }
+  );
+  // Only the empty hidden thread is left to delete
+  await memory.deleteThread(branch.id);
+
+  return updateThreadMetadata(memory, thread, {
+    branches: [...branches.filter((b) => b.id !== branchId), ...replaced],
+  });
+}
+
+/**
+ * Permanently delete a thread: its embeddings, its messages and branches,
+ * the thread row itself and, optionally, its AI tracing spans.
+ */
+export async function purgeThread(
+  memory: MastraMemory,
+  threadId: string,
+  { includeTraces = false, blobs = blobStore }: { includeTraces?: boolean; blobs?: BlobStore } = {}
+) {
+  // Branches kept from edits and regenerations go with the thread
+  const thread = await memory.getThreadById({ threadId });
+  const branchIds = thread ? getThreadBranches(thread).map((branch) => branch.id) : [];
+
+  // Embeddings and attached files go first so a failed purge can be
+  // retried from the thread
+  const vector = memory.vector;
+  if (vector) {
+    const indexes = await vector.listIndexes();
+    await Promise.all(
+      indexes.filter(isMessageIndex).flatMap((indexName) =>
+        [threadId, ...branchIds].map((id) =>
+          vector.deleteVectors({ indexName, filter: { thread_id: id } })
+        )
+      )
+    );
+  }
+
+  if (thread) {
+    const attachmentIds = new Set<string>();
+    for (const id of [threadId, ...branchIds]) {
+      for (const message of await getThreadMessages(memory, id, thread.resourceId)) {
+        for (const attachment of getMessageAttachments(message)) attachmentIds.add(attachment.id);
+      }
+    }
+    for (const attachmentId of attachmentIds) {
+      await deleteAttachment(blobs, thread.resourceId, attachmentId);
+    }
+  }
+
+  for (const branchId of branchIds) {
+    await memory.deleteThread(branchId);
+  }
+
+  // Deletes the thread's messages along with the thread
+  await memory.deleteThread(threadId);
+
+  // Public links stop working, and the snapshots behind them go too
+  await storage.db.none(`DELETE FROM shared_conversations WHERE thread_id = $1`, [
+    threadId,
+  ]);
+
+  // One statement, so the traces of the thread and its branches go together
+  if (includeTraces) {
+    await storage.db.none(
+      `DELETE FROM mastra_ai_spans
+       WHERE "traceId" IN (
+         SELECT "traceId" FROM mastra_ai_spans
+         WHERE "parentSpanId" IS NULL
+         AND metadata->>'threadId' = ANY($1)
+       )`,
+      [[threadId, ...branchIds]]
+    );
+  }
+}
+
+/**
+ * Purge every thread that has been in the trash longer than the retention
+ * period. Returns the number of threads purged.
+ */
+export async function purgeExpiredThreads(now = new Date()) {
+  const memory = await mastra.getAgent("chatAgent").getMemory();
+  if (!memory) return 0;
+
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+  const expired = await storage.db.any(
+    `SELECT id, metadata FROM mastra_threads
+     WHERE metadata IS NOT NULL
+     AND (metadata::jsonb->>'deletedAt')::timestamptz < $1`,
+    [cutoff.toISOString()]
+  );
+
+  let purged = 0;
+  for (const row of expired) {
+    const metadata =
+      typeof row.metadata === "string" ? JSON.parse(row.metadata) : row.metadata;
+    try {
+      await purgeThread(memory, row.id, {
+        includeTraces: metadata?.purgeTraces === true,
+      });
+      purged++;
+    } catch (error) {
+      console.error(`Failed to purge thread ${row.id}:`, error);
+    }
+  }
+
+  return purged;
+}
+
+/**
+ * Run the trash purge now and then on an interval.
+ */
+export function startTrashPurgeJob(intervalMs = 60 * 60 * 1000) {
+  const run = () =>
+    purgeExpiredThreads()
+      .then((purged) => {
+        if (purged > 0) console.log(`Purged ${purged} threads from trash`);
+      })
+      .catch((error) => console.error("Trash purge error:", error));
+
+  run();
+  return setInterval(run, intervalMs);
+}
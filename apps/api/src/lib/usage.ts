@@ -0,0 +1,222 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { db, usageEvent, eq, and, gte, asc, sql } from "@chatbot/shared/db";
+import type { NewUsageEvent, UsageEvent } from "@chatbot/shared/types";
+import type { ChatUsage } from "@chatbot/shared/stream";
+import { env } from "../config/env";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// USD per million tokens. Embedding models only have an input price.
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type ModelPrices = Record<string, ModelPrice>;
+
+// Google's list prices; models without a price, like local ones, are free
+export const DEFAULT_MODEL_PRICES: ModelPrices = {
+  "google/gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "google/gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+  "google/gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "google/gemini-2.5-pro": { input: 1.25, output: 10 },
+  "google/text-embedding-004": { input: 0, output: 0 },
+};
+
+/**
+ * Read model prices from JSON like {"ollama/llama3.2": {"input": 0, "output": 0}}.
+ * Throws when a price isn't a pair of non-negative numbers.
+ */
+export function parseModelPrices(json: string): ModelPrices {
+  if (!json) return {};
+
+  const parsed: unknown = JSON.parse(json);
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("MODEL_PRICES must be a JSON object of model IDs to prices");
+  }
+
+  const isPrice = (value: unknown) => typeof value === "number" && value >= 0;
+  for (const [model, price] of Object.entries(parsed)) {
+    if (!price || !isPrice(price.input) || !isPrice(price.output)) {
+      throw new Error(`MODEL_PRICES has an invalid price for ${model}`);
+    }
+  }
+  return parsed as ModelPrices;
+}
+
+export const modelPrices: ModelPrices = {
+  ...DEFAULT_MODEL_PRICES,
+  ...parseModelPrices(env.MODEL_PRICES),
+};
+
+// Embedding tokens counted for the request being answered
+const embeddingMeter = new AsyncLocalStorage<{ tokens: number }>();
+
+/**
+ * Counts the embedding tokens used by what it runs, including work that
+ * finishes later, such as saving messages once a stream has been read.
+ */
+export function createEmbeddingMeter() {
+  const meter = {
+    tokens: 0,
+    run: <T>(fn: () => T) => embeddingMeter.run(meter, fn),
+  };
+  return meter;
+}
+
+// Called by the embedding model with the tokens of each call
+export function countEmbeddingTokens(tokens: number | undefined) {
+  const meter = embeddingMeter.getStore();
+  if (meter && tokens) meter.tokens += tokens;
+}
+
+/**
+ * The usage event for one agent response, priced with `prices`.
+ */
+export function toUsageEvent(
+  {
+    userId,
+    threadId,
+    traceId,
+    model,
+    usage,
+    embeddingTokens = 0,
+  }: {
+    userId: string;
+    threadId: string;
+    traceId?: string;
+    model: string;
+    usage: ChatUsage;
+    embeddingTokens?: number;
+  },
+  prices: ModelPrices = modelPrices,
+  embeddingModel: string = env.EMBEDDING_MODEL
+): NewUsageEvent {
+  const inputTokens = usage.inputTokens ?? 0;
+  // Reasoning tokens are billed as output
+  const outputTokens = (usage.outputTokens ?? 0) + (usage.reasoningTokens ?? 0);
+  const price = prices[model] ?? { input: 0, output: 0 };
+  const embeddingPrice = prices[embeddingModel]?.input ?? 0;
+
+  return {
+    id: crypto.randomUUID(),
+    userId,
+    threadId,
+    traceId: traceId ?? null,
+    model,
+    inputTokens,
+    outputTokens,
+    embeddingTokens,
+    costUsd:
+      (inputTokens * price.input +
+        outputTokens * price.output +
+        embeddingTokens * embeddingPrice) /
+      1_000_000,
+  };
+}
+
+export interface UsageTotals {
+  responses: number;
+  inputTokens: number;
+  outputTokens: number;
+  embeddingTokens: number;
+  costUsd: number;
+}
+
+type UsageRow = Pick<
+  UsageEvent,
+  "model" | "inputTokens" | "outputTokens" | "embeddingTokens" | "costUsd" | "createdAt"
+>;
+
+const emptyTotals = (): UsageTotals => ({
+  responses: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  embeddingTokens: 0,
+  costUsd: 0,
+});
+
+const addTo = (totals: UsageTotals, row: UsageRow) => {
+  totals.responses += 1;
+  totals.inputTokens += row.inputTokens;
+  totals.outputTokens += row.outputTokens;
+  totals.embeddingTokens += row.embeddingTokens;
+  totals.costUsd += row.costUsd;
+};
+
+// Monday of the UTC week a date falls in, as YYYY-MM-DD
+const weekStart = (date: Date) => {
+  const day = date.getUTCDay();
+  return new Date(date.getTime() - ((day + 6) % 7) * DAY_MS).toISOString().slice(0, 10);
+};
+
+/**
+ * Add up usage events overall, per UTC day, per week starting Monday and
+ * per model. Days and weeks are oldest first, models costliest first.
+ */
+export function summarizeUsage(rows: UsageRow[]) {
+  const totals = emptyTotals();
+  const daily = new Map<string, UsageTotals>();
+  const weekly = new Map<string, UsageTotals>();
+  const byModel = new Map<string, UsageTotals>();
+
+  const bucket = (map: Map<string, UsageTotals>, key: string) => {
+    let entry = map.get(key);
+    if (!entry) map.set(key, (entry = emptyTotals()));
+    return entry;
+  };
+
+  for (const row of rows) {
+    addTo(totals, row);
+    addTo(bucket(daily, row.createdAt.toISOString().slice(0, 10)), row);
+    addTo(bucket(weekly, weekStart(row.createdAt)), row);
+    addTo(bucket(byModel, row.model), row);
+  }
+
+  const sortedByKey = (map: Map<string, UsageTotals>) =>
+    [...map.entries()].sort(([a], [b]) => a.localeCompare(b));
+
+  return {
+    totals,
+    daily: sortedByKey(daily).map(([date, usage]) => ({ date, ...usage })),
+    weekly: sortedByKey(weekly).map(([weekStart, usage]) => ({ weekStart, ...usage })),
+    byModel: [...byModel.entries()]
+      .map(([model, usage]) => ({ model, ...usage }))
+      .sort((a, b) => b.costUsd - a.costUsd || b.responses - a.responses),
+  };
+}
+
+/**
+ * Where usage events are kept.
+ */
+export interface UsageStore {
+  record(event: NewUsageEvent): Promise<void>;
+  listSince(userId: string, since: Date): Promise<UsageEvent[]>;
+  // Prompt and completion tokens used since a date
+  tokensSince(userId: string, since: Date): Promise<number>;
+}
+
+// Usage store backed by the usage_events table
+export const usageTableStore: UsageStore = {
+  async record(event) {
+    await db.insert(usageEvent).values(event);
+  },
+
+  listSince(userId, since) {
+    return db
+      .select()
+      .from(usageEvent)
+      .where(and(eq(usageEvent.userId, userId), gte(usageEvent.createdAt, since)))
+      .orderBy(asc(usageEvent.createdAt));
+  },
+
+  async tokensSince(userId, since) {
+    const [row] = await db
+      .select({
+        tokens: sql<string>`coalesce(sum(${usageEvent.inputTokens} + ${usageEvent.outputTokens}), 0)`,
+      })
+      .from(usageEvent)
+      .where(and(eq(usageEvent.userId, userId), gte(usageEvent.createdAt, since)));
+    return Number(row?.tokens ?? 0);
+  },
+};
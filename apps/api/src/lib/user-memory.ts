@@ -0,0 +1,116 @@
+import { z } from "zod";
+import type { MastraMemory } from "@mastra/core/memory";
+
+export const MAX_PROFILE_TEXT_LENGTH = 200;
+export const MAX_PROFILE_ITEMS = 50;
+
+/**
+ * What the assistant remembers about a user across conversations. The
+ * agent keeps it up to date as Mastra working memory, and the user can
+ * read and edit it from settings.
+ */
+export const userProfileSchema = z.object({
+  name: z.string().optional().describe("What the user likes to be called"),
+  location: z.string().optional().describe("Where the user lives or works"),
+  occupation: z.string().optional().describe("The user's job or role"),
+  interests: z.array(z.string()).optional().describe("Topics and hobbies the user cares about"),
+  preferences: z
+    .array(z.string())
+    .optional()
+    .describe("How the user likes answers, such as short or in French"),
+  facts: z
+    .array(z.string())
+    .optional()
+    .describe("Other lasting facts the user shared, one per item"),
+});
+
+export type UserProfile = z.infer<typeof userProfileSchema>;
+
+const TEXT_FIELDS = ["name", "location", "occupation"] as const;
+const LIST_FIELDS = ["interests", "preferences", "facts"] as const;
+
+/**
+ * Check a profile sent by the client. Text is trimmed, blank fields and
+ * items are dropped, and list items are deduplicated. Returns an error
+ * message for the first invalid field.
+ */
+export function parseUserProfile(input: unknown): { profile: UserProfile } | { error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Profile must be an object" };
+  }
+
+  const fields = input as Record<string, unknown>;
+  const profile: UserProfile = {};
+
+  for (const field of TEXT_FIELDS) {
+    const value = fields[field];
+    if (value == null) continue;
+    if (typeof value !== "string" || value.trim().length > MAX_PROFILE_TEXT_LENGTH) {
+      return { error: `${field} must be a string of at most ${MAX_PROFILE_TEXT_LENGTH} characters` };
+    }
+    if (value.trim()) profile[field] = value.trim();
+  }
+
+  for (const field of LIST_FIELDS) {
+    const value = fields[field];
+    if (value == null) continue;
+    if (
+      !Array.isArray(value) ||
+      !value.every(
+        (item) => typeof item === "string" && item.trim().length <= MAX_PROFILE_TEXT_LENGTH
+      )
+    ) {
+      return {
+        error: `${field} must be strings of at most ${MAX_PROFILE_TEXT_LENGTH} characters`,
+      };
+    }
+    const items = [...new Set((value as string[]).map((item) => item.trim()).filter(Boolean))];
+    if (items.length > MAX_PROFILE_ITEMS) {
+      return { error: `${field} can have at most ${MAX_PROFILE_ITEMS} items` };
+    }
+    if (items.length > 0) profile[field] = items;
+  }
+
+  return { profile };
+}
+
+/**
+ * Read the profile stored as working memory. The agent writes it, so
+ * fields of the wrong type are skipped rather than rejected.
+ */
+export function readUserProfile(workingMemory: string | null | undefined): UserProfile {
+  let stored: unknown;
+  try {
+    stored = workingMemory ? JSON.parse(workingMemory) : null;
+  } catch {
+    return {};
+  }
+  if (!stored || typeof stored !== "object" || Array.isArray(stored)) return {};
+
+  const fields = stored as Record<string, unknown>;
+  const profile: UserProfile = {};
+  for (const field of TEXT_FIELDS) {
+    const value = fields[field];
+    if (typeof value === "string" && value.trim()) profile[field] = value;
+  }
+  for (const field of LIST_FIELDS) {
+    const value = fields[field];
+    if (!Array.isArray(value)) continue;
+    const items = value.filter((item): item is string => typeof item === "string" && !!item.trim());
+    if (items.length > 0) profile[field] = items;
+  }
+  return profile;
+}
+
+// Working memory is scoped to the resource, which is the user
+export async function getUserProfile(memory: MastraMemory, userId: string) {
+  const resource = await memory.storage.getResourceById({ resourceId: userId });
+  return readUserProfile(resource?.workingMemory);
+}
+
+export async function setUserProfile(memory: MastraMemory, userId: string, profile: UserProfile) {
+  // An empty profile is stored as nothing, so the agent starts over from
+  // the schema
+  const workingMemory = Object.keys(profile).length > 0 ? JSON.stringify(profile) : "";
+  await memory.storage.updateResource({ resourceId: userId, workingMemory });
+}
@@ -1,9 +1,36 @@
 import { Agent } from "@mastra/core/agent";
+import type { Mastra } from "@mastra/core/mastra";
+import type { RuntimeContext } from "@mastra/core/runtime-context";
 import { Memory } from "@mastra/memory";
 import { PostgresStore, PgVector } from "@mastra/pg";
+import type { Assistant } from "@chatbot/shared/types";
 import { env } from "../../config/env";
-import { googleContactsTool } from "../tools/google-contacts";
+import { createEmbeddingModel, resolveChatModel } from "../model-registry";
+import {
+  THREAD_SETTINGS,
+  filterEnabledTools,
+  type ThreadSettings,
+} from "../../lib/thread-settings";
+import { userProfileSchema } from "../../lib/user-memory";
+import {
+  googleContactDetailsTool,
+  googleContactsTool,
+} from "../tools/google-contacts";
 import { googleGmailTool } from "../tools/google-gmail";
+import { googleGmailReadTool } from "../tools/google-gmail-read";
+import { googleDriveReadTool, googleDriveSearchTool } from "../tools/google-drive";
+import {
+  googleCalendarCreateEventTool,
+  googleCalendarFreeBusyTool,
+  googleCalendarListEventsTool,
+} from "../tools/google-calendar";
+import { formatInTimeZone } from "../tools/calendar-time";
+import { USER_TIME_ZONE } from "../tools/google-api";
+import {
+  googleGmailCreateDraftTool,
+  googleGmailReplyTool,
+  googleGmailSendTool,
+} from "../tools/google-gmail-compose";
 
 const connectionString = env.DATABASE_URL;
 
@@ -11,7 +38,7 @@ const connectionString = env.DATABASE_URL;
 const memory = new Memory({
   storage: new PostgresStore({ connectionString }),
   vector: new PgVector({ connectionString }),
-  embedder: "google/text-embedding-004",
+  embedder: createEmbeddingModel(),
   options: {
     lastMessages: 20,
     semanticRecall: {
@@ -19,20 +46,131 @@ const memory = new Memory({
       messageRange: 2, // Include 2 messages before and after each match for context
       scope: "resource", // Search across all threads for this user (enables cross-conversation recall)
     },
+    workingMemory: {
+      enabled: true,
+      scope: "resource", // One profile per user, shared by all their threads
+      schema: userProfileSchema,
+    },
     threads: {
       generateTitle: true, // Auto-generate thread titles from first message
     },
   },
 });
 
-// Create the chat agent with memory and tool capabilities
-export const chatAgent = new Agent({
-  name: "chat-agent",
-  instructions: `You are a helpful assistant with access to the user's Google contacts and emails.
-When asked about contacts, use the googleContactsTool.
-When asked about emails, use the googleGmailTool.
-Be concise and helpful in your responses.`,
-  model: "google/gemini-2.0-flash",
-  memory,
-  tools: { googleContactsTool, googleGmailTool },
-});
+// Every tool the agent has; an assistant or a thread's settings can turn
+// some off
+export const chatAgentTools = {
+  googleContactsTool,
+  googleContactDetailsTool,
+  googleGmailTool,
+  googleGmailReadTool,
+  googleGmailCreateDraftTool,
+  googleGmailReplyTool,
+  googleGmailSendTool,
+  googleCalendarListEventsTool,
+  googleCalendarFreeBusyTool,
+  googleCalendarCreateEventTool,
+  googleDriveSearchTool,
+  googleDriveReadTool,
+};
+
+type ChatAgentToolName = keyof typeof chatAgentTools;
+
+// What the agent is told about each tool, when it has that tool
+const TOOL_INSTRUCTIONS: Record<ChatAgentToolName, string> = {
+  googleContactsTool:
+    "When asked about contacts, use googleContactsTool, passing a query to search for someone by name, email or phone.",
+  googleContactDetailsTool:
+    "For everything known about one contact, such as their address or notes, use googleContactDetailsTool.",
+  googleGmailTool: "When asked about emails, use googleGmailTool.",
+  googleGmailReadTool:
+    "To summarize or answer questions about what an email says, read it with googleGmailReadTool.",
+  googleGmailCreateDraftTool: "When the user wants an email drafted, use googleGmailCreateDraftTool.",
+  googleGmailReplyTool: "To answer an email, use googleGmailReplyTool.",
+  googleGmailSendTool: "To write a new email, use googleGmailSendTool.",
+  googleCalendarListEventsTool: "When asked what's on the calendar, use googleCalendarListEventsTool.",
+  googleCalendarFreeBusyTool:
+    "To find a time to meet, use googleCalendarFreeBusyTool with the attendees' email addresses.",
+  googleCalendarCreateEventTool:
+    "To schedule something, use googleCalendarCreateEventTool; the user confirms it before it is created.",
+  googleDriveSearchTool:
+    "To find a document, spreadsheet or presentation, use googleDriveSearchTool, filtering by owner when the user says who wrote or shared it.",
+  googleDriveReadTool:
+    "Read a Drive file with googleDriveReadTool before quoting or summarizing it, and say so if the content was truncated.",
+};
+
+/**
+ * The part of the instructions about tools, naming only the tools the
+ * agent has, so it doesn't offer or try what it can't do.
+ */
+function toolInstructions(toolNames: string[]) {
+  const has = (name: ChatAgentToolName) => toolNames.includes(name);
+  if (toolNames.length === 0) {
+    return "You have no tools, so you can't read or change anything in the user's Google account. Say so if asked to.";
+  }
+
+  const lines = [
+    "Only use the tools described here; say so when asked for something none of them can do.",
+    ...(Object.keys(TOOL_INSTRUCTIONS) as ChatAgentToolName[])
+      .filter(has)
+      .map((name) => TOOL_INSTRUCTIONS[name]),
+  ];
+  if (has("googleGmailSendTool") || has("googleGmailReplyTool")) {
+    lines.push(
+      "The user confirms every send, so call the tool directly rather than asking for confirmation in the chat."
+    );
+  }
+  if (has("googleCalendarFreeBusyTool") && has("googleContactsTool")) {
+    lines.push("Look up attendees' email addresses with googleContactsTool if needed.");
+  }
+  if (toolNames.some((name) => name.startsWith("googleCalendar"))) {
+    lines.push("Give calendar times as date-times without an offset in the user's time zone.");
+  }
+  lines.push(
+    'If a tool returns status "consent_required", tell the user to grant access with the button shown.'
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Create the chat agent, or one acting as a user's custom assistant with
+ * that assistant's persona and tools. Every agent shares the same memory.
+ */
+export function createChatAgent(assistant?: Assistant, mastra?: Mastra) {
+  const tools = assistant
+    ? filterEnabledTools(chatAgentTools, { enabledTools: assistant.tools })
+    : chatAgentTools;
+  // The tools for a run, narrowed by the thread's settings
+  const runTools = (runtimeContext: RuntimeContext) =>
+    filterEnabledTools(tools, runtimeContext.get(THREAD_SETTINGS) as ThreadSettings | undefined);
+
+  return new Agent({
+    name: "chat-agent",
+    mastra,
+    // The current time lets the agent resolve "tomorrow" or "next week"
+    instructions: ({ runtimeContext }) => {
+      const timeZone = (runtimeContext.get(USER_TIME_ZONE) as string | undefined) || "UTC";
+      const settings = runtimeContext.get(THREAD_SETTINGS) as ThreadSettings | undefined;
+      let instructions = `You are a helpful assistant for a user with a Google account.
+${toolInstructions(Object.keys(runTools(runtimeContext)))}
+It is now ${formatInTimeZone(new Date(), timeZone)} in the user's time zone, ${timeZone}.
+Be concise and helpful in your responses.`;
+
+      if (assistant) {
+        instructions += `\n\nYou are ${assistant.name}, an assistant the user set up. Follow these instructions:\n${assistant.instructions}`;
+      }
+
+      // The thread's own prompt comes last so it can refine the defaults
+      return settings?.systemPrompt
+        ? `${instructions}\n\nInstructions for this conversation:\n${settings.systemPrompt}`
+        : instructions;
+    },
+    // The thread's model from the registry, with its fallback chain
+    model: resolveChatModel,
+    memory,
+    tools: ({ runtimeContext }) => runTools(runtimeContext),
+  });
+}
+
+// The default chat agent, registered with Mastra
+export const chatAgent = createChatAgent();
@@ -1,7 +1,10 @@
 import { Mastra } from "@mastra/core/mastra";
+import { DefaultExporter, SensitiveDataFilter } from "@mastra/core/ai-tracing";
 import { PostgresStore, PgVector } from "@mastra/pg";
 import { env } from "../config/env";
-import { chatAgent } from "./agents/chat-agent";
+import type { Assistant } from "@chatbot/shared/types";
+import { INCOGNITO, incognitoSpanFilter } from "../lib/incognito";
+import { chatAgent, createChatAgent } from "./agents/chat-agent";
 
 const connectionString = env.DATABASE_URL;
 
@@ -26,10 +29,28 @@ export const mastra = new Mastra({
   // - Sampling: 100% of traces
   // - Exporters: DefaultExporter (persists to storage), CloudExporter (if MASTRA_CLOUD_ACCESS_TOKEN set)
   // - Processors: SensitiveDataFilter (automatically redacts sensitive fields)
+  // Incognito runs are traced without their inputs and outputs instead
   observability: {
     default: { enabled: true },
+    configs: {
+      incognito: {
+        serviceName: "mastra",
+        exporters: [new DefaultExporter()],
+        processors: [new SensitiveDataFilter(), incognitoSpanFilter],
+      },
+    },
+    configSelector: ({ runtimeContext }) =>
+      runtimeContext?.get(INCOGNITO) ? "incognito" : undefined,
   },
 });
 
+/**
+ * The agent answering a conversation: the registered chat agent, or one
+ * built for the request when the conversation has a custom assistant.
+ */
+export function getChatAgent(assistant?: Assistant | null) {
+  return assistant ? createChatAgent(assistant, mastra) : mastra.getAgent("chatAgent");
+}
+
 // Export storage and vectors for direct access if needed
 export { storage, vectors };
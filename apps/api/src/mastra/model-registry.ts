@@ -0,0 +1,336 @@
+import type { RuntimeContext } from "@mastra/core/runtime-context";
+import {
+  ModelRouterEmbeddingModel,
+  ModelRouterLanguageModel,
+  type LanguageModel,
+  type OpenAICompatibleConfig,
+} from "@mastra/core/llm";
+import { env } from "../config/env";
+import {
+  ATTACHMENT_URL,
+  LOAD_ATTACHMENT,
+  getAttachmentUrlId,
+  type AttachmentFile,
+} from "../lib/attachments";
+import { countEmbeddingTokens } from "../lib/usage";
+
+// Runtime context key for the ID of the model the user or thread picked
+export const CHAT_MODEL = "chatModel";
+
+// Runtime context key for a callback told the ID of the model that answered
+// each call, which differs from the one picked after a fallback
+export const ON_CHAT_MODEL = "onChatModel";
+
+type CallOptions = Parameters<ModelRouterLanguageModel["doStream"]>[0];
+type StreamResult = Awaited<ReturnType<ModelRouterLanguageModel["doStream"]>>;
+type StreamPart = StreamResult["stream"] extends ReadableStream<infer T> ? T : never;
+type Prompt = CallOptions["prompt"];
+
+export interface ModelOption {
+  // Like "google/gemini-2.0-flash" or "ollama/llama3.2"
+  id: string;
+  provider: string;
+}
+
+export interface ModelRegistryConfig {
+  defaultModel: string;
+  // Models tried in order when the chosen one fails
+  fallbacks: string[];
+  gemini: { models: string[] };
+  openAICompatible?: { url: string; apiKey?: string; models: string[] };
+  ollama?: { url: string; models: string[] };
+}
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export function modelRegistryConfigFromEnv(): ModelRegistryConfig {
+  return {
+    defaultModel: env.CHAT_MODEL,
+    fallbacks: splitList(env.MODEL_FALLBACKS),
+    gemini: { models: splitList(env.GEMINI_MODELS) },
+    openAICompatible: env.OPENAI_COMPATIBLE_URL
+      ? {
+          url: env.OPENAI_COMPATIBLE_URL,
+          apiKey: env.OPENAI_COMPATIBLE_API_KEY || undefined,
+          models: splitList(env.OPENAI_COMPATIBLE_MODELS),
+        }
+      : undefined,
+    ollama: env.OLLAMA_URL
+      ? { url: env.OLLAMA_URL, models: splitList(env.OLLAMA_MODELS) }
+      : undefined,
+  };
+}
+
+/**
+ * Whether a failed model call should move on to the next model: rate
+ * limits, server errors and unreachable endpoints. Bad requests would
+ * fail the same way everywhere.
+ */
+export function shouldFallBack(error: unknown) {
+  if (!error || typeof error !== "object") return false;
+  const { statusCode, isRetryable, name } = error as {
+    statusCode?: number;
+    isRetryable?: boolean;
+    name?: string;
+  };
+  if (name === "AbortError") return false;
+  if (statusCode !== undefined) {
+    return statusCode === 408 || statusCode === 429 || statusCode >= 500 || isRetryable === true;
+  }
+  // fetch failures and missing API keys carry no status code
+  return true;
+}
+
+// Hold back the opening parts of a stream until the model has produced
+// output, so an error reported in-stream can still fall back
+async function startStream(stream: ReadableStream<StreamPart>) {
+  const reader = stream.getReader();
+  const buffered: StreamPart[] = [];
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (value.type === "error") {
+      await reader.cancel().catch(() => {});
+      throw value.error;
+    }
+    buffered.push(value);
+    if (value.type !== "stream-start" && value.type !== "response-metadata") break;
+  }
+
+  return new ReadableStream<StreamPart>({
+    start(controller) {
+      for (const part of buffered) controller.enqueue(part);
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+// Mastra calls its own router models as they are, and adapts other v2
+// models from the AI SDK, whose doGenerate returns the response's content.
+// The models wrapping a router model return a stream from doGenerate, as
+// it does, so they are made router models to be called the same way.
+const asRouterModel = (
+  model: Pick<
+    ModelRouterLanguageModel,
+    "specificationVersion" | "provider" | "modelId" | "supportedUrls" | "doStream" | "doGenerate"
+  >
+): LanguageModel => Object.assign(Object.create(ModelRouterLanguageModel.prototype), model);
+
+/**
+ * A model that calls each of `models` in turn until one starts
+ * responding. Once output has started a failure ends the response,
+ * since retrying would repeat what the user already saw. `onAnswer` is
+ * told the index of the model that responded.
+ */
+export function createFallbackModel(
+  models: ModelRouterLanguageModel[],
+  { onAnswer }: { onAnswer?: (index: number) => void } = {}
+): LanguageModel {
+  const [primary] = models;
+
+  // Make `attempt` with each model in turn until one succeeds
+  const call = async <T>(
+    options: CallOptions,
+    attempt: (model: ModelRouterLanguageModel) => Promise<T>
+  ): Promise<T> => {
+    let lastError: unknown;
+
+    for (const [index, model] of models.entries()) {
+      try {
+        const result = await attempt(model);
+        onAnswer?.(index);
+        return result;
+      } catch (error) {
+        lastError = error;
+        const next = models[index + 1];
+        if (!next || options.abortSignal?.aborted || !shouldFallBack(error)) break;
+        console.error(
+          `Model ${model.provider}/${model.modelId} failed, falling back to ${next.provider}/${next.modelId}:`,
+          error
+        );
+      }
+    }
+
+    throw lastError;
+  };
+
+  return asRouterModel({
+    specificationVersion: "v2",
+    provider: primary.provider,
+    modelId: primary.modelId,
+    supportedUrls: primary.supportedUrls,
+    // A stream counts as answered once its first output arrives
+    doStream: (options: CallOptions) =>
+      call(options, async (model) => {
+        const result = await model.doStream(options);
+        return { ...result, stream: await startStream(result.stream) };
+      }),
+    doGenerate: (options: CallOptions) => call(options, (model) => model.doGenerate(options)),
+  });
+}
+
+/**
+ * The chat models configured through the environment, and how to turn a
+ * model ID into a model with its fallback chain.
+ */
+export function createModelRegistry(config: ModelRegistryConfig) {
+  const configs = new Map<string, OpenAICompatibleConfig>();
+
+  for (const model of config.gemini.models) {
+    configs.set(`google/${model}`, { id: `google/${model}` });
+  }
+  for (const model of config.openAICompatible?.models ?? []) {
+    configs.set(`openai-compatible/${model}`, {
+      providerId: "openai-compatible",
+      modelId: model,
+      url: config.openAICompatible!.url,
+      apiKey: config.openAICompatible!.apiKey,
+    });
+  }
+  for (const model of config.ollama?.models ?? []) {
+    configs.set(`ollama/${model}`, {
+      providerId: "ollama",
+      modelId: model,
+      url: config.ollama!.url,
+    });
+  }
+
+  if (!configs.has(config.defaultModel)) {
+    throw new Error(`Default chat model ${config.defaultModel} is not configured`);
+  }
+  const unknown = config.fallbacks.filter((id) => !configs.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`Fallback models are not configured: ${unknown.join(", ")}`);
+  }
+
+  const models: ModelOption[] = [...configs.keys()].map((id) => ({
+    id,
+    provider: id.slice(0, id.indexOf("/")),
+  }));
+
+  return {
+    models,
+    defaultModel: config.defaultModel,
+
+    has: (id: string) => configs.has(id),
+
+    /**
+     * The model for an ID, falling back to the default model and then the
+     * configured fallbacks. Unknown IDs use the default. `onModel` is told
+     * the ID of the model that answered each call.
+     */
+    resolve(id?: string, { onModel }: { onModel?: (modelId: string) => void } = {}): LanguageModel {
+      const primary = id && configs.has(id) ? id : config.defaultModel;
+      const chain = [...new Set([primary, config.defaultModel, ...config.fallbacks])];
+      const languageModels = chain.map((modelId) => new ModelRouterLanguageModel(configs.get(modelId)!));
+      return languageModels.length === 1
+        ? languageModels[0]
+        : createFallbackModel(languageModels, { onAnswer: (index) => onModel?.(chain[index]) });
+    },
+  };
+}
+
+export type ModelRegistry = ReturnType<typeof createModelRegistry>;
+
+/**
+ * A model that reads the attachments linked from the prompt's file parts
+ * before calling `model`, so stored messages only link to their files.
+ * Each file is read once per request. A file that no longer exists is
+ * replaced with a note saying so.
+ */
+export function withAttachments(
+  model: LanguageModel,
+  load: (attachmentId: string) => Promise<AttachmentFile | null>
+): LanguageModel {
+  const inner = model as ModelRouterLanguageModel;
+  const files = new Map<string, Promise<AttachmentFile | null>>();
+  const read = (attachmentId: string) => {
+    if (!files.has(attachmentId)) files.set(attachmentId, load(attachmentId));
+    return files.get(attachmentId)!;
+  };
+
+  const resolvePrompt = (prompt: Prompt): Promise<Prompt> =>
+    Promise.all(
+      prompt.map(async (message) => {
+        if (message.role !== "user") return message;
+        const content = await Promise.all(
+          message.content.map(async (part) => {
+            const attachmentId = part.type === "file" ? getAttachmentUrlId(part.data) : null;
+            if (part.type !== "file" || !attachmentId) return part;
+            const file = await read(attachmentId);
+            return file
+              ? { ...part, data: file.data }
+              : { type: "text" as const, text: "[An attached file is no longer available]" };
+          })
+        );
+        return { ...message, content };
+      })
+    );
+
+  // Mastra reads these without awaiting them. Attachment links count as
+  // supported so it doesn't try to download them itself.
+  const supportedUrls = inner.supportedUrls as Record<string, RegExp[]>;
+
+  return asRouterModel({
+    specificationVersion: "v2",
+    provider: inner.provider,
+    modelId: inner.modelId,
+    supportedUrls: { ...supportedUrls, "*/*": [...(supportedUrls["*/*"] ?? []), ATTACHMENT_URL] },
+    doStream: async (options: CallOptions) =>
+      inner.doStream({ ...options, prompt: await resolvePrompt(options.prompt) }),
+    doGenerate: async (options: CallOptions) =>
+      inner.doGenerate({ ...options, prompt: await resolvePrompt(options.prompt) }),
+  });
+}
+
+export const modelRegistry = createModelRegistry(modelRegistryConfigFromEnv());
+
+/**
+ * The model picked for this request through the runtime context. The
+ * model that answers is reported to the ON_CHAT_MODEL callback, if set,
+ * and attached files are read with the LOAD_ATTACHMENT function.
+ */
+export const resolveChatModel = ({ runtimeContext }: { runtimeContext: RuntimeContext }) => {
+  const model = modelRegistry.resolve(runtimeContext.get(CHAT_MODEL) as string | undefined, {
+    onModel: runtimeContext.get(ON_CHAT_MODEL) as ((modelId: string) => void) | undefined,
+  });
+  const load = runtimeContext.get(LOAD_ATTACHMENT) as
+    | ((attachmentId: string) => Promise<AttachmentFile | null>)
+    | undefined;
+  return load ? withAttachments(model, load) : model;
+};
+
+// An embedding model that counts its tokens toward the current request's usage
+class MeteredEmbeddingModel extends ModelRouterEmbeddingModel {
+  async doEmbed(args: Parameters<ModelRouterEmbeddingModel["doEmbed"]>[0]) {
+    const result = await super.doEmbed(args);
+    countEmbeddingTokens(result.usage?.tokens);
+    return result;
+  }
+}
+
+/**
+ * The embedding model for semantic recall.
+ */
+export function createEmbeddingModel() {
+  if (!env.EMBEDDING_URL) {
+    return new MeteredEmbeddingModel(env.EMBEDDING_MODEL);
+  }
+  return new MeteredEmbeddingModel({
+    id: env.EMBEDDING_MODEL as `${string}/${string}`,
+    url: env.EMBEDDING_URL,
+    apiKey: env.EMBEDDING_API_KEY || undefined,
+  });
+}
@@ -0,0 +1,122 @@
+import { z } from "zod";
+
+// Time zone arithmetic for the calendar tools, using the IANA zones
+// built into Intl
+
+const MINUTE_MS = 60 * 1000;
+
+const ISO_DATE_TIME =
+  /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?(Z|[+-]\d{2}:\d{2})?$/;
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const timeZoneSchema = z
+  .string()
+  .refine(isValidTimeZone, { message: "Unknown IANA time zone" })
+  .describe('IANA time zone, like "Europe/Paris"');
+
+export const dateTimeSchema = z
+  .string()
+  .regex(ISO_DATE_TIME, "Expected an ISO 8601 date or date-time")
+  .describe(
+    'ISO 8601 date-time like "2024-05-10T14:00". Without a UTC offset it is read in timeZone'
+  );
+
+const formatter = (timeZone: string) =>
+  new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+// Wall-clock fields of an instant in a time zone
+function zonedParts(date: Date, timeZone: string) {
+  const parts = formatter(timeZone).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/**
+ * Minutes the time zone is ahead of UTC at the given instant.
+ */
+export function timeZoneOffset(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - wholeSeconds) / MINUTE_MS);
+}
+
+/**
+ * Resolve an ISO date-time to an instant. Times without an offset are
+ * wall-clock times in `timeZone`; a time skipped by a DST change moves
+ * forward by the size of the gap.
+ */
+export function toInstant(dateTime: string, timeZone: string): Date {
+  const match = ISO_DATE_TIME.exec(dateTime);
+  if (!match) throw new Error(`Invalid date-time: ${dateTime}`);
+
+  const [, year, month, day, hour = "0", minute = "0", second = "0", offset] = match;
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+
+  if (offset) {
+    const offsetMinutes =
+      offset === "Z"
+        ? 0
+        : (offset[0] === "-" ? -1 : 1) *
+          (Number(offset.slice(1, 3)) * 60 + Number(offset.slice(4, 6)));
+    return new Date(wallClock - offsetMinutes * MINUTE_MS);
+  }
+
+  const firstOffset = timeZoneOffset(new Date(wallClock), timeZone);
+  const zoneOffset = timeZoneOffset(new Date(wallClock - firstOffset * MINUTE_MS), timeZone);
+  const instant = wallClock - zoneOffset * MINUTE_MS;
+  if (timeZoneOffset(new Date(instant), timeZone) === zoneOffset) {
+    return new Date(instant);
+  }
+
+  // In a DST gap, the offset from before the change lands after the gap
+  return new Date(wallClock - Math.min(firstOffset, zoneOffset) * MINUTE_MS);
+}
+
+const pad = (n: number) => String(Math.abs(n)).padStart(2, "0");
+
+/**
+ * Format an instant as an ISO date-time with the time zone's offset,
+ * like "2024-05-10T14:00:00+02:00".
+ */
+export function formatInTimeZone(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  const offset = timeZoneOffset(date, timeZone);
+  const sign = offset < 0 ? "-" : "+";
+  return (
+    `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}` +
+    `${sign}${pad(Math.trunc(offset / 60))}:${pad(offset % 60)}`
+  );
+}
+
+/**
+ * Minutes since local midnight of an instant in a time zone.
+ */
+export function minuteOfDay(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  return p.hour * 60 + p.minute;
+}
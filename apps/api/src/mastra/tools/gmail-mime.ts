@@ -0,0 +1,169 @@
+// Decoding of the `payload` part tree Gmail returns for format=full
+
+export interface GmailMessagePart {
+  partId?: string;
+  mimeType?: string;
+  filename?: string;
+  headers?: Array<{ name: string; value: string }>;
+  body?: { attachmentId?: string; size?: number; data?: string };
+  parts?: GmailMessagePart[];
+}
+
+export interface GmailAttachment {
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+export function getHeader(part: GmailMessagePart | undefined, name: string) {
+  return part?.headers?.find((h) => h.name.toLowerCase() === name.toLowerCase())
+    ?.value;
+}
+
+export function decodeBase64Url(data: string): Uint8Array {
+  return new Uint8Array(Buffer.from(data, "base64url"));
+}
+
+/**
+ * Decode quoted-printable text (RFC 2045) to bytes, so multi-byte
+ * characters split across `=XX` escapes come out whole.
+ */
+export function decodeQuotedPrintable(text: string): Uint8Array {
+  const input = text.replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+
+  for (let i = 0; i < input.length; i++) {
+    const hex = input.slice(i + 1, i + 3);
+    if (input[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      // Quoted-printable is ASCII; anything else is kept as it came
+      const code = input.charCodeAt(i);
+      bytes.push(...(code < 256 ? [code] : Buffer.from(input[i], "utf8")));
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+const decodeCharset = (bytes: Uint8Array, charset = "utf-8") => {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // Unknown charset labels fall back to UTF-8
+    return new TextDecoder().decode(bytes);
+  }
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point =
+        code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+/**
+ * Reduce an HTML email to readable text: block elements become line
+ * breaks, links keep their target, and scripts, styles and markup go.
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(head|script|style|title)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<a\b[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, label: string) => {
+      const labelText = label.replace(/<[^>]+>/g, "").trim();
+      return href.startsWith("http") && labelText && labelText !== href
+        ? `${label} (${href})`
+        : label;
+    })
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/?(p|div|tr|table|h[1-6]|ul|ol|blockquote|section|article|header|footer)\b[^>]*>/gi, "\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(text)
+    .replace(/[ \t\f\v\u00a0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Text of a single body part. Gmail undoes the transfer encoding before
+ * base64url-encoding the data, but parts still labelled quoted-printable
+ * are decoded again in case Gmail passed them through as sent.
+ */
+function decodePartText(part: GmailMessagePart): string {
+  if (!part.body?.data) return "";
+
+  const charset = /charset="?([^";\s]+)"?/i.exec(getHeader(part, "Content-Type") ?? "")?.[1];
+  let bytes = decodeBase64Url(part.body.data);
+
+  const encoding = getHeader(part, "Content-Transfer-Encoding")?.toLowerCase();
+  const raw = Buffer.from(bytes).toString("latin1");
+  // Soft line breaks and escaped equals signs only appear in undecoded text
+  if (encoding === "quoted-printable" && /=(\r?\n|3D)/.test(raw)) {
+    bytes = decodeQuotedPrintable(raw);
+  }
+
+  const text = decodeCharset(bytes, charset);
+  return part.mimeType === "text/html" ? htmlToText(text) : text.replace(/\r\n/g, "\n").trim();
+}
+
+const isAttachment = (part: GmailMessagePart) =>
+  !!part.filename || getHeader(part, "Content-Disposition")?.toLowerCase().startsWith("attachment");
+
+/**
+ * Readable body text of a message. Plain text is preferred over HTML in
+ * multipart/alternative, and the text parts of multipart/mixed are joined.
+ */
+export function extractBodyText(part: GmailMessagePart): string {
+  if (isAttachment(part)) return "";
+
+  if (part.mimeType?.startsWith("multipart/")) {
+    const children = part.parts ?? [];
+    if (part.mimeType === "multipart/alternative") {
+      const preferred =
+        children.find((child) => child.mimeType === "text/plain" && child.body?.data) ??
+        children.find((child) => child.mimeType === "text/html") ??
+        children.find((child) => child.mimeType?.startsWith("multipart/"));
+      return preferred ? extractBodyText(preferred) : "";
+    }
+    return children
+      .map(extractBodyText)
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  if (part.mimeType === "text/plain" || part.mimeType === "text/html") {
+    return decodePartText(part);
+  }
+
+  return "";
+}
+
+export function listAttachments(part: GmailMessagePart): GmailAttachment[] {
+  const own: GmailAttachment[] = isAttachment(part)
+    ? [
+        {
+          filename: part.filename || "unnamed",
+          mimeType: part.mimeType || "application/octet-stream",
+          size: part.body?.size ?? 0,
+        },
+      ]
+    : [];
+  return [...own, ...(part.parts ?? []).flatMap(listAttachments)];
+}
@@ -0,0 +1,108 @@
+import type { RuntimeContext } from "@mastra/core/runtime-context";
+
+// Runtime context key for a callback that forces an OAuth refresh
+// and resolves to the new access token
+export const REFRESH_GOOGLE_ACCESS_TOKEN = "refreshGoogleAccessToken";
+
+export type RefreshGoogleAccessToken = () => Promise<string | null>;
+
+// Runtime context key for the AbortSignal of the chat request, so Google
+// calls stop when the user cancels the generation
+export const CHAT_ABORT_SIGNAL = "chatAbortSignal";
+
+// Runtime context key for the OAuth scopes the user granted, when known
+export const GOOGLE_SCOPES = "googleScopes";
+
+// Runtime context key for the user's IANA time zone, as reported by the browser
+export const USER_TIME_ZONE = "userTimeZone";
+
+export const GMAIL_COMPOSE_SCOPE = "https://www.googleapis.com/auth/gmail.compose";
+export const CALENDAR_READ_SCOPE = "https://www.googleapis.com/auth/calendar.readonly";
+export const CALENDAR_EVENTS_SCOPE = "https://www.googleapis.com/auth/calendar.events";
+export const DRIVE_READ_SCOPE = "https://www.googleapis.com/auth/drive.readonly";
+
+/**
+ * Read the Google access token from the runtime context.
+ * Throws if the chat route did not provide one.
+ */
+export function requireGoogleAccessToken(runtimeContext?: RuntimeContext): string {
+  const accessToken = runtimeContext?.get("googleAccessToken") as
+    | string
+    | undefined;
+
+  if (!accessToken) {
+    throw new Error("Google access token not available");
+  }
+
+  return accessToken;
+}
+
+/**
+ * Call a Google API with the access token from the runtime context.
+ * On a 401 the token is refreshed and the request retried once.
+ * Requests are aborted along with the chat request.
+ */
+export async function googleFetch(
+  runtimeContext: RuntimeContext,
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const signal =
+    init.signal ??
+    (runtimeContext.get(CHAT_ABORT_SIGNAL) as AbortSignal | undefined);
+
+  const send = (accessToken: string) => {
+    const headers = new Headers(init.headers);
+    headers.set("Authorization", `Bearer ${accessToken}`);
+    return fetch(url, { ...init, headers, signal });
+  };
+
+  const response = await send(requireGoogleAccessToken(runtimeContext));
+  if (response.status !== 401) {
+    return response;
+  }
+
+  const refreshAccessToken = runtimeContext.get(REFRESH_GOOGLE_ACCESS_TOKEN) as
+    | RefreshGoogleAccessToken
+    | undefined;
+  if (!refreshAccessToken) {
+    return response;
+  }
+
+  const accessToken = await refreshAccessToken().catch((error) => {
+    console.error("Google token refresh error:", error);
+    return null;
+  });
+  if (!accessToken) {
+    return response;
+  }
+
+  // Later calls in the same run pick up the refreshed token
+  runtimeContext.set("googleAccessToken", accessToken);
+  return send(accessToken);
+}
+
+/**
+ * Split a stored scope string. Better Auth joins scopes with commas while
+ * Google's token endpoint uses spaces.
+ */
+export function parseGoogleScopes(scope: string | null | undefined): string[] {
+  return scope ? scope.split(/[\s,]+/).filter(Boolean) : [];
+}
+
+/**
+ * Whether the user granted a scope. When the granted scopes are unknown
+ * the call is attempted and Google decides.
+ */
+export function hasGoogleScope(runtimeContext: RuntimeContext, scope: string) {
+  const scopes = runtimeContext.get(GOOGLE_SCOPES) as string[] | undefined;
+  return !scopes || scopes.includes(scope);
+}
+
+/**
+ * Google rejects calls made with a token that lacks the required scope
+ * with a 403 and an insufficient scope reason.
+ */
+export function isInsufficientScope(status: number, errorText: string) {
+  return status === 403 && /insufficient.?(authentication.?)?scope/i.test(errorText);
+}
@@ -0,0 +1,420 @@
+import { createTool } from "@mastra/core/tools";
+import type { RuntimeContext } from "@mastra/core/runtime-context";
+import { z } from "zod";
+import {
+  CALENDAR_EVENTS_SCOPE,
+  CALENDAR_READ_SCOPE,
+  USER_TIME_ZONE,
+  googleFetch,
+  hasGoogleScope,
+  isInsufficientScope,
+  requireGoogleAccessToken,
+} from "./google-api";
+import {
+  dateTimeSchema,
+  formatInTimeZone,
+  timeZoneSchema,
+  toInstant,
+} from "./calendar-time";
+
+const CALENDAR_API_URL = "https://www.googleapis.com/calendar/v3";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Longest window searched for free time, to bound the work per call
+const MAX_FREE_BUSY_DAYS = 31;
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+// Time zone from the tool input, else the user's browser, else UTC
+const resolveTimeZone = (runtimeContext: RuntimeContext, timeZone?: string) =>
+  timeZone || (runtimeContext.get(USER_TIME_ZONE) as string | undefined) || "UTC";
+
+const consentRequired = (scope: string) => ({
+  status: "consent_required" as const,
+  scope,
+});
+
+async function calendarFetch(
+  runtimeContext: RuntimeContext,
+  url: URL,
+  action: string,
+  init?: RequestInit
+) {
+  const response = await googleFetch(runtimeContext, url.toString(), init);
+  if (!response.ok) {
+    const errorText = await response.text();
+    if (isInsufficientScope(response.status, errorText)) return null;
+    throw new Error(`Failed to ${action}: ${response.status} ${errorText}`);
+  }
+  return response.json();
+}
+
+const parseTimeOfDay = (value: string) => {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// Merge overlapping or touching intervals into a sorted list
+function mergeIntervals(intervals: TimeInterval[]) {
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: TimeInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Slots of at least `durationMinutes` inside working hours in `timeZone`
+ * where none of the busy intervals fall.
+ */
+export function findFreeSlots({
+  busy,
+  timeMin,
+  timeMax,
+  timeZone,
+  durationMinutes,
+  workdayStart = "09:00",
+  workdayEnd = "17:00",
+  includeWeekends = false,
+}: {
+  busy: TimeInterval[];
+  timeMin: Date;
+  timeMax: Date;
+  timeZone: string;
+  durationMinutes: number;
+  workdayStart?: string;
+  workdayEnd?: string;
+  includeWeekends?: boolean;
+}): TimeInterval[] {
+  const merged = mergeIntervals(busy);
+  const duration = durationMinutes * MINUTE_MS;
+  const slots: TimeInterval[] = [];
+
+  // Walk the local calendar days the window touches
+  const firstDay = formatInTimeZone(timeMin, timeZone).slice(0, 10);
+  let day = new Date(`${firstDay}T00:00:00Z`);
+
+  while (true) {
+    const date = day.toISOString().slice(0, 10);
+    const dayStart = toInstant(date, timeZone);
+    if (dayStart >= timeMax) break;
+
+    const weekday = day.getUTCDay();
+    if (includeWeekends || (weekday !== 0 && weekday !== 6)) {
+      const workStart = toInstant(`${date}T${workdayStart}`, timeZone);
+      const workEnd = toInstant(`${date}T${workdayEnd}`, timeZone);
+      let cursor = new Date(Math.max(workStart.getTime(), timeMin.getTime()));
+      const end = new Date(Math.min(workEnd.getTime(), timeMax.getTime()));
+
+      for (const interval of merged) {
+        if (interval.end <= cursor) continue;
+        if (interval.start >= end) break;
+        if (interval.start.getTime() - cursor.getTime() >= duration) {
+          slots.push({ start: cursor, end: interval.start });
+        }
+        if (interval.end > cursor) cursor = interval.end;
+      }
+      if (end.getTime() - cursor.getTime() >= duration) {
+        slots.push({ start: cursor, end });
+      }
+    }
+
+    day = new Date(day.getTime() + DAY_MS);
+  }
+
+  return slots;
+}
+
+const eventTimeSchema = z.object({
+  // Date-time with offset, or a date for all-day events
+  dateTime: z.string().optional(),
+  date: z.string().optional(),
+  timeZone: z.string().optional(),
+});
+
+export const googleCalendarListEventsTool = createTool({
+  id: "google-calendar-list-events",
+  description:
+    "Lists events on the user's Google Calendar between two times. Use when asked what's on their calendar or schedule.",
+  inputSchema: z.object({
+    timeMin: dateTimeSchema.describe("Start of the range, ISO 8601; read in timeZone without an offset"),
+    timeMax: dateTimeSchema.describe("End of the range, ISO 8601; read in timeZone without an offset"),
+    timeZone: timeZoneSchema.optional(),
+    query: z.string().optional().describe("Optional text to search event details for"),
+    maxResults: z
+      .number()
+      .optional()
+      .default(25)
+      .describe("Maximum events to return"),
+    calendarId: z.string().optional().default("primary"),
+  }),
+  outputSchema: z.object({
+    status: z.enum(["ok", "consent_required"]),
+    timeZone: z.string().optional(),
+    events: z
+      .array(
+        z.object({
+          id: z.string(),
+          summary: z.string(),
+          start: eventTimeSchema,
+          end: eventTimeSchema,
+          allDay: z.boolean(),
+          location: z.string().optional(),
+          attendees: z.array(
+            z.object({ email: z.string(), responseStatus: z.string().optional() })
+          ),
+          htmlLink: z.string().optional(),
+        })
+      )
+      .optional(),
+    scope: z.string().optional(),
+  }),
+  execute: async ({ context, runtimeContext }) => {
+    requireGoogleAccessToken(runtimeContext);
+    if (!hasGoogleScope(runtimeContext, CALENDAR_READ_SCOPE)) {
+      return consentRequired(CALENDAR_READ_SCOPE);
+    }
+
+    const timeZone = resolveTimeZone(runtimeContext, context.timeZone);
+    const calendarId = encodeURIComponent(context.calendarId ?? "primary");
+    const url = new URL(`${CALENDAR_API_URL}/calendars/${calendarId}/events`);
+    url.searchParams.set("timeMin", toInstant(context.timeMin, timeZone).toISOString());
+    url.searchParams.set("timeMax", toInstant(context.timeMax, timeZone).toISOString());
+    url.searchParams.set("timeZone", timeZone);
+    url.searchParams.set("singleEvents", "true");
+    url.searchParams.set("orderBy", "startTime");
+    url.searchParams.set("maxResults", String(context.maxResults ?? 25));
+    if (context.query) {
+      url.searchParams.set("q", context.query);
+    }
+
+    const data = await calendarFetch(runtimeContext, url, "fetch events");
+    if (!data) return consentRequired(CALENDAR_READ_SCOPE);
+
+    const events = (data.items || [])
+      .filter((event: { status?: string }) => event.status !== "cancelled")
+      .map((event: any) => ({
+        id: event.id,
+        summary: event.summary || "(No title)",
+        start: event.start ?? {},
+        end: event.end ?? {},
+        allDay: !event.start?.dateTime,
+        location: event.location,
+        attendees: (event.attendees ?? []).map(
+          (attendee: { email: string; responseStatus?: string }) => ({
+            email: attendee.email,
+            responseStatus: attendee.responseStatus,
+          })
+        ),
+        htmlLink: event.htmlLink,
+      }));
+
+    return { status: "ok" as const, timeZone, events };
+  },
+});
+
+export const googleCalendarFreeBusyTool = createTool({
+  id: "google-calendar-free-busy",
+  description:
+    "Finds times when the user and the given attendees are all free, within working hours. Use when asked when they can meet someone.",
+  inputSchema: z.object({
+    attendees: z
+      .array(z.string())
+      .optional()
+      .default([])
+      .describe("Email addresses whose calendars to check besides the user's"),
+    timeMin: dateTimeSchema.describe("Start of the range to search, ISO 8601"),
+    timeMax: dateTimeSchema.describe("End of the range to search, ISO 8601"),
+    timeZone: timeZoneSchema.optional(),
+    durationMinutes: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .default(30)
+      .describe("Length of the meeting in minutes"),
+    workdayStart: z
+      .string()
+      .regex(TIME_OF_DAY)
+      .optional()
+      .default("09:00")
+      .describe("Start of working hours, HH:MM in timeZone"),
+    workdayEnd: z
+      .string()
+      .regex(TIME_OF_DAY)
+      .optional()
+      .default("17:00")
+      .describe("End of working hours, HH:MM in timeZone"),
+    includeWeekends: z.boolean().optional().default(false),
+  }),
+  outputSchema: z.object({
+    status: z.enum(["ok", "consent_required"]),
+    timeZone: z.string().optional(),
+    freeSlots: z.array(z.object({ start: z.string(), end: z.string() })).optional(),
+    busy: z
+      .record(z.array(z.object({ start: z.string(), end: z.string() })))
+      .optional(),
+    // Calendars Google couldn't share, such as people outside the organization
+    unavailable: z.array(z.string()).optional(),
+    scope: z.string().optional(),
+  }),
+  execute: async ({ context, runtimeContext }) => {
+    requireGoogleAccessToken(runtimeContext);
+    if (!hasGoogleScope(runtimeContext, CALENDAR_READ_SCOPE)) {
+      return consentRequired(CALENDAR_READ_SCOPE);
+    }
+
+    const timeZone = resolveTimeZone(runtimeContext, context.timeZone);
+    const timeMin = toInstant(context.timeMin, timeZone);
+    const timeMax = toInstant(context.timeMax, timeZone);
+    if (timeMax <= timeMin) {
+      throw new Error("timeMax must be after timeMin");
+    }
+    if (timeMax.getTime() - timeMin.getTime() > MAX_FREE_BUSY_DAYS * DAY_MS) {
+      throw new Error(`Search at most ${MAX_FREE_BUSY_DAYS} days at a time`);
+    }
+
+    const workdayStart = context.workdayStart ?? "09:00";
+    const workdayEnd = context.workdayEnd ?? "17:00";
+    if (parseTimeOfDay(workdayEnd) <= parseTimeOfDay(workdayStart)) {
+      throw new Error("workdayEnd must be after workdayStart");
+    }
+
+    const calendars = ["primary", ...(context.attendees ?? [])];
+    const data = await calendarFetch(
+      runtimeContext,
+      new URL(`${CALENDAR_API_URL}/freeBusy`),
+      "fetch free/busy",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          timeMin: timeMin.toISOString(),
+          timeMax: timeMax.toISOString(),
+          timeZone,
+          items: calendars.map((id) => ({ id })),
+        }),
+      }
+    );
+    if (!data) return consentRequired(CALENDAR_READ_SCOPE);
+
+    const busy: Record<string, Array<{ start: string; end: string }>> = {};
+    const unavailable: string[] = [];
+    const intervals: TimeInterval[] = [];
+
+    for (const id of calendars) {
+      const calendar = data.calendars?.[id];
+      if (!calendar || calendar.errors?.length) {
+        unavailable.push(id);
+        continue;
+      }
+      const periods: Array<{ start: string; end: string }> = calendar.busy ?? [];
+      busy[id] = periods.map((period) => ({
+        start: formatInTimeZone(new Date(period.start), timeZone),
+        end: formatInTimeZone(new Date(period.end), timeZone),
+      }));
+      intervals.push(
+        ...periods.map((period) => ({
+          start: new Date(period.start),
+          end: new Date(period.end),
+        }))
+      );
+    }
+
+    const freeSlots = findFreeSlots({
+      busy: intervals,
+      timeMin,
+      timeMax,
+      timeZone,
+      durationMinutes: context.durationMinutes ?? 30,
+      workdayStart,
+      workdayEnd,
+      includeWeekends: context.includeWeekends ?? false,
+    }).map((slot) => ({
+      start: formatInTimeZone(slot.start, timeZone),
+      end: formatInTimeZone(slot.end, timeZone),
+    }));
+
+    return { status: "ok" as const, timeZone, freeSlots, busy, unavailable };
+  },
+});
+
+export const googleCalendarCreateEventTool = createTool({
+  id: "google-calendar-create-event",
+  description:
+    "Creates an event on the user's Google Calendar and invites any attendees. The user is asked to confirm before it is created.",
+  inputSchema: z.object({
+    summary: z.string().describe("Event title"),
+    start: dateTimeSchema.describe("Start, ISO 8601; read in timeZone without an offset"),
+    end: dateTimeSchema.describe("End, ISO 8601; read in timeZone without an offset"),
+    timeZone: timeZoneSchema.optional(),
+    attendees: z.array(z.string()).optional().describe("Email addresses to invite"),
+    description: z.string().optional(),
+    location: z.string().optional(),
+    sendInvitations: z
+      .boolean()
+      .optional()
+      .default(true)
+      .describe("Email the invitation to attendees"),
+  }),
+  outputSchema: z.object({
+    status: z.enum(["created", "consent_required"]),
+    id: z.string().optional(),
+    htmlLink: z.string().optional(),
+    start: z.string().optional(),
+    end: z.string().optional(),
+    scope: z.string().optional(),
+  }),
+  requireApproval: true,
+  execute: async ({ context, runtimeContext }) => {
+    requireGoogleAccessToken(runtimeContext);
+    if (!hasGoogleScope(runtimeContext, CALENDAR_EVENTS_SCOPE)) {
+      return consentRequired(CALENDAR_EVENTS_SCOPE);
+    }
+
+    const timeZone = resolveTimeZone(runtimeContext, context.timeZone);
+    const start = toInstant(context.start, timeZone);
+    const end = toInstant(context.end, timeZone);
+    if (end <= start) {
+      throw new Error("The event must end after it starts");
+    }
+
+    const url = new URL(`${CALENDAR_API_URL}/calendars/primary/events`);
+    url.searchParams.set("sendUpdates", context.sendInvitations === false ? "none" : "all");
+
+    const event = await calendarFetch(runtimeContext, url, "create event", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        summary: context.summary,
+        description: context.description,
+        location: context.location,
+        start: { dateTime: formatInTimeZone(start, timeZone), timeZone },
+        end: { dateTime: formatInTimeZone(end, timeZone), timeZone },
+        attendees: context.attendees?.map((email) => ({ email })),
+      }),
+    });
+    if (!event) return consentRequired(CALENDAR_EVENTS_SCOPE);
+
+    return {
+      status: "created" as const,
+      id: event.id,
+      htmlLink: event.htmlLink,
+      start: event.start?.dateTime ?? event.start?.date,
+      end: event.end?.dateTime ?? event.end?.date,
+    };
+  },
+});
@@ -1,10 +1,113 @@
 import { createTool } from "@mastra/core/tools";
+import type { RuntimeContext } from "@mastra/core/runtime-context";
 import { z } from "zod";
+import { googleFetch, requireGoogleAccessToken } from "./google-api";
+
+const PEOPLE_API_URL = "https://people.googleapis.com/v1";
+
+const CONTACT_FIELDS = "names,emailAddresses,phoneNumbers,organizations,birthdays";
+
+const CONTACT_DETAIL_FIELDS = `${CONTACT_FIELDS},addresses,urls,biographies,nicknames,relations`;
+
+// searchContacts returns at most 30 results and has no further pages
+const MAX_SEARCH_RESULTS = 30;
+
+interface PeopleDate {
+  year?: number;
+  month?: number;
+  day?: number;
+}
+
+interface Person {
+  resourceName?: string;
+  names?: Array<{ displayName?: string }>;
+  emailAddresses?: Array<{ value?: string; type?: string }>;
+  phoneNumbers?: Array<{ value?: string; type?: string }>;
+  organizations?: Array<{ name?: string; title?: string; department?: string }>;
+  birthdays?: Array<{ date?: PeopleDate; text?: string }>;
+  addresses?: Array<{ formattedValue?: string; type?: string }>;
+  urls?: Array<{ value?: string; type?: string }>;
+  biographies?: Array<{ value?: string }>;
+  nicknames?: Array<{ value?: string }>;
+  relations?: Array<{ person?: string; type?: string }>;
+}
+
+const typedValueSchema = z.object({
+  value: z.string(),
+  type: z.string().optional(),
+});
+
+const contactSchema = z.object({
+  // ID for googleContactDetailsTool, like "people/c1234"
+  resourceName: z.string().optional(),
+  name: z.string(),
+  // Primary email and phone, kept alongside the full lists
+  email: z.string().optional(),
+  phone: z.string().optional(),
+  emails: z.array(typedValueSchema),
+  phones: z.array(typedValueSchema),
+  organizations: z.array(
+    z.object({
+      name: z.string().optional(),
+      title: z.string().optional(),
+      department: z.string().optional(),
+    })
+  ),
+  // YYYY-MM-DD, or --MM-DD when the year isn't known
+  birthday: z.string().optional(),
+});
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function formatBirthday(birthdays: Person["birthdays"]) {
+  const birthday = birthdays?.find((b) => b.date?.month && b.date?.day) ?? birthdays?.[0];
+  const date = birthday?.date;
+  if (date?.month && date.day) {
+    return `${date.year ? String(date.year).padStart(4, "0") : "-"}-${pad(date.month)}-${pad(date.day)}`;
+  }
+  return birthday?.text;
+}
+
+const typedValues = (values: Array<{ value?: string; type?: string }> | undefined) =>
+  (values ?? [])
+    .filter((v): v is { value: string; type?: string } => !!v.value)
+    .map(({ value, type }) => ({ value, type }));
+
+function toContact(person: Person) {
+  const emails = typedValues(person.emailAddresses);
+  const phones = typedValues(person.phoneNumbers);
+
+  return {
+    resourceName: person.resourceName,
+    name: person.names?.[0]?.displayName || "Unknown",
+    email: emails[0]?.value,
+    phone: phones[0]?.value,
+    emails,
+    phones,
+    organizations: (person.organizations ?? []).map(({ name, title, department }) => ({
+      name,
+      title,
+      department,
+    })),
+    birthday: formatBirthday(person.birthdays),
+  };
+}
+
+async function fetchPeople(runtimeContext: RuntimeContext, url: URL) {
+  const response = await googleFetch(runtimeContext, url.toString());
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to fetch contacts: ${response.status} ${errorText}`);
+  }
+
+  return response.json();
+}
 
 export const googleContactsTool = createTool({
   id: "google-contacts",
   description:
-    "Fetches the user's Google contacts. Use when asked about contacts or people.",
+    "Fetches the user's Google contacts, or searches them by name, email or phone. Use when asked about contacts or people.",
   inputSchema: z.object({
     query: z
       .string()
@@ -15,51 +118,91 @@ export const googleContactsTool = createTool({
       .optional()
       .default(10)
       .describe("Maximum contacts to return"),
+    pageToken: z
+      .string()
+      .optional()
+      .describe("nextPageToken from a previous call, to list more contacts"),
   }),
   outputSchema: z.object({
-    contacts: z.array(
-      z.object({
-        name: z.string(),
-        email: z.string().optional(),
-        phone: z.string().optional(),
-      })
-    ),
+    contacts: z.array(contactSchema),
+    // Set when more contacts can be listed; searches return a single page
+    nextPageToken: z.string().optional(),
   }),
   execute: async ({ context, runtimeContext }) => {
-    const accessToken = runtimeContext?.get("googleAccessToken") as
-      | string
-      | undefined;
+    requireGoogleAccessToken(runtimeContext);
+
+    const maxResults = context.maxResults ?? 10;
+    const query = context.query?.trim();
+
+    if (query) {
+      const url = new URL(`${PEOPLE_API_URL}/people:searchContacts`);
+      url.searchParams.set("query", query);
+      url.searchParams.set("readMask", CONTACT_FIELDS);
+      url.searchParams.set("pageSize", String(Math.min(maxResults, MAX_SEARCH_RESULTS)));
+
+      const data = await fetchPeople(runtimeContext, url);
+      const contacts = (data.results || []).map((result: { person?: Person }) =>
+        toContact(result.person ?? {})
+      );
 
-    if (!accessToken) {
-      throw new Error("Google access token not available");
+      return { contacts };
     }
 
-    const maxResults = context.maxResults ?? 10;
-    const url = new URL(
-      "https://people.googleapis.com/v1/people/me/connections"
-    );
-    url.searchParams.set(
-      "personFields",
-      "names,emailAddresses,phoneNumbers"
-    );
+    const url = new URL(`${PEOPLE_API_URL}/people/me/connections`);
+    url.searchParams.set("personFields", CONTACT_FIELDS);
     url.searchParams.set("pageSize", String(maxResults));
+    if (context.pageToken) {
+      url.searchParams.set("pageToken", context.pageToken);
+    }
+
+    const data = await fetchPeople(runtimeContext, url);
+    const contacts = (data.connections || []).map(toContact);
+
+    return { contacts, nextPageToken: data.nextPageToken || undefined };
+  },
+});
 
-    const response = await fetch(url.toString(), {
-      headers: { Authorization: `Bearer ${accessToken}` },
-    });
+export const googleContactDetailsTool = createTool({
+  id: "google-contact-details",
+  description:
+    "Fetches everything stored for one Google contact, including addresses, websites, notes and relations. Use with a resourceName from googleContactsTool.",
+  inputSchema: z.object({
+    resourceName: z.string().describe('Contact ID, like "people/c1234"'),
+  }),
+  outputSchema: z.object({
+    contact: contactSchema.extend({
+      nicknames: z.array(z.string()),
+      addresses: z.array(typedValueSchema),
+      urls: z.array(typedValueSchema),
+      notes: z.string().optional(),
+      relations: z.array(typedValueSchema),
+    }),
+  }),
+  execute: async ({ context, runtimeContext }) => {
+    requireGoogleAccessToken(runtimeContext);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to fetch contacts: ${response.status} ${errorText}`);
+    if (!/^people\/[\w-]+$/.test(context.resourceName)) {
+      throw new Error(`Invalid contact resourceName: ${context.resourceName}`);
     }
 
-    const data = await response.json();
-    const contacts = (data.connections || []).map((person: any) => ({
-      name: person.names?.[0]?.displayName || "Unknown",
-      email: person.emailAddresses?.[0]?.value,
-      phone: person.phoneNumbers?.[0]?.value,
-    }));
+    const url = new URL(`${PEOPLE_API_URL}/${context.resourceName}`);
+    url.searchParams.set("personFields", CONTACT_DETAIL_FIELDS);
+
+    const person: Person = await fetchPeople(runtimeContext, url);
 
-    return { contacts };
+    return {
+      contact: {
+        ...toContact(person),
+        nicknames: (person.nicknames ?? []).flatMap((n) => (n.value ? [n.value] : [])),
+        addresses: typedValues(
+          person.addresses?.map(({ formattedValue, type }) => ({ value: formattedValue, type }))
+        ),
+        urls: typedValues(person.urls),
+        notes: person.biographies?.[0]?.value,
+        relations: typedValues(
+          person.relations?.map(({ person: value, type }) => ({ value, type }))
+        ),
+      },
+    };
   },
 });
@@ -0,0 +1,306 @@
+import { createTool } from "@mastra/core/tools";
+import type { RuntimeContext } from "@mastra/core/runtime-context";
+import { z } from "zod";
+import {
+  DRIVE_READ_SCOPE,
+  googleFetch,
+  hasGoogleScope,
+  isInsufficientScope,
+  requireGoogleAccessToken,
+} from "./google-api";
+
+const DRIVE_API_URL = "https://www.googleapis.com/drive/v3";
+
+const FILE_FIELDS = "id,name,mimeType,owners(displayName,emailAddress),modifiedTime,webViewLink,size";
+
+// Hard cap on the bytes one read returns, whatever budget the agent asks for
+const MAX_READ_BYTES = 200_000;
+
+// Google Workspace files have no content of their own and are exported
+const EXPORT_FORMATS: Record<string, string> = {
+  "application/vnd.google-apps.document": "text/plain",
+  // Drive exports only the first sheet of a spreadsheet as CSV
+  "application/vnd.google-apps.spreadsheet": "text/csv",
+  "application/vnd.google-apps.presentation": "text/plain",
+};
+
+const FILE_TYPES = {
+  document: "application/vnd.google-apps.document",
+  spreadsheet: "application/vnd.google-apps.spreadsheet",
+  presentation: "application/vnd.google-apps.presentation",
+  folder: "application/vnd.google-apps.folder",
+} as const;
+
+interface DriveFile {
+  id: string;
+  name?: string;
+  mimeType?: string;
+  owners?: Array<{ displayName?: string; emailAddress?: string }>;
+  modifiedTime?: string;
+  webViewLink?: string;
+  size?: string;
+}
+
+const consentRequired = () => ({
+  status: "consent_required" as const,
+  scope: DRIVE_READ_SCOPE,
+});
+
+// Uploaded files that can be read as text as they are
+const isTextFile = (mimeType: string) =>
+  mimeType.startsWith("text/") ||
+  ["application/json", "application/xml", "application/javascript"].includes(mimeType);
+
+/**
+ * Quote a value for a Drive search query, which uses single-quoted
+ * strings with backslash escapes.
+ */
+export function driveQueryString(value: string) {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Read at most `maxBytes` of a response body, cancelling the rest of the
+ * download. The text is cut at a character boundary.
+ */
+export async function readBodyWithBudget(response: Response, maxBytes: number) {
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  let truncated = false;
+
+  const reader = response.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    if (received + value.length > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - received));
+      received = maxBytes;
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+    chunks.push(value);
+    received += value.length;
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  // Drop a multi-byte character split by the cut
+  let end = bytes.length;
+  if (truncated) {
+    let start = end - 1;
+    while (start > 0 && start > end - 4 && (bytes[start] & 0xc0) === 0x80) start--;
+    const lead = bytes[start];
+    const length = lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 1;
+    if (start + length > end) end = start;
+  }
+
+  return {
+    text: new TextDecoder().decode(bytes.subarray(0, end)),
+    bytes: end,
+    truncated,
+  };
+}
+
+async function driveFetch(runtimeContext: RuntimeContext, url: URL, action: string) {
+  const response = await googleFetch(runtimeContext, url.toString());
+  if (!response.ok) {
+    const errorText = await response.text();
+    if (isInsufficientScope(response.status, errorText)) return null;
+    throw new Error(`Failed to ${action}: ${response.status} ${errorText}`);
+  }
+  return response;
+}
+
+export const googleDriveSearchTool = createTool({
+  id: "google-drive-search",
+  description:
+    "Searches the user's Google Drive for files by text, owner or type. Use when asked to find a document, spreadsheet or presentation.",
+  inputSchema: z.object({
+    query: z
+      .string()
+      .optional()
+      .describe("Words to search for in file names and content"),
+    owner: z
+      .string()
+      .optional()
+      .describe("Email address of the file's owner, like the person who shared it"),
+    type: z
+      .enum(["document", "spreadsheet", "presentation", "folder"])
+      .optional()
+      .describe("Only return files of this type"),
+    maxResults: z
+      .number()
+      .int()
+      .positive()
+      .max(100)
+      .optional()
+      .default(10)
+      .describe("Maximum files to return"),
+    pageToken: z
+      .string()
+      .optional()
+      .describe("nextPageToken from a previous call, to list more files"),
+  }),
+  outputSchema: z.object({
+    status: z.enum(["ok", "consent_required"]),
+    files: z
+      .array(
+        z.object({
+          id: z.string(),
+          name: z.string(),
+          mimeType: z.string(),
+          owners: z.array(z.string()),
+          modifiedTime: z.string().optional(),
+          webViewLink: z.string().optional(),
+        })
+      )
+      .optional(),
+    nextPageToken: z.string().optional(),
+    scope: z.string().optional(),
+  }),
+  execute: async ({ context, runtimeContext }) => {
+    requireGoogleAccessToken(runtimeContext);
+    if (!hasGoogleScope(runtimeContext, DRIVE_READ_SCOPE)) {
+      return consentRequired();
+    }
+
+    const filters = ["trashed = false"];
+    const query = context.query?.trim();
+    if (query) {
+      filters.push(`fullText contains ${driveQueryString(query)}`);
+    }
+    if (context.owner) {
+      filters.push(`${driveQueryString(context.owner)} in owners`);
+    }
+    if (context.type) {
+      filters.push(`mimeType = ${driveQueryString(FILE_TYPES[context.type])}`);
+    }
+
+    const url = new URL(`${DRIVE_API_URL}/files`);
+    url.searchParams.set("q", filters.join(" and "));
+    url.searchParams.set("fields", `nextPageToken,files(${FILE_FIELDS})`);
+    url.searchParams.set("pageSize", String(context.maxResults ?? 10));
+    url.searchParams.set("includeItemsFromAllDrives", "true");
+    url.searchParams.set("supportsAllDrives", "true");
+    // Full-text matches are already ranked by relevance
+    if (!query) {
+      url.searchParams.set("orderBy", "modifiedTime desc");
+    }
+    if (context.pageToken) {
+      url.searchParams.set("pageToken", context.pageToken);
+    }
+
+    const response = await driveFetch(runtimeContext, url, "search Drive");
+    if (!response) return consentRequired();
+    const data = await response.json();
+
+    return {
+      status: "ok" as const,
+      files: (data.files || []).map((file: DriveFile) => ({
+        id: file.id,
+        name: file.name || "Untitled",
+        mimeType: file.mimeType || "application/octet-stream",
+        owners: (file.owners ?? [])
+          .map(({ displayName, emailAddress }) =>
+            displayName && emailAddress
+              ? `${displayName} <${emailAddress}>`
+              : displayName || emailAddress || ""
+          )
+          .filter(Boolean),
+        modifiedTime: file.modifiedTime,
+        webViewLink: file.webViewLink,
+      })),
+      nextPageToken: data.nextPageToken || undefined,
+    };
+  },
+});
+
+export const googleDriveReadTool = createTool({
+  id: "google-drive-read",
+  description:
+    "Reads a Google Drive file as text: Google Docs and Slides as plain text, Google Sheets as CSV of the first sheet, and uploaded text files as they are. Use with a file ID from googleDriveSearchTool to quote or summarize it.",
+  inputSchema: z.object({
+    fileId: z.string().describe("ID of the file to read"),
+    maxBytes: z
+      .number()
+      .int()
+      .positive()
+      .max(MAX_READ_BYTES)
+      .optional()
+      .default(20_000)
+      .describe("Most bytes of content to return; longer files are cut short"),
+  }),
+  outputSchema: z.object({
+    status: z.enum(["ok", "unsupported", "consent_required"]),
+    id: z.string().optional(),
+    name: z.string().optional(),
+    mimeType: z.string().optional(),
+    // Format the content was exported as, like text/csv
+    format: z.string().optional(),
+    content: z.string().optional(),
+    // The content was cut short to stay within maxBytes
+    truncated: z.boolean().optional(),
+    webViewLink: z.string().optional(),
+    scope: z.string().optional(),
+  }),
+  execute: async ({ context, runtimeContext }) => {
+    requireGoogleAccessToken(runtimeContext);
+    if (!hasGoogleScope(runtimeContext, DRIVE_READ_SCOPE)) {
+      return consentRequired();
+    }
+
+    if (!/^[\w-]+$/.test(context.fileId)) {
+      throw new Error(`Invalid Drive file ID: ${context.fileId}`);
+    }
+
+    const fileUrl = new URL(`${DRIVE_API_URL}/files/${context.fileId}`);
+    fileUrl.searchParams.set("fields", FILE_FIELDS);
+    fileUrl.searchParams.set("supportsAllDrives", "true");
+
+    const metadata = await driveFetch(runtimeContext, fileUrl, "fetch file");
+    if (!metadata) return consentRequired();
+    const file: DriveFile = await metadata.json();
+
+    const mimeType = file.mimeType || "application/octet-stream";
+    const details = {
+      id: file.id,
+      name: file.name || "Untitled",
+      mimeType,
+      webViewLink: file.webViewLink,
+    };
+
+    const exportFormat = EXPORT_FORMATS[mimeType];
+    let contentUrl: URL;
+    if (exportFormat) {
+      contentUrl = new URL(`${DRIVE_API_URL}/files/${context.fileId}/export`);
+      contentUrl.searchParams.set("mimeType", exportFormat);
+    } else if (isTextFile(mimeType)) {
+      contentUrl = new URL(`${DRIVE_API_URL}/files/${context.fileId}`);
+      contentUrl.searchParams.set("alt", "media");
+      contentUrl.searchParams.set("supportsAllDrives", "true");
+    } else {
+      return { status: "unsupported" as const, ...details };
+    }
+
+    const response = await driveFetch(runtimeContext, contentUrl, "read file");
+    if (!response) return consentRequired();
+
+    const maxBytes = Math.min(context.maxBytes ?? 20_000, MAX_READ_BYTES);
+    const { text, truncated } = await readBodyWithBudget(response, maxBytes);
+
+    return {
+      status: "ok" as const,
+      ...details,
+      format: exportFormat ?? mimeType,
+      content: text,
+      truncated,
+    };
+  },
+});
@@ -0,0 +1,279 @@
+import { createTool } from "@mastra/core/tools";
+import type { RuntimeContext } from "@mastra/core/runtime-context";
+import { z } from "zod";
+import {
+  GMAIL_COMPOSE_SCOPE,
+  googleFetch,
+  hasGoogleScope,
+  isInsufficientScope,
+  requireGoogleAccessToken,
+} from "./google-api";
+
+const GMAIL_API_URL = "https://gmail.googleapis.com/gmail/v1/users/me";
+
+export interface EmailMessage {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string;
+  // Message-ID of the email being replied to
+  inReplyTo?: string;
+  references?: string;
+}
+
+const base64Url = (value: string) =>
+  Buffer.from(value, "utf8").toString("base64url");
+
+// Header values can't contain line breaks, which would start a new header
+const headerValue = (value: string) => value.replace(/[\r\n]+/g, " ").trim();
+
+// Non-ASCII header text is sent as an RFC 2047 encoded word
+const encodeHeader = (value: string) => {
+  const clean = headerValue(value);
+  return /^[\x20-\x7e]*$/.test(clean)
+    ? clean
+    : `=?UTF-8?B?${Buffer.from(clean, "utf8").toString("base64")}?=`;
+};
+
+/**
+ * Build an RFC 2822 email as the base64url string the Gmail API expects
+ * in `raw`. The body is sent as UTF-8 plain text.
+ */
+export function buildRawEmail(message: EmailMessage): string {
+  const headers = [
+    `To: ${headerValue(message.to.join(", "))}`,
+    message.cc?.length && `Cc: ${headerValue(message.cc.join(", "))}`,
+    message.bcc?.length && `Bcc: ${headerValue(message.bcc.join(", "))}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    message.inReplyTo && `In-Reply-To: ${headerValue(message.inReplyTo)}`,
+    message.references && `References: ${headerValue(message.references)}`,
+    "MIME-Version: 1.0",
+    'Content-Type: text/plain; charset="UTF-8"',
+    "Content-Transfer-Encoding: base64",
+  ].filter(Boolean);
+
+  const body = (
+    Buffer.from(message.body, "utf8").toString("base64").match(/.{1,76}/g) ?? []
+  ).join("\r\n");
+
+  return base64Url(`${headers.join("\r\n")}\r\n\r\n${body}`);
+}
+
+/**
+ * Recipients, subject and threading headers for a reply to a Gmail message.
+ */
+async function getReplyHeaders(
+  runtimeContext: RuntimeContext,
+  messageId: string,
+  replyAll: boolean
+) {
+  const url = new URL(`${GMAIL_API_URL}/messages/${encodeURIComponent(messageId)}`);
+  url.searchParams.set("format", "metadata");
+  for (const name of ["Subject", "From", "Reply-To", "To", "Cc", "Message-ID", "References"]) {
+    url.searchParams.append("metadataHeaders", name);
+  }
+
+  const response = await googleFetch(runtimeContext, url.toString());
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to fetch email: ${response.status} ${errorText}`);
+  }
+
+  const original = await response.json();
+  const headers: Array<{ name: string; value: string }> =
+    original.payload?.headers || [];
+  const header = (name: string) =>
+    headers.find((h) => h.name.toLowerCase() === name.toLowerCase())?.value;
+
+  const subject = header("Subject") || "";
+  const messageIdHeader = header("Message-ID");
+  const to = [header("Reply-To") || header("From") || ""].filter(Boolean);
+
+  let cc: string[] = [];
+  if (replyAll) {
+    const profileResponse = await googleFetch(runtimeContext, `${GMAIL_API_URL}/profile`);
+    const ownAddress = profileResponse.ok
+      ? ((await profileResponse.json()).emailAddress as string | undefined)
+      : undefined;
+    cc = [header("To"), header("Cc")]
+      .flatMap((value) => (value ? value.split(",") : []))
+      .map((address) => address.trim())
+      .filter(
+        (address) =>
+          address &&
+          !(ownAddress && address.toLowerCase().includes(ownAddress.toLowerCase())) &&
+          !to.includes(address)
+      );
+  }
+
+  return {
+    threadId: original.threadId as string,
+    to,
+    cc,
+    subject: /^re:/i.test(subject) ? subject : `Re: ${subject}`,
+    inReplyTo: messageIdHeader,
+    references: [header("References"), messageIdHeader].filter(Boolean).join(" ") || undefined,
+  };
+}
+
+const consentRequired = () => ({
+  status: "consent_required" as const,
+  scope: GMAIL_COMPOSE_SCOPE,
+});
+
+/**
+ * POST to a Gmail compose endpoint. Returns null when Google says the
+ * token lacks the compose scope.
+ */
+async function postGmail(
+  runtimeContext: RuntimeContext,
+  path: string,
+  payload: unknown,
+  action: string
+) {
+  const response = await googleFetch(runtimeContext, `${GMAIL_API_URL}/${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    if (isInsufficientScope(response.status, errorText)) return null;
+    throw new Error(`Failed to ${action}: ${response.status} ${errorText}`);
+  }
+
+  return response.json();
+}
+
+const composeOutputSchema = z.object({
+  status: z.enum(["drafted", "sent", "consent_required"]),
+  id: z.string().optional(),
+  threadId: z.string().optional(),
+  // OAuth scope the user has to grant before trying again
+  scope: z.string().optional(),
+});
+
+const addressList = z.array(z.string()).describe("Email addresses");
+
+export const googleGmailCreateDraftTool = createTool({
+  id: "google-gmail-create-draft",
+  description:
+    "Saves an email as a draft in the user's Gmail without sending it. Give replyToMessageId to draft a reply in that email's thread.",
+  inputSchema: z.object({
+    to: addressList.optional(),
+    cc: addressList.optional(),
+    subject: z.string().optional().describe("Subject, not needed for replies"),
+    body: z.string().describe("Plain text body"),
+    replyToMessageId: z
+      .string()
+      .optional()
+      .describe("ID of the email being replied to, from googleGmailTool"),
+  }),
+  outputSchema: composeOutputSchema,
+  execute: async ({ context, runtimeContext }) => {
+    requireGoogleAccessToken(runtimeContext);
+    if (!hasGoogleScope(runtimeContext, GMAIL_COMPOSE_SCOPE)) {
+      return consentRequired();
+    }
+
+    const reply = context.replyToMessageId
+      ? await getReplyHeaders(runtimeContext, context.replyToMessageId, false)
+      : undefined;
+    const to = context.to?.length ? context.to : reply?.to;
+    const subject = context.subject || reply?.subject;
+    if (!to?.length || !subject) {
+      throw new Error("A draft needs recipients and a subject");
+    }
+
+    const draft = await postGmail(
+      runtimeContext,
+      "drafts",
+      {
+        message: {
+          raw: buildRawEmail({ ...reply, to, cc: context.cc, subject, body: context.body }),
+          ...(reply && { threadId: reply.threadId }),
+        },
+      },
+      "create draft"
+    );
+    if (!draft) return consentRequired();
+
+    return {
+      status: "drafted" as const,
+      id: draft.id,
+      threadId: draft.message?.threadId,
+    };
+  },
+});
+
+export const googleGmailReplyTool = createTool({
+  id: "google-gmail-reply",
+  description:
+    "Sends a reply to an email in the user's Gmail, in the same thread. The user is asked to confirm before it is sent.",
+  inputSchema: z.object({
+    messageId: z.string().describe("ID of the email being replied to, from googleGmailTool"),
+    body: z.string().describe("Plain text body"),
+    replyAll: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Also reply to everyone else on the email"),
+  }),
+  outputSchema: composeOutputSchema,
+  requireApproval: true,
+  execute: async ({ context, runtimeContext }) => {
+    requireGoogleAccessToken(runtimeContext);
+    if (!hasGoogleScope(runtimeContext, GMAIL_COMPOSE_SCOPE)) {
+      return consentRequired();
+    }
+
+    const { threadId, ...reply } = await getReplyHeaders(
+      runtimeContext,
+      context.messageId,
+      context.replyAll ?? false
+    );
+
+    const sent = await postGmail(
+      runtimeContext,
+      "messages/send",
+      { raw: buildRawEmail({ ...reply, body: context.body }), threadId },
+      "send reply"
+    );
+    if (!sent) return consentRequired();
+
+    return { status: "sent" as const, id: sent.id, threadId: sent.threadId };
+  },
+});
+
+export const googleGmailSendTool = createTool({
+  id: "google-gmail-send",
+  description:
+    "Sends a new email from the user's Gmail. The user is asked to confirm before it is sent.",
+  inputSchema: z.object({
+    to: addressList,
+    cc: addressList.optional(),
+    bcc: addressList.optional(),
+    subject: z.string(),
+    body: z.string().describe("Plain text body"),
+  }),
+  outputSchema: composeOutputSchema,
+  requireApproval: true,
+  execute: async ({ context, runtimeContext }) => {
+    requireGoogleAccessToken(runtimeContext);
+    if (!hasGoogleScope(runtimeContext, GMAIL_COMPOSE_SCOPE)) {
+      return consentRequired();
+    }
+
+    const sent = await postGmail(
+      runtimeContext,
+      "messages/send",
+      { raw: buildRawEmail(context) },
+      "send email"
+    );
+    if (!sent) return consentRequired();
+
+    return { status: "sent" as const, id: sent.id, threadId: sent.threadId };
+  },
+});
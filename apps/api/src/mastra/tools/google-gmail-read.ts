@@ -0,0 +1,146 @@
+import { createTool } from "@mastra/core/tools";
+import type { RuntimeContext } from "@mastra/core/runtime-context";
+import { z } from "zod";
+import { googleFetch, requireGoogleAccessToken } from "./google-api";
+import {
+  extractBodyText,
+  getHeader,
+  listAttachments,
+  type GmailMessagePart,
+} from "./gmail-mime";
+
+const GMAIL_API_URL = "https://gmail.googleapis.com/gmail/v1/users/me";
+
+// Rough size of a token in characters, used to keep bodies within budget
+const CHARS_PER_TOKEN = 4;
+
+interface GmailMessage {
+  id: string;
+  threadId: string;
+  snippet?: string;
+  payload?: GmailMessagePart;
+}
+
+async function fetchFull(runtimeContext: RuntimeContext, path: string, what: string) {
+  const url = new URL(`${GMAIL_API_URL}/${path}`);
+  url.searchParams.set("format", "full");
+
+  const response = await googleFetch(runtimeContext, url.toString());
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to fetch ${what}: ${response.status} ${errorText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Cut text to at most `maxChars`, preferring to end at a line or word break.
+ */
+export function truncateText(text: string, maxChars: number) {
+  if (text.length <= maxChars) return { text, truncated: false };
+
+  const cut = text.slice(0, Math.max(0, maxChars));
+  const breakAt = Math.max(cut.lastIndexOf("\n"), cut.lastIndexOf(" "));
+  return {
+    text: (breakAt > maxChars * 0.8 ? cut.slice(0, breakAt) : cut).trimEnd(),
+    truncated: true,
+  };
+}
+
+export const googleGmailReadTool = createTool({
+  id: "google-gmail-read",
+  description:
+    "Reads the full content of emails or whole email threads from Gmail, including the list of attachments. Use with IDs from googleGmailTool when the snippet isn't enough to answer.",
+  inputSchema: z.object({
+    messageIds: z
+      .array(z.string())
+      .optional()
+      .describe("IDs of emails to read"),
+    threadIds: z
+      .array(z.string())
+      .optional()
+      .describe("IDs of threads to read in full"),
+    maxTokens: z
+      .number()
+      .optional()
+      .default(4000)
+      .describe("Approximate token budget shared by all the email bodies"),
+  }),
+  outputSchema: z.object({
+    messages: z.array(
+      z.object({
+        id: z.string(),
+        threadId: z.string(),
+        subject: z.string(),
+        from: z.string(),
+        to: z.string(),
+        date: z.string(),
+        body: z.string(),
+        // The body was cut short to stay within the token budget
+        truncated: z.boolean(),
+        attachments: z.array(
+          z.object({
+            filename: z.string(),
+            mimeType: z.string(),
+            size: z.number(),
+          })
+        ),
+      })
+    ),
+  }),
+  execute: async ({ context, runtimeContext }) => {
+    requireGoogleAccessToken(runtimeContext);
+
+    const messageIds = context.messageIds ?? [];
+    const threadIds = context.threadIds ?? [];
+    if (messageIds.length === 0 && threadIds.length === 0) {
+      throw new Error("Give at least one message or thread ID");
+    }
+
+    const [messages, threads] = await Promise.all([
+      Promise.all(
+        messageIds.map(
+          (id) =>
+            fetchFull(runtimeContext, `messages/${encodeURIComponent(id)}`, "email") as Promise<GmailMessage>
+        )
+      ),
+      Promise.all(
+        threadIds.map(
+          (id) =>
+            fetchFull(runtimeContext, `threads/${encodeURIComponent(id)}`, "thread") as Promise<{
+              messages?: GmailMessage[];
+            }>
+        )
+      ),
+    ]);
+
+    // A message asked for directly may also be in a requested thread
+    const seen = new Set<string>();
+    const all = [...messages, ...threads.flatMap((thread) => thread.messages ?? [])].filter(
+      (message) => !seen.has(message.id) && seen.add(message.id)
+    );
+
+    let remainingChars = (context.maxTokens ?? 4000) * CHARS_PER_TOKEN;
+
+    return {
+      messages: all.map((message) => {
+        const payload = message.payload ?? {};
+        const fullText = extractBodyText(payload) || message.snippet || "";
+        const { text, truncated } = truncateText(fullText, remainingChars);
+        remainingChars = Math.max(0, remainingChars - text.length);
+
+        return {
+          id: message.id,
+          threadId: message.threadId,
+          subject: getHeader(payload, "Subject") || "No Subject",
+          from: getHeader(payload, "From") || "Unknown",
+          to: getHeader(payload, "To") || "",
+          date: getHeader(payload, "Date") || "",
+          body: text,
+          truncated,
+          attachments: listAttachments(payload),
+        };
+      }),
+    };
+  },
+});
@@ -1,5 +1,6 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
+import { googleFetch, requireGoogleAccessToken } from "./google-api";
 
 export const googleGmailTool = createTool({
   id: "google-gmail",
@@ -25,13 +26,7 @@ export const googleGmailTool = createTool({
     ),
   }),
   execute: async ({ context, runtimeContext }) => {
-    const accessToken = runtimeContext?.get("googleAccessToken") as
-      | string
-      | undefined;
-
-    if (!accessToken) {
-      throw new Error("Google access token not available");
-    }
+    requireGoogleAccessToken(runtimeContext);
 
     const maxResults = context.maxResults ?? 10;
 
@@ -44,9 +39,7 @@ export const googleGmailTool = createTool({
       listUrl.searchParams.set("q", context.query);
     }
 
-    const listResponse = await fetch(listUrl.toString(), {
-      headers: { Authorization: `Bearer ${accessToken}` },
-    });
+    const listResponse = await googleFetch(runtimeContext, listUrl.toString());
 
     if (!listResponse.ok) {
       const errorText = await listResponse.text();
@@ -67,9 +60,10 @@ export const googleGmailTool = createTool({
         detailUrl.searchParams.append("metadataHeaders", "From");
         detailUrl.searchParams.append("metadataHeaders", "Date");
 
-        const detailResponse = await fetch(detailUrl.toString(), {
-          headers: { Authorization: `Bearer ${accessToken}` },
-        });
+        const detailResponse = await googleFetch(
+          runtimeContext,
+          detailUrl.toString()
+        );
 
         if (!detailResponse.ok) {
           return {
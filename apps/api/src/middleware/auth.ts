@@ -8,6 +8,8 @@ export type AuthSession = {
     name: string;
     email: string;
     image?: string | null;
+    // Plan tier, such as "free" or "pro"
+    plan?: string;
   };
   session: {
     id: string;
@@ -0,0 +1,250 @@
+import type { Context, MiddlewareHandler } from "hono";
+import { getConnInfo } from "hono/bun";
+import { db, sql } from "@chatbot/shared/db";
+import { env } from "../config/env";
+import { usageTableStore, type UsageStore } from "../lib/usage";
+import { getSession } from "./auth";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Holds up to `capacity` tokens and gains `refillPerSecond` a second.
+// Each request spends one.
+export interface TokenBucket {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/**
+ * Where token buckets are kept. take() spends a token from the bucket at
+ * `key` and resolves to 0, or to the milliseconds until a token is free
+ * when the bucket is empty. refund() gives back a token that was taken.
+ */
+export interface RateLimitStore {
+  take(key: string, bucket: TokenBucket): Promise<number>;
+  refund(key: string, bucket: TokenBucket): Promise<void>;
+}
+
+// Time until a bucket holding `tokens` has a whole token again
+const waitFor = (tokens: number, bucket: TokenBucket) =>
+  Math.ceil(((1 - tokens) / bucket.refillPerSecond) * 1000);
+
+/**
+ * Token buckets kept in this process. The least recently used buckets are
+ * forgotten beyond `maxKeys`, which only ever refills them.
+ */
+export function createMemoryRateLimitStore({
+  now = () => Date.now(),
+  maxKeys = 10_000,
+}: { now?: () => number; maxKeys?: number } = {}): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  return {
+    async take(key, bucket) {
+      const time = now();
+      const state = buckets.get(key);
+      const tokens = state
+        ? Math.min(
+            bucket.capacity,
+            state.tokens + ((time - state.updatedAt) / 1000) * bucket.refillPerSecond
+          )
+        : bucket.capacity;
+
+      if (tokens < 1) return waitFor(tokens, bucket);
+
+      // Map order doubles as recency
+      buckets.delete(key);
+      buckets.set(key, { tokens: tokens - 1, updatedAt: time });
+      if (buckets.size > maxKeys) {
+        buckets.delete(buckets.keys().next().value!);
+      }
+      return 0;
+    },
+
+    async refund(key, bucket) {
+      const state = buckets.get(key);
+      if (state) state.tokens = Math.min(bucket.capacity, state.tokens + 1);
+    },
+  };
+}
+
+/**
+ * Token buckets in the rate_limit_buckets table, shared by every API
+ * instance. Refilling and spending happen in one statement, so concurrent
+ * requests can't spend the same token.
+ */
+export const postgresRateLimitStore: RateLimitStore = {
+  async take(key, bucket) {
+    const refilled = sql`least(${bucket.capacity}::float8,
+      rate_limit_buckets.tokens
+        + extract(epoch from now() - rate_limit_buckets.updated_at)::float8 * ${bucket.refillPerSecond})`;
+
+    const spent = await db.execute(sql`
+      INSERT INTO rate_limit_buckets (key, tokens, updated_at)
+      VALUES (${key}, ${bucket.capacity - 1}, now())
+      ON CONFLICT (key) DO UPDATE
+        SET tokens = ${refilled} - 1, updated_at = now()
+        WHERE ${refilled} >= 1
+      RETURNING key`);
+    if (spent.length > 0) return 0;
+
+    const [row] = await db.execute<{ tokens: number }>(sql`
+      SELECT ${refilled} AS tokens FROM rate_limit_buckets WHERE key = ${key}`);
+    return waitFor(row?.tokens ?? 0, bucket);
+  },
+
+  async refund(key, bucket) {
+    await db.execute(sql`
+      UPDATE rate_limit_buckets
+      SET tokens = least(${bucket.capacity}::float8, tokens + 1)
+      WHERE key = ${key}`);
+  },
+};
+
+// Where the request came from. Behind proxies the connection is the last
+// proxy's, and each proxy appends the address it was reached from to
+// X-Forwarded-For. Only the addresses the trusted proxies added are used,
+// counting from the right, as clients can send the header with anything.
+function clientIp(c: Context, trustedProxies: number) {
+  if (trustedProxies > 0) {
+    const forwarded = c.req.header("x-forwarded-for")?.split(",").map((ip) => ip.trim());
+    const ip = forwarded?.[Math.max(0, forwarded.length - trustedProxies)];
+    if (ip) return ip;
+  }
+  try {
+    return getConnInfo(c).remote.address ?? "unknown";
+  } catch {
+    // Not served by Bun, as in tests
+    return "unknown";
+  }
+}
+
+// 429 telling the client how many seconds to wait
+const tooManyRequests = (c: Context, waitMs: number, error: string) => {
+  const retryAfter = Math.max(1, Math.ceil(waitMs / 1000));
+  c.header("Retry-After", String(retryAfter));
+  return c.json({ error, retryAfter }, 429);
+};
+
+/**
+ * Limit how often each user, and each client IP, can call a route.
+ * `trustedProxies` is how many proxies in front of the API add to
+ * X-Forwarded-For. Must be used after requireAuth middleware.
+ */
+export function createRateLimit({
+  store,
+  user,
+  ip,
+  trustedProxies = 0,
+}: {
+  store: RateLimitStore;
+  user: TokenBucket;
+  ip: TokenBucket;
+  trustedProxies?: number;
+}): MiddlewareHandler {
+  return async (c, next) => {
+    const session = getSession(c);
+
+    const userKey = `user:${session.user.id}`;
+    const userWait = await store.take(userKey, user);
+    if (userWait > 0) return tooManyRequests(c, userWait, "Too many requests");
+
+    const ipWait = await store.take(`ip:${clientIp(c, trustedProxies)}`, ip);
+    if (ipWait > 0) {
+      // The request isn't let through, so it shouldn't cost the user
+      await store.refund(userKey, user);
+      return tooManyRequests(c, ipWait, "Too many requests");
+    }
+
+    await next();
+  };
+}
+
+/**
+ * Read how many proxies to trust from TRUST_PROXY: "false", "true" for
+ * one, or a number of proxies.
+ */
+export function parseTrustProxy(value: string) {
+  if (value === "false") return 0;
+  if (value === "true") return 1;
+  const proxies = Number(value);
+  if (!Number.isInteger(proxies) || proxies < 0) {
+    throw new Error('TRUST_PROXY must be "true", "false" or a number of proxies');
+  }
+  return proxies;
+}
+
+/**
+ * Read daily token quotas per plan tier from JSON like {"free": 200000}.
+ * Throws when a quota isn't a whole number of tokens.
+ */
+export function parseDailyTokenQuotas(json: string): Record<string, number> {
+  const parsed: unknown = json ? JSON.parse(json) : {};
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("DAILY_TOKEN_QUOTAS must be a JSON object of plans to token counts");
+  }
+
+  for (const [plan, quota] of Object.entries(parsed)) {
+    if (!Number.isInteger(quota) || quota < 0) {
+      throw new Error(`DAILY_TOKEN_QUOTAS has an invalid quota for ${plan}`);
+    }
+  }
+  return parsed as Record<string, number>;
+}
+
+/**
+ * Stop users who have used their plan's tokens for the UTC day until the
+ * next day starts. Users on plans without a quota aren't limited.
+ * Must be used after requireAuth middleware.
+ */
+export function createTokenQuota({
+  quotas,
+  usage,
+  now = () => Date.now(),
+}: {
+  quotas: Record<string, number>;
+  usage: Pick<UsageStore, "tokensSince">;
+  now?: () => number;
+}): MiddlewareHandler {
+  return async (c, next) => {
+    const { user } = getSession(c);
+    const quota = quotas[user.plan ?? "free"];
+    if (quota === undefined) return next();
+
+    const time = now();
+    const startOfDay = new Date(time);
+    startOfDay.setUTCHours(0, 0, 0, 0);
+
+    const used = await usage.tokensSince(user.id, startOfDay);
+    if (used >= quota) {
+      return tooManyRequests(
+        c,
+        startOfDay.getTime() + DAY_MS - time,
+        "Daily token quota reached"
+      );
+    }
+
+    await next();
+  };
+}
+
+const perMinute = (burst: string, perMinute: string): TokenBucket => ({
+  capacity: Number(burst),
+  refillPerSecond: Number(perMinute) / 60,
+});
+
+// Limits for the routes that run the agent
+export const chatRateLimit = createRateLimit({
+  store:
+    env.RATE_LIMIT_STORE === "postgres"
+      ? postgresRateLimitStore
+      : createMemoryRateLimitStore(),
+  user: perMinute(env.RATE_LIMIT_USER_BURST, env.RATE_LIMIT_USER_PER_MINUTE),
+  ip: perMinute(env.RATE_LIMIT_IP_BURST, env.RATE_LIMIT_IP_PER_MINUTE),
+  trustedProxies: parseTrustProxy(env.TRUST_PROXY),
+});
+
+// Used before chatRateLimit, so requests refused here spend none of its tokens
+export const dailyTokenQuota = createTokenQuota({
+  quotas: parseDailyTokenQuotas(env.DAILY_TOKEN_QUOTAS),
+  usage: usageTableStore,
+});
@@ -0,0 +1,98 @@
+import { Hono } from "hono";
+import { requireAuth, getSession } from "../middleware/auth";
+import { assistantTableStore, parseAssistant } from "../lib/assistants";
+import { modelRegistry } from "../mastra/model-registry";
+import { chatAgentTools } from "../mastra/agents/chat-agent";
+
+const assistants = new Hono();
+
+// Apply auth middleware to all assistant routes
+assistants.use("*", requireAuth);
+
+// Check an assistant sent by the client against the configured models and
+// the agent's tools
+const parseBody = async (body: Promise<unknown>) =>
+  parseAssistant(await body.catch(() => null), {
+    models: modelRegistry.models.map((model) => model.id),
+    tools: Object.keys(chatAgentTools),
+  });
+
+/**
+ * GET /assistants
+ * Get the user's custom assistants, most recently changed first, with the
+ * names of the tools an assistant can have
+ */
+assistants.get("/", async (c) => {
+  const session = getSession(c);
+  return c.json({
+    assistants: await assistantTableStore.list(session.user.id),
+    tools: Object.keys(chatAgentTools),
+  });
+});
+
+/**
+ * POST /assistants
+ * Create a custom assistant
+ */
+assistants.post("/", async (c) => {
+  const session = getSession(c);
+  const parsed = await parseBody(c.req.json());
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+
+  const assistant = await assistantTableStore.create(session.user.id, parsed.assistant);
+  return c.json({ assistant }, 201);
+});
+
+/**
+ * GET /assistants/:assistantId
+ * Get one of the user's custom assistants
+ */
+assistants.get("/:assistantId", async (c) => {
+  const session = getSession(c);
+  const assistant = await assistantTableStore.get(session.user.id, c.req.param("assistantId"));
+  if (!assistant) {
+    return c.json({ error: "Assistant not found" }, 404);
+  }
+  return c.json({ assistant });
+});
+
+/**
+ * PUT /assistants/:assistantId
+ * Replace a custom assistant. Conversations started with it answer with
+ * the new version from their next message.
+ */
+assistants.put("/:assistantId", async (c) => {
+  const session = getSession(c);
+  const parsed = await parseBody(c.req.json());
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+
+  const assistant = await assistantTableStore.update(
+    session.user.id,
+    c.req.param("assistantId"),
+    parsed.assistant
+  );
+  if (!assistant) {
+    return c.json({ error: "Assistant not found" }, 404);
+  }
+  return c.json({ assistant });
+});
+
+/**
+ * DELETE /assistants/:assistantId
+ * Delete a custom assistant. Conversations started with it carry on with
+ * the default assistant.
+ */
+assistants.delete("/:assistantId", async (c) => {
+  const session = getSession(c);
+  const deleted = await assistantTableStore.delete(session.user.id, c.req.param("assistantId"));
+  if (!deleted) {
+    return c.json({ error: "Assistant not found" }, 404);
+  }
+  return c.json({ success: true });
+});
+
+export default assistants;
@@ -1,18 +1,167 @@
 import { Hono } from "hono";
 import { RuntimeContext } from "@mastra/core/runtime-context";
-import { mastra } from "../mastra";
-import { requireAuth, getSession, getGoogleAccount } from "../middleware/auth";
+import { MessageList } from "@mastra/core/agent";
+import type { StorageThreadType } from "@mastra/core/memory";
+import { getChatAgent, mastra } from "../mastra";
+import type { ToolApprovalRequest } from "@chatbot/shared/stream";
+import {
+  requireAuth,
+  getSession,
+  getGoogleAccount,
+  type AuthSession,
+} from "../middleware/auth";
+import { chatRateLimit, dailyTokenQuota } from "../middleware/rate-limit";
+import { googleTokens } from "../lib/google-token";
+import { createChatEventStream, stopChatStream } from "../lib/chat-stream";
+import {
+  branchFromMessage,
+  getOwnedThread,
+  getPendingToolApprovals,
+  getPurgeDate,
+  getThreadAssistantId,
+  getThreadMessages,
+  getThreadListSections,
+  getThreadMessagesPage,
+  getThreadOrganization,
+  getThreadSettings,
+  isBranchThread,
+  isTrashed,
+  listThreadBranches,
+  listThreads,
+  moveThreadToTrash,
+  organizeThread,
+  purgeThread,
+  restoreThreadFromTrash,
+  saveInterruptedResponse,
+  setPendingToolApprovals,
+  setThreadSettings,
+  switchThreadBranch,
+} from "../lib/threads";
+import {
+  THREAD_SETTINGS,
+  getThreadMemoryOptions,
+  parseThreadSettings,
+} from "../lib/thread-settings";
+import { parseThreadPatch } from "../lib/thread-organization";
+import { assistantTableStore } from "../lib/assistants";
+import {
+  exportFileName,
+  isExportFormat,
+  renderConversation,
+  toExportedConversation,
+} from "../lib/export";
+import { createZip } from "../lib/zip";
+import { getImportProgress, parseChatExport, startImport } from "../lib/import";
+import {
+  createShareId,
+  parseShareOptions,
+  shareTableStore,
+  toShareSummary,
+  toSharedMessages,
+} from "../lib/shares";
+import { parseSearchQuery, searchConversations } from "../lib/search";
+import { blobStore } from "../lib/blob-store";
+import {
+  ATTACHMENT_STORAGE_QUOTA_BYTES,
+  checkAttachmentFile,
+  createAttachmentMessage,
+  deleteAttachment,
+  hasAttachmentSpace,
+  LOAD_ATTACHMENT,
+  loadAttachment,
+  parseAttachmentIds,
+  saveAttachment,
+  type Attachment,
+} from "../lib/attachments";
+import {
+  INCOGNITO,
+  INCOGNITO_THREAD_ID,
+  parseIncognitoHistory,
+  toolsWithoutApproval,
+  type IncognitoMessage,
+} from "../lib/incognito";
+import {
+  MAX_PAGE_SIZE,
+  decodeCursor,
+  encodeCursor,
+  parsePageSize,
+} from "../lib/pagination";
+import { createEmbeddingMeter, toUsageEvent, usageTableStore } from "../lib/usage";
+import {
+  CHAT_ABORT_SIGNAL,
+  GOOGLE_SCOPES,
+  REFRESH_GOOGLE_ACCESS_TOKEN,
+  USER_TIME_ZONE,
+  parseGoogleScopes,
+} from "../mastra/tools/google-api";
+import { isValidTimeZone } from "../mastra/tools/calendar-time";
+import { CHAT_MODEL, ON_CHAT_MODEL, modelRegistry } from "../mastra/model-registry";
+import { chatAgentTools } from "../mastra/agents/chat-agent";
+
+// Largest chat export that can be imported
+const MAX_IMPORT_BYTES = 100 * 1024 * 1024;
 
 const chat = new Hono();
 
 // Apply auth middleware to all chat routes
 chat.use("*", requireAuth);
 
+/**
+ * GET /chat/models
+ * List the chat models a user can pick, and the one used by default
+ */
+chat.get("/models", (c) => {
+  return c.json({
+    models: modelRegistry.models,
+    defaultModel: modelRegistry.defaultModel,
+  });
+});
+
+const invalidPageSize = `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}`;
+
 /**
  * GET /chat/threads
- * Get all threads for the current user
+ * Get a page of the current user's threads, most recently updated first,
+ * with how they are organized. Threads in the trash and the hidden threads
+ * holding branches are left out. The first page also has every pinned
+ * thread and the names of all folders, wherever their threads are paged.
+ * Pass nextCursor back as ?cursor for the next page; it is null on the last.
  */
 chat.get("/threads", async (c) => {
+  const session = getSession(c);
+  const limit = parsePageSize(c.req.query("limit"));
+  if (limit === null) {
+    return c.json({ error: invalidPageSize }, 400);
+  }
+  const cursor = c.req.query("cursor");
+  const before = cursor ? decodeCursor(cursor) : undefined;
+  if (before === null) {
+    return c.json({ error: "Invalid cursor" }, 400);
+  }
+
+  const withOrganization = (thread: StorageThreadType) => ({
+    ...thread,
+    ...getThreadOrganization(thread),
+  });
+
+  const { threads, nextBefore } = await listThreads(session.user.id, { perPage: limit, before });
+  const sections = before ? null : await getThreadListSections(session.user.id);
+
+  return c.json({
+    threads: threads.map(withOrganization),
+    nextCursor: nextBefore ? encodeCursor(nextBefore) : null,
+    ...(sections && {
+      pinned: sections.pinned.map(withOrganization),
+      folders: sections.folders,
+    }),
+  });
+});
+
+/**
+ * GET /chat/trash
+ * Get threads in the trash with the date they will be purged
+ */
+chat.get("/trash", async (c) => {
   const session = getSession(c);
   const agent = mastra.getAgent("chatAgent");
   const memory = await agent.getMemory();
@@ -27,16 +176,45 @@ chat.get("/threads", async (c) => {
     sortDirection: "DESC",
   });
 
-  return c.json({ threads });
+  return c.json({
+    threads: threads
+      .filter(isTrashed)
+      .map((thread) => ({ ...thread, purgeAt: getPurgeDate(thread) })),
+  });
+});
+
+/**
+ * GET /chat/search
+ * Search the messages of every conversation outside the trash for ?q,
+ * by its words and by meaning. Results are ranked by conversation, each
+ * with its best matching messages and highlighted snippets.
+ */
+chat.get("/search", async (c) => {
+  const session = getSession(c);
+  const parsed = parseSearchQuery(c.req.query("q"));
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+
+  const agent = mastra.getAgent("chatAgent");
+  const memory = await agent.getMemory();
+  if (!memory) {
+    return c.json({ results: [] });
+  }
+
+  return c.json({
+    results: await searchConversations(memory, session.user.id, parsed.query),
+  });
 });
 
 /**
  * POST /chat/threads
- * Create a new thread
+ * Create a new thread, optionally with one of the user's custom assistants
+ * answering in it
  */
 chat.post("/threads", async (c) => {
   const session = getSession(c);
-  const { title } = await c.req.json().catch(() => ({}));
+  const { title, assistantId } = await c.req.json().catch(() => ({}));
   
   const agent = mastra.getAgent("chatAgent");
   const memory = await agent.getMemory();
@@ -45,21 +223,62 @@ chat.post("/threads", async (c) => {
     return c.json({ error: "Memory not configured" }, 500);
   }
 
+  if (
+    assistantId !== undefined &&
+    (typeof assistantId !== "string" ||
+      !(await assistantTableStore.get(session.user.id, assistantId)))
+  ) {
+    return c.json({ error: "Unknown assistant" }, 400);
+  }
+
   const thread = await memory.createThread({
     resourceId: session.user.id,
     title: title || "New Chat",
+    metadata: assistantId ? { assistantId } : undefined,
   });
 
   return c.json({ thread });
 });
 
+/**
+ * PATCH /chat/threads/:threadId
+ * Rename a thread, pin or archive it, or set its folder and tags with
+ * { title, pinned, archived, folder, tags }. Fields left out are unchanged.
+ */
+chat.patch("/threads/:threadId", async (c) => {
+  const session = getSession(c);
+  const threadId = c.req.param("threadId");
+  const body = await c.req.json().catch(() => null);
+
+  const parsed = parseThreadPatch(body);
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+
+  const memory = await mastra.getAgent("chatAgent").getMemory();
+  if (!memory) {
+    return c.json({ error: "Memory not configured" }, 500);
+  }
+
+  const thread = await getOwnedThread(memory, threadId, session.user.id);
+  if (!thread || isTrashed(thread) || isBranchThread(thread)) {
+    return c.json({ error: "Thread not found" }, 404);
+  }
+
+  const updated = await organizeThread(memory, thread, parsed.patch);
+  return c.json({ thread: { ...updated, ...getThreadOrganization(updated) } });
+});
+
 /**
  * DELETE /chat/threads/:threadId
- * Delete a thread
+ * Move a thread to the trash, or delete it right away with ?permanent=true.
+ * With ?includeTraces=true its AI tracing spans are deleted too.
  */
 chat.delete("/threads/:threadId", async (c) => {
   const session = getSession(c);
   const threadId = c.req.param("threadId");
+  const permanent = c.req.query("permanent") === "true";
+  const includeTraces = c.req.query("includeTraces") === "true";
   
   const agent = mastra.getAgent("chatAgent");
   const memory = await agent.getMemory();
@@ -69,82 +288,239 @@ chat.delete("/threads/:threadId", async (c) => {
   }
 
   // Verify thread belongs to user
-  const thread = await memory.getThreadById({ threadId });
-  if (!thread || thread.resourceId !== session.user.id) {
+  const thread = await getOwnedThread(memory, threadId, session.user.id);
+  if (!thread) {
     return c.json({ error: "Thread not found" }, 404);
   }
 
-  // Delete all messages in the thread first
-  const { uiMessages } = await memory.query({ threadId });
-  if (uiMessages.length > 0) {
-    await memory.deleteMessages(uiMessages.map((m) => m.id));
+  if (permanent) {
+    await purgeThread(memory, threadId, {
+      includeTraces: includeTraces || thread.metadata?.purgeTraces === true,
+    });
+    return c.json({ success: true, trashed: false });
   }
 
-  // Note: Mastra Memory doesn't have deleteThread, so we just delete messages
-  // The thread will be orphaned but won't show in queries with messages
-  
-  return c.json({ success: true });
+  const trashed = await moveThreadToTrash(memory, thread, { includeTraces });
+
+  return c.json({ success: true, trashed: true, purgeAt: getPurgeDate(trashed) });
 });
 
 /**
- * POST /chat/stream
- * Stream a chat response from the AI agent
- * Requirements: 2.2, 8.2
+ * POST /chat/threads/:threadId/restore
+ * Restore a thread from the trash
  */
-chat.post("/stream", async (c) => {
+chat.post("/threads/:threadId/restore", async (c) => {
   const session = getSession(c);
-  const { message, threadId } = await c.req.json();
+  const threadId = c.req.param("threadId");
 
-  if (!message || typeof message !== "string") {
-    return c.json({ error: "Message is required" }, 400);
+  const agent = mastra.getAgent("chatAgent");
+  const memory = await agent.getMemory();
+
+  if (!memory) {
+    return c.json({ error: "Memory not configured" }, 500);
   }
 
-  const agent = mastra.getAgent("chatAgent");
+  const thread = await getOwnedThread(memory, threadId, session.user.id);
+  if (!thread || !isTrashed(thread)) {
+    return c.json({ error: "Thread not found" }, 404);
+  }
+
+  const restored = await restoreThreadFromTrash(memory, thread);
+
+  return c.json({ thread: restored });
+});
+
+// What the agent runs: a new message, or a suspended run resumed after the
+// user approved or declined a tool call. An incognito message brings its
+// conversation's earlier turns, as nothing is kept in memory. Files attached
+// to a message go to the model with it. timeZone is the browser's and model
+// a registry ID, checked with isUnknownModel.
+type ChatRun = (
+  | { message: string; attachments?: Attachment[] }
+  | { message: string; incognito: { history: IncognitoMessage[] } }
+  | { approval: ToolApprovalRequest; approved: boolean }
+) & { timeZone?: unknown; model?: string };
+
+const isUnknownModel = (model: unknown) =>
+  model !== undefined && (typeof model !== "string" || !modelRegistry.has(model));
+
+// Find a user's attachments, leaving out any that no longer exist
+async function findAttachments(userId: string, attachmentIds: string[]) {
+  const files = await Promise.all(
+    attachmentIds.map((attachmentId) => loadAttachment(blobStore, userId, attachmentId))
+  );
+  return files.flatMap((file) => (file ? [file.attachment] : []));
+}
 
-  // Get Google access token from account
-  const account = await getGoogleAccount(session.user.id);
+/**
+ * Run the agent and stream its response as chat stream events.
+ * Stopping the stream, or closing the connection, stops the agent and
+ * saves the partial response as interrupted. Tool calls left waiting for approval are recorded on
+ * the thread. Incognito runs use no memory at all: nothing is recalled,
+ * saved or embedded, and their traces leave out what was said.
+ */
+async function streamChatResponse(
+  request: Request,
+  session: AuthSession,
+  threadId: string,
+  run: ChatRun
+) {
+  // Get Google access token from account, refreshing it if it has expired
+  const googleAccessToken = await googleTokens
+    .getAccessToken(session.user.id)
+    .catch((error) => {
+      console.error("Google token error:", error);
+      return null;
+    });
+
+  // Tools retry once with a refreshed token when Google rejects the current one
+  let forcedRefresh: Promise<string | null> | undefined;
+  const refreshGoogleAccessToken = () =>
+    (forcedRefresh ??= googleTokens.getAccessToken(session.user.id, {
+      forceRefresh: true,
+    }));
+
+  // Stop the model and Google calls when the client disconnects
+  const abortController = new AbortController();
+  request.signal.addEventListener("abort", () => abortController.abort());
 
   // Create runtime context with Google access token and userId
   const runtimeContext = new RuntimeContext();
-  runtimeContext.set("googleAccessToken", account?.accessToken || "");
+  runtimeContext.set("googleAccessToken", googleAccessToken || "");
+  runtimeContext.set(REFRESH_GOOGLE_ACCESS_TOKEN, refreshGoogleAccessToken);
+  runtimeContext.set(CHAT_ABORT_SIGNAL, abortController.signal);
   runtimeContext.set("userId", session.user.id);
+  runtimeContext.set(LOAD_ATTACHMENT, (attachmentId: string) =>
+    loadAttachment(blobStore, session.user.id, attachmentId)
+  );
+  if (typeof run.timeZone === "string" && isValidTimeZone(run.timeZone)) {
+    runtimeContext.set(USER_TIME_ZONE, run.timeZone);
+  }
 
-  // Use the provided threadId or create one based on user ID
-  const resolvedThreadId = threadId || `thread-${session.user.id}`;
+  // The thread's assistant builds the agent, and its settings pick the
+  // model, prompt and tools. A model sent with the request wins over the
+  // thread's, which wins over the assistant's.
+  const incognito = "incognito" in run ? run.incognito : undefined;
+  const memory = incognito ? null : await mastra.getAgent("chatAgent").getMemory();
+  const thread = memory ? await getOwnedThread(memory, threadId, session.user.id) : null;
+  const assistantId = thread ? getThreadAssistantId(thread) : undefined;
+  const assistant = assistantId
+    ? await assistantTableStore.get(session.user.id, assistantId)
+    : null;
+  const agent = getChatAgent(assistant);
+  const settings = incognito
+    ? { enabledTools: toolsWithoutApproval(chatAgentTools) }
+    : thread
+      ? getThreadSettings(thread)
+      : {};
+  const model = run.model ?? settings.model ?? assistant?.model ?? undefined;
+  if (incognito) {
+    runtimeContext.set(INCOGNITO, true);
+  }
+  runtimeContext.set(THREAD_SETTINGS, settings);
+  if (model) {
+    runtimeContext.set(CHAT_MODEL, model);
+  }
 
-  const stream = await agent.stream(message, {
-    memory: {
-      thread: resolvedThreadId,
-      resource: session.user.id,
-    },
-    runtimeContext,
-  });
+  // Tools that need a scope the user hasn't granted ask for consent
+  // instead of calling Google
+  const googleAccount = await getGoogleAccount(session.user.id);
+  if (googleAccount?.scope) {
+    runtimeContext.set(GOOGLE_SCOPES, parseGoogleScopes(googleAccount.scope));
+  }
 
-  // Get traceId from the stream response for observability
-  const traceId = stream.traceId;
-
-  // Return the text stream as SSE
-  const encoder = new TextEncoder();
-  const readable = new ReadableStream({
-    async start(controller) {
-      try {
-        // Send traceId as first event for client-side tracking
-        if (traceId) {
-          controller.enqueue(encoder.encode(`event: traceId\ndata: ${JSON.stringify(traceId)}\n\n`));
-        }
-        for await (const chunk of stream.textStream) {
-          // Send each text chunk as SSE data
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
-        }
-        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-        controller.close();
-      } catch (error) {
-        console.error("Stream error:", error);
-        controller.error(error);
-      }
+  const startedAt = new Date();
+  const resolvedModel = model && modelRegistry.has(model) ? model : modelRegistry.defaultModel;
+  // After a fallback another model answers, and its tokens are priced as its own
+  let answeringModel = resolvedModel;
+  runtimeContext.set(ON_CHAT_MODEL, (modelId: string) => {
+    answeringModel = modelId;
+  });
+  const options = {
+    memory: incognito
+      ? undefined
+      : {
+          thread: threadId,
+          resource: session.user.id,
+          options: getThreadMemoryOptions(settings),
+        },
+    runtimeContext,
+    abortSignal: abortController.signal,
+    modelSettings:
+      settings.temperature !== undefined ? { temperature: settings.temperature } : undefined,
+    tracingOptions: {
+      metadata: {
+        model: resolvedModel,
+        threadSettings: settings,
+        assistantId: assistant?.id,
+        incognito: incognito ? true : undefined,
+      },
     },
+  };
+
+  // Embedding tokens for recall and for saving messages count toward the
+  // response's usage, so the agent runs and is read inside the meter
+  const meter = createEmbeddingMeter();
+  const stream = await meter.run(() => {
+    if (incognito && "message" in run) {
+      return agent.stream([...incognito.history, { role: "user" as const, content: run.message }], options);
+    }
+    if ("message" in run) {
+      return agent.stream(
+        "attachments" in run && run.attachments?.length
+          ? createAttachmentMessage(run.message, run.attachments)
+          : run.message,
+        options
+      );
+    }
+    const { runId, toolCallId } = run.approval;
+    return run.approved
+      ? agent.approveToolCall({ ...options, runId, toolCallId })
+      : agent.declineToolCall({ ...options, runId, toolCallId });
   });
 
+  // Forward text, tool activity and usage as typed chat stream events,
+  // with the traceId for observability on the finish event
+  const readable = meter.run(() =>
+    createChatEventStream(stream.fullStream, {
+      traceId: stream.traceId,
+      abortController,
+      userId: session.user.id,
+      onInterrupted: async (text) => {
+        if (!memory) return;
+        await saveInterruptedResponse(memory, {
+          threadId,
+          resourceId: session.user.id,
+          message: "message" in run ? run.message : undefined,
+          attachments: "attachments" in run ? run.attachments : undefined,
+          text,
+          startedAt,
+        });
+      },
+      onToolApprovals: async (approvals) => {
+        if (!memory) return;
+        // Read again, as the agent may have saved the thread since
+        const current = await getOwnedThread(memory, threadId, session.user.id);
+        if (!current) return;
+        await setPendingToolApprovals(memory, current, [
+          ...getPendingToolApprovals(current),
+          ...approvals,
+        ]);
+      },
+      onUsage: (usage) =>
+        usageTableStore.record(
+          toUsageEvent({
+            userId: session.user.id,
+            threadId,
+            traceId: stream.traceId,
+            model: answeringModel,
+            usage,
+            embeddingTokens: meter.tokens,
+          })
+        ),
+    })
+  );
+
   return new Response(readable, {
     headers: {
       "Content-Type": "text/event-stream",
@@ -152,37 +528,657 @@ chat.post("/stream", async (c) => {
       Connection: "keep-alive",
     },
   });
+}
+
+/**
+ * POST /chat/streams/:streamId/stop
+ * Stop a response, by the ID from its start event. Its stream saves the
+ * partial response, sends an interrupted event and ends, so the client
+ * can keep reading until it is saved.
+ */
+chat.post("/streams/:streamId/stop", (c) => {
+  const session = getSession(c);
+
+  if (!stopChatStream(session.user.id, c.req.param("streamId"))) {
+    return c.json({ error: "Stream not found" }, 404);
+  }
+
+  return c.json({ success: true });
+});
+
+/**
+ * POST /chat/attachments
+ * Upload a file to attach to a message, sent as the "file" field of a
+ * multipart form. PDFs, images, CSV and text files are accepted, as long
+ * as the user's attachments stay within their storage quota.
+ */
+chat.post("/attachments", chatRateLimit, async (c) => {
+  const session = getSession(c);
+  const body = await c.req.parseBody().catch(() => ({}));
+  const file = (body as Record<string, unknown>).file;
+
+  if (!(file instanceof File)) {
+    return c.json({ error: "A file is required" }, 400);
+  }
+
+  const checked = checkAttachmentFile(file);
+  if ("error" in checked) {
+    return c.json({ error: checked.error }, 400);
+  }
+
+  if (!(await hasAttachmentSpace(blobStore, session.user.id, file.size))) {
+    return c.json(
+      {
+        error: `Your attached files can take up at most ${ATTACHMENT_STORAGE_QUOTA_BYTES / 1024 / 1024} MB; delete conversations with files to make room`,
+      },
+      413
+    );
+  }
+
+  const attachment = await saveAttachment(blobStore, session.user.id, {
+    name: checked.name,
+    contentType: checked.contentType,
+    data: new Uint8Array(await file.arrayBuffer()),
+  });
+
+  return c.json({ attachment }, 201);
+});
+
+/**
+ * GET /chat/attachments/:attachmentId
+ * Download a file the user attached, for previews in the conversation
+ */
+chat.get("/attachments/:attachmentId", async (c) => {
+  const session = getSession(c);
+  const file = await loadAttachment(blobStore, session.user.id, c.req.param("attachmentId"));
+
+  if (!file) {
+    return c.json({ error: "Attachment not found" }, 404);
+  }
+
+  const { attachment, data } = file;
+  return new Response(new Uint8Array(data), {
+    headers: {
+      "Content-Type": attachment.contentType,
+      "Content-Length": String(data.byteLength),
+      "Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+      "Cache-Control": "private, max-age=86400",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+});
+
+/**
+ * DELETE /chat/attachments/:attachmentId
+ * Delete an uploaded file, like one taken off a message before it was sent
+ */
+chat.delete("/attachments/:attachmentId", async (c) => {
+  const session = getSession(c);
+  await deleteAttachment(blobStore, session.user.id, c.req.param("attachmentId"));
+
+  return c.json({ success: true });
+});
+
+/**
+ * POST /chat/stream
+ * Stream a chat response from the AI agent. attachments lists IDs of
+ * uploaded files to send with the message. With incognito set, the
+ * conversation's earlier turns come as history and nothing is saved.
+ * Requirements: 2.2, 8.2
+ */
+chat.post("/stream", dailyTokenQuota, chatRateLimit, async (c) => {
+  const session = getSession(c);
+  const { message, threadId, timeZone, model, incognito, history, attachments } =
+    await c.req.json();
+
+  if (!message || typeof message !== "string") {
+    return c.json({ error: "Message is required" }, 400);
+  }
+
+  if (isUnknownModel(model)) {
+    return c.json({ error: "Unknown model" }, 400);
+  }
+
+  if (incognito !== undefined && typeof incognito !== "boolean") {
+    return c.json({ error: "incognito must be a boolean" }, 400);
+  }
+
+  const attachmentIds = parseAttachmentIds(attachments);
+  if ("error" in attachmentIds) {
+    return c.json({ error: attachmentIds.error }, 400);
+  }
+
+  if (incognito) {
+    // Uploads are kept until deleted, which incognito conversations avoid
+    if (attachmentIds.ids.length > 0) {
+      return c.json({ error: "Incognito messages can't have attachments" }, 400);
+    }
+
+    const parsed = parseIncognitoHistory(history);
+    if ("error" in parsed) {
+      return c.json({ error: parsed.error }, 400);
+    }
+    return streamChatResponse(c.req.raw, session, INCOGNITO_THREAD_ID, {
+      message,
+      incognito: { history: parsed.history },
+      timeZone,
+      model,
+    });
+  }
+
+  // Use the provided threadId or create one based on user ID
+  const resolvedThreadId = threadId || `thread-${session.user.id}`;
+
+  const found = await findAttachments(session.user.id, attachmentIds.ids);
+  if (found.length < attachmentIds.ids.length) {
+    return c.json({ error: "Attachment not found" }, 404);
+  }
+
+  // A new message moves the conversation on from calls left unapproved
+  const memory = await mastra.getAgent("chatAgent").getMemory();
+  const thread = memory
+    ? await getOwnedThread(memory, resolvedThreadId, session.user.id)
+    : null;
+  if (memory && thread && getPendingToolApprovals(thread).length > 0) {
+    await setPendingToolApprovals(memory, thread, []);
+  }
+
+  return streamChatResponse(c.req.raw, session, resolvedThreadId, {
+    message,
+    attachments: found,
+    timeZone,
+    model,
+  });
+});
+
+/**
+ * POST /chat/threads/:threadId/messages/:messageId/regenerate
+ * Cut the conversation at a user message and stream a new response to it,
+ * optionally with edited text. For an assistant message the reply is
+ * regenerated. What followed the cut is kept as a branch. Files attached
+ * to the message are sent again with it.
+ */
+chat.post("/threads/:threadId/messages/:messageId/regenerate", dailyTokenQuota, chatRateLimit, async (c) => {
+  const session = getSession(c);
+  const threadId = c.req.param("threadId");
+  const messageId = c.req.param("messageId");
+  const { message, timeZone, model } = await c.req.json().catch(() => ({}));
+
+  if (message !== undefined && (typeof message !== "string" || !message.trim())) {
+    return c.json({ error: "Message must be a non-empty string" }, 400);
+  }
+
+  if (isUnknownModel(model)) {
+    return c.json({ error: "Unknown model" }, 400);
+  }
+
+  const agent = mastra.getAgent("chatAgent");
+  const memory = await agent.getMemory();
+
+  if (!memory) {
+    return c.json({ error: "Memory not configured" }, 500);
+  }
+
+  const thread = await getOwnedThread(memory, threadId, session.user.id);
+  if (!thread || isTrashed(thread) || isBranchThread(thread)) {
+    return c.json({ error: "Thread not found" }, 404);
+  }
+
+  const cut = await branchFromMessage(memory, thread, messageId);
+  if (!cut) {
+    return c.json({ error: "Message not found" }, 404);
+  }
+
+  return streamChatResponse(c.req.raw, session, threadId, {
+    message: message ?? cut.message,
+    attachments: await findAttachments(
+      session.user.id,
+      cut.attachments.map((attachment) => attachment.id)
+    ),
+    timeZone,
+    model,
+  });
+});
+
+/**
+ * POST /chat/threads/:threadId/tool-approvals/:toolCallId
+ * Approve or decline a tool call the agent is waiting on, such as sending
+ * an email, and stream the rest of the response
+ */
+chat.post("/threads/:threadId/tool-approvals/:toolCallId", dailyTokenQuota, chatRateLimit, async (c) => {
+  const session = getSession(c);
+  const threadId = c.req.param("threadId");
+  const toolCallId = c.req.param("toolCallId");
+  const { approved, timeZone, model } = await c.req.json().catch(() => ({}));
+
+  if (typeof approved !== "boolean") {
+    return c.json({ error: "approved must be a boolean" }, 400);
+  }
+
+  if (isUnknownModel(model)) {
+    return c.json({ error: "Unknown model" }, 400);
+  }
+
+  const agent = mastra.getAgent("chatAgent");
+  const memory = await agent.getMemory();
+
+  if (!memory) {
+    return c.json({ error: "Memory not configured" }, 500);
+  }
+
+  const thread = await getOwnedThread(memory, threadId, session.user.id);
+  if (!thread || isTrashed(thread) || isBranchThread(thread)) {
+    return c.json({ error: "Thread not found" }, 404);
+  }
+
+  const pending = getPendingToolApprovals(thread);
+  const approval = pending.find((a) => a.toolCallId === toolCallId);
+  if (!approval) {
+    return c.json({ error: "Approval not found" }, 404);
+  }
+
+  // Removed first so the same call can't be approved twice
+  await setPendingToolApprovals(
+    memory,
+    thread,
+    pending.filter((a) => a.toolCallId !== toolCallId)
+  );
+
+  return streamChatResponse(c.req.raw, session, threadId, {
+    approval,
+    approved,
+    timeZone,
+    model,
+  });
+});
+
+/**
+ * GET /chat/threads/:threadId/settings
+ * Get a thread's model, temperature, system prompt, enabled tools and
+ * whether it recalls other conversations, with the names of the tools
+ * that can be enabled
+ */
+chat.get("/threads/:threadId/settings", async (c) => {
+  const session = getSession(c);
+  const threadId = c.req.param("threadId");
+
+  const memory = await mastra.getAgent("chatAgent").getMemory();
+  const thread = memory
+    ? await getOwnedThread(memory, threadId, session.user.id)
+    : null;
+  if (!thread || isTrashed(thread) || isBranchThread(thread)) {
+    return c.json({ error: "Thread not found" }, 404);
+  }
+
+  return c.json({
+    settings: getThreadSettings(thread),
+    tools: Object.keys(chatAgentTools),
+  });
+});
+
+/**
+ * PUT /chat/threads/:threadId/settings
+ * Replace a thread's settings. Fields left out go back to the defaults.
+ */
+chat.put("/threads/:threadId/settings", async (c) => {
+  const session = getSession(c);
+  const threadId = c.req.param("threadId");
+  const body = await c.req.json().catch(() => null);
+
+  const parsed = parseThreadSettings(body, {
+    models: modelRegistry.models.map((model) => model.id),
+    tools: Object.keys(chatAgentTools),
+  });
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+
+  const memory = await mastra.getAgent("chatAgent").getMemory();
+  if (!memory) {
+    return c.json({ error: "Memory not configured" }, 500);
+  }
+
+  const thread = await getOwnedThread(memory, threadId, session.user.id);
+  if (!thread || isTrashed(thread) || isBranchThread(thread)) {
+    return c.json({ error: "Thread not found" }, 404);
+  }
+
+  await setThreadSettings(memory, thread, parsed.settings);
+  return c.json({ settings: parsed.settings });
+});
+
+/**
+ * GET /chat/threads/:threadId/branches
+ * Get the earlier versions of a conversation that can be switched to
+ */
+chat.get("/threads/:threadId/branches", async (c) => {
+  const session = getSession(c);
+  const threadId = c.req.param("threadId");
+
+  const agent = mastra.getAgent("chatAgent");
+  const memory = await agent.getMemory();
+
+  if (!memory) {
+    return c.json({ branches: [] });
+  }
+
+  const thread = await getOwnedThread(memory, threadId, session.user.id);
+  if (!thread || isBranchThread(thread)) {
+    return c.json({ error: "Thread not found" }, 404);
+  }
+
+  return c.json({ branches: await listThreadBranches(memory, thread) });
+});
+
+/**
+ * POST /chat/threads/:threadId/branches/:branchId/switch
+ * Make a branch the current conversation, keeping the current one as a branch
+ */
+chat.post("/threads/:threadId/branches/:branchId/switch", async (c) => {
+  const session = getSession(c);
+  const threadId = c.req.param("threadId");
+  const branchId = c.req.param("branchId");
+
+  const agent = mastra.getAgent("chatAgent");
+  const memory = await agent.getMemory();
+
+  if (!memory) {
+    return c.json({ error: "Memory not configured" }, 500);
+  }
+
+  const thread = await getOwnedThread(memory, threadId, session.user.id);
+  if (!thread || isTrashed(thread) || isBranchThread(thread)) {
+    return c.json({ error: "Thread not found" }, 404);
+  }
+
+  const updated = await switchThreadBranch(memory, thread, branchId);
+  if (!updated) {
+    return c.json({ error: "Branch not found" }, 404);
+  }
+
+  return c.json({ thread: updated });
+});
+
+/**
+ * GET /chat/threads/:threadId/export
+ * Download a conversation as Markdown, JSON, HTML or PDF (?format=md by
+ * default), with times shown in the browser's ?timeZone
+ */
+chat.get("/threads/:threadId/export", async (c) => {
+  const session = getSession(c);
+  const threadId = c.req.param("threadId");
+  const format = c.req.query("format") || "md";
+  const timeZone = c.req.query("timeZone");
+
+  if (!isExportFormat(format)) {
+    return c.json({ error: "Unknown export format" }, 400);
+  }
+
+  const agent = mastra.getAgent("chatAgent");
+  const memory = await agent.getMemory();
+  if (!memory) {
+    return c.json({ error: "Memory not configured" }, 500);
+  }
+
+  const thread = await getOwnedThread(memory, threadId, session.user.id);
+  if (!thread || isBranchThread(thread)) {
+    return c.json({ error: "Thread not found" }, 404);
+  }
+
+  const conversation = toExportedConversation(
+    thread,
+    await getThreadMessages(memory, thread.id, session.user.id)
+  );
+  const { body, contentType } = renderConversation(
+    conversation,
+    format,
+    timeZone && isValidTimeZone(timeZone) ? timeZone : undefined
+  );
+
+  return c.body(body, 200, {
+    "Content-Type": contentType,
+    "Content-Disposition": `attachment; filename="${exportFileName(conversation, format)}"`,
+  });
+});
+
+/**
+ * GET /chat/export
+ * Download every conversation outside the trash as a zip archive, one
+ * file per conversation in the ?format given
+ */
+chat.get("/export", async (c) => {
+  const session = getSession(c);
+  const format = c.req.query("format") || "md";
+  const timeZone = c.req.query("timeZone");
+
+  if (!isExportFormat(format)) {
+    return c.json({ error: "Unknown export format" }, 400);
+  }
+
+  const agent = mastra.getAgent("chatAgent");
+  const memory = await agent.getMemory();
+  if (!memory) {
+    return c.json({ error: "Memory not configured" }, 500);
+  }
+
+  const threads = await memory.getThreadsByResourceId({
+    resourceId: session.user.id,
+    orderBy: "updatedAt",
+    sortDirection: "DESC",
+  });
+
+  const files = [];
+  for (const thread of threads.filter((t) => !isTrashed(t) && !isBranchThread(t))) {
+    const conversation = toExportedConversation(
+      thread,
+      await getThreadMessages(memory, thread.id, session.user.id)
+    );
+    files.push({
+      name: exportFileName(conversation, format, true),
+      data: renderConversation(
+        conversation,
+        format,
+        timeZone && isValidTimeZone(timeZone) ? timeZone : undefined
+      ).body,
+    });
+  }
+
+  return c.body(createZip(files), 200, {
+    "Content-Type": "application/zip",
+    "Content-Disposition": `attachment; filename="conversations-${format}.zip"`,
+  });
+});
+
+/**
+ * POST /chat/threads/:threadId/shares
+ * Publish a snapshot of a conversation at a public link, with
+ * { redactToolOutputs, expiresAt }. Tool outputs are redacted unless
+ * redactToolOutputs is false; links without expiresAt don't expire.
+ */
+chat.post("/threads/:threadId/shares", async (c) => {
+  const session = getSession(c);
+  const threadId = c.req.param("threadId");
+  const parsed = parseShareOptions(await c.req.json().catch(() => ({})));
+
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+
+  const agent = mastra.getAgent("chatAgent");
+  const memory = await agent.getMemory();
+  if (!memory) {
+    return c.json({ error: "Memory not configured" }, 500);
+  }
+
+  const thread = await getOwnedThread(memory, threadId, session.user.id);
+  if (!thread || isBranchThread(thread) || isTrashed(thread)) {
+    return c.json({ error: "Thread not found" }, 404);
+  }
+
+  const conversation = toExportedConversation(
+    thread,
+    await getThreadMessages(memory, thread.id, session.user.id),
+    { toolResults: !parsed.options.redactToolOutputs }
+  );
+  const share = await shareTableStore.create({
+    id: createShareId(),
+    userId: session.user.id,
+    threadId,
+    title: conversation.title,
+    messages: toSharedMessages(conversation, parsed.options),
+    ...parsed.options,
+  });
+
+  return c.json({ share: toShareSummary(share) }, 201);
+});
+
+/**
+ * GET /chat/threads/:threadId/shares
+ * List the links a conversation has been shared at, newest first
+ */
+chat.get("/threads/:threadId/shares", async (c) => {
+  const session = getSession(c);
+  const shares = await shareTableStore.listForThread(
+    session.user.id,
+    c.req.param("threadId")
+  );
+
+  return c.json({ shares: shares.map((share) => toShareSummary(share)) });
+});
+
+/**
+ * DELETE /chat/threads/:threadId/shares/:shareId
+ * Revoke a share link; its URL stops working at once
+ */
+chat.delete("/threads/:threadId/shares/:shareId", async (c) => {
+  const session = getSession(c);
+  const revoked = await shareTableStore.revoke(
+    session.user.id,
+    c.req.param("threadId"),
+    c.req.param("shareId")
+  );
+
+  if (!revoked) {
+    return c.json({ error: "Share not found" }, 404);
+  }
+
+  return c.json({ success: true });
+});
+
+/**
+ * POST /chat/imports
+ * Import conversations from a chat export uploaded as the `file` form
+ * field: ChatGPT's or Claude's conversations.json, or a JSON export from
+ * this app. Responds 202 with the import's progress, which
+ * GET /chat/imports/:importId keeps up to date.
+ */
+chat.post("/imports", async (c) => {
+  const session = getSession(c);
+  const body = await c.req.parseBody().catch(() => ({}));
+  const file = (body as Record<string, unknown>).file;
+
+  if (!(file instanceof File)) {
+    return c.json({ error: "Upload a conversations.json file" }, 400);
+  }
+  if (file.size > MAX_IMPORT_BYTES) {
+    return c.json({ error: "The file is too large to import" }, 413);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    return c.json({ error: "The file isn't valid JSON" }, 400);
+  }
+
+  const parsed = parseChatExport(data);
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+
+  const agent = mastra.getAgent("chatAgent");
+  const memory = await agent.getMemory();
+  if (!memory) {
+    return c.json({ error: "Memory not configured" }, 500);
+  }
+
+  return c.json(
+    { import: startImport(memory, session.user.id, parsed.conversations) },
+    202
+  );
+});
+
+/**
+ * GET /chat/imports/:importId
+ * How many conversations an import has saved, skipped as already imported
+ * or failed to save
+ */
+chat.get("/imports/:importId", (c) => {
+  const session = getSession(c);
+  const progress = getImportProgress(c.req.param("importId"), session.user.id);
+
+  if (!progress) {
+    return c.json({ error: "Import not found" }, 404);
+  }
+
+  return c.json({ import: progress });
 });
 
 /**
  * GET /chat/history
- * Get chat history for a thread
+ * Get a page of a thread's history in chronological order, with any tool
+ * calls waiting for approval. The first page has the latest messages;
+ * pass nextCursor back as ?cursor for the ones before it. With ?messageId
+ * the first page reaches back to that message, such as one opened from
+ * search.
  * Requirements: 2.4, 3.3
  */
 chat.get("/history", async (c) => {
   const session = getSession(c);
   const threadId = c.req.query("threadId") || `thread-${session.user.id}`;
+  const messageId = c.req.query("messageId");
+  const limit = parsePageSize(c.req.query("limit"));
+  if (limit === null) {
+    return c.json({ error: invalidPageSize }, 400);
+  }
+  const cursor = c.req.query("cursor");
+  const before = cursor ? decodeCursor(cursor) : undefined;
+  if (before === null) {
+    return c.json({ error: "Invalid cursor" }, 400);
+  }
 
   const agent = mastra.getAgent("chatAgent");
   const memory = await agent.getMemory();
 
   if (!memory) {
-    return c.json({ messages: [] });
+    return c.json({ messages: [], pendingToolApprovals: [], nextCursor: null });
   }
 
-  const { uiMessages } = await memory.query({
-    threadId,
-    resourceId: session.user.id,
-  });
+  // A thread that doesn't exist yet has no history
+  const thread = await memory.getThreadById({ threadId });
+  if (!thread) {
+    return c.json({ messages: [], pendingToolApprovals: [], nextCursor: null });
+  }
+  if (thread.resourceId !== session.user.id) {
+    return c.json({ error: "Thread not found" }, 404);
+  }
 
-  // Return messages in chronological order (oldest first)
-  const sortedMessages = [...uiMessages].sort(
-    (a, b) =>
-      new Date(a.createdAt || 0).getTime() -
-      new Date(b.createdAt || 0).getTime()
-  );
+  const { messages, nextBefore } = await getThreadMessagesPage(memory, threadId, {
+    limit,
+    before,
+    messageId,
+  });
 
-  return c.json({ messages: sortedMessages });
+  return c.json({
+    // Attached files are listed in each message's metadata and downloaded
+    // separately, so their inlined data is left out
+    messages: new MessageList({ threadId, resourceId: session.user.id })
+      .add(messages, "memory")
+      .get.all.ui()
+      .map(({ experimental_attachments: _, ...message }) => message),
+    pendingToolApprovals: getPendingToolApprovals(thread),
+    nextCursor: nextBefore ? encodeCursor(nextBefore) : null,
+  });
 });
 
 export default chat;
@@ -0,0 +1,63 @@
+import { Hono } from "hono";
+import { requireAuth, getSession } from "../middleware/auth";
+import { mastra } from "../mastra";
+import { getUserProfile, parseUserProfile, setUserProfile } from "../lib/user-memory";
+
+const memoryRoutes = new Hono();
+
+// Apply auth middleware to all memory routes
+memoryRoutes.use("*", requireAuth);
+
+/**
+ * GET /memory
+ * Get what the assistant remembers about the user across conversations
+ */
+memoryRoutes.get("/", async (c) => {
+  const session = getSession(c);
+
+  const memory = await mastra.getAgent("chatAgent").getMemory();
+  if (!memory) {
+    return c.json({ profile: {} });
+  }
+
+  return c.json({ profile: await getUserProfile(memory, session.user.id) });
+});
+
+/**
+ * PUT /memory
+ * Replace what the assistant remembers about the user. Fields left out
+ * are forgotten.
+ */
+memoryRoutes.put("/", async (c) => {
+  const session = getSession(c);
+  const parsed = parseUserProfile(await c.req.json().catch(() => null));
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+
+  const memory = await mastra.getAgent("chatAgent").getMemory();
+  if (!memory) {
+    return c.json({ error: "Memory not configured" }, 500);
+  }
+
+  await setUserProfile(memory, session.user.id, parsed.profile);
+  return c.json({ profile: parsed.profile });
+});
+
+/**
+ * DELETE /memory
+ * Forget everything the assistant remembers about the user
+ */
+memoryRoutes.delete("/", async (c) => {
+  const session = getSession(c);
+
+  const memory = await mastra.getAgent("chatAgent").getMemory();
+  if (!memory) {
+    return c.json({ error: "Memory not configured" }, 500);
+  }
+
+  await setUserProfile(memory, session.user.id, {});
+  return c.json({ success: true });
+});
+
+export default memoryRoutes;
@@ -0,0 +1,45 @@
+import { Hono } from "hono";
+import { mastra } from "../mastra";
+import { isTrashed } from "../lib/threads";
+import { isShareActive, shareTableStore } from "../lib/shares";
+
+// Public routes: no session is read, so nothing here may depend on who
+// is asking
+const share = new Hono();
+
+/**
+ * GET /share/:shareId
+ * A published snapshot of a conversation. Only the snapshot is returned,
+ * never the owner or anything else about their account.
+ */
+share.get("/:shareId", async (c) => {
+  // Revoking a link must take effect at once
+  c.header("Cache-Control", "no-store");
+
+  const shared = await shareTableStore.get(c.req.param("shareId"));
+  if (!shared || shared.revokedAt) {
+    return c.json({ error: "Share not found" }, 404);
+  }
+  if (!isShareActive(shared)) {
+    return c.json({ error: "This link has expired" }, 410);
+  }
+
+  // Conversations in the trash go offline until they are restored
+  const memory = await mastra.getAgent("chatAgent").getMemory();
+  const thread = await memory?.getThreadById({ threadId: shared.threadId });
+  if (!thread || isTrashed(thread)) {
+    return c.json({ error: "Share not found" }, 404);
+  }
+
+  return c.json({
+    share: {
+      id: shared.id,
+      title: shared.title,
+      messages: shared.messages,
+      expiresAt: shared.expiresAt,
+      createdAt: shared.createdAt,
+    },
+  });
+});
+
+export default share;
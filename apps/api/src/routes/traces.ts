@@ -1,9 +1,17 @@
 import { Hono } from "hono";
 import { requireAuth, getSession } from "../middleware/auth";
 import { storage, mastra } from "../mastra";
+import { isBranchThread, isTrashed } from "../lib/threads";
 
 const traces = new Hono();
 
+// Traces owned by the user in $1. Only root spans carry the memory
+// resourceId (the user ID) in their metadata, so child spans are matched
+// through their traceId.
+const OWNED_TRACE_IDS = `SELECT "traceId" FROM mastra_ai_spans
+  WHERE "parentSpanId" IS NULL
+  AND metadata->>'resourceId' = $1`;
+
 // Apply auth middleware to all traces routes
 traces.use("*", requireAuth);
 
@@ -31,17 +39,23 @@ traces.get("/", async (c) => {
         sortDirection: "DESC",
       });
 
+      // Threads in the trash and hidden branch threads are left out
+      const activeThreads = threads.filter(
+        (thread) => !isTrashed(thread) && !isBranchThread(thread)
+      );
+
       // For each thread, get trace count and latest trace info
       const conversations = await Promise.all(
-        threads.map(async (thread: any) => {
+        activeThreads.map(async (thread: any) => {
           // Get traces for this thread by querying metadata
           const threadTraces = await storage.db.any(
             `SELECT DISTINCT "traceId", "startedAt", "endedAt", metadata, input, output
              FROM mastra_ai_spans 
-             WHERE metadata->>'threadId' = $1
+             WHERE metadata->>'threadId' = $2
+             AND metadata->>'resourceId' = $1
              AND "parentSpanId" IS NULL
              ORDER BY "startedAt" DESC`,
-            [thread.id]
+            [session.user.id, thread.id]
           );
 
           return {
@@ -71,9 +85,10 @@ traces.get("/", async (c) => {
 
     const spans = await storage.db.any(
       `SELECT * FROM mastra_ai_spans 
+       WHERE "traceId" IN (${OWNED_TRACE_IDS})
        ORDER BY "startedAt" DESC 
-       LIMIT $1 OFFSET $2`,
-      [limit, offset]
+       LIMIT $2 OFFSET $3`,
+      [session.user.id, limit, offset]
     );
 
     // Group spans by traceId
@@ -102,7 +117,8 @@ traces.get("/", async (c) => {
 
     const tracesList = Array.from(tracesMap.values());
     const countResult = await storage.db.one(
-      'SELECT COUNT(DISTINCT "traceId") as count FROM mastra_ai_spans'
+      `SELECT COUNT(DISTINCT "traceId") as count FROM (${OWNED_TRACE_IDS}) owned`,
+      [session.user.id]
     );
 
     return c.json({
@@ -121,27 +137,33 @@ traces.get("/", async (c) => {
  * Get all traces for a specific conversation
  */
 traces.get("/conversation/:threadId", async (c) => {
+  const session = getSession(c);
   const { threadId } = c.req.param();
 
   try {
+    // Verify thread belongs to user
+    const agent = mastra.getAgent("chatAgent");
+    const memory = await agent.getMemory();
+    const thread = memory ? await memory.getThreadById({ threadId }) : null;
+
+    if (!thread || thread.resourceId !== session.user.id || isTrashed(thread)) {
+      return c.json({ error: "Conversation not found" }, 404);
+    }
+
     // Get all root spans (traces) for this thread
     const rootSpans = await storage.db.any(
       `SELECT DISTINCT "traceId", "startedAt", "endedAt", metadata, input, output, name
        FROM mastra_ai_spans 
-       WHERE metadata->>'threadId' = $1
+       WHERE metadata->>'threadId' = $2
+       AND metadata->>'resourceId' = $1
        AND "parentSpanId" IS NULL
        ORDER BY "startedAt" ASC`,
-      [threadId]
+      [session.user.id, threadId]
     );
 
-    // Get thread info from Mastra memory
-    const agent = mastra.getAgent("chatAgent");
-    const memory = await agent.getMemory();
-    const thread = memory ? await memory.getThreadById({ threadId }) : null;
-
     return c.json({
       threadId,
-      title: thread?.title || "Untitled Chat",
+      title: thread.title || "Untitled Chat",
       traces: rootSpans.map((s: any) => ({
         traceId: s.traceId,
         name: s.name,
@@ -163,15 +185,18 @@ traces.get("/conversation/:threadId", async (c) => {
  * Get a specific trace by ID with all its spans
  */
 traces.get("/:traceId", async (c) => {
+  const session = getSession(c);
   const { traceId } = c.req.param();
 
   try {
-    // Get all spans for this trace from mastra_ai_spans
+    // Get all spans for this trace from mastra_ai_spans.
+    // Traces belonging to other users are reported as not found.
     const spans = await storage.db.any(
       `SELECT * FROM mastra_ai_spans 
-       WHERE "traceId" = $1 
+       WHERE "traceId" = $2 
+       AND "traceId" IN (${OWNED_TRACE_IDS})
        ORDER BY "startedAt" ASC`,
-      [traceId]
+      [session.user.id, traceId]
     );
 
     if (spans.length === 0) {
@@ -0,0 +1,35 @@
+import { Hono } from "hono";
+import { requireAuth, getSession } from "../middleware/auth";
+import { summarizeUsage, usageTableStore } from "../lib/usage";
+
+// Longest period usage can be summarized over
+const MAX_USAGE_DAYS = 366;
+
+const usage = new Hono();
+
+// Apply auth middleware to all usage routes
+usage.use("*", requireAuth);
+
+/**
+ * GET /usage
+ * Get the user's token usage and cost over the last ?days=30 days, in
+ * total, per day, per week and per model
+ */
+usage.get("/", async (c) => {
+  const session = getSession(c);
+  const days = Number(c.req.query("days") ?? 30);
+
+  if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS) {
+    return c.json({ error: `days must be a whole number from 1 to ${MAX_USAGE_DAYS}` }, 400);
+  }
+
+  // Whole UTC days, counting today
+  const since = new Date();
+  since.setUTCHours(0, 0, 0, 0);
+  since.setUTCDate(since.getUTCDate() - (days - 1));
+
+  const events = await usageTableStore.listSince(session.user.id, since);
+  return c.json({ since: since.toISOString(), ...summarizeUsage(events) });
+});
+
+export default usage;
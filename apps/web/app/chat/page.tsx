@@ -3,15 +3,47 @@
 import { Suspense, useEffect, useRef, useState, useCallback } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useSession } from "@/lib/auth-client";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { SidebarProvider, SidebarTrigger, SidebarInset } from "@/components/ui/sidebar";
 import { ChatSidebar } from "@/components/chat/chat-sidebar";
-import { MessageList, type Message } from "@/components/chat/message-list";
+import {
+  MessageList,
+  type Attachment,
+  type Message,
+  type ThreadBranch,
+} from "@/components/chat/message-list";
 import { MessageInput } from "@/components/chat/message-input";
-import { Sparkles, Menu } from "lucide-react";
+import { ConsentCard, ToolApprovalCard } from "@/components/chat/tool-approval-card";
+import { ThreadSettingsSheet } from "@/components/chat/thread-settings-sheet";
+import { ExportSheet } from "@/components/chat/export-sheet";
+import { ShareSheet } from "@/components/chat/share-sheet";
+import type { Assistant } from "@/components/chat/assistants-sheet";
+import { Button } from "@/components/ui/button";
+import { readChatStream, type ToolApprovalRequest } from "@chatbot/shared/stream";
+import { Sparkles, Menu, SlidersHorizontal, Download, Share2, VenetianMask } from "lucide-react";
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
+// Most earlier turns sent with an incognito message
+const MAX_INCOGNITO_HISTORY = 50;
+
+// A saved message in the AI SDK's UI format
+interface HistoryMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string | { text?: string }[];
+  createdAt?: string;
+  metadata?: { interrupted?: boolean; attachments?: Attachment[] };
+}
+
+interface HistoryPage {
+  // Oldest first
+  messages: HistoryMessage[];
+  pendingToolApprovals: ToolApprovalRequest[];
+  // Cursor for the messages before these, null at the start
+  nextCursor: string | null;
+}
+
 function ChatContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -21,9 +53,27 @@ function ChatContent() {
   const [currentThreadId, setCurrentThreadId] = useState<string | null>(
     searchParams.get("thread")
   );
+  // Message to scroll to, when opened from search
+  const linkedMessageId = searchParams.get("message");
   const [messages, setMessages] = useState<Message[]>([]);
   const [isStreaming, setIsStreaming] = useState(false);
+  // Tool calls waiting for approval that arrived while streaming, and the
+  // ones the user has already answered
+  const [streamedApprovals, setStreamedApprovals] = useState<
+    (ToolApprovalRequest & { threadId: string })[]
+  >([]);
+  const [answeredApprovals, setAnsweredApprovals] = useState<string[]>([]);
+  // Google scope a tool asked the user to grant
+  const [consentScope, setConsentScope] = useState<string | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  // Custom assistant picked for the conversation about to be started
+  const [newChatAssistant, setNewChatAssistant] = useState<Assistant | null>(null);
+  // An incognito conversation only lives in this page; the server keeps none of it
+  const [isIncognito, setIsIncognito] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (!isPending && !session) {
@@ -41,29 +91,81 @@ function ChatContent() {
     }
   }, [searchParams, currentThreadId]);
 
-  const { data: historyData, isLoading: isLoadingHistory } = useQuery({
-    queryKey: ["chat-history", currentThreadId],
+  // Pages of history, the latest first; older pages load on scrolling up
+  const {
+    data: historyData,
+    isLoading: isLoadingHistory,
+    hasNextPage: hasOlderMessages,
+    isFetchingNextPage: isLoadingOlderMessages,
+    fetchNextPage: fetchOlderMessages,
+  } = useInfiniteQuery({
+    queryKey: ["chat-history", currentThreadId, linkedMessageId],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ threadId: currentThreadId! });
+      if (pageParam) {
+        params.set("cursor", pageParam);
+      } else if (linkedMessageId) {
+        params.set("messageId", linkedMessageId);
+      }
+      const res = await fetch(`${API_URL}/chat/history?${params}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to fetch history");
+      return res.json() as Promise<HistoryPage>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!session && !!currentThreadId,
+    staleTime: 0,
+  });
+
+  const handleLoadOlder = useCallback(() => {
+    fetchOlderMessages();
+  }, [fetchOlderMessages]);
+
+  const { data: branchesData } = useQuery({
+    queryKey: ["branches", currentThreadId],
     queryFn: async () => {
-      if (!currentThreadId) return { messages: [] };
       const res = await fetch(
-        `${API_URL}/chat/history?threadId=${currentThreadId}`,
+        `${API_URL}/chat/threads/${currentThreadId}/branches`,
         { credentials: "include" }
       );
-      if (!res.ok) throw new Error("Failed to fetch history");
-      return res.json();
+      if (!res.ok) throw new Error("Failed to fetch branches");
+      return res.json() as Promise<{ branches: ThreadBranch[] }>;
     },
     enabled: !!session && !!currentThreadId,
-    staleTime: 0,
   });
 
+  const pendingApprovals = [
+    ...(historyData?.pages[0]?.pendingToolApprovals ?? []),
+    ...streamedApprovals.filter((approval) => approval.threadId === currentThreadId),
+  ].filter(
+    (approval, index, all) =>
+      !answeredApprovals.includes(approval.toolCallId) &&
+      all.findIndex((a) => a.toolCallId === approval.toolCallId) === index
+  );
+
   // Track if we're in the middle of sending a message to avoid overwriting local state
   const isSendingRef = useRef(false);
+  // Aborts the in-flight stream request; the server then stops the agent
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // ID of the response being streamed, to stop it by
+  const streamIdRef = useRef<string | null>(null);
+
+  // Stop generating when leaving the chat page
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   useEffect(() => {
     // Don't overwrite messages if we're currently sending (to preserve optimistic updates)
-    if (historyData?.messages && !isSendingRef.current) {
+    if (historyData && !isSendingRef.current) {
+      // Older pages come later but go first; a message that moved between
+      // pages while they loaded is kept once
+      const history = [...historyData.pages]
+        .reverse()
+        .flatMap((page) => page.messages)
+        .filter((msg, index, all) => all.findIndex((m) => m.id === msg.id) === index);
       setMessages(
-        historyData.messages.map((msg: any) => ({
+        history.map((msg: any) => ({
           id: msg.id || crypto.randomUUID(),
           role: msg.role,
           content:
@@ -71,32 +173,232 @@ function ChatContent() {
               ? msg.content
               : msg.content?.map((p: any) => p.text || "").join("") || "",
           createdAt: msg.createdAt,
+          interrupted: msg.metadata?.interrupted === true,
+          attachments: msg.metadata?.attachments,
         }))
       );
     }
   }, [historyData]);
 
+  // Follow new and streaming messages, but not older ones loaded above.
+  // A conversation opened from search stays at the message found until
+  // the next reply.
+  const lastMessage = messages[messages.length - 1];
   useEffect(() => {
+    if (linkedMessageId && !isStreaming) return;
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages, isStreaming]);
+  }, [lastMessage?.id, lastMessage?.content, isStreaming, linkedMessageId]);
+
+  // Ask the server to stop the response and keep reading until it has
+  // saved what was generated. Closing the connection stops it too, for
+  // when the request can't reach the instance streaming it.
+  const handleStop = useCallback(async () => {
+    const abortController = abortControllerRef.current;
+    const streamId = streamIdRef.current;
+    const stopped = streamId
+      ? await fetch(`${API_URL}/chat/streams/${streamId}/stop`, {
+          method: "POST",
+          credentials: "include",
+        })
+          .then((response) => response.ok)
+          .catch(() => false)
+      : false;
+    if (!stopped) abortController?.abort();
+  }, []);
 
-  const handleThreadSelect = useCallback((threadId: string) => {
+  const handleThreadSelect = useCallback((threadId: string, messageId?: string) => {
+    abortControllerRef.current?.abort();
     setCurrentThreadId(threadId);
+    setIsIncognito(false);
     setMessages([]);
-    router.push(`/chat?thread=${threadId}`);
+    setConsentScope(null);
+    router.push(`/chat?thread=${threadId}${messageId ? `&message=${messageId}` : ""}`);
   }, [router]);
 
-  const handleNewChat = useCallback(() => {
+  const handleNewChat = useCallback((assistant?: Assistant) => {
+    abortControllerRef.current?.abort();
     setCurrentThreadId(null);
+    setNewChatAssistant(assistant ?? null);
+    setIsIncognito(false);
     setMessages([]);
+    setConsentScope(null);
     router.push("/chat");
   }, [router]);
 
+  // Turning incognito on or off starts over, as incognito messages can't
+  // move into a saved conversation or back
+  const handleToggleIncognito = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setIsIncognito((incognito) => !incognito);
+    setNewChatAssistant(null);
+    setMessages([]);
+    setConsentScope(null);
+  }, []);
+
+  // Stream the assistant's response from the API into the message list.
+  // Incognito responses have no thread.
+  const streamResponse = useCallback(
+    async (url: string, body: Record<string, unknown>, threadId: string | null) => {
+      setIsStreaming(true);
+
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
+      const assistantId = crypto.randomUUID();
+      const updateAssistant = (update: (msg: Message) => Message) =>
+        setMessages((prev) =>
+          prev.map((msg) => (msg.id === assistantId ? update(msg) : msg))
+        );
+
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          // The agent reads and schedules calendar events in the user's zone
+          body: JSON.stringify({
+            ...body,
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          }),
+          signal: abortController.signal,
+        });
+
+        // Sending too fast, or out of tokens for the day
+        if (response.status === 429) {
+          const { error, retryAfter } = await response.json();
+          setMessages((prev) => [
+            ...prev,
+            { id: assistantId, role: "assistant", content: rateLimitMessage(error, retryAfter), createdAt: new Date().toISOString(), localOnly: true },
+          ]);
+          return;
+        }
+
+        if (!response.ok) throw new Error("Failed to send message");
+
+        if (!response.body) throw new Error("Failed to send message");
+
+        setMessages((prev) => [
+          ...prev,
+          { id: assistantId, role: "assistant", content: "", createdAt: new Date().toISOString() },
+        ]);
+
+        for await (const event of readChatStream(response.body)) {
+          switch (event.type) {
+            case "start":
+              streamIdRef.current = event.streamId;
+              break;
+            case "text-delta":
+              updateAssistant((msg) => ({ ...msg, content: msg.content + event.text }));
+              break;
+            case "tool-call":
+              updateAssistant((msg) => ({
+                ...msg,
+                toolCalls: [
+                  ...(msg.toolCalls || []),
+                  { toolCallId: event.toolCallId, toolName: event.toolName, status: "running" },
+                ],
+              }));
+              break;
+            case "tool-result":
+              updateAssistant((msg) => ({
+                ...msg,
+                toolCalls: msg.toolCalls?.map((tool) =>
+                  tool.toolCallId === event.toolCallId
+                    ? { ...tool, status: event.isError ? "error" : "done" }
+                    : tool
+                ),
+              }));
+              break;
+            // The card below the messages stands in for the tool's chip
+            case "tool-approval":
+              updateAssistant((msg) => ({
+                ...msg,
+                toolCalls: msg.toolCalls?.filter(
+                  (tool) => tool.toolCallId !== event.toolCallId
+                ),
+              }));
+              if (threadId) {
+                setStreamedApprovals((prev) => [...prev, { ...event, threadId }]);
+              }
+              break;
+            case "consent-required":
+              setConsentScope(event.scope);
+              break;
+            case "error":
+              updateAssistant((msg) =>
+                msg.content
+                  ? msg
+                  : { ...msg, content: "Sorry, something went wrong.", localOnly: true }
+              );
+              break;
+            // Stopped, and saved before the stream ends
+            case "interrupted":
+              updateAssistant((msg) => ({ ...msg, interrupted: true }));
+              break;
+          }
+        }
+        // Reload the saved messages so they can be edited and regenerated
+        isSendingRef.current = false;
+        if (threadId) {
+          queryClient.invalidateQueries({ queryKey: ["threads"] });
+          queryClient.invalidateQueries({ queryKey: ["chat-history", threadId] });
+          queryClient.invalidateQueries({ queryKey: ["branches", threadId] });
+        }
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          // The server saves what was generated so far as interrupted, but
+          // with the connection gone there's no telling when. The messages
+          // shown are kept until the conversation is next loaded.
+          updateAssistant((msg) => ({ ...msg, interrupted: true }));
+          queryClient.invalidateQueries({ queryKey: ["threads"] });
+        } else {
+          setMessages((prev) => [
+            ...prev,
+            { id: crypto.randomUUID(), role: "assistant", content: "Sorry, something went wrong.", createdAt: new Date().toISOString(), localOnly: true },
+          ]);
+        }
+      } finally {
+        if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null;
+          streamIdRef.current = null;
+        }
+        setIsStreaming(false);
+        isSendingRef.current = false;
+      }
+    },
+    [queryClient]
+  );
+
   const handleSendMessage = useCallback(
-    async (content: string) => {
+    async (content: string, attachments: Attachment[] = []) => {
       if (isStreaming) return;
 
       isSendingRef.current = true;
+      setConsentScope(null);
+      // The server drops approvals left unanswered when the conversation moves on
+      setAnsweredApprovals((prev) => [
+        ...prev,
+        ...pendingApprovals.map((approval) => approval.toolCallId),
+      ]);
+
+      if (isIncognito) {
+        // The earlier turns go with every message, as nothing is saved.
+        // Notices the client showed in place of a response aren't turns
+        const history = messages
+          .filter((msg) => msg.content && !msg.localOnly)
+          .slice(-MAX_INCOGNITO_HISTORY)
+          .map((msg) => ({ role: msg.role, content: msg.content }));
+        setMessages((prev) => [
+          ...prev,
+          { id: crypto.randomUUID(), role: "user", content, createdAt: new Date().toISOString() },
+        ]);
+        await streamResponse(
+          `${API_URL}/chat/stream`,
+          { message: content, incognito: true, history },
+          null
+        );
+        return;
+      }
       
       let threadId = currentThreadId;
       if (!threadId) {
@@ -104,7 +406,10 @@ function ChatContent() {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           credentials: "include",
-          body: JSON.stringify({ title: content.slice(0, 50) }),
+          body: JSON.stringify({
+            title: content.slice(0, 50),
+            assistantId: newChatAssistant?.id,
+          }),
         });
         if (!res.ok) {
           isSendingRef.current = false;
@@ -122,68 +427,95 @@ function ChatContent() {
         role: "user",
         content,
         createdAt: new Date().toISOString(),
+        attachments: attachments.length > 0 ? attachments : undefined,
       };
       setMessages((prev) => [...prev, userMessage]);
-      setIsStreaming(true);
 
-      try {
-        const response = await fetch(`${API_URL}/chat/stream`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          credentials: "include",
-          body: JSON.stringify({ message: content, threadId }),
-        });
+      await streamResponse(
+        `${API_URL}/chat/stream`,
+        {
+          message: content,
+          threadId,
+          attachments: attachments.length > 0 ? attachments.map((a) => a.id) : undefined,
+        },
+        threadId!
+      );
+    },
+    [isStreaming, isIncognito, messages, currentThreadId, newChatAssistant, pendingApprovals, router, queryClient, streamResponse]
+  );
 
-        if (!response.ok) throw new Error("Failed to send message");
+  // Approve or decline a tool call the agent is waiting on; the agent
+  // then carries on with its response
+  const handleToolApproval = useCallback(
+    async (approval: ToolApprovalRequest, approved: boolean) => {
+      if (isStreaming || !currentThreadId) return;
 
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-        let assistantContent = "";
-        const assistantId = crypto.randomUUID();
+      isSendingRef.current = true;
+      setAnsweredApprovals((prev) => [...prev, approval.toolCallId]);
 
-        setMessages((prev) => [
-          ...prev,
-          { id: assistantId, role: "assistant", content: "", createdAt: new Date().toISOString() },
-        ]);
+      await streamResponse(
+        `${API_URL}/chat/threads/${currentThreadId}/tool-approvals/${approval.toolCallId}`,
+        { approved },
+        currentThreadId
+      );
+    },
+    [isStreaming, currentThreadId, streamResponse]
+  );
 
-        while (reader) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          const lines = chunk.split("\n");
-          for (const line of lines) {
-            if (line.startsWith("event:") || !line.trim()) continue;
-            if (line.startsWith("data: ")) {
-              const data = line.slice(6);
-              if (data === "[DONE]") continue;
-              try {
-                const text = JSON.parse(data);
-                if (typeof text === "string" && /^[a-f0-9]{32}$/i.test(text)) continue;
-                assistantContent += text;
-                setMessages((prev) =>
-                  prev.map((msg) =>
-                    msg.id === assistantId ? { ...msg, content: assistantContent } : msg
-                  )
-                );
-              } catch {}
-            }
-          }
-        }
-        queryClient.invalidateQueries({ queryKey: ["threads"] });
-      } catch (error) {
-        setMessages((prev) => [
-          ...prev,
-          { id: crypto.randomUUID(), role: "assistant", content: "Sorry, something went wrong.", createdAt: new Date().toISOString() },
-        ]);
-      } finally {
-        setIsStreaming(false);
-        isSendingRef.current = false;
+  // Send a user message again, edited or not, keeping the old version as a branch.
+  // For an assistant message the reply to the user message before it is regenerated.
+  const handleRegenerate = useCallback(
+    async (messageId: string, content?: string) => {
+      if (isStreaming || !currentThreadId) return;
+
+      let forkIndex = messages.findIndex((msg) => msg.id === messageId);
+      while (forkIndex >= 0 && messages[forkIndex].role !== "user") {
+        forkIndex--;
       }
+      if (forkIndex < 0) return;
+
+      isSendingRef.current = true;
+      setMessages((prev) => [
+        ...prev.slice(0, forkIndex),
+        {
+          id: crypto.randomUUID(),
+          role: "user",
+          content: content ?? prev[forkIndex].content,
+          createdAt: new Date().toISOString(),
+          // The server sends the message's files again
+          attachments: prev[forkIndex].attachments,
+        },
+      ]);
+
+      await streamResponse(
+        `${API_URL}/chat/threads/${currentThreadId}/messages/${messageId}/regenerate`,
+        content === undefined ? {} : { message: content },
+        currentThreadId
+      );
     },
-    [isStreaming, currentThreadId, router, queryClient]
+    [isStreaming, currentThreadId, messages, streamResponse]
   );
 
+  const handleEdit = useCallback(
+    (messageId: string, content: string) => handleRegenerate(messageId, content),
+    [handleRegenerate]
+  );
+
+  const switchBranchMutation = useMutation({
+    mutationFn: async (branchId: string) => {
+      const res = await fetch(
+        `${API_URL}/chat/threads/${currentThreadId}/branches/${branchId}/switch`,
+        { method: "POST", credentials: "include" }
+      );
+      if (!res.ok) throw new Error("Failed to switch branch");
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chat-history", currentThreadId] });
+      queryClient.invalidateQueries({ queryKey: ["branches", currentThreadId] });
+    },
+  });
+
   if (isPending) return <LoadingScreen />;
   if (!session) return null;
 
@@ -203,28 +535,160 @@ function ChatContent() {
             <Menu className="h-5 w-5" />
           </SidebarTrigger>
           <div className="flex items-center gap-2">
-            <div className="h-2 w-2 rounded-full bg-primary animate-pulse" />
-            <h2 className="text-sm font-medium">{currentThreadId ? "Chat" : "New conversation"}</h2>
+            {isIncognito ? (
+              <VenetianMask className="h-4 w-4" />
+            ) : (
+              <div className="h-2 w-2 rounded-full bg-primary animate-pulse" />
+            )}
+            <h2 className="text-sm font-medium">
+              {isIncognito
+                ? "Incognito conversation"
+                : currentThreadId
+                  ? "Chat"
+                  : newChatAssistant?.name ?? "New conversation"}
+            </h2>
           </div>
+          {!currentThreadId && (
+            <Button
+              variant={isIncognito ? "secondary" : "ghost"}
+              size="sm"
+              onClick={handleToggleIncognito}
+              className="ml-auto gap-2"
+            >
+              <VenetianMask className="h-4 w-4" />
+              {isIncognito ? "Leave incognito" : "Incognito"}
+            </Button>
+          )}
+          {currentThreadId && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => setIsShareOpen(true)}
+                className="ml-auto h-8 w-8 text-muted-foreground hover:text-foreground"
+              >
+                <Share2 className="h-4 w-4" />
+                <span className="sr-only">Share conversation</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => setIsExportOpen(true)}
+                className="h-8 w-8 text-muted-foreground hover:text-foreground"
+              >
+                <Download className="h-4 w-4" />
+                <span className="sr-only">Export conversation</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => setIsSettingsOpen(true)}
+                className="h-8 w-8 text-muted-foreground hover:text-foreground"
+              >
+                <SlidersHorizontal className="h-4 w-4" />
+                <span className="sr-only">Conversation settings</span>
+              </Button>
+              <ThreadSettingsSheet
+                threadId={currentThreadId}
+                open={isSettingsOpen}
+                onOpenChange={setIsSettingsOpen}
+              />
+              <ExportSheet
+                threadId={currentThreadId}
+                open={isExportOpen}
+                onOpenChange={setIsExportOpen}
+              />
+              <ShareSheet
+                threadId={currentThreadId}
+                open={isShareOpen}
+                onOpenChange={setIsShareOpen}
+              />
+            </>
+          )}
         </header>
         <main className="flex flex-1 flex-col overflow-hidden">
-          <div className="flex-1 overflow-y-auto scrollbar-thin">
+          {isIncognito && (
+            <div className="flex items-center gap-2 border-b border-dashed bg-muted/50 px-4 py-2 text-xs text-muted-foreground">
+              <VenetianMask className="h-3.5 w-3.5 shrink-0" />
+              Nothing in this conversation is saved, remembered or used in other conversations.
+              It&apos;s gone when you leave or start a new one.
+            </div>
+          )}
+          <div ref={scrollRef} className="flex-1 overflow-y-auto scrollbar-thin">
             {isLoadingHistory && currentThreadId ? (
               <div className="flex items-center justify-center p-8"><LoadingSpinner /></div>
             ) : (
               <>
-                <MessageList messages={messages} isStreaming={isStreaming} userEmail={session.user?.email ?? undefined} userName={session.user?.name ?? undefined} userImage={session.user?.image ?? undefined} />
+                <MessageList
+                  messages={messages}
+                  scrollRef={scrollRef}
+                  hasOlder={hasOlderMessages}
+                  isLoadingOlder={isLoadingOlderMessages}
+                  onLoadOlder={handleLoadOlder}
+                  isStreaming={isStreaming}
+                  userEmail={session.user?.email ?? undefined}
+                  userName={session.user?.name ?? undefined}
+                  userImage={session.user?.image ?? undefined}
+                  branches={branchesData?.branches}
+                  highlightedMessageId={linkedMessageId ?? undefined}
+                  onEdit={handleEdit}
+                  onRegenerate={handleRegenerate}
+                  onSwitchBranch={(branchId) => switchBranchMutation.mutate(branchId)}
+                  starterPrompts={currentThreadId ? undefined : newChatAssistant?.starterPrompts}
+                  onStarterPrompt={handleSendMessage}
+                />
+                {(pendingApprovals.length > 0 || consentScope) && (
+                  <div className="flex flex-col gap-3 px-4 pb-4">
+                    {pendingApprovals.map((approval) => (
+                      <ToolApprovalCard
+                        key={approval.toolCallId}
+                        approval={approval}
+                        disabled={isStreaming}
+                        onRespond={handleToolApproval}
+                      />
+                    ))}
+                    {consentScope && (
+                      <ConsentCard scope={consentScope} onDismiss={() => setConsentScope(null)} />
+                    )}
+                  </div>
+                )}
                 <div ref={messagesEndRef} />
               </>
             )}
           </div>
-          <MessageInput onSend={handleSendMessage} disabled={isStreaming} placeholder={currentThreadId ? "Type your message..." : "Start a new conversation..."} />
+          <MessageInput
+            onSend={handleSendMessage}
+            onStop={handleStop}
+            isStreaming={isStreaming}
+            disabled={isStreaming}
+            allowAttachments={!isIncognito}
+            placeholder={
+              isIncognito
+                ? "Ask anything, nothing is saved..."
+                : currentThreadId
+                  ? "Type your message..."
+                  : "Start a new conversation..."
+            }
+          />
         </main>
       </SidebarInset>
     </SidebarProvider>
   );
 }
 
+// What to tell the user when the API turns a message away with a 429
+function rateLimitMessage(error: string, retryAfter: number): string {
+  if (error === "Daily token quota reached") {
+    const hours = Math.ceil(retryAfter / 3600);
+    return `You've reached today's usage limit. It resets in about ${hours} hour${hours === 1 ? "" : "s"}.`;
+  }
+  if (retryAfter < 60) {
+    return `You're sending messages too quickly. Try again in ${retryAfter} second${retryAfter === 1 ? "" : "s"}.`;
+  }
+  const minutes = Math.ceil(retryAfter / 60);
+  return `You're sending messages too quickly. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+}
+
 function LoadingScreen() {
   return (
     <div className="flex min-h-screen items-center justify-center bg-background">
@@ -0,0 +1,259 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "@/lib/auth-client";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Brain, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ThemeToggle } from "@/components/ui/theme-toggle";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+const MAX_PROFILE_TEXT_LENGTH = 200;
+
+// What the assistant remembers about the user across conversations
+interface UserProfile {
+  name?: string;
+  location?: string;
+  occupation?: string;
+  interests?: string[];
+  preferences?: string[];
+  facts?: string[];
+}
+
+const TEXT_FIELDS = [
+  { field: "name", label: "Name", placeholder: "What you like to be called" },
+  { field: "location", label: "Location", placeholder: "Where you live or work" },
+  { field: "occupation", label: "Occupation", placeholder: "Your job or role" },
+] as const;
+
+const LIST_FIELDS = [
+  { field: "interests", label: "Interests", placeholder: "Add an interest" },
+  { field: "preferences", label: "Preferences", placeholder: "For example: Keep answers short" },
+  { field: "facts", label: "Other facts", placeholder: "Add something to remember" },
+] as const;
+
+export default function SettingsPage() {
+  const router = useRouter();
+  const { data: session, isPending } = useSession();
+
+  useEffect(() => {
+    if (!isPending && !session) router.push("/login");
+  }, [session, isPending, router]);
+
+  const { data } = useQuery({
+    queryKey: ["memory"],
+    queryFn: async () => {
+      const res = await fetch(`${API_URL}/memory`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch memory");
+      return res.json() as Promise<{ profile: UserProfile }>;
+    },
+    enabled: !!session,
+  });
+
+  return (
+    <div className="flex h-screen flex-col bg-background">
+      <header className="flex items-center justify-between border-b bg-background/80 backdrop-blur-sm px-6 py-4 sticky top-0 z-10">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => router.push("/chat")} className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Chat
+          </Button>
+          <div className="h-6 w-px bg-border" />
+          <h1 className="text-lg font-semibold">Settings</h1>
+        </div>
+        <ThemeToggle />
+      </header>
+
+      <main className="flex-1 overflow-y-auto scrollbar-thin p-6">
+        <Card className="mx-auto max-w-2xl">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Brain className="h-5 w-5 text-primary" />
+              What the assistant knows about you
+            </CardTitle>
+            <CardDescription>
+              The assistant keeps these notes as you chat and uses them in every conversation.
+              Change or remove anything here. To keep a conversation out of them, turn off
+              recall in its settings.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {data ? (
+              // Keyed so the form starts over from what was saved
+              <MemoryForm key={JSON.stringify(data.profile)} profile={data.profile} />
+            ) : (
+              <div className="space-y-4">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-10 w-full rounded-lg" />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
+
+function MemoryForm({ profile }: { profile: UserProfile }) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState(profile);
+  const [isConfirmingForget, setIsConfirmingForget] = useState(false);
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: UserProfile) => {
+      const res = await fetch(`${API_URL}/memory`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(next),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Failed to save memory");
+      return data as { profile: UserProfile };
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["memory"], data);
+    },
+  });
+
+  const forgetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`${API_URL}/memory`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to forget memory");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["memory"], { profile: {} });
+    },
+  });
+
+  const isEmpty = Object.keys(profile).length === 0;
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(profile);
+
+  return (
+    <form
+      className="space-y-5"
+      onSubmit={(e) => {
+        e.preventDefault();
+        saveMutation.mutate(draft);
+      }}
+    >
+      {TEXT_FIELDS.map(({ field, label, placeholder }) => (
+        <label key={field} className="block space-y-1.5">
+          <span className="text-sm font-medium">{label}</span>
+          <Input
+            value={draft[field] ?? ""}
+            onChange={(e) => setDraft((current) => ({ ...current, [field]: e.target.value }))}
+            placeholder={placeholder}
+            maxLength={MAX_PROFILE_TEXT_LENGTH}
+          />
+        </label>
+      ))}
+
+      {LIST_FIELDS.map(({ field, label, placeholder }) => (
+        <ListField
+          key={field}
+          label={label}
+          placeholder={placeholder}
+          items={draft[field] ?? []}
+          onChange={(items) => setDraft((current) => ({ ...current, [field]: items }))}
+        />
+      ))}
+
+      {(saveMutation.isError || forgetMutation.isError) && (
+        <p className="text-sm text-destructive">
+          {(saveMutation.error ?? forgetMutation.error)?.message}
+        </p>
+      )}
+
+      <div className="flex items-center justify-between gap-2 border-t pt-4">
+        <Button
+          type="button"
+          variant="ghost"
+          disabled={isEmpty || forgetMutation.isPending}
+          onClick={() => {
+            if (!isConfirmingForget) {
+              setIsConfirmingForget(true);
+              return;
+            }
+            setIsConfirmingForget(false);
+            forgetMutation.mutate();
+          }}
+          onBlur={() => setIsConfirmingForget(false)}
+          className="text-destructive hover:text-destructive"
+        >
+          {isConfirmingForget ? "Click again to forget everything" : "Forget everything"}
+        </Button>
+        <Button type="submit" disabled={!isDirty || saveMutation.isPending}>
+          {saveMutation.isPending ? "Saving..." : "Save"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface ListFieldProps {
+  label: string;
+  placeholder: string;
+  items: string[];
+  onChange: (items: string[]) => void;
+}
+
+function ListField({ label, placeholder, items, onChange }: ListFieldProps) {
+  const [newItem, setNewItem] = useState("");
+
+  const addItem = () => {
+    const item = newItem.trim();
+    if (item && !items.includes(item)) onChange([...items, item]);
+    setNewItem("");
+  };
+
+  return (
+    <fieldset className="space-y-2">
+      <legend className="mb-1.5 text-sm font-medium">{label}</legend>
+      {items.map((item) => (
+        <div
+          key={item}
+          className="flex items-center gap-2 rounded-lg border bg-muted/30 px-3 py-1.5 text-sm"
+        >
+          <span className="flex-1">{item}</span>
+          <button
+            type="button"
+            onClick={() => onChange(items.filter((other) => other !== item))}
+            title="Remove"
+            className="flex h-6 w-6 items-center justify-center rounded-md text-muted-foreground hover:bg-muted hover:text-destructive"
+          >
+            <X className="h-3.5 w-3.5" />
+            <span className="sr-only">Remove</span>
+          </button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Input
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addItem();
+            }
+          }}
+          placeholder={placeholder}
+          maxLength={MAX_PROFILE_TEXT_LENGTH}
+        />
+        <Button type="button" variant="outline" size="icon" onClick={addItem} disabled={!newItem.trim()}>
+          <Plus className="h-4 w-4" />
+          <span className="sr-only">Add</span>
+        </Button>
+      </div>
+    </fieldset>
+  );
+}
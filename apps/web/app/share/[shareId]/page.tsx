@@ -0,0 +1,105 @@
+"use client";
+
+import { useRef } from "react";
+import { useParams } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import { Eye, Link2Off, Sparkles } from "lucide-react";
+import { MessageList, type Message } from "@/components/chat/message-list";
+import { ThemeToggle } from "@/components/ui/theme-toggle";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { SharedMessage } from "@chatbot/shared/types";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+interface SharedSnapshot {
+  id: string;
+  title: string;
+  messages: SharedMessage[];
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+// Why a snapshot couldn't be shown
+class ShareUnavailableError extends Error {}
+
+function toMessage(message: SharedMessage): Message {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.text,
+    createdAt: message.createdAt,
+    interrupted: message.interrupted,
+    toolCalls: message.toolCalls.map((tool, index) => ({
+      toolCallId: `${message.id}-${index}`,
+      toolName: tool.toolName,
+      status: tool.completed ? "done" : "error",
+      output: tool.output,
+    })),
+  };
+}
+
+export default function SharePage() {
+  const { shareId } = useParams<{ shareId: string }>();
+  const scrollRef = useRef<HTMLElement>(null);
+
+  // Public link: no session is sent
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["share", shareId],
+    queryFn: async () => {
+      const res = await fetch(`${API_URL}/share/${shareId}`);
+      if (res.status === 410) {
+        throw new ShareUnavailableError("This link has expired.");
+      }
+      if (!res.ok) {
+        throw new ShareUnavailableError("This link doesn't exist or was turned off by its owner.");
+      }
+      const body = await res.json();
+      return body.share as SharedSnapshot;
+    },
+    retry: false,
+  });
+
+  return (
+    <div className="flex h-screen flex-col bg-background">
+      <header className="flex h-14 shrink-0 items-center gap-3 border-b bg-background/80 px-4 backdrop-blur-sm">
+        <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-primary">
+          <Sparkles className="h-4 w-4 text-primary-foreground" />
+        </div>
+        <div className="min-w-0 flex-1">
+          <h1 className="truncate text-sm font-medium">{data?.title ?? "Shared conversation"}</h1>
+          {data && (
+            <p className="flex items-center gap-1 text-[11px] text-muted-foreground">
+              <Eye className="h-3 w-3" />
+              Read-only snapshot from{" "}
+              {new Date(data.createdAt).toLocaleDateString([], { dateStyle: "medium" })}
+            </p>
+          )}
+        </div>
+        <ThemeToggle />
+      </header>
+
+      <main ref={scrollRef} className="flex flex-1 flex-col overflow-y-auto scrollbar-thin">
+        <div className="mx-auto flex w-full max-w-4xl flex-1 flex-col">
+          {isLoading ? (
+            <div className="space-y-3 p-4">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-16 w-full rounded-2xl" />
+              ))}
+            </div>
+          ) : error || !data ? (
+            <div className="flex flex-1 flex-col items-center justify-center gap-2 p-8 text-center">
+              <Link2Off className="h-10 w-10 text-muted-foreground/50" />
+              <p className="text-sm text-muted-foreground">
+                {error instanceof ShareUnavailableError
+                  ? error.message
+                  : "Something went wrong loading this conversation."}
+              </p>
+            </div>
+          ) : (
+            <MessageList messages={data.messages.map(toMessage)} scrollRef={scrollRef} />
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Bot, MessageSquarePlus, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TOOL_NAMES, type ModelOption } from "@/components/chat/thread-settings-sheet";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+const MAX_INSTRUCTIONS_LENGTH = 4000;
+const MAX_STARTER_PROMPTS = 4;
+
+export interface Assistant {
+  id: string;
+  name: string;
+  instructions: string;
+  tools: string[];
+  model: string | null;
+  starterPrompts: string[];
+}
+
+interface AssistantsSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onStart: (assistant: Assistant) => void;
+}
+
+export function AssistantsSheet({ open, onOpenChange, onStart }: AssistantsSheetProps) {
+  const queryClient = useQueryClient();
+  // The assistant being edited, or "new" while one is being created
+  const [editing, setEditing] = useState<Assistant | "new" | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["assistants"],
+    queryFn: async () => {
+      const res = await fetch(`${API_URL}/assistants`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to fetch assistants");
+      return res.json() as Promise<{ assistants: Assistant[]; tools: string[] }>;
+    },
+    enabled: open,
+  });
+
+  const { data: modelsData } = useQuery({
+    queryKey: ["models"],
+    queryFn: async () => {
+      const res = await fetch(`${API_URL}/chat/models`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to fetch models");
+      return res.json() as Promise<{ models: ModelOption[]; defaultModel: string }>;
+    },
+    enabled: open,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (assistantId: string) => {
+      const res = await fetch(`${API_URL}/assistants/${assistantId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to delete assistant");
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["assistants"] });
+    },
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setEditing(null);
+    onOpenChange(next);
+  };
+
+  const assistants = data?.assistants || [];
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetContent side="left" className="gap-0">
+        <SheetHeader className="border-b">
+          <SheetTitle>
+            {editing === "new" ? "New assistant" : editing ? "Edit assistant" : "Assistants"}
+          </SheetTitle>
+          <SheetDescription>
+            Assistants answer with their own instructions, tools and model.
+          </SheetDescription>
+        </SheetHeader>
+
+        {editing && data && modelsData ? (
+          <AssistantForm
+            key={editing === "new" ? "new" : editing.id}
+            assistant={editing === "new" ? null : editing}
+            tools={data.tools}
+            models={modelsData.models}
+            defaultModel={modelsData.defaultModel}
+            onDone={() => setEditing(null)}
+          />
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto scrollbar-thin p-2">
+              {isLoading ? (
+                <div className="space-y-2 p-2">
+                  {[1, 2, 3].map((i) => (
+                    <Skeleton key={i} className="h-12 w-full rounded-lg" />
+                  ))}
+                </div>
+              ) : assistants.length === 0 ? (
+                <div className="flex flex-col items-center justify-center gap-2 p-8 text-center">
+                  <Bot className="h-10 w-10 text-muted-foreground/50" />
+                  <p className="text-sm text-muted-foreground">No assistants yet</p>
+                </div>
+              ) : (
+                assistants.map((assistant) => (
+                  <div
+                    key={assistant.id}
+                    className="flex items-center gap-3 rounded-lg p-2 hover:bg-accent transition-colors"
+                  >
+                    <Bot className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate">{assistant.name}</p>
+                      <p className="text-[11px] text-muted-foreground truncate">
+                        {assistant.instructions}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => {
+                        handleOpenChange(false);
+                        onStart(assistant);
+                      }}
+                      className="h-8 w-8 shrink-0 text-muted-foreground hover:text-foreground"
+                    >
+                      <MessageSquarePlus className="h-4 w-4" />
+                      <span className="sr-only">Start a conversation</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => setEditing(assistant)}
+                      className="h-8 w-8 shrink-0 text-muted-foreground hover:text-foreground"
+                    >
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Edit</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => deleteMutation.mutate(assistant.id)}
+                      disabled={deleteMutation.isPending}
+                      className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete</span>
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+            <SheetFooter className="border-t">
+              <Button onClick={() => setEditing("new")} disabled={!data || !modelsData}>
+                <Plus className="h-4 w-4" />
+                New assistant
+              </Button>
+            </SheetFooter>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+interface AssistantFormProps {
+  assistant: Assistant | null;
+  tools: string[];
+  models: ModelOption[];
+  defaultModel: string;
+  onDone: () => void;
+}
+
+function AssistantForm({ assistant, tools, models, defaultModel, onDone }: AssistantFormProps) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(assistant?.name ?? "");
+  const [instructions, setInstructions] = useState(assistant?.instructions ?? "");
+  const [model, setModel] = useState(assistant?.model ?? "");
+  const [enabledTools, setEnabledTools] = useState(assistant?.tools ?? tools);
+  // One starter prompt per line
+  const [starterPrompts, setStarterPrompts] = useState(
+    assistant?.starterPrompts.join("\n") ?? ""
+  );
+
+  const prompts = starterPrompts
+    .split("\n")
+    .map((prompt) => prompt.trim())
+    .filter(Boolean);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(
+        assistant ? `${API_URL}/assistants/${assistant.id}` : `${API_URL}/assistants`,
+        {
+          method: assistant ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({
+            name,
+            instructions,
+            model: model || null,
+            tools: enabledTools,
+            starterPrompts: prompts,
+          }),
+        }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Failed to save assistant");
+      return data as { assistant: Assistant };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["assistants"] });
+      onDone();
+    },
+  });
+
+  const toggleTool = (tool: string) => {
+    setEnabledTools((current) =>
+      current.includes(tool)
+        ? current.filter((item) => item !== tool)
+        : [...current, tool]
+    );
+  };
+
+  return (
+    <form
+      className="flex flex-1 flex-col overflow-hidden"
+      onSubmit={(e) => {
+        e.preventDefault();
+        saveMutation.mutate();
+      }}
+    >
+      <div className="flex-1 space-y-5 overflow-y-auto scrollbar-thin p-4">
+        <label className="block space-y-1.5">
+          <span className="text-sm font-medium">Name</span>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={80}
+            placeholder="For example: Inbox Helper"
+            required
+          />
+        </label>
+
+        <label className="block space-y-1.5">
+          <span className="text-sm font-medium">Instructions</span>
+          <textarea
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            maxLength={MAX_INSTRUCTIONS_LENGTH}
+            rows={6}
+            required
+            placeholder="For example: Triage my inbox and draft short, friendly replies."
+            className="border-input w-full resize-none rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] dark:bg-input/30"
+          />
+        </label>
+
+        <label className="block space-y-1.5">
+          <span className="text-sm font-medium">Model</span>
+          <select
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            className="border-input h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] dark:bg-input/30"
+          >
+            <option value="">Default ({defaultModel})</option>
+            {models.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.id}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block space-y-1.5">
+          <span className="text-sm font-medium">Starter prompts</span>
+          <textarea
+            value={starterPrompts}
+            onChange={(e) => setStarterPrompts(e.target.value)}
+            rows={3}
+            placeholder="One per line, for example: What needs a reply today?"
+            aria-invalid={prompts.length > MAX_STARTER_PROMPTS}
+            className="border-input w-full resize-none rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] aria-invalid:border-destructive dark:bg-input/30"
+          />
+          <span className="block text-[11px] text-muted-foreground">
+            Up to {MAX_STARTER_PROMPTS}, shown when a conversation starts.
+          </span>
+        </label>
+
+        <fieldset className="space-y-2">
+          <legend className="mb-1.5 text-sm font-medium">Tools</legend>
+          {tools.map((tool) => (
+            <label key={tool} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={enabledTools.includes(tool)}
+                onChange={() => toggleTool(tool)}
+                className="h-4 w-4 accent-primary"
+              />
+              {TOOL_NAMES[tool] || tool}
+            </label>
+          ))}
+        </fieldset>
+
+        {saveMutation.isError && (
+          <p className="text-sm text-destructive">{saveMutation.error.message}</p>
+        )}
+      </div>
+
+      <SheetFooter className="flex-row border-t">
+        <Button type="button" variant="ghost" onClick={onDone}>
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </Button>
+        <Button
+          type="submit"
+          className="flex-1"
+          disabled={prompts.length > MAX_STARTER_PROMPTS || saveMutation.isPending}
+        >
+          {saveMutation.isPending ? "Saving..." : "Save"}
+        </Button>
+      </SheetFooter>
+    </form>
+  );
+}
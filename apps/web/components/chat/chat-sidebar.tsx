@@ -1,8 +1,9 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useVirtualizer } from "@tanstack/react-virtual";
 import { 
   Plus, 
   MessageSquare, 
@@ -10,7 +11,18 @@ import {
   BarChart3, 
   LogOut, 
   Search,
-  Sparkles
+  Sparkles,
+  Bot,
+  Coins,
+  Download,
+  Upload,
+  Pin,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  ChevronRight,
+  Loader2,
+  Settings
 } from "lucide-react";
 import { signOut } from "@/lib/auth-client";
 import { Button } from "@/components/ui/button";
@@ -21,31 +33,56 @@ import {
   SidebarContent,
   SidebarFooter,
   SidebarGroup,
+  SidebarGroupAction,
   SidebarGroupContent,
   SidebarGroupLabel,
   SidebarHeader,
   SidebarMenu,
   SidebarMenuButton,
   SidebarMenuItem,
-  SidebarMenuAction,
   SidebarSeparator,
 } from "@/components/ui/sidebar";
 import { Skeleton } from "@/components/ui/skeleton";
+import { TrashSheet } from "@/components/chat/trash-sheet";
+import { AssistantsSheet, type Assistant } from "@/components/chat/assistants-sheet";
+import { UsageSheet } from "@/components/chat/usage-sheet";
+import { ExportSheet } from "@/components/chat/export-sheet";
+import { ImportSheet } from "@/components/chat/import-sheet";
+import { SearchResults } from "@/components/chat/search-results";
+import {
+  ThreadDropZone,
+  ThreadListItem,
+  type Thread,
+  type ThreadPatch,
+} from "@/components/chat/thread-list-item";
 import { cn } from "@/lib/utils";
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
-interface Thread {
-  id: string;
-  title: string;
-  createdAt: string;
-  updatedAt: string;
+const groupLabelClassName =
+  "px-4 text-[11px] font-medium uppercase tracking-wider text-muted-foreground/70";
+
+// Fetch the next page of threads when this close to the end of the list
+const LOAD_MORE_THRESHOLD = 10;
+
+// A page of the thread list; the first also has every pinned thread and
+// folder, wherever their threads are paged
+interface ThreadPage {
+  threads: Thread[];
+  nextCursor: string | null;
+  pinned?: Thread[];
+  folders?: string[];
 }
 
+// A date heading or a thread in the virtualized list of unfiled threads
+type ThreadRow = { type: "label"; group: string } | { type: "thread"; thread: Thread };
+
 interface ChatSidebarProps {
   currentThreadId: string | null;
-  onThreadSelect: (threadId: string) => void;
-  onNewChat: () => void;
+  // Open a conversation, at a message when picked from search results
+  onThreadSelect: (threadId: string, messageId?: string) => void;
+  // Start a conversation, with a custom assistant if one was picked
+  onNewChat: (assistant?: Assistant) => void;
   userEmail?: string;
   userName?: string;
   userImage?: string;
@@ -63,17 +100,46 @@ export function ChatSidebar({
   const queryClient = useQueryClient();
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
+  // Search runs once typing pauses
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isAssistantsOpen, setIsAssistantsOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isCreatingFolder, setIsCreatingFolder] = useState(false);
+  const [newFolders, setNewFolders] = useState<string[]>([]);
+  const [collapsedFolders, setCollapsedFolders] = useState<string[]>([]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  // How far down the scroll area the virtualized list starts
+  const [listOffset, setListOffset] = useState(0);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
 
-  // Fetch threads
-  const { data: threadsData, isLoading } = useQuery({
+  // Fetch threads a page at a time, most recently updated first
+  const {
+    data: threadsData,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteQuery({
     queryKey: ["threads"],
-    queryFn: async () => {
-      const res = await fetch(`${API_URL}/chat/threads`, {
+    queryFn: async ({ pageParam }) => {
+      const params = pageParam ? `?cursor=${encodeURIComponent(pageParam)}` : "";
+      const res = await fetch(`${API_URL}/chat/threads${params}`, {
         credentials: "include",
       });
       if (!res.ok) throw new Error("Failed to fetch threads");
-      return res.json() as Promise<{ threads: Thread[] }>;
+      return res.json() as Promise<ThreadPage>;
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
 
   // Delete thread mutation
@@ -88,6 +154,7 @@ export function ChatSidebar({
     },
     onSuccess: (_, deletedThreadId) => {
       queryClient.invalidateQueries({ queryKey: ["threads"] });
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
       if (deletedThreadId === currentThreadId) {
         onNewChat();
       }
@@ -97,12 +164,39 @@ export function ChatSidebar({
     },
   });
 
-  const handleDelete = (e: React.MouseEvent, threadId: string) => {
-    e.stopPropagation();
+  const handleDelete = (threadId: string) => {
     setDeletingId(threadId);
     deleteMutation.mutate(threadId);
   };
 
+  // Rename, pin, archive or move a thread
+  const updateMutation = useMutation({
+    mutationFn: async ({ threadId, patch }: { threadId: string; patch: ThreadPatch }) => {
+      const res = await fetch(`${API_URL}/chat/threads/${threadId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(patch),
+      });
+      if (!res.ok) throw new Error("Failed to update thread");
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["threads"] });
+    },
+  });
+
+  const updateThread = (threadId: string, patch: ThreadPatch) =>
+    updateMutation.mutate({ threadId, patch });
+
+  // Folders exist while a thread is in them; new ones are kept here until
+  // the first thread is dropped in
+  const createFolder = (name: string) => {
+    setIsCreatingFolder(false);
+    const folder = name.trim();
+    if (folder) setNewFolders((folders) => [...folders, folder]);
+  };
+
   const handleSignOut = async () => {
     await signOut({
       fetchOptions: {
@@ -113,13 +207,99 @@ export function ChatSidebar({
     });
   };
 
-  const threads = threadsData?.threads || [];
-  const filteredThreads = threads.filter((thread) =>
-    thread.title?.toLowerCase().includes(searchQuery.toLowerCase())
+  // A thread updated while paging moves up and can show up on two pages,
+  // and pinned threads come with the first page as well as their own
+  const pages = threadsData?.pages ?? [];
+  const threads = [
+    ...new Map(
+      [...(pages[0]?.pinned ?? []), ...pages.flatMap((page) => page.threads)].map((thread) => [
+        thread.id,
+        thread,
+      ])
+    ).values(),
+  ];
+  const activeThreads = threads.filter((thread) => !thread.archivedAt);
+  const pinnedThreads = activeThreads
+    .filter((thread) => thread.pinnedAt)
+    .sort((a, b) => b.pinnedAt!.localeCompare(a.pinnedAt!));
+  const unpinnedThreads = activeThreads.filter((thread) => !thread.pinnedAt);
+  const archivedThreads = threads
+    .filter((thread) => thread.archivedAt)
+    .sort((a, b) => b.archivedAt!.localeCompare(a.archivedAt!));
+  const folders = [
+    ...new Set([
+      ...(pages[0]?.folders ?? []),
+      ...threads.flatMap((thread) => (thread.folder ? [thread.folder] : [])),
+      ...newFolders,
+    ]),
+  ].sort((a, b) => a.localeCompare(b));
+
+  // Group threads outside folders by date
+  const groupedThreads = groupThreadsByDate(
+    unpinnedThreads.filter((thread) => !thread.folder)
   );
+  const rows: ThreadRow[] = Object.entries(groupedThreads).flatMap(([group, groupThreads]) => [
+    { type: "label" as const, group },
+    ...groupThreads.map((thread) => ({ type: "thread" as const, thread })),
+  ]);
 
-  // Group threads by date
-  const groupedThreads = groupThreadsByDate(filteredThreads);
+  // The React Compiler isn't enabled, so nothing memoizes the virtualizer
+  // eslint-disable-next-line react-hooks/incompatible-library
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: (index) => (rows[index].type === "label" ? 32 : 36),
+    overscan: 10,
+    scrollMargin: listOffset,
+    getItemKey: (index) => {
+      const row = rows[index];
+      return row.type === "label" ? `label:${row.group}` : row.thread.id;
+    },
+  });
+
+  // Pinned threads and folders above the list change where it starts
+  const sectionsAboveRef = useCallback((sections: HTMLDivElement | null) => {
+    if (!sections) return;
+    const observer = new ResizeObserver(() => {
+      const scrollElement = scrollRef.current;
+      const list = listRef.current;
+      if (!scrollElement || !list) return;
+      setListOffset(
+        list.getBoundingClientRect().top -
+          scrollElement.getBoundingClientRect().top +
+          scrollElement.scrollTop
+      );
+    });
+    observer.observe(sections);
+    return () => observer.disconnect();
+  }, []);
+
+  // Load older threads as the end of the list scrolls into view
+  const virtualRows = virtualizer.getVirtualItems();
+  const lastVisibleIndex = virtualRows[virtualRows.length - 1]?.index ?? -1;
+  useEffect(() => {
+    if (
+      hasNextPage &&
+      !isFetchingNextPage &&
+      lastVisibleIndex >= rows.length - LOAD_MORE_THRESHOLD
+    ) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, lastVisibleIndex, rows.length, fetchNextPage]);
+
+  const renderThread = (thread: Thread) => (
+    <ThreadListItem
+      key={thread.id}
+      thread={thread}
+      isActive={thread.id === currentThreadId}
+      isDeleting={deletingId === thread.id}
+      onSelect={() => onThreadSelect(thread.id)}
+      onUpdate={(patch) => updateThread(thread.id, patch)}
+      onDelete={() => handleDelete(thread.id)}
+    />
+  );
+
+  const renderThreads = (list: Thread[]) => <SidebarMenu>{list.map(renderThread)}</SidebarMenu>;
 
   return (
     <Sidebar className="border-r border-sidebar-border">
@@ -134,14 +314,30 @@ export function ChatSidebar({
           </div>
         </div>
 
-        {/* New chat button */}
-        <Button 
-          onClick={onNewChat} 
-          className="w-full justify-start gap-2 bg-primary text-primary-foreground shadow-md hover:shadow-lg transition-all"
-        >
-          <Plus className="h-4 w-4" />
-          New conversation
-        </Button>
+        {/* New chat button, and the assistants to start one with */}
+        <div className="flex gap-2">
+          <Button 
+            onClick={() => onNewChat()} 
+            className="flex-1 justify-start gap-2 bg-primary text-primary-foreground shadow-md hover:shadow-lg transition-all"
+          >
+            <Plus className="h-4 w-4" />
+            New conversation
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setIsAssistantsOpen(true)}
+            className="shrink-0"
+          >
+            <Bot className="h-4 w-4" />
+            <span className="sr-only">Start with an assistant</span>
+          </Button>
+        </div>
+        <AssistantsSheet
+          open={isAssistantsOpen}
+          onOpenChange={setIsAssistantsOpen}
+          onStart={onNewChat}
+        />
 
         {/* Search */}
         <div className="relative mt-3">
@@ -156,68 +352,157 @@ export function ChatSidebar({
         </div>
       </SidebarHeader>
 
-      <SidebarContent className="scrollbar-thin">
-        {isLoading ? (
+      <SidebarContent ref={scrollRef} className="scrollbar-thin">
+        {searchQuery.trim() ? (
+          debouncedQuery && (
+            <SearchResults query={debouncedQuery} onSelect={onThreadSelect} />
+          )
+        ) : isLoading ? (
           <div className="space-y-2 p-4">
             {[1, 2, 3, 4, 5].map((i) => (
               <Skeleton key={i} className="h-12 w-full rounded-lg" />
             ))}
           </div>
-        ) : filteredThreads.length === 0 ? (
+        ) : threads.length === 0 ? (
           <div className="flex flex-col items-center justify-center gap-2 p-8 text-center">
             <MessageSquare className="h-10 w-10 text-muted-foreground/50" />
-            <p className="text-sm text-muted-foreground">
-              {searchQuery ? "No matching conversations" : "No conversations yet"}
+            <p className="text-sm text-muted-foreground">No conversations yet</p>
+            <p className="text-xs text-muted-foreground/70">
+              Start a new chat to begin
             </p>
-            {!searchQuery && (
-              <p className="text-xs text-muted-foreground/70">
-                Start a new chat to begin
-              </p>
-            )}
           </div>
         ) : (
-          Object.entries(groupedThreads).map(([group, groupThreads]) => (
-            <SidebarGroup key={group}>
-              <SidebarGroupLabel className="px-4 text-[11px] font-medium uppercase tracking-wider text-muted-foreground/70">
-                {group}
-              </SidebarGroupLabel>
-              <SidebarGroupContent>
-                <SidebarMenu>
-                  {groupThreads.map((thread) => (
-                    <SidebarMenuItem key={thread.id}>
-                      <SidebarMenuButton
-                        onClick={() => onThreadSelect(thread.id)}
-                        isActive={thread.id === currentThreadId}
-                        className={cn(
-                          "group relative mx-2 rounded-lg transition-all",
-                          thread.id === currentThreadId && "bg-sidebar-accent"
-                        )}
-                      >
-                        <MessageSquare className="h-4 w-4 shrink-0 text-muted-foreground" />
-                        <span className="truncate">{thread.title || "New Chat"}</span>
-                        {thread.id === currentThreadId && (
-                          <div className="absolute left-0 top-1/2 h-6 w-1 -translate-y-1/2 rounded-r-full bg-primary" />
-                        )}
-                      </SidebarMenuButton>
-                      <SidebarMenuAction
-                        onClick={(e) => handleDelete(e, thread.id)}
-                        disabled={deletingId === thread.id}
-                        className="opacity-0 group-hover:opacity-100 transition-opacity"
+          <>
+            <div ref={sectionsAboveRef} className="flex flex-col gap-2">
+              {pinnedThreads.length > 0 && (
+                <ThreadDropZone onDropThread={(threadId) => updateThread(threadId, { pinned: true })}>
+                  <SidebarGroup>
+                    <SidebarGroupLabel className={groupLabelClassName}>
+                      <Pin className="mr-1.5 h-3 w-3" />
+                      Pinned
+                    </SidebarGroupLabel>
+                    <SidebarGroupContent>{renderThreads(pinnedThreads)}</SidebarGroupContent>
+                  </SidebarGroup>
+                </ThreadDropZone>
+              )}
+
+              <SidebarGroup>
+                <SidebarGroupLabel className={groupLabelClassName}>Folders</SidebarGroupLabel>
+                <SidebarGroupAction onClick={() => setIsCreatingFolder(true)} title="New folder">
+                  <FolderPlus className="text-muted-foreground" />
+                  <span className="sr-only">New folder</span>
+                </SidebarGroupAction>
+                <SidebarGroupContent>
+                  {isCreatingFolder && (
+                    <input
+                      autoFocus
+                      placeholder="Folder name"
+                      maxLength={50}
+                      onBlur={(e) => createFolder(e.currentTarget.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") createFolder(e.currentTarget.value);
+                        if (e.key === "Escape") setIsCreatingFolder(false);
+                      }}
+                      className="mx-2 mb-1 h-8 w-[calc(100%-1rem)] rounded-lg border border-primary/50 bg-sidebar px-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary/20"
+                    />
+                  )}
+                  {folders.map((folder) => {
+                    const isCollapsed = collapsedFolders.includes(folder);
+                    const folderThreads = unpinnedThreads.filter((thread) => thread.folder === folder);
+                    return (
+                      <ThreadDropZone
+                        key={folder}
+                        onDropThread={(threadId) => updateThread(threadId, { folder })}
+                        className="mx-1"
                       >
-                        <Trash2
-                          className={cn(
-                            "h-4 w-4 text-muted-foreground hover:text-destructive",
-                            deletingId === thread.id && "animate-spin"
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setCollapsedFolders((collapsed) =>
+                              isCollapsed
+                                ? collapsed.filter((name) => name !== folder)
+                                : [...collapsed, folder]
+                            )
+                          }
+                          className="flex w-full items-center gap-2 rounded-lg px-3 py-1.5 text-sm hover:bg-sidebar-accent transition-colors"
+                        >
+                          {isCollapsed ? (
+                            <Folder className="h-4 w-4 shrink-0 text-muted-foreground" />
+                          ) : (
+                            <FolderOpen className="h-4 w-4 shrink-0 text-muted-foreground" />
                           )}
-                        />
-                        <span className="sr-only">Delete</span>
-                      </SidebarMenuAction>
-                    </SidebarMenuItem>
-                  ))}
-                </SidebarMenu>
-              </SidebarGroupContent>
-            </SidebarGroup>
-          ))
+                          <span className="flex-1 truncate text-left">{folder}</span>
+                          <span className="text-[11px] text-muted-foreground">{folderThreads.length}</span>
+                        </button>
+                        {!isCollapsed && folderThreads.length > 0 && (
+                          <div className="pl-3">{renderThreads(folderThreads)}</div>
+                        )}
+                      </ThreadDropZone>
+                    );
+                  })}
+                </SidebarGroupContent>
+              </SidebarGroup>
+            </div>
+
+            {/* Dropping a thread here takes it out of its folder. Only the
+                rows in view are rendered. */}
+            <ThreadDropZone
+              onDropThread={(threadId) => updateThread(threadId, { folder: null })}
+              className="min-h-8 shrink-0"
+            >
+              <div
+                ref={listRef}
+                className="relative px-2"
+                style={{ height: virtualizer.getTotalSize() }}
+              >
+                {virtualRows.map((virtualRow) => {
+                  const row = rows[virtualRow.index];
+                  return (
+                    <div
+                      key={virtualRow.key}
+                      data-index={virtualRow.index}
+                      ref={virtualizer.measureElement}
+                      className="absolute left-0 top-0 w-full"
+                      style={{
+                        transform: `translateY(${virtualRow.start - virtualizer.options.scrollMargin}px)`,
+                      }}
+                    >
+                      {row.type === "label" ? (
+                        <SidebarGroupLabel className={cn(groupLabelClassName, "mt-2")}>
+                          {row.group}
+                        </SidebarGroupLabel>
+                      ) : (
+                        <SidebarMenu>{renderThread(row.thread)}</SidebarMenu>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              {isFetchingNextPage && (
+                <div className="flex justify-center py-2">
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                </div>
+              )}
+            </ThreadDropZone>
+
+            {archivedThreads.length > 0 && (
+              <SidebarGroup>
+                <button
+                  type="button"
+                  onClick={() => setIsArchiveOpen((open) => !open)}
+                  className="flex items-center gap-1.5 px-4 py-1.5 text-[11px] font-medium uppercase tracking-wider text-muted-foreground/70 hover:text-foreground"
+                >
+                  <ChevronRight
+                    className={cn("h-3 w-3 transition-transform", isArchiveOpen && "rotate-90")}
+                  />
+                  Archived ({archivedThreads.length})
+                </button>
+                {isArchiveOpen && (
+                  <SidebarGroupContent>{renderThreads(archivedThreads)}</SidebarGroupContent>
+                )}
+              </SidebarGroup>
+            )}
+          </>
         )}
       </SidebarContent>
 
@@ -232,7 +517,56 @@ export function ChatSidebar({
               <span>View Traces</span>
             </SidebarMenuButton>
           </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton 
+              onClick={() => setIsUsageOpen(true)}
+              className="mx-2 rounded-lg"
+            >
+              <Coins className="h-4 w-4 text-muted-foreground" />
+              <span>Usage</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton 
+              onClick={() => setIsExportOpen(true)}
+              className="mx-2 rounded-lg"
+            >
+              <Download className="h-4 w-4 text-muted-foreground" />
+              <span>Export</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton 
+              onClick={() => setIsImportOpen(true)}
+              className="mx-2 rounded-lg"
+            >
+              <Upload className="h-4 w-4 text-muted-foreground" />
+              <span>Import</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton 
+              onClick={() => setIsTrashOpen(true)}
+              className="mx-2 rounded-lg"
+            >
+              <Trash2 className="h-4 w-4 text-muted-foreground" />
+              <span>Trash</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton 
+              onClick={() => router.push("/settings")}
+              className="mx-2 rounded-lg"
+            >
+              <Settings className="h-4 w-4 text-muted-foreground" />
+              <span>Settings</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
         </SidebarMenu>
+        <TrashSheet open={isTrashOpen} onOpenChange={setIsTrashOpen} />
+        <UsageSheet open={isUsageOpen} onOpenChange={setIsUsageOpen} />
+        <ExportSheet threadId={null} open={isExportOpen} onOpenChange={setIsExportOpen} />
+        <ImportSheet open={isImportOpen} onOpenChange={setIsImportOpen} />
         
         <SidebarSeparator className="my-2" />
         
@@ -0,0 +1,89 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import { FileCode, FileJson, FileText, FileType } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+const FORMATS = [
+  { id: "md", label: "Markdown", icon: FileText },
+  { id: "pdf", label: "PDF", icon: FileType },
+  { id: "html", label: "HTML", icon: FileCode },
+  { id: "json", label: "JSON", icon: FileJson },
+];
+
+interface ExportSheetProps {
+  // Conversation to export, or null for every conversation as a zip
+  threadId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ExportSheet({ threadId, open, onOpenChange }: ExportSheetProps) {
+  const exportMutation = useMutation({
+    mutationFn: async (format: string) => {
+      const params = new URLSearchParams({
+        format,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      const url = threadId
+        ? `${API_URL}/chat/threads/${threadId}/export?${params}`
+        : `${API_URL}/chat/export?${params}`;
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to export");
+
+      // Save the file under the name the API gives it
+      const fileName =
+        res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ??
+        `conversation.${format}`;
+      const link = document.createElement("a");
+      link.href = URL.createObjectURL(await res.blob());
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    },
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side={threadId ? "right" : "left"} className="gap-0">
+        <SheetHeader className="border-b">
+          <SheetTitle>{threadId ? "Export conversation" : "Export all conversations"}</SheetTitle>
+          <SheetDescription>
+            {threadId
+              ? "Download this conversation with its timestamps and tool calls."
+              : "Download every conversation outside the trash as a zip archive."}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-2 p-4">
+          {FORMATS.map(({ id, label, icon: Icon }) => (
+            <Button
+              key={id}
+              variant="outline"
+              className="w-full justify-start"
+              disabled={exportMutation.isPending}
+              onClick={() => exportMutation.mutate(id)}
+            >
+              <Icon className="h-4 w-4" />
+              {exportMutation.isPending && exportMutation.variables === id
+                ? "Preparing…"
+                : label}
+            </Button>
+          ))}
+          {exportMutation.isError && (
+            <p className="text-sm text-destructive">The export failed. Please try again.</p>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
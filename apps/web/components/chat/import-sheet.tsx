@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+interface ImportProgress {
+  id: string;
+  status: "running" | "done";
+  total: number;
+  imported: number;
+  skipped: number;
+  failed: number;
+}
+
+interface ImportSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ImportSheet({ open, onOpenChange }: ImportSheetProps) {
+  const queryClient = useQueryClient();
+  const [importId, setImportId] = useState<string | null>(null);
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const body = new FormData();
+      body.append("file", file);
+      const res = await fetch(`${API_URL}/chat/imports`, {
+        method: "POST",
+        credentials: "include",
+        body,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to import");
+      return data.import as ImportProgress;
+    },
+    onSuccess: (progress) => setImportId(progress.id),
+  });
+
+  // Poll until every conversation has been saved or skipped
+  const { data: progress, isError: isProgressLost } = useQuery({
+    queryKey: ["import", importId],
+    queryFn: async () => {
+      const res = await fetch(`${API_URL}/chat/imports/${importId}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to fetch import progress");
+      const data = await res.json();
+      return data.import as ImportProgress;
+    },
+    enabled: importId !== null,
+    refetchInterval: (query) => (query.state.data?.status === "done" ? false : 1000),
+  });
+
+  const isDone = progress?.status === "done";
+  useEffect(() => {
+    if (isDone) queryClient.invalidateQueries({ queryKey: ["threads"] });
+  }, [isDone, queryClient]);
+
+  const isRunning =
+    uploadMutation.isPending || (importId !== null && !isDone && !isProgressLost);
+  const processed = progress ? progress.imported + progress.skipped + progress.failed : 0;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="left" className="gap-0">
+        <SheetHeader className="border-b">
+          <SheetTitle>Import conversations</SheetTitle>
+          <SheetDescription>
+            Bring in history from ChatGPT or Claude with the conversations.json
+            file from their data export. Conversations imported before are skipped.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 p-4">
+          <Button asChild variant="outline" className="w-full">
+            <label className={isRunning ? "pointer-events-none opacity-50" : "cursor-pointer"}>
+              <Upload className="h-4 w-4" />
+              {isRunning ? "Importing…" : "Choose file"}
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="sr-only"
+                disabled={isRunning}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (!file) return;
+                  setImportId(null);
+                  uploadMutation.mutate(file);
+                }}
+              />
+            </label>
+          </Button>
+
+          {uploadMutation.isError && (
+            <p className="text-sm text-destructive">{uploadMutation.error.message}</p>
+          )}
+
+          {isProgressLost && (
+            <p className="text-sm text-destructive">
+              Lost track of the import. Import the file again to finish it.
+            </p>
+          )}
+
+          {progress && (
+            <div className="space-y-2">
+              <div className="h-2 overflow-hidden rounded-full bg-muted">
+                <div
+                  className="h-full bg-primary transition-all"
+                  style={{
+                    width: `${progress.total ? (processed / progress.total) * 100 : 100}%`,
+                  }}
+                />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {isDone ? "Done: " : `${processed} of ${progress.total} conversations: `}
+                {progress.imported} imported, {progress.skipped} already imported
+                {progress.failed > 0 && `, ${progress.failed} failed`}
+              </p>
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -2,23 +2,46 @@
 
 import { useState, useRef, useEffect, KeyboardEvent } from "react";
 import { Button } from "@/components/ui/button";
-import { Send, Sparkles } from "lucide-react";
-import { cn } from "@/lib/utils";
+import type { Attachment } from "@/components/chat/message-list";
+import { FileText, Loader2, Paperclip, Send, Sparkles, Square, X } from "lucide-react";
+import { cn, formatFileSize } from "@/lib/utils";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+// Most files sent with one message
+const MAX_ATTACHMENTS = 5;
+
+// PDFs, images, CSV and text files, which the model can read
+const ACCEPTED_FILES =
+  "application/pdf,image/png,image/jpeg,image/webp,image/gif,text/csv,text/plain,text/markdown,.csv,.txt,.md";
 
 interface MessageInputProps {
-  onSend: (message: string) => void;
+  onSend: (message: string, attachments: Attachment[]) => void;
+  // Shows a Stop button in place of Send while a response is streaming
+  onStop?: () => void;
+  isStreaming?: boolean;
   disabled?: boolean;
+  // Shows a button to attach files to the message
+  allowAttachments?: boolean;
   placeholder?: string;
 }
 
 export function MessageInput({ 
   onSend, 
+  onStop,
+  isStreaming,
   disabled,
+  allowAttachments,
   placeholder = "Type your message..." 
 }: MessageInputProps) {
   const [input, setInput] = useState("");
   const [isFocused, setIsFocused] = useState(false);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [uploadCount, setUploadCount] = useState(0);
+  const [uploadError, setUploadError] = useState<string | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isUploading = uploadCount > 0;
 
   // Auto-resize textarea
   useEffect(() => {
@@ -29,11 +52,53 @@ export function MessageInput({
     }
   }, [input]);
 
+  // Files are uploaded as soon as they are picked and sent by ID
+  const uploadFiles = async (files: File[]) => {
+    setUploadError(null);
+    const room = MAX_ATTACHMENTS - attachments.length - uploadCount;
+    if (files.length > room) {
+      setUploadError(`You can attach up to ${MAX_ATTACHMENTS} files to a message`);
+    }
+
+    await Promise.all(
+      files.slice(0, Math.max(room, 0)).map(async (file) => {
+        setUploadCount((count) => count + 1);
+        try {
+          const form = new FormData();
+          form.append("file", file);
+          const res = await fetch(`${API_URL}/chat/attachments`, {
+            method: "POST",
+            credentials: "include",
+            body: form,
+          });
+          const data = await res.json().catch(() => ({}));
+          if (!res.ok) throw new Error(data.error || `Failed to upload ${file.name}`);
+          setAttachments((prev) => [...prev, data.attachment as Attachment]);
+        } catch (error) {
+          setUploadError(error instanceof Error ? error.message : `Failed to upload ${file.name}`);
+        } finally {
+          setUploadCount((count) => count - 1);
+        }
+      })
+    );
+  };
+
+  // Files taken off before sending aren't kept
+  const removeAttachment = (attachmentId: string) => {
+    setAttachments((prev) => prev.filter((other) => other.id !== attachmentId));
+    fetch(`${API_URL}/chat/attachments/${attachmentId}`, {
+      method: "DELETE",
+      credentials: "include",
+    }).catch(() => {});
+  };
+
   const handleSubmit = () => {
     const trimmed = input.trim();
-    if (trimmed && !disabled) {
-      onSend(trimmed);
+    if (trimmed && !disabled && !isUploading) {
+      onSend(trimmed, attachments);
       setInput("");
+      setAttachments([]);
+      setUploadError(null);
       // Reset height
       if (textareaRef.current) {
         textareaRef.current.style.height = "auto";
@@ -50,13 +115,74 @@ export function MessageInput({
 
   return (
     <div className="border-t bg-background/80 backdrop-blur-sm p-4">
+      {allowAttachments && (attachments.length > 0 || isUploading || uploadError) && (
+        <div className="mb-2 flex flex-wrap items-center gap-1.5">
+          {attachments.map((attachment) => (
+            <div
+              key={attachment.id}
+              className="flex max-w-[16rem] items-center gap-1.5 rounded-full border bg-muted/50 py-1 pl-2.5 pr-1 text-xs"
+            >
+              <FileText className="h-3.5 w-3.5 shrink-0 text-primary" />
+              <span className="truncate">{attachment.name}</span>
+              <span className="shrink-0 text-muted-foreground">
+                {formatFileSize(attachment.size)}
+              </span>
+              <button
+                type="button"
+                onClick={() => removeAttachment(attachment.id)}
+                title="Remove"
+                className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full text-muted-foreground hover:bg-muted hover:text-destructive"
+              >
+                <X className="h-3 w-3" />
+                <span className="sr-only">Remove {attachment.name}</span>
+              </button>
+            </div>
+          ))}
+          {isUploading && (
+            <span className="flex items-center gap-1.5 px-1 text-xs text-muted-foreground">
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              Uploading...
+            </span>
+          )}
+          {uploadError && <span className="px-1 text-xs text-destructive">{uploadError}</span>}
+        </div>
+      )}
       <div
         className={cn(
           "relative flex items-end gap-2 rounded-2xl border bg-card p-2 shadow-sm transition-all duration-200",
           isFocused && "border-primary/50 ring-2 ring-primary/20",
-          disabled && "opacity-60"
+          disabled && !isStreaming && "opacity-60"
         )}
       >
+        {allowAttachments && (
+          <div className="flex items-center pb-1">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_FILES}
+              multiple
+              hidden
+              onChange={(e) => {
+                uploadFiles(Array.from(e.target.files ?? []));
+                // Lets the same file be picked again
+                e.target.value = "";
+              }}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled || attachments.length + uploadCount >= MAX_ATTACHMENTS}
+              title="Attach files"
+              className="h-8 w-8 rounded-full text-muted-foreground"
+            >
+              <Paperclip className="h-4 w-4" />
+              <span className="sr-only">Attach files</span>
+            </Button>
+          </div>
+        )}
+
         {/* Textarea */}
         <div className="relative flex-1">
           <textarea
@@ -73,26 +199,37 @@ export function MessageInput({
           />
         </div>
 
-        {/* Send button */}
+        {/* Send / Stop button */}
         <div className="flex items-center pb-1">
-          <Button
-            onClick={handleSubmit}
-            disabled={disabled || !input.trim()}
-            size="icon-sm"
-            className={cn(
-              "h-8 w-8 rounded-full transition-all duration-200",
-              input.trim() 
-                ? "bg-primary text-primary-foreground shadow-md hover:shadow-lg hover:scale-105" 
-                : "bg-muted text-muted-foreground"
-            )}
-          >
-            {disabled ? (
-              <Sparkles className="h-4 w-4 animate-pulse" />
-            ) : (
-              <Send className="h-4 w-4" />
-            )}
-            <span className="sr-only">Send message</span>
-          </Button>
+          {isStreaming && onStop ? (
+            <Button
+              onClick={onStop}
+              size="icon-sm"
+              className="h-8 w-8 rounded-full bg-primary text-primary-foreground shadow-md transition-all duration-200 hover:shadow-lg hover:scale-105"
+            >
+              <Square className="h-3.5 w-3.5 fill-current" />
+              <span className="sr-only">Stop generating</span>
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSubmit}
+              disabled={disabled || isUploading || !input.trim()}
+              size="icon-sm"
+              className={cn(
+                "h-8 w-8 rounded-full transition-all duration-200",
+                input.trim() 
+                  ? "bg-primary text-primary-foreground shadow-md hover:shadow-lg hover:scale-105" 
+                  : "bg-muted text-muted-foreground"
+              )}
+            >
+              {disabled ? (
+                <Sparkles className="h-4 w-4 animate-pulse" />
+              ) : (
+                <Send className="h-4 w-4" />
+              )}
+              <span className="sr-only">Send message</span>
+            </Button>
+          )}
         </div>
       </div>
       
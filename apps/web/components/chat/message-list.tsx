@@ -1,33 +1,183 @@
 "use client";
 
-import { cn } from "@/lib/utils";
+import { useEffect, useLayoutEffect, useRef, useState, type RefObject } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { cn, formatFileSize } from "@/lib/utils";
 import { BotAvatar, UserAvatar } from "@/components/ui/avatar";
-import { Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertCircle,
+  Check,
+  ChevronLeft,
+  ChevronRight,
+  FileText,
+  Loader2,
+  Pencil,
+  RotateCcw,
+  Sparkles,
+} from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+// A file attached to a user message, downloaded from the API by ID
+export interface Attachment {
+  id: string;
+  name: string;
+  contentType: string;
+  size: number;
+}
+
+export interface ToolActivity {
+  toolCallId: string;
+  toolName: string;
+  status: "running" | "done" | "error";
+  // What the tool returned, shown on shared conversations
+  output?: string;
+}
+
 export interface Message {
   id: string;
   role: "user" | "assistant";
   content: string;
   createdAt?: string;
+  toolCalls?: ToolActivity[];
+  // The user stopped the response before it finished
+  interrupted?: boolean;
+  // A notice shown in place of a response, like an error or a rate limit,
+  // that the model never wrote and never sees
+  localOnly?: boolean;
+  attachments?: Attachment[];
+}
+
+// An earlier version of the conversation from a user message onward
+export interface ThreadBranch {
+  id: string;
+  forkAfter: string | null;
+  preview: string;
+  messageCount: number;
+  createdAt: string;
 }
 
+// Versions of a user message, in the order they were sent
+interface MessageVersions {
+  index: number;
+  // Branch ID per version; null for the version being shown
+  ids: (string | null)[];
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  googleGmailTool: "Searching Gmail",
+  googleContactsTool: "Looking up contacts",
+  googleContactDetailsTool: "Looking up contact details",
+  googleGmailReadTool: "Reading email",
+  googleGmailCreateDraftTool: "Drafting email",
+  googleGmailReplyTool: "Sending reply",
+  googleGmailSendTool: "Sending email",
+  googleCalendarListEventsTool: "Checking calendar",
+  googleCalendarFreeBusyTool: "Finding free time",
+  googleCalendarCreateEventTool: "Creating event",
+  googleDriveSearchTool: "Searching Drive",
+  googleDriveReadTool: "Reading file",
+  updateWorkingMemory: "Remembering",
+};
+
+// Distance from the top, in pixels, at which older messages are loaded
+const LOAD_OLDER_THRESHOLD = 400;
+
 interface MessageListProps {
   messages: Message[];
+  // The element the list scrolls in; only messages in view are rendered
+  scrollRef: RefObject<HTMLElement | null>;
+  // Whether there are older messages, and how to load them when the user
+  // scrolls near the top
+  hasOlder?: boolean;
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void;
   isStreaming?: boolean;
   userEmail?: string;
   userName?: string;
   userImage?: string;
+  branches?: ThreadBranch[];
+  // Message opened from search, shown with a ring
+  highlightedMessageId?: string;
+  onEdit?: (messageId: string, content: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  onSwitchBranch?: (branchId: string) => void;
+  // Prompts offered before the first message, from the chosen assistant
+  starterPrompts?: string[];
+  onStarterPrompt?: (prompt: string) => void;
 }
 
 export function MessageList({ 
   messages, 
+  scrollRef,
+  hasOlder,
+  isLoadingOlder,
+  onLoadOlder,
   isStreaming, 
   userEmail,
   userName,
-  userImage 
+  userImage,
+  branches = [],
+  highlightedMessageId,
+  onEdit,
+  onRegenerate,
+  onSwitchBranch,
+  starterPrompts = [],
+  onStarterPrompt,
 }: MessageListProps) {
+  // The React Compiler isn't enabled, so nothing memoizes the virtualizer
+  // eslint-disable-next-line react-hooks/incompatible-library
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 120,
+    overscan: 6,
+    getItemKey: (index) => messages[index].id,
+  });
+
+  // Keep the messages in view in place when older ones are added above
+  const firstMessageId = messages[0]?.id;
+  const previousRef = useRef<{ firstMessageId?: string; totalSize: number }>({ totalSize: 0 });
+  useLayoutEffect(() => {
+    const previous = previousRef.current;
+    const scrollElement = scrollRef.current;
+    if (
+      scrollElement &&
+      previous.firstMessageId &&
+      previous.firstMessageId !== firstMessageId &&
+      messages.some((message) => message.id === previous.firstMessageId)
+    ) {
+      scrollElement.scrollTop += virtualizer.getTotalSize() - previous.totalSize;
+    }
+    previousRef.current = { firstMessageId, totalSize: virtualizer.getTotalSize() };
+  });
+
+  // Only scrolling by the user loads older messages, so a short first page
+  // doesn't pull in the whole history
+  useEffect(() => {
+    const scrollElement = scrollRef.current;
+    if (!scrollElement || !hasOlder || isLoadingOlder || !onLoadOlder) return;
+    const handleScroll = () => {
+      if (scrollElement.scrollTop < LOAD_OLDER_THRESHOLD) onLoadOlder();
+    };
+    scrollElement.addEventListener("scroll", handleScroll, { passive: true });
+    return () => scrollElement.removeEventListener("scroll", handleScroll);
+  }, [scrollRef, hasOlder, isLoadingOlder, onLoadOlder]);
+
+  // Bring a message opened from search into view once it has loaded
+  const scrolledToRef = useRef<string | null>(null);
+  const highlightedIndex = highlightedMessageId
+    ? messages.findIndex((message) => message.id === highlightedMessageId)
+    : -1;
+  useEffect(() => {
+    if (highlightedIndex === -1 || scrolledToRef.current === highlightedMessageId) return;
+    scrolledToRef.current = highlightedMessageId ?? null;
+    virtualizer.scrollToIndex(highlightedIndex, { align: "center" });
+  }, [highlightedIndex, highlightedMessageId, virtualizer]);
+
   if (messages.length === 0) {
     return (
       <div className="flex flex-1 flex-col items-center justify-center gap-4 p-8 text-center">
@@ -40,22 +190,63 @@ export function MessageList({
         <div className="space-y-2">
           <h3 className="text-xl font-semibold text-foreground">Start a conversation</h3>
         </div>
+        {starterPrompts.length > 0 && (
+          <div className="flex max-w-lg flex-wrap justify-center gap-2">
+            {starterPrompts.map((prompt) => (
+              <button
+                key={prompt}
+                type="button"
+                onClick={() => onStarterPrompt?.(prompt)}
+                disabled={isStreaming}
+                className="rounded-full border px-3 py-1.5 text-sm text-muted-foreground hover:bg-accent hover:text-foreground transition-colors disabled:opacity-50"
+              >
+                {prompt}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
     );
   }
 
   return (
     <div className="flex flex-col gap-1 p-4">
-      {messages.map((message, index) => (
-        <MessageBubble
-          key={message.id}
-          message={message}
-          isLast={index === messages.length - 1}
-          userEmail={userEmail}
-          userName={userName}
-          userImage={userImage}
-        />
-      ))}
+      {hasOlder && (
+        <div className="flex justify-center py-2">
+          {isLoadingOlder && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+      )}
+      <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+        {virtualizer.getVirtualItems().map((item) => {
+          const message = messages[item.index];
+          return (
+            <div
+              key={item.key}
+              data-index={item.index}
+              ref={virtualizer.measureElement}
+              className="absolute left-0 top-0 w-full pb-1"
+              style={{ transform: `translateY(${item.start}px)` }}
+            >
+              <MessageBubble
+                message={message}
+                isLast={item.index === messages.length - 1}
+                isHighlighted={message.id === highlightedMessageId}
+                userEmail={userEmail}
+                userName={userName}
+                userImage={userImage}
+                versions={
+                  message.role === "user"
+                    ? getMessageVersions(message, messages[item.index - 1]?.id ?? null, branches)
+                    : undefined
+                }
+                onEdit={isStreaming ? undefined : onEdit}
+                onRegenerate={isStreaming ? undefined : onRegenerate}
+                onSwitchBranch={isStreaming ? undefined : onSwitchBranch}
+              />
+            </div>
+          );
+        })}
+      </div>
       {isStreaming && messages[messages.length - 1]?.role !== "assistant" && (
         <TypingIndicator />
       )}
@@ -63,26 +254,78 @@ export function MessageList({
   );
 }
 
+function getMessageVersions(
+  message: Message,
+  forkAfter: string | null,
+  branches: ThreadBranch[]
+): MessageVersions | undefined {
+  const alternatives = branches.filter((branch) => branch.forkAfter === forkAfter);
+  if (alternatives.length === 0) return undefined;
+
+  const versions = [
+    ...alternatives.map((branch) => ({ id: branch.id, createdAt: branch.createdAt })),
+    { id: null, createdAt: message.createdAt || new Date().toISOString() },
+  ].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  return {
+    index: versions.findIndex((version) => version.id === null),
+    ids: versions.map((version) => version.id),
+  };
+}
+
 function MessageBubble({
   message,
   isLast,
+  isHighlighted,
   userEmail,
   userName,
   userImage,
+  versions,
+  onEdit,
+  onRegenerate,
+  onSwitchBranch,
 }: {
   message: Message;
   isLast: boolean;
+  isHighlighted?: boolean;
   userEmail?: string;
   userName?: string;
   userImage?: string;
+  versions?: MessageVersions;
+  onEdit?: (messageId: string, content: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  onSwitchBranch?: (branchId: string) => void;
 }) {
   const isUser = message.role === "user";
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    const trimmed = draft.trim();
+    if (!trimmed) return;
+    setIsEditing(false);
+    onEdit?.(message.id, trimmed);
+  };
+
+  const switchTo = (index: number) => {
+    const branchId = versions?.ids[index];
+    if (branchId) onSwitchBranch?.(branchId);
+  };
+  // While tools run, or if stopped early, there may be no text to show
+  const showBubble =
+    isUser || !!message.content || (!message.toolCalls?.length && !message.interrupted);
 
   return (
     <div
       className={cn(
-        "flex gap-3 animate-message-in",
-        isUser ? "flex-row-reverse" : "flex-row"
+        "group flex gap-3 animate-message-in",
+        isUser ? "flex-row-reverse" : "flex-row",
+        isHighlighted && "rounded-2xl ring-2 ring-primary/40 ring-offset-4 ring-offset-background"
       )}
     >
       {/* Avatar */}
@@ -106,36 +349,209 @@ function MessageBubble({
           isUser ? "items-end" : "items-start"
         )}
       >
-        <div
-          className={cn(
-            "rounded-2xl px-4 py-2.5 shadow-sm",
-            isUser
-              ? "rounded-tr-md bg-primary text-primary-foreground"
-              : "rounded-tl-md bg-card border border-border"
-          )}
-        >
-          {isUser ? (
-            <p className="whitespace-pre-wrap text-sm leading-relaxed">
-              {message.content}
-            </p>
-          ) : (
-            <div className="prose prose-sm dark:prose-invert max-w-none text-sm leading-relaxed prose-p:my-1 prose-ul:my-1 prose-ol:my-1 prose-li:my-0.5 prose-headings:my-2 prose-pre:my-2 prose-code:bg-muted prose-code:px-1 prose-code:py-0.5 prose-code:rounded prose-code:text-foreground prose-code:before:content-none prose-code:after:content-none">
-              <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                {message.content}
-              </ReactMarkdown>
+        {message.toolCalls && message.toolCalls.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {message.toolCalls.map((tool) => (
+              <ToolChip key={tool.toolCallId} tool={tool} />
+            ))}
+          </div>
+        )}
+        {message.attachments && message.attachments.length > 0 && (
+          <div className={cn("flex flex-wrap gap-1.5", isUser && "justify-end")}>
+            {message.attachments.map((attachment) => (
+              <AttachmentPreview key={attachment.id} attachment={attachment} />
+            ))}
+          </div>
+        )}
+        {isEditing ? (
+          <div className="flex w-full min-w-[280px] flex-col gap-2 rounded-2xl border bg-card p-2 shadow-sm">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                } else if (e.key === "Escape") {
+                  setIsEditing(false);
+                }
+              }}
+              rows={3}
+              autoFocus
+              className="w-full resize-none bg-transparent px-2 py-1 text-sm focus:outline-none"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={submitEdit} disabled={!draft.trim()}>
+                Send
+              </Button>
             </div>
-          )}
-        </div>
-        {message.createdAt && (
-          <span className="px-1 text-[10px] text-muted-foreground">
-            {formatTime(message.createdAt)}
-          </span>
+          </div>
+        ) : showBubble && (
+          <div
+            className={cn(
+              "rounded-2xl px-4 py-2.5 shadow-sm",
+              isUser
+                ? "rounded-tr-md bg-primary text-primary-foreground"
+                : "rounded-tl-md bg-card border border-border"
+            )}
+          >
+            {isUser ? (
+              <p className="whitespace-pre-wrap text-sm leading-relaxed">
+                {message.content}
+              </p>
+            ) : (
+              <div className="prose prose-sm dark:prose-invert max-w-none text-sm leading-relaxed prose-p:my-1 prose-ul:my-1 prose-ol:my-1 prose-li:my-0.5 prose-headings:my-2 prose-pre:my-2 prose-code:bg-muted prose-code:px-1 prose-code:py-0.5 prose-code:rounded prose-code:text-foreground prose-code:before:content-none prose-code:after:content-none">
+                <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                  {message.content}
+                </ReactMarkdown>
+              </div>
+            )}
+          </div>
+        )}
+        {!isEditing && (
+          <div
+            className={cn(
+              "flex items-center gap-1",
+              isUser ? "flex-row-reverse" : "flex-row"
+            )}
+          >
+            {(message.createdAt || message.interrupted) && (
+              <span className="px-1 text-[10px] text-muted-foreground">
+                {message.createdAt && formatTime(message.createdAt)}
+                {message.createdAt && message.interrupted && " · "}
+                {message.interrupted && "Stopped"}
+              </span>
+            )}
+            {versions && (
+              <div className="flex items-center text-[10px] text-muted-foreground">
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => switchTo(versions.index - 1)}
+                  disabled={!onSwitchBranch || versions.index === 0}
+                  className="h-5 w-5"
+                >
+                  <ChevronLeft className="h-3 w-3" />
+                  <span className="sr-only">Previous version</span>
+                </Button>
+                <span>
+                  {versions.index + 1}/{versions.ids.length}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => switchTo(versions.index + 1)}
+                  disabled={!onSwitchBranch || versions.index === versions.ids.length - 1}
+                  className="h-5 w-5"
+                >
+                  <ChevronRight className="h-3 w-3" />
+                  <span className="sr-only">Next version</span>
+                </Button>
+              </div>
+            )}
+            {isUser && onEdit && (
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={startEditing}
+                className="h-5 w-5 text-muted-foreground opacity-0 transition-opacity group-hover:opacity-100 focus-visible:opacity-100"
+              >
+                <Pencil className="h-3 w-3" />
+                <span className="sr-only">Edit message</span>
+              </Button>
+            )}
+            {!isUser && isLast && onRegenerate && (
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => onRegenerate(message.id)}
+                className="h-5 w-5 text-muted-foreground"
+              >
+                <RotateCcw className="h-3 w-3" />
+                <span className="sr-only">Regenerate response</span>
+              </Button>
+            )}
+          </div>
         )}
       </div>
     </div>
   );
 }
 
+function ToolChip({ tool }: { tool: ToolActivity }) {
+  const label = TOOL_LABELS[tool.toolName] || `Running ${tool.toolName}`;
+
+  if (tool.output !== undefined) {
+    return (
+      <details className="group w-full">
+        <summary className="cursor-pointer list-none">
+          <ToolChipLabel tool={tool} label={label} />
+        </summary>
+        <pre className="mt-1 max-h-64 overflow-auto whitespace-pre-wrap rounded-lg border bg-muted/50 p-2 text-[11px] text-muted-foreground">
+          {tool.output}
+        </pre>
+      </details>
+    );
+  }
+
+  return <ToolChipLabel tool={tool} label={label} />;
+}
+
+function ToolChipLabel({ tool, label }: { tool: ToolActivity; label: string }) {
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1.5 rounded-full border px-2.5 py-1 text-xs",
+        tool.status === "error"
+          ? "border-destructive/40 text-destructive"
+          : "border-border bg-muted/50 text-muted-foreground"
+      )}
+    >
+      {tool.status === "running" ? (
+        <Loader2 className="h-3 w-3 animate-spin" />
+      ) : tool.status === "error" ? (
+        <AlertCircle className="h-3 w-3" />
+      ) : (
+        <Check className="h-3 w-3" />
+      )}
+      <span>
+        {label}
+        {tool.status === "running" ? "…" : ""}
+      </span>
+    </div>
+  );
+}
+
+// Images show as thumbnails, other files as chips; both open the file
+function AttachmentPreview({ attachment }: { attachment: Attachment }) {
+  const url = `${API_URL}/chat/attachments/${attachment.id}`;
+
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noreferrer"
+      title={attachment.name}
+      className="overflow-hidden rounded-xl border bg-card shadow-sm transition-colors hover:border-primary/50"
+    >
+      {attachment.contentType.startsWith("image/") ? (
+        // Served by the API with the session cookie, so not through next/image
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={url} alt={attachment.name} className="h-32 max-w-[12rem] object-cover" />
+      ) : (
+        <div className="flex max-w-[16rem] items-center gap-2 px-3 py-2 text-xs">
+          <FileText className="h-4 w-4 shrink-0 text-primary" />
+          <span className="truncate font-medium">{attachment.name}</span>
+          <span className="shrink-0 text-muted-foreground">{formatFileSize(attachment.size)}</span>
+        </div>
+      )}
+    </a>
+  );
+}
+
 function TypingIndicator() {
   return (
     <div className="flex gap-3 animate-message-in">
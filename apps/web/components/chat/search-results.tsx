@@ -0,0 +1,105 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { MessageSquare, SearchX } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+interface MessageMatch {
+  messageId: string;
+  role: "user" | "assistant";
+  createdAt: string;
+  snippet: SnippetPart[];
+}
+
+interface ThreadSearchResult {
+  threadId: string;
+  title: string;
+  matches: MessageMatch[];
+}
+
+interface SearchResultsProps {
+  query: string;
+  onSelect: (threadId: string, messageId: string) => void;
+}
+
+export function SearchResults({ query, onSelect }: SearchResultsProps) {
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["search", query],
+    queryFn: async () => {
+      const res = await fetch(`${API_URL}/chat/search?q=${encodeURIComponent(query)}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to search conversations");
+      return res.json() as Promise<{ results: ThreadSearchResult[] }>;
+    },
+    staleTime: 30_000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2 p-4">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-16 w-full rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  const results = data?.results ?? [];
+  if (isError || results.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-2 p-8 text-center">
+        <SearchX className="h-10 w-10 text-muted-foreground/50" />
+        <p className="text-sm text-muted-foreground">
+          {isError ? "Search failed, try again" : "No matching messages"}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 p-2">
+      {results.map((result) => (
+        <div key={result.threadId}>
+          <p className="flex items-center gap-2 px-2 pb-1 text-xs font-medium text-muted-foreground">
+            <MessageSquare className="h-3.5 w-3.5 shrink-0" />
+            <span className="truncate">{result.title || "New Chat"}</span>
+          </p>
+          {result.matches.map((match) => (
+            <button
+              key={match.messageId}
+              type="button"
+              onClick={() => onSelect(result.threadId, match.messageId)}
+              className="block w-full rounded-lg px-2 py-1.5 text-left text-sm hover:bg-sidebar-accent transition-colors"
+            >
+              <span className="line-clamp-3 text-[13px] text-foreground/80">
+                <span className="text-muted-foreground">
+                  {match.role === "user" ? "You: " : "AI: "}
+                </span>
+                {match.snippet.map((part, index) =>
+                  part.highlight ? (
+                    <mark
+                      key={index}
+                      className="rounded-sm bg-primary/20 px-0.5 text-foreground"
+                    >
+                      {part.text}
+                    </mark>
+                  ) : (
+                    <span key={index}>{part.text}</span>
+                  )
+                )}
+              </span>
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Check, Copy, Link2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+const EXPIRY_OPTIONS = [
+  { days: null, label: "Never" },
+  { days: 1, label: "1 day" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+];
+
+interface ShareLink {
+  id: string;
+  redactToolOutputs: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  active: boolean;
+}
+
+interface ShareSheetProps {
+  threadId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const shareUrl = (shareId: string) => `${window.location.origin}/share/${shareId}`;
+
+export function ShareSheet({ threadId, open, onOpenChange }: ShareSheetProps) {
+  const queryClient = useQueryClient();
+  const [redactToolOutputs, setRedactToolOutputs] = useState(true);
+  const [expiryDays, setExpiryDays] = useState<number | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["shares", threadId],
+    queryFn: async () => {
+      const res = await fetch(`${API_URL}/chat/threads/${threadId}/shares`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to fetch share links");
+      return res.json() as Promise<{ shares: ShareLink[] }>;
+    },
+    enabled: open,
+  });
+
+  const copy = async (shareId: string) => {
+    await navigator.clipboard.writeText(shareUrl(shareId));
+    setCopiedId(shareId);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`${API_URL}/chat/threads/${threadId}/shares`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          redactToolOutputs,
+          expiresAt:
+            expiryDays === null
+              ? null
+              : new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString(),
+        }),
+      });
+      if (!res.ok) throw new Error("Failed to create share link");
+      const body = await res.json();
+      return body.share as ShareLink;
+    },
+    onSuccess: (share) => {
+      queryClient.invalidateQueries({ queryKey: ["shares", threadId] });
+      copy(share.id);
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (shareId: string) => {
+      const res = await fetch(`${API_URL}/chat/threads/${threadId}/shares/${shareId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to revoke share link");
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["shares", threadId] }),
+  });
+
+  const shares = data?.shares ?? [];
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="gap-0">
+        <SheetHeader className="border-b">
+          <SheetTitle>Share conversation</SheetTitle>
+          <SheetDescription>
+            Anyone with the link can read a snapshot of the conversation as it
+            is now. Later messages aren&apos;t shared.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 border-b p-4">
+          <label className="flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={redactToolOutputs}
+              onChange={(e) => setRedactToolOutputs(e.target.checked)}
+              className="mt-0.5"
+            />
+            <span>
+              Hide tool results
+              <span className="block text-[11px] text-muted-foreground">
+                Leaves out what tools returned, such as email snippets and file contents
+              </span>
+            </span>
+          </label>
+
+          <div className="space-y-1.5">
+            <p className="text-sm">Link expires after</p>
+            <div className="flex flex-wrap gap-1">
+              {EXPIRY_OPTIONS.map((option) => (
+                <Button
+                  key={option.label}
+                  size="sm"
+                  variant={option.days === expiryDays ? "secondary" : "ghost"}
+                  onClick={() => setExpiryDays(option.days)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending}
+          >
+            {createMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Link2 className="h-4 w-4" />
+            )}
+            Create link
+          </Button>
+          {createMutation.isError && (
+            <p className="text-sm text-destructive">The link couldn&apos;t be created.</p>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto scrollbar-thin p-2">
+          {isLoading ? (
+            <div className="space-y-2 p-2">
+              {[1, 2].map((i) => (
+                <Skeleton key={i} className="h-12 w-full rounded-lg" />
+              ))}
+            </div>
+          ) : shares.length === 0 ? (
+            <p className="p-4 text-center text-sm text-muted-foreground">
+              This conversation hasn&apos;t been shared yet
+            </p>
+          ) : (
+            shares.map((share) => (
+              <div
+                key={share.id}
+                className="flex items-center gap-2 rounded-lg p-3 hover:bg-accent/50 transition-colors"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-mono">/share/{share.id}</p>
+                  <p className="text-[11px] text-muted-foreground">
+                    {new Date(share.createdAt).toLocaleDateString()}
+                    {share.redactToolOutputs ? " · tool results hidden" : ""}
+                    {share.expiresAt && share.active
+                      ? ` · expires ${new Date(share.expiresAt).toLocaleDateString()}`
+                      : ""}
+                  </p>
+                </div>
+                {share.active ? (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => copy(share.id)}
+                      className="h-8 w-8"
+                    >
+                      {copiedId === share.id ? (
+                        <Check className="h-4 w-4" />
+                      ) : (
+                        <Copy className="h-4 w-4" />
+                      )}
+                      <span className="sr-only">Copy link</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(share.id)}
+                      disabled={revokeMutation.isPending}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      Revoke
+                    </Button>
+                  </>
+                ) : (
+                  <Badge variant="secondary">{share.revokedAt ? "Revoked" : "Expired"}</Badge>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Archive,
+  ArchiveRestore,
+  MessageSquare,
+  Pencil,
+  Pin,
+  PinOff,
+  Trash2,
+} from "lucide-react";
+import { SidebarMenuButton, SidebarMenuItem } from "@/components/ui/sidebar";
+import { cn } from "@/lib/utils";
+
+// Drag data type carrying a thread ID between sidebar sections
+const THREAD_DRAG_TYPE = "application/x-chat-thread";
+
+export interface Thread {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  pinnedAt?: string | null;
+  archivedAt?: string | null;
+  folder?: string | null;
+  tags?: string[];
+}
+
+export interface ThreadPatch {
+  title?: string;
+  pinned?: boolean;
+  archived?: boolean;
+  folder?: string | null;
+}
+
+interface ThreadListItemProps {
+  thread: Thread;
+  isActive: boolean;
+  isDeleting: boolean;
+  onSelect: () => void;
+  onUpdate: (patch: ThreadPatch) => void;
+  onDelete: () => void;
+}
+
+export function ThreadListItem({
+  thread,
+  isActive,
+  isDeleting,
+  onSelect,
+  onUpdate,
+  onDelete,
+}: ThreadListItemProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draft, setDraft] = useState(thread.title);
+
+  const startRenaming = () => {
+    setDraft(thread.title);
+    setIsRenaming(true);
+  };
+
+  const submitRename = () => {
+    setIsRenaming(false);
+    const title = draft.trim();
+    if (title && title !== thread.title) onUpdate({ title });
+  };
+
+  if (isRenaming) {
+    return (
+      <SidebarMenuItem className="mx-2">
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={submitRename}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") submitRename();
+            if (e.key === "Escape") setIsRenaming(false);
+          }}
+          maxLength={200}
+          className="h-8 w-full rounded-lg border border-primary/50 bg-sidebar px-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary/20"
+        />
+      </SidebarMenuItem>
+    );
+  }
+
+  const actions = [
+    { label: "Rename", icon: Pencil, onClick: startRenaming },
+    thread.pinnedAt
+      ? { label: "Unpin", icon: PinOff, onClick: () => onUpdate({ pinned: false }) }
+      : { label: "Pin", icon: Pin, onClick: () => onUpdate({ pinned: true }) },
+    thread.archivedAt
+      ? { label: "Unarchive", icon: ArchiveRestore, onClick: () => onUpdate({ archived: false }) }
+      : { label: "Archive", icon: Archive, onClick: () => onUpdate({ archived: true }) },
+  ];
+
+  return (
+    <SidebarMenuItem
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(THREAD_DRAG_TYPE, thread.id);
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      className="group"
+    >
+      <SidebarMenuButton
+        onClick={onSelect}
+        onDoubleClick={startRenaming}
+        isActive={isActive}
+        className={cn(
+          "relative mx-2 rounded-lg pr-24 transition-all",
+          isActive && "bg-sidebar-accent"
+        )}
+      >
+        <MessageSquare className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <span className="truncate">{thread.title || "New Chat"}</span>
+        {isActive && (
+          <div className="absolute left-0 top-1/2 h-6 w-1 -translate-y-1/2 rounded-r-full bg-primary" />
+        )}
+      </SidebarMenuButton>
+      <div className="absolute right-3 top-1/2 flex -translate-y-1/2 items-center gap-0.5 opacity-0 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100">
+        {actions.map(({ label, icon: Icon, onClick }) => (
+          <button
+            key={label}
+            type="button"
+            onClick={onClick}
+            title={label}
+            className="flex h-6 w-6 items-center justify-center rounded-md text-muted-foreground hover:bg-sidebar-accent hover:text-foreground"
+          >
+            <Icon className="h-3.5 w-3.5" />
+            <span className="sr-only">{label}</span>
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={onDelete}
+          disabled={isDeleting}
+          title="Delete"
+          className="flex h-6 w-6 items-center justify-center rounded-md text-muted-foreground hover:bg-sidebar-accent hover:text-destructive"
+        >
+          <Trash2 className={cn("h-3.5 w-3.5", isDeleting && "animate-spin")} />
+          <span className="sr-only">Delete</span>
+        </button>
+      </div>
+    </SidebarMenuItem>
+  );
+}
+
+interface ThreadDropZoneProps {
+  onDropThread: (threadId: string) => void;
+  className?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * A sidebar section threads can be dragged into, outlined while a thread
+ * is dragged over it.
+ */
+export function ThreadDropZone({ onDropThread, className, children }: ThreadDropZoneProps) {
+  const [isOver, setIsOver] = useState(false);
+
+  return (
+    <div
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes(THREAD_DRAG_TYPE)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "move";
+        setIsOver(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsOver(false);
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsOver(false);
+        const threadId = e.dataTransfer.getData(THREAD_DRAG_TYPE);
+        if (threadId) onDropThread(threadId);
+      }}
+      className={cn(
+        "rounded-lg transition-colors",
+        isOver && "bg-primary/5 ring-2 ring-primary/30",
+        className
+      )}
+    >
+      {children}
+    </div>
+  );
+}
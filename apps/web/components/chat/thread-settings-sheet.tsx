@@ -0,0 +1,281 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+const MAX_SYSTEM_PROMPT_LENGTH = 4000;
+
+// What each tool lets the assistant do, for turning tools on and off
+export const TOOL_NAMES: Record<string, string> = {
+  googleGmailTool: "Search Gmail",
+  googleGmailReadTool: "Read emails",
+  googleGmailCreateDraftTool: "Draft emails",
+  googleGmailReplyTool: "Reply to emails",
+  googleGmailSendTool: "Send emails",
+  googleContactsTool: "Search contacts",
+  googleContactDetailsTool: "Contact details",
+  googleCalendarListEventsTool: "List calendar events",
+  googleCalendarFreeBusyTool: "Find free time",
+  googleCalendarCreateEventTool: "Create calendar events",
+  googleDriveSearchTool: "Search Drive",
+  googleDriveReadTool: "Read Drive files",
+};
+
+interface ThreadSettings {
+  model?: string;
+  temperature?: number;
+  systemPrompt?: string;
+  enabledTools?: string[];
+  crossThreadRecall?: boolean;
+}
+
+export interface ModelOption {
+  id: string;
+  provider: string;
+}
+
+interface ThreadSettingsSheetProps {
+  threadId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ThreadSettingsSheet({ threadId, open, onOpenChange }: ThreadSettingsSheetProps) {
+  const { data: modelsData } = useQuery({
+    queryKey: ["models"],
+    queryFn: async () => {
+      const res = await fetch(`${API_URL}/chat/models`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to fetch models");
+      return res.json() as Promise<{ models: ModelOption[]; defaultModel: string }>;
+    },
+    enabled: open,
+  });
+
+  const { data: settingsData } = useQuery({
+    queryKey: ["thread-settings", threadId],
+    queryFn: async () => {
+      const res = await fetch(`${API_URL}/chat/threads/${threadId}/settings`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to fetch settings");
+      return res.json() as Promise<{ settings: ThreadSettings; tools: string[] }>;
+    },
+    enabled: open,
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="gap-0">
+        <SheetHeader className="border-b">
+          <SheetTitle>Conversation settings</SheetTitle>
+          <SheetDescription>
+            Choose how the assistant answers in this conversation.
+          </SheetDescription>
+        </SheetHeader>
+
+        {modelsData && settingsData ? (
+          // Keyed so the form starts over from the saved settings per thread
+          <SettingsForm
+            key={threadId}
+            threadId={threadId}
+            models={modelsData.models}
+            defaultModel={modelsData.defaultModel}
+            tools={settingsData.tools}
+            settings={settingsData.settings}
+            onSaved={() => onOpenChange(false)}
+          />
+        ) : (
+          <div className="space-y-4 p-4">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full rounded-lg" />
+            ))}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+interface SettingsFormProps {
+  threadId: string;
+  models: ModelOption[];
+  defaultModel: string;
+  tools: string[];
+  settings: ThreadSettings;
+  onSaved: () => void;
+}
+
+function SettingsForm({
+  threadId,
+  models,
+  defaultModel,
+  tools,
+  settings,
+  onSaved,
+}: SettingsFormProps) {
+  const queryClient = useQueryClient();
+  const [model, setModel] = useState(settings.model ?? "");
+  const [temperature, setTemperature] = useState(
+    settings.temperature !== undefined ? String(settings.temperature) : ""
+  );
+  const [systemPrompt, setSystemPrompt] = useState(settings.systemPrompt ?? "");
+  const [enabledTools, setEnabledTools] = useState(settings.enabledTools ?? tools);
+  const [crossThreadRecall, setCrossThreadRecall] = useState(settings.crossThreadRecall ?? true);
+
+  const temperatureValue = temperature.trim() === "" ? null : Number(temperature);
+  const temperatureInvalid =
+    temperatureValue !== null &&
+    !(temperatureValue >= 0 && temperatureValue <= 2);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`${API_URL}/chat/threads/${threadId}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          model: model || null,
+          temperature: temperatureValue,
+          systemPrompt,
+          // Leave the list unset while every tool is on, so new tools are too
+          enabledTools: enabledTools.length === tools.length ? null : enabledTools,
+          crossThreadRecall,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Failed to save settings");
+      return data as { settings: ThreadSettings };
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["thread-settings", threadId], {
+        settings: data.settings,
+        tools,
+      });
+      onSaved();
+    },
+  });
+
+  const toggleTool = (tool: string) => {
+    setEnabledTools((current) =>
+      current.includes(tool)
+        ? current.filter((name) => name !== tool)
+        : [...current, tool]
+    );
+  };
+
+  return (
+    <form
+      className="flex flex-1 flex-col overflow-hidden"
+      onSubmit={(e) => {
+        e.preventDefault();
+        saveMutation.mutate();
+      }}
+    >
+      <div className="flex-1 space-y-5 overflow-y-auto scrollbar-thin p-4">
+        <label className="block space-y-1.5">
+          <span className="text-sm font-medium">Model</span>
+          <select
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            className="border-input h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] dark:bg-input/30"
+          >
+            <option value="">Default ({defaultModel})</option>
+            {models.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.id}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block space-y-1.5">
+          <span className="text-sm font-medium">Temperature</span>
+          <Input
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            placeholder="Default"
+            value={temperature}
+            onChange={(e) => setTemperature(e.target.value)}
+            aria-invalid={temperatureInvalid}
+          />
+          <span className="block text-[11px] text-muted-foreground">
+            From 0 for focused answers to 2 for more varied ones.
+          </span>
+        </label>
+
+        <label className="block space-y-1.5">
+          <span className="text-sm font-medium">Instructions</span>
+          <textarea
+            value={systemPrompt}
+            onChange={(e) => setSystemPrompt(e.target.value)}
+            maxLength={MAX_SYSTEM_PROMPT_LENGTH}
+            rows={6}
+            placeholder="For example: Answer in French and keep it short."
+            className="border-input w-full resize-none rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] dark:bg-input/30"
+          />
+          <span className="block text-right text-[11px] text-muted-foreground">
+            {systemPrompt.length}/{MAX_SYSTEM_PROMPT_LENGTH}
+          </span>
+        </label>
+
+        <fieldset className="space-y-2">
+          <legend className="mb-1.5 text-sm font-medium">Tools</legend>
+          {tools.map((tool) => (
+            <label key={tool} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={enabledTools.includes(tool)}
+                onChange={() => toggleTool(tool)}
+                className="h-4 w-4 accent-primary"
+              />
+              {TOOL_NAMES[tool] || tool}
+            </label>
+          ))}
+        </fieldset>
+
+        <label className="flex items-start gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={crossThreadRecall}
+            onChange={(e) => setCrossThreadRecall(e.target.checked)}
+            className="mt-0.5 h-4 w-4 accent-primary"
+          />
+          <span className="space-y-0.5">
+            <span className="block font-medium">Recall other conversations</span>
+            <span className="block text-[11px] text-muted-foreground">
+              Use what the assistant knows about you and your other conversations. Turn off for
+              sensitive conversations to keep them out of its memory too.
+            </span>
+          </span>
+        </label>
+
+        {saveMutation.isError && (
+          <p className="text-sm text-destructive">{saveMutation.error.message}</p>
+        )}
+      </div>
+
+      <SheetFooter className="border-t">
+        <Button type="submit" disabled={temperatureInvalid || saveMutation.isPending}>
+          {saveMutation.isPending ? "Saving..." : "Save"}
+        </Button>
+      </SheetFooter>
+    </form>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import type { ToolApprovalRequest } from "@chatbot/shared/stream";
+import { linkSocial } from "@/lib/auth-client";
+import { BotAvatar } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { CalendarPlus, Mail, ShieldCheck } from "lucide-react";
+
+const APPROVAL_TITLES: Record<string, string> = {
+  googleGmailSendTool: "Send this email?",
+  googleGmailReplyTool: "Send this reply?",
+  googleCalendarCreateEventTool: "Create this event?",
+};
+
+const CONSENT_COPY: Record<string, { title: string; description: string }> = {
+  "https://www.googleapis.com/auth/gmail.compose": {
+    title: "Allow drafting and sending email",
+    description:
+      "You signed in with read-only Gmail access. Grant permission to compose email, then ask again.",
+  },
+  "https://www.googleapis.com/auth/calendar.readonly": {
+    title: "Allow reading your calendar",
+    description:
+      "You signed in before calendar access was added. Grant permission to view your calendar, then ask again.",
+  },
+  "https://www.googleapis.com/auth/calendar.events": {
+    title: "Allow adding calendar events",
+    description:
+      "You signed in before calendar access was added. Grant permission to create events, then ask again.",
+  },
+  "https://www.googleapis.com/auth/drive.readonly": {
+    title: "Allow reading your Drive files",
+    description:
+      "You signed in before Drive access was added. Grant permission to search and read your files, then ask again.",
+  },
+};
+
+// Fields of the compose tools' arguments shown for review
+interface EmailArgs {
+  to?: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject?: string;
+  body?: string;
+  replyAll?: boolean;
+}
+
+// Fields of googleCalendarCreateEventTool's arguments shown for review
+interface EventArgs {
+  summary?: string;
+  start?: string;
+  end?: string;
+  timeZone?: string;
+  attendees?: string[];
+  location?: string;
+  description?: string;
+}
+
+function approvalRows(approval: ToolApprovalRequest) {
+  if (approval.toolName === "googleCalendarCreateEventTool") {
+    const args = (approval.args ?? {}) as EventArgs;
+    return [
+      ["Event", args.summary],
+      ["Starts", args.start && [args.start, args.timeZone].filter(Boolean).join(" ")],
+      ["Ends", args.end],
+      ["Guests", args.attendees?.join(", ")],
+      ["Where", args.location],
+    ];
+  }
+
+  const args = (approval.args ?? {}) as EmailArgs;
+  return [
+    ["To", args.to?.join(", ") || (approval.toolName === "googleGmailReplyTool" ? "Original sender" : "")],
+    ["Cc", args.cc?.join(", ") || (args.replyAll ? "Everyone on the email" : "")],
+    ["Bcc", args.bcc?.join(", ")],
+    ["Subject", args.subject],
+  ];
+}
+
+interface ToolApprovalCardProps {
+  approval: ToolApprovalRequest;
+  disabled?: boolean;
+  onRespond: (approval: ToolApprovalRequest, approved: boolean) => void;
+}
+
+export function ToolApprovalCard({ approval, disabled, onRespond }: ToolApprovalCardProps) {
+  const isEvent = approval.toolName === "googleCalendarCreateEventTool";
+  const args = (approval.args ?? {}) as EmailArgs & EventArgs;
+  const title = APPROVAL_TITLES[approval.toolName] || `Allow ${approval.toolName}?`;
+  const body = isEvent ? args.description : args.body;
+  const Icon = isEvent ? CalendarPlus : Mail;
+
+  const rows = approvalRows(approval).filter(
+    (row): row is [string, string] => !!row[1]
+  );
+
+  return (
+    <div className="flex gap-3 animate-message-in">
+      <div className="flex-shrink-0 pt-1">
+        <BotAvatar size="sm" />
+      </div>
+      <div className="flex w-full max-w-[75%] flex-col gap-3 rounded-2xl rounded-tl-md border bg-card p-4 shadow-sm">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Icon className="h-4 w-4 text-primary" />
+          {title}
+        </div>
+        {rows.length > 0 && (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+            {rows.map(([label, value]) => (
+              <div key={label} className="contents">
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className="break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+        {body && (
+          <p className="max-h-48 overflow-y-auto whitespace-pre-wrap rounded-lg bg-muted/50 p-3 text-sm">
+            {body}
+          </p>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={disabled}
+            onClick={() => onRespond(approval, false)}
+          >
+            Cancel
+          </Button>
+          <Button size="sm" disabled={disabled} onClick={() => onRespond(approval, true)}>
+            {isEvent ? "Create" : "Send"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ConsentCardProps {
+  scope: string;
+  onDismiss: () => void;
+}
+
+/**
+ * Asks the user to grant a Google scope they didn't give at sign-in.
+ * Google sends them back to this page once they have.
+ */
+export function ConsentCard({ scope, onDismiss }: ConsentCardProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const copy = CONSENT_COPY[scope] ?? {
+    title: "Allow Google access",
+    description: "This needs a Google permission you haven't granted yet. Grant it, then ask again.",
+  };
+
+  const handleGrant = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await linkSocial({
+        provider: "google",
+        scopes: [scope],
+        callbackURL: window.location.href,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't open Google");
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-3 animate-message-in">
+      <div className="flex-shrink-0 pt-1">
+        <BotAvatar size="sm" />
+      </div>
+      <div className="flex w-full max-w-[75%] flex-col gap-3 rounded-2xl rounded-tl-md border bg-card p-4 shadow-sm">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <ShieldCheck className="h-4 w-4 text-primary" />
+          {copy.title}
+        </div>
+        <p className="text-xs text-muted-foreground">{copy.description}</p>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={onDismiss}>
+            Not now
+          </Button>
+          <Button size="sm" disabled={isLoading} onClick={handleGrant}>
+            Grant access
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { MessageSquare, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+interface TrashedThread {
+  id: string;
+  title: string;
+  updatedAt: string;
+  purgeAt: string;
+}
+
+interface TrashSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TrashSheet({ open, onOpenChange }: TrashSheetProps) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["trash"],
+    queryFn: async () => {
+      const res = await fetch(`${API_URL}/chat/trash`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to fetch trash");
+      return res.json() as Promise<{ threads: TrashedThread[] }>;
+    },
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["trash"] });
+    queryClient.invalidateQueries({ queryKey: ["threads"] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (threadId: string) => {
+      const res = await fetch(`${API_URL}/chat/threads/${threadId}/restore`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to restore thread");
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (threadId: string) => {
+      const res = await fetch(
+        `${API_URL}/chat/threads/${threadId}?permanent=true`,
+        { method: "DELETE", credentials: "include" }
+      );
+      if (!res.ok) throw new Error("Failed to delete thread");
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  const threads = data?.threads || [];
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="left" className="gap-0">
+        <SheetHeader className="border-b">
+          <SheetTitle>Trash</SheetTitle>
+          <SheetDescription>
+            Deleted conversations are removed for good after 30 days.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto scrollbar-thin p-2">
+          {isLoading ? (
+            <div className="space-y-2 p-2">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full rounded-lg" />
+              ))}
+            </div>
+          ) : threads.length === 0 ? (
+            <div className="flex flex-col items-center justify-center gap-2 p-8 text-center">
+              <Trash2 className="h-10 w-10 text-muted-foreground/50" />
+              <p className="text-sm text-muted-foreground">Trash is empty</p>
+            </div>
+          ) : (
+            threads.map((thread) => (
+              <div
+                key={thread.id}
+                className="flex items-center gap-3 rounded-lg p-2 hover:bg-accent transition-colors"
+              >
+                <MessageSquare className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate">{thread.title || "New Chat"}</p>
+                  <p className="text-[11px] text-muted-foreground">
+                    Deleted for good on {formatDate(thread.purgeAt)}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => restoreMutation.mutate(thread.id)}
+                  disabled={restoreMutation.isPending}
+                  className="h-8 w-8 shrink-0 text-muted-foreground hover:text-foreground"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  <span className="sr-only">Restore</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => purgeMutation.mutate(thread.id)}
+                  disabled={purgeMutation.isPending}
+                  className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Delete forever</span>
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString([], {
+    month: "short",
+    day: "numeric",
+  });
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Coins } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+
+const PERIODS = [7, 30, 90];
+
+interface UsageTotals {
+  responses: number;
+  inputTokens: number;
+  outputTokens: number;
+  embeddingTokens: number;
+  costUsd: number;
+}
+
+interface UsageSummary {
+  since: string;
+  totals: UsageTotals;
+  daily: (UsageTotals & { date: string })[];
+  weekly: (UsageTotals & { weekStart: string })[];
+  byModel: (UsageTotals & { model: string })[];
+}
+
+interface UsageSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function UsageSheet({ open, onOpenChange }: UsageSheetProps) {
+  const [days, setDays] = useState(30);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["usage", days],
+    queryFn: async () => {
+      const res = await fetch(`${API_URL}/usage?days=${days}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to fetch usage");
+      return res.json() as Promise<UsageSummary>;
+    },
+    enabled: open,
+  });
+
+  const maxDailyTokens = Math.max(
+    1,
+    ...(data?.daily.map((day) => day.inputTokens + day.outputTokens) ?? [])
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="left" className="gap-0">
+        <SheetHeader className="border-b">
+          <SheetTitle>Usage</SheetTitle>
+          <SheetDescription>
+            Tokens your conversations used and what they cost.
+          </SheetDescription>
+          <div className="flex gap-1 pt-2">
+            {PERIODS.map((period) => (
+              <Button
+                key={period}
+                size="sm"
+                variant={period === days ? "secondary" : "ghost"}
+                onClick={() => setDays(period)}
+              >
+                {period} days
+              </Button>
+            ))}
+          </div>
+        </SheetHeader>
+
+        <div className="flex-1 space-y-6 overflow-y-auto scrollbar-thin p-4">
+          {isLoading || !data ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full rounded-lg" />
+              ))}
+            </div>
+          ) : data.totals.responses === 0 ? (
+            <div className="flex flex-col items-center justify-center gap-2 p-8 text-center">
+              <Coins className="h-10 w-10 text-muted-foreground/50" />
+              <p className="text-sm text-muted-foreground">No usage in this period</p>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <Stat label="Cost" value={formatCost(data.totals.costUsd)} />
+                <Stat label="Responses" value={formatNumber(data.totals.responses)} />
+                <Stat label="Prompt tokens" value={formatNumber(data.totals.inputTokens)} />
+                <Stat label="Completion tokens" value={formatNumber(data.totals.outputTokens)} />
+                <Stat label="Embedding tokens" value={formatNumber(data.totals.embeddingTokens)} />
+              </div>
+
+              <section className="space-y-2">
+                <h3 className="text-sm font-medium">Daily tokens</h3>
+                <div className="flex h-24 items-end gap-0.5">
+                  {data.daily.map((day) => (
+                    <div
+                      key={day.date}
+                      title={`${formatDate(day.date)}: ${formatNumber(
+                        day.inputTokens + day.outputTokens
+                      )} tokens, ${formatCost(day.costUsd)}`}
+                      className="flex-1 rounded-t bg-primary/70"
+                      style={{
+                        height: `${((day.inputTokens + day.outputTokens) / maxDailyTokens) * 100}%`,
+                      }}
+                    />
+                  ))}
+                </div>
+              </section>
+
+              <UsageTable
+                title="Weekly"
+                rows={data.weekly.map((week) => ({
+                  ...week,
+                  label: `Week of ${formatDate(week.weekStart)}`,
+                }))}
+              />
+              <UsageTable
+                title="By model"
+                rows={data.byModel.map((model) => ({ ...model, label: model.model }))}
+              />
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg border p-3">
+      <p className="text-[11px] text-muted-foreground">{label}</p>
+      <p className="text-sm font-medium">{value}</p>
+    </div>
+  );
+}
+
+function UsageTable({
+  title,
+  rows,
+}: {
+  title: string;
+  rows: (UsageTotals & { label: string })[];
+}) {
+  return (
+    <section className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      <div className="divide-y rounded-lg border">
+        {rows.map((row) => (
+          <div key={row.label} className="flex items-center gap-3 px-3 py-2 text-sm">
+            <span className="flex-1 truncate">{row.label}</span>
+            <span className="text-[11px] text-muted-foreground">
+              {formatNumber(row.inputTokens + row.outputTokens)} tokens
+            </span>
+            <span className={cn("w-16 text-right", row.costUsd === 0 && "text-muted-foreground")}>
+              {formatCost(row.costUsd)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString();
+}
+
+function formatCost(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString([], {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
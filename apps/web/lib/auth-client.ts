@@ -6,4 +6,4 @@ export const authClient = createAuthClient({
   baseURL: API_URL,
 });
 
-export const { signIn, signOut, useSession } = authClient;
+export const { signIn, signOut, linkSocial, useSession } = authClient;
@@ -3,7 +3,7 @@ import postgres from "postgres";
 import * as schema from "./schema";
 
 // Re-export drizzle-orm operators for consistent usage across packages
-export { eq, and, or, sql, desc, asc } from "drizzle-orm";
+export { eq, and, or, sql, desc, asc, gte } from "drizzle-orm";
 
 const connectionString = process.env.DATABASE_URL;
 
@@ -1,4 +1,14 @@
-import { pgTable, text, timestamp, boolean } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  timestamp,
+  boolean,
+  jsonb,
+  integer,
+  doublePrecision,
+  index,
+} from "drizzle-orm/pg-core";
+import type { SharedMessage } from "../types";
 
 // Better-Auth tables
 export const user = pgTable("user", {
@@ -7,6 +17,8 @@ export const user = pgTable("user", {
   email: text("email").notNull().unique(),
   emailVerified: boolean("email_verified").notNull().default(false),
   image: text("image"),
+  // Plan tier setting the user's daily token quota
+  plan: text("plan").notNull().default("free"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -51,5 +63,69 @@ export const verification = pgTable("verification", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Assistants a user set up: a persona with its own instructions, tools,
+// default model and prompts to start a conversation with
+export const assistant = pgTable("assistant", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id),
+  name: text("name").notNull(),
+  instructions: text("instructions").notNull(),
+  tools: jsonb("tools").$type<string[]>().notNull(),
+  model: text("model"),
+  starterPrompts: jsonb("starter_prompts").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Tokens used by each agent response and what they cost, priced when the
+// response finished
+export const usageEvent = pgTable(
+  "usage_events",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id),
+    threadId: text("thread_id").notNull(),
+    traceId: text("trace_id"),
+    model: text("model").notNull(),
+    inputTokens: integer("input_tokens").notNull().default(0),
+    outputTokens: integer("output_tokens").notNull().default(0),
+    embeddingTokens: integer("embedding_tokens").notNull().default(0),
+    costUsd: doublePrecision("cost_usd").notNull().default(0),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [index("usage_events_user_created_idx").on(table.userId, table.createdAt)]
+);
+
+// Token buckets for rate limiting shared by every API instance
+export const rateLimitBucket = pgTable("rate_limit_buckets", {
+  key: text("key").primaryKey(),
+  tokens: doublePrecision("tokens").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Read-only snapshots of conversations published at a public link
+export const sharedConversation = pgTable(
+  "shared_conversations",
+  {
+    // Unguessable ID in the public URL
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id),
+    threadId: text("thread_id").notNull(),
+    title: text("title").notNull(),
+    messages: jsonb("messages").$type<SharedMessage[]>().notNull(),
+    redactToolOutputs: boolean("redact_tool_outputs").notNull().default(true),
+    expiresAt: timestamp("expires_at"),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [index("shared_conversations_thread_idx").on(table.userId, table.threadId)]
+);
+
 // Note: Mastra Memory tables (mastra_threads, mastra_messages, mastra_message_embeddings)
 // are automatically created by PostgresStore and PgVector
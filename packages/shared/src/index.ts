@@ -3,3 +3,6 @@ export * from "./db";
 
 // Re-export types
 export * from "./types";
+
+// Re-export chat stream protocol
+export * from "./stream";
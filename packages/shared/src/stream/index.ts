@@ -0,0 +1,125 @@
+// Server-sent event protocol for POST /chat/stream.
+// Every event is sent as `event: <type>` followed by the JSON-encoded event.
+
+export interface ChatUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+  reasoningTokens?: number;
+}
+
+// A tool call the agent is waiting on the user to approve or decline
+export interface ToolApprovalRequest {
+  runId: string;
+  toolCallId: string;
+  toolName: string;
+  args?: unknown;
+}
+
+// Why a response failed. The details stay in the server's logs.
+export type ChatStreamErrorCode = "model_error" | "stream_error";
+
+export type ChatStreamEvent =
+  // First of a response's events, with the ID to stop it by
+  | { type: "start"; streamId: string }
+  | { type: "text-delta"; text: string }
+  | { type: "reasoning-delta"; text: string }
+  | { type: "tool-call"; toolCallId: string; toolName: string; args?: unknown }
+  | {
+      type: "tool-result";
+      toolCallId: string;
+      toolName: string;
+      result?: unknown;
+      isError?: boolean;
+    }
+  | ({ type: "tool-approval" } & ToolApprovalRequest)
+  // A tool needs an OAuth scope the user hasn't granted yet
+  | { type: "consent-required"; toolName: string; scope: string }
+  | { type: "usage"; usage: ChatUsage }
+  | { type: "error"; code: ChatStreamErrorCode; message: string }
+  // The response was stopped, and what it generated so far is saved
+  | { type: "interrupted" }
+  | { type: "finish"; finishReason: string; traceId?: string };
+
+export type ChatStreamEventType = ChatStreamEvent["type"];
+
+const EVENT_TYPES: ReadonlySet<string> = new Set<ChatStreamEventType>([
+  "start",
+  "text-delta",
+  "reasoning-delta",
+  "tool-call",
+  "tool-result",
+  "tool-approval",
+  "consent-required",
+  "usage",
+  "error",
+  "interrupted",
+  "finish",
+]);
+
+/**
+ * Encode an event as an SSE message.
+ */
+export function encodeChatStreamEvent(event: ChatStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Incremental SSE parser. Chunks may split messages at any point; complete
+ * messages are returned as soon as their terminating blank line arrives.
+ * Messages that aren't chat stream events are skipped.
+ */
+export function createChatStreamParser() {
+  let buffer = "";
+
+  const parseMessage = (message: string): ChatStreamEvent | null => {
+    const data = message
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""))
+      .join("\n");
+    if (!data) return null;
+
+    try {
+      const event = JSON.parse(data);
+      return event && EVENT_TYPES.has(event.type) ? event : null;
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    push(chunk: string): ChatStreamEvent[] {
+      buffer += chunk.replace(/\r\n?/g, "\n");
+      const messages = buffer.split("\n\n");
+      buffer = messages.pop() ?? "";
+
+      return messages
+        .map(parseMessage)
+        .filter((event): event is ChatStreamEvent => event !== null);
+    },
+  };
+}
+
+/**
+ * Read chat stream events from a response body.
+ */
+export async function* readChatStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = createChatStreamParser();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield* parser.push(decoder.decode(value, { stream: true }));
+    }
+    // Flush a final message that wasn't followed by a blank line
+    yield* parser.push(decoder.decode() + "\n\n");
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -1,5 +1,13 @@
 import type { InferSelectModel, InferInsertModel } from "drizzle-orm";
-import type { user, session, account, verification } from "../db/schema";
+import type {
+  user,
+  session,
+  account,
+  verification,
+  assistant,
+  usageEvent,
+  sharedConversation,
+} from "../db/schema";
 
 // User types
 export type User = InferSelectModel<typeof user>;
@@ -17,6 +25,33 @@ export type NewAccount = InferInsertModel<typeof account>;
 export type Verification = InferSelectModel<typeof verification>;
 export type NewVerification = InferInsertModel<typeof verification>;
 
+// Assistant types
+export type Assistant = InferSelectModel<typeof assistant>;
+export type NewAssistant = InferInsertModel<typeof assistant>;
+
+// Usage types
+export type UsageEvent = InferSelectModel<typeof usageEvent>;
+export type NewUsageEvent = InferInsertModel<typeof usageEvent>;
+
+// Shared conversation types
+export type SharedConversation = InferSelectModel<typeof sharedConversation>;
+export type NewSharedConversation = InferInsertModel<typeof sharedConversation>;
+
+// A message as it appears in a shared snapshot
+export interface SharedMessage {
+  id: string;
+  role: "user" | "assistant";
+  text: string;
+  createdAt: string;
+  toolCalls: {
+    toolName: string;
+    completed: boolean;
+    // What the tool returned, left out when outputs are redacted
+    output?: string;
+  }[];
+  interrupted: boolean;
+}
+
 // Chat message types
 export interface ChatMessage {
   id: string;